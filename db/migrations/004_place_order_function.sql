@@ -0,0 +1,114 @@
+-- 004_place_order_function.sql
+-- Transactional order placement.
+-- Replaces the client-side sequence in App.handleCheckout (insert orders -> insert order_items
+-- -> delete carts rows one by one). Prices are read from products; the client only sends
+-- product ids and quantities, so total_amount can no longer be tampered with from the browser.
+
+-- Carts (already used by src/services/cartService.ts; created here so place_order can rely on it)
+create table if not exists public.carts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references profiles(id) on delete cascade,
+  product_id uuid references products(id) on delete cascade,
+  quantity integer not null default 1,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  unique (user_id, product_id)
+);
+
+-- p_items: [{ "product_id": "<uuid>", "quantity": 2 }, ...]
+create or replace function public.place_order(
+  p_items jsonb,
+  p_delivery_option text default 'delivery',
+  p_delivery_address text default null,
+  p_phone text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_order orders%rowtype;
+  v_subtotal integer;
+  v_delivery_fee integer := 0;
+begin
+  if v_user_id is null then
+    raise exception 'Please sign in to place your order';
+  end if;
+
+  if not exists (select 1 from profiles where id = v_user_id) then
+    raise exception 'Account setup incomplete: no user profile found';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Order must contain at least one item';
+  end if;
+
+  if p_delivery_option not in ('delivery', 'pickup') then
+    raise exception 'Invalid delivery option: %', p_delivery_option;
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) i
+    where coalesce((i->>'quantity')::int, 0) < 1
+  ) then
+    raise exception 'Item quantities must be at least 1';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) i
+    left join products p on p.id = (i->>'product_id')::uuid
+    where p.id is null
+  ) then
+    raise exception 'One or more products in your cart are no longer available';
+  end if;
+
+  -- Price every line from the products table
+  select coalesce(sum(p.price * (i->>'quantity')::int), 0)
+    into v_subtotal
+  from jsonb_array_elements(p_items) i
+  join products p on p.id = (i->>'product_id')::uuid;
+
+  if p_delivery_option = 'delivery' then
+    v_delivery_fee := 59;
+  end if;
+
+  insert into orders (user_id, total_amount, phone, date, status, payment, delivery_address, delivery_option)
+  values (
+    v_user_id,
+    v_subtotal + v_delivery_fee,
+    coalesce(p_phone, (select phone from profiles where id = v_user_id)),
+    current_date,
+    'Pending',
+    'Cash',
+    p_delivery_address,
+    p_delivery_option
+  )
+  returning * into v_order;
+
+  insert into order_items (order_id, product_id, quantity, price)
+  select v_order.id, p.id, (i->>'quantity')::int, p.price
+  from jsonb_array_elements(p_items) i
+  join products p on p.id = (i->>'product_id')::uuid;
+
+  -- Clear only the purchased cart rows
+  delete from carts
+  where user_id = v_user_id
+    and product_id in (select (i->>'product_id')::uuid from jsonb_array_elements(p_items) i);
+
+  return to_jsonb(v_order) || jsonb_build_object(
+    'delivery_fee', v_delivery_fee,
+    'order_items', coalesce(
+      (select jsonb_agg(to_jsonb(oi)) from order_items oi where oi.order_id = v_order.id),
+      '[]'::jsonb
+    )
+  );
+end;
+$$;
+
+grant execute on function public.place_order(jsonb, text, text, text) to authenticated;
+
+-- place_order is now the only way to create an order; customers can no longer insert
+-- orders (and pick their own total_amount) directly
+drop policy if exists orders_insert_customer on public.orders;
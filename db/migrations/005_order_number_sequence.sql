@@ -0,0 +1,36 @@
+-- 005_order_number_sequence.sql
+-- Server-generated order numbers: <YYMMDD>-<BRANCH>-<sequence>, e.g. 261019-JFS-00042.
+-- The number is assigned by a BEFORE INSERT trigger, so every insert path (place_order,
+-- scripts, the SQL editor) gets a unique value backed by a sequence instead of a count
+-- computed in the browser.
+
+create sequence if not exists public.order_number_seq;
+
+alter table public.orders
+  add column if not exists branch_code text not null default 'JFS';
+
+create or replace function public.fn_generate_order_number(p_branch_code text, p_date date)
+returns text
+language sql
+as $$
+  select to_char(coalesce(p_date, current_date), 'YYMMDD')
+    || '-' || upper(coalesce(nullif(p_branch_code, ''), 'JFS'))
+    || '-' || lpad(nextval('public.order_number_seq')::text, 5, '0');
+$$;
+
+create or replace function public.fn_assign_order_number() returns trigger as $$
+begin
+  -- Always server-assigned; client-supplied values are ignored
+  NEW.order_number := fn_generate_order_number(NEW.branch_code, NEW.date);
+  return NEW;
+end;
+$$ language plpgsql;
+
+drop trigger if exists trg_assign_order_number on public.orders;
+create trigger trg_assign_order_number before insert on public.orders
+  for each row execute function fn_assign_order_number();
+
+-- Backfill orders that were inserted without a number
+update public.orders
+  set order_number = fn_generate_order_number(branch_code, date)
+  where order_number is null;
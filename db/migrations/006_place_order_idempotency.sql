@@ -0,0 +1,143 @@
+-- 006_place_order_idempotency.sql
+-- Idempotent order placement for the client-side checkout outbox.
+-- The browser queues each checkout attempt with a random idempotency key and retries it
+-- until the server confirms. Replaying the same key returns the order that was already
+-- created instead of inserting a duplicate.
+
+alter table public.orders
+  add column if not exists idempotency_key text;
+
+create unique index if not exists idx_orders_user_idempotency_key
+  on public.orders(user_id, idempotency_key)
+  where idempotency_key is not null;
+
+drop function if exists public.place_order(jsonb, text, text, text);
+
+create or replace function public.place_order(
+  p_items jsonb,
+  p_delivery_option text default 'delivery',
+  p_delivery_address text default null,
+  p_phone text default null,
+  p_idempotency_key text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_order orders%rowtype;
+  v_subtotal integer;
+  v_delivery_fee integer := 0;
+begin
+  if v_user_id is null then
+    raise exception 'Please sign in to place your order';
+  end if;
+
+  -- Replayed request: return the order created by the first attempt
+  if p_idempotency_key is not null then
+    select * into v_order from orders
+      where user_id = v_user_id and idempotency_key = p_idempotency_key;
+    if found then
+      return to_jsonb(v_order) || jsonb_build_object(
+        'delivery_fee', case when v_order.delivery_option = 'delivery' then 59 else 0 end,
+        'order_items', coalesce(
+          (select jsonb_agg(to_jsonb(oi)) from order_items oi where oi.order_id = v_order.id),
+          '[]'::jsonb
+        )
+      );
+    end if;
+  end if;
+
+  if not exists (select 1 from profiles where id = v_user_id) then
+    raise exception 'Account setup incomplete: no user profile found';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Order must contain at least one item';
+  end if;
+
+  if p_delivery_option not in ('delivery', 'pickup') then
+    raise exception 'Invalid delivery option: %', p_delivery_option;
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) i
+    where coalesce((i->>'quantity')::int, 0) < 1
+  ) then
+    raise exception 'Item quantities must be at least 1';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) i
+    left join products p on p.id = (i->>'product_id')::uuid
+    where p.id is null
+  ) then
+    raise exception 'One or more products in your cart are no longer available';
+  end if;
+
+  -- Price every line from the products table
+  select coalesce(sum(p.price * (i->>'quantity')::int), 0)
+    into v_subtotal
+  from jsonb_array_elements(p_items) i
+  join products p on p.id = (i->>'product_id')::uuid;
+
+  if p_delivery_option = 'delivery' then
+    v_delivery_fee := 59;
+  end if;
+
+  insert into orders (user_id, total_amount, phone, date, status, payment, delivery_address, delivery_option, idempotency_key)
+  values (
+    v_user_id,
+    v_subtotal + v_delivery_fee,
+    coalesce(p_phone, (select phone from profiles where id = v_user_id)),
+    current_date,
+    'Pending',
+    'Cash',
+    p_delivery_address,
+    p_delivery_option,
+    p_idempotency_key
+  )
+  returning * into v_order;
+
+  insert into order_items (order_id, product_id, quantity, price)
+  select v_order.id, p.id, (i->>'quantity')::int, p.price
+  from jsonb_array_elements(p_items) i
+  join products p on p.id = (i->>'product_id')::uuid;
+
+  -- Clear only the purchased cart rows
+  delete from carts
+  where user_id = v_user_id
+    and product_id in (select (i->>'product_id')::uuid from jsonb_array_elements(p_items) i);
+
+  return to_jsonb(v_order) || jsonb_build_object(
+    'delivery_fee', v_delivery_fee,
+    'order_items', coalesce(
+      (select jsonb_agg(to_jsonb(oi)) from order_items oi where oi.order_id = v_order.id),
+      '[]'::jsonb
+    )
+  );
+exception
+  -- A concurrent attempt with the same key committed first; return its order instead of
+  -- failing a checkout that was in fact placed
+  when unique_violation then
+    if p_idempotency_key is null then
+      raise;
+    end if;
+    select * into v_order from orders
+      where user_id = v_user_id and idempotency_key = p_idempotency_key;
+    if not found then
+      raise;
+    end if;
+    return to_jsonb(v_order) || jsonb_build_object(
+      'delivery_fee', case when v_order.delivery_option = 'delivery' then 59 else 0 end,
+      'order_items', coalesce(
+        (select jsonb_agg(to_jsonb(oi)) from order_items oi where oi.order_id = v_order.id),
+        '[]'::jsonb
+      )
+    );
+end;
+$$;
+
+grant execute on function public.place_order(jsonb, text, text, text, text) to authenticated;
@@ -0,0 +1,43 @@
+-- 007_profile_roles.sql
+-- profiles.role is the only source of truth for what a user may do.
+-- Constrains the allowed values and stops users from promoting themselves: the
+-- profiles_manage_self policy lets a user update their own row, including role.
+
+-- Legacy sign ups stored 'user'
+update public.profiles set role = 'customer' where role is null or role not in ('customer', 'admin', 'driver');
+
+alter table public.profiles drop constraint if exists profiles_role_check;
+alter table public.profiles
+  add constraint profiles_role_check check (role in ('customer', 'admin', 'driver'));
+
+-- Role of the calling user; null for anonymous and service-role requests
+create or replace function public.current_user_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from profiles where id = auth.uid();
+$$;
+
+create or replace function public.fn_protect_profile_role() returns trigger as $$
+begin
+  -- Service role / SQL editor (no auth.uid()) and admins may set any role
+  if auth.uid() is null or public.current_user_role() = 'admin' then
+    return NEW;
+  end if;
+
+  if TG_OP = 'INSERT' then
+    NEW.role := 'customer';
+  elsif NEW.role is distinct from OLD.role then
+    raise exception 'Only admins can change a user''s role';
+  end if;
+
+  return NEW;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop trigger if exists trg_protect_profile_role on public.profiles;
+create trigger trg_protect_profile_role before insert or update on public.profiles
+  for each row execute function fn_protect_profile_role();
@@ -0,0 +1,84 @@
+-- 008_driver_portal.sql
+-- Lets drivers see and progress the deliveries assigned to them.
+-- Adds the picked_up step and its timestamps, the SELECT policies drivers were missing,
+-- and runs fn_on_delivery_update as definer so a driver's update can mark the order Delivered.
+
+alter table public.deliveries
+  add column if not exists picked_up_at timestamptz,
+  add column if not exists in_transit_at timestamptz;
+
+alter table public.deliveries drop constraint if exists deliveries_status_check;
+alter table public.deliveries
+  add constraint deliveries_status_check check (status in ('assigned', 'picked_up', 'in_transit', 'delivered'));
+
+-- Drivers read their own deliveries; admins read all
+drop policy if exists deliveries_select on public.deliveries;
+create policy deliveries_select on public.deliveries for select
+  using (
+    driver_id = auth.uid()::uuid or
+    exists (select 1 from profiles p where p.id = auth.uid()::uuid and p.role = 'admin')
+  );
+
+-- Drivers read the orders assigned to them (address, phone, items)
+drop policy if exists orders_select_driver on public.orders;
+create policy orders_select_driver on public.orders for select
+  using (driver_id = auth.uid()::uuid);
+
+-- Stamp each step and keep drivers moving forward only
+create or replace function public.fn_stamp_delivery_status() returns trigger as $$
+declare
+  v_steps text[] := array['assigned', 'picked_up', 'in_transit', 'delivered'];
+begin
+  NEW.updated_at := now();
+
+  if NEW.status is distinct from OLD.status then
+    if public.current_user_role() is distinct from 'admin' and auth.uid() is not null then
+      if NEW.order_id is distinct from OLD.order_id then
+        raise exception 'Drivers cannot move a delivery to another order';
+      end if;
+      if array_position(v_steps, NEW.status) <= array_position(v_steps, OLD.status) then
+        raise exception 'Delivery cannot go from % back to %', OLD.status, NEW.status;
+      end if;
+    end if;
+
+    if NEW.status = 'picked_up' and NEW.picked_up_at is null then
+      NEW.picked_up_at := now();
+    elsif NEW.status = 'in_transit' and NEW.in_transit_at is null then
+      NEW.in_transit_at := now();
+    elsif NEW.status = 'delivered' and NEW.delivered_at is null then
+      NEW.delivered_at := now();
+    end if;
+  end if;
+
+  return NEW;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop trigger if exists trg_stamp_delivery_status on public.deliveries;
+create trigger trg_stamp_delivery_status before update on public.deliveries
+  for each row execute function fn_stamp_delivery_status();
+
+-- Same behaviour as 001; drivers have no UPDATE on orders or INSERT on notifications
+create or replace function public.fn_on_delivery_update() returns trigger as $$
+begin
+  if TG_OP = 'UPDATE' then
+    if NEW.status = 'delivered' and (OLD.status is distinct from NEW.status) then
+      update orders set status = 'Delivered', driver_id = NEW.driver_id where id = NEW.order_id;
+      insert into notifications (user_id, type, payload)
+        values ((select user_id from orders where id = NEW.order_id), 'order_delivered', jsonb_build_object('order_id', NEW.order_id));
+    end if;
+  end if;
+  return NEW;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- Orders already assigned before this migration get their delivery record
+insert into public.deliveries (order_id, driver_id, status, delivered_at)
+select o.id, o.driver_id,
+       case when o.status = 'Delivered' then 'delivered' else 'assigned' end,
+       case when o.status = 'Delivered' then now() end
+from public.orders o
+where o.driver_id is not null
+  and not exists (select 1 from public.deliveries d where d.order_id = o.id);
+
+create index if not exists idx_deliveries_driver on public.deliveries(driver_id);
@@ -0,0 +1,163 @@
+-- 009_assign_driver_function.sql
+-- Assigning a driver now goes through assign_driver(), which keeps orders.driver_id, the
+-- order's deliveries row and drivers.is_available in step. Completing a delivery bumps
+-- the driver's deliveries counter.
+
+alter table public.deliveries
+  add column if not exists assigned_at timestamptz default now();
+
+update public.deliveries set assigned_at = coalesce(assigned_at, updated_at, now());
+
+-- One delivery record per order: keep the most recent if earlier code left duplicates
+delete from public.deliveries d
+using public.deliveries newer
+where d.order_id = newer.order_id
+  and d.id <> newer.id
+  and (d.updated_at, d.id) < (newer.updated_at, newer.id);
+
+drop index if exists idx_deliveries_order;
+create unique index if not exists idx_deliveries_order on public.deliveries(order_id);
+
+-- Set by the driver (or an admin) to stop taking deliveries. Kept apart from is_available
+-- so assignments and completed deliveries never undo it.
+alter table public.drivers
+  add column if not exists off_duty boolean not null default false;
+
+-- A driver is available when they are on duty and have no unfinished deliveries
+create or replace function public.fn_refresh_driver_availability(p_driver_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update drivers
+     set is_available = not off_duty and not exists (
+           select 1 from deliveries
+           where driver_id = p_driver_id and status <> 'delivered'
+         ),
+         updated_at = now()
+   where profile_id = p_driver_id;
+$$;
+
+-- Called only from assign_driver and the delivery triggers. Client roles hold their own
+-- execute grant, so they are named in the revoke; otherwise anyone could rewrite any
+-- driver's availability.
+revoke execute on function public.fn_refresh_driver_availability(uuid) from public, anon, authenticated;
+
+-- Going on or off duty recomputes is_available the same way
+create or replace function public.fn_apply_driver_off_duty() returns trigger as $$
+begin
+  NEW.is_available := not NEW.off_duty and not exists (
+    select 1 from deliveries
+    where driver_id = NEW.profile_id and status <> 'delivered'
+  );
+  return NEW;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop trigger if exists trg_apply_driver_off_duty on public.drivers;
+create trigger trg_apply_driver_off_duty
+  before update of off_duty on public.drivers
+  for each row execute function fn_apply_driver_off_duty();
+
+-- p_driver_id is the driver's profiles.id; null unassigns the order
+create or replace function public.assign_driver(
+  p_order_id uuid,
+  p_driver_id uuid
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order orders%rowtype;
+  v_delivery deliveries%rowtype;
+  v_previous_driver uuid;
+begin
+  if not exists (
+    select 1 from profiles
+    where id = auth.uid() and role = 'admin'
+  ) then
+    raise exception 'Only admins can assign drivers';
+  end if;
+
+  select * into v_order from orders where id = p_order_id for update;
+  if not found then
+    raise exception 'Order % not found', p_order_id;
+  end if;
+
+  if p_driver_id is not null and not exists (
+    select 1 from drivers where profile_id = p_driver_id and status = 'active'
+  ) then
+    raise exception 'Driver % is not an active driver', p_driver_id;
+  end if;
+
+  select * into v_delivery from deliveries where order_id = p_order_id for update;
+
+  if found and v_delivery.status = 'delivered' then
+    raise exception 'Order % has already been delivered', v_order.order_number;
+  end if;
+
+  v_previous_driver := coalesce(v_delivery.driver_id, v_order.driver_id);
+
+  update orders set driver_id = p_driver_id where id = p_order_id;
+
+  if p_driver_id is null then
+    delete from deliveries where order_id = p_order_id;
+  elsif v_delivery.id is null then
+    insert into deliveries (order_id, driver_id, status, assigned_at, updated_at)
+    values (p_order_id, p_driver_id, 'assigned', now(), now())
+    returning * into v_delivery;
+  elsif v_delivery.driver_id is distinct from p_driver_id then
+    -- Reassignment starts the delivery over with the new driver
+    update deliveries
+       set driver_id = p_driver_id,
+           status = 'assigned',
+           assigned_at = now(),
+           picked_up_at = null,
+           in_transit_at = null
+     where id = v_delivery.id
+    returning * into v_delivery;
+  end if;
+
+  if v_previous_driver is not null and v_previous_driver is distinct from p_driver_id then
+    perform fn_refresh_driver_availability(v_previous_driver);
+  end if;
+  if p_driver_id is not null then
+    perform fn_refresh_driver_availability(p_driver_id);
+  end if;
+
+  return jsonb_build_object(
+    'order_id', p_order_id,
+    'driver_id', p_driver_id,
+    'delivery', case when p_driver_id is null then null else to_jsonb(v_delivery) end
+  );
+end;
+$$;
+
+grant execute on function public.assign_driver(uuid, uuid) to authenticated;
+
+-- 008 behaviour plus the driver's workload: count the delivery and free the driver
+create or replace function public.fn_on_delivery_update() returns trigger as $$
+begin
+  if TG_OP = 'UPDATE' then
+    if NEW.status = 'delivered' and (OLD.status is distinct from NEW.status) then
+      update orders set status = 'Delivered', driver_id = NEW.driver_id where id = NEW.order_id;
+      insert into notifications (user_id, type, payload)
+        values ((select user_id from orders where id = NEW.order_id), 'order_delivered', jsonb_build_object('order_id', NEW.order_id));
+
+      update drivers set deliveries = coalesce(deliveries, 0) + 1 where profile_id = NEW.driver_id;
+      perform fn_refresh_driver_availability(NEW.driver_id);
+    end if;
+  end if;
+  return NEW;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- Bring counters in line with deliveries completed before this migration
+update public.drivers dr
+   set deliveries = (
+     select count(*) from public.deliveries d
+     where d.driver_id = dr.profile_id and d.status = 'delivered'
+   );
@@ -0,0 +1,182 @@
+-- 010_order_status_machine.sql
+-- Order status is a state machine enforced by the database:
+--   Pending -> Confirmed -> Preparing -> Ready -> Out for Delivery -> Delivered  (delivery)
+--                                              -> Picked Up                    (pickup)
+--   Pending/Confirmed/Preparing/Ready -> Cancelled
+--   Delivered/Picked Up/Cancelled -> Refunded
+-- Every change is recorded in order_status_history with who made it and an optional note.
+
+alter table public.orders drop constraint if exists orders_status_check;
+alter table public.orders
+  add constraint orders_status_check check (status in (
+    'Pending', 'Confirmed', 'Preparing', 'Ready', 'Out for Delivery', 'Picked Up',
+    'Delivered', 'Cancelled', 'Refunded'
+  )) not valid;
+
+create table if not exists public.order_status_history (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null references public.orders(id) on delete cascade,
+  from_status text,
+  to_status text not null,
+  changed_by uuid references public.profiles(id) on delete set null,
+  -- Role at the time of the change, so customers can see who acted without reading profiles
+  actor_role text,
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_order_status_history_order on public.order_status_history(order_id, created_at);
+
+alter table public.order_status_history enable row level security;
+
+-- Readable by whoever can see the order; written only by the trigger below
+drop policy if exists order_status_history_select on public.order_status_history;
+create policy order_status_history_select on public.order_status_history for select
+  using (
+    exists (
+      select 1 from orders o
+      where o.id = order_id
+        and (o.user_id = auth.uid()::uuid or o.driver_id = auth.uid()::uuid)
+    ) or
+    exists (select 1 from profiles p where p.id = auth.uid()::uuid and p.role = 'admin')
+  );
+
+-- Allowed next statuses for an order
+create or replace function public.fn_order_status_transitions(p_status text, p_delivery_option text)
+returns text[]
+language sql
+immutable
+as $$
+  select case p_status
+    when 'Pending' then array['Confirmed', 'Cancelled']
+    when 'Confirmed' then array['Preparing', 'Cancelled']
+    when 'Preparing' then array['Ready', 'Cancelled']
+    when 'Ready' then
+      case when p_delivery_option = 'pickup'
+        then array['Picked Up', 'Cancelled']
+        else array['Out for Delivery', 'Cancelled']
+      end
+    when 'Out for Delivery' then array['Delivered']
+    when 'Picked Up' then array['Refunded']
+    when 'Delivered' then array['Refunded']
+    when 'Cancelled' then array['Refunded']
+    else array[]::text[]
+  end;
+$$;
+
+create or replace function public.fn_enforce_order_status() returns trigger as $$
+begin
+  if TG_OP = 'INSERT' then
+    if NEW.status is distinct from 'Pending' then
+      raise exception 'New orders must start as Pending, not %', NEW.status;
+    end if;
+    return NEW;
+  end if;
+
+  if NEW.status is distinct from OLD.status
+     and not (NEW.status = any(fn_order_status_transitions(OLD.status, OLD.delivery_option))) then
+    raise exception 'Order % cannot go from % to %', OLD.order_number, OLD.status, NEW.status;
+  end if;
+
+  return NEW;
+end;
+$$ language plpgsql;
+
+drop trigger if exists trg_enforce_order_status on public.orders;
+create trigger trg_enforce_order_status before insert or update of status on public.orders
+  for each row execute function fn_enforce_order_status();
+
+-- The note comes from update_order_status() through a transaction-local setting
+create or replace function public.fn_record_order_status() returns trigger as $$
+begin
+  if TG_OP = 'INSERT' or NEW.status is distinct from OLD.status then
+    insert into order_status_history (order_id, from_status, to_status, changed_by, actor_role, note)
+    values (
+      NEW.id,
+      case when TG_OP = 'UPDATE' then OLD.status end,
+      NEW.status,
+      auth.uid(),
+      current_user_role(),
+      nullif(current_setting('app.order_status_note', true), '')
+    );
+  end if;
+  return NEW;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop trigger if exists trg_record_order_status on public.orders;
+create trigger trg_record_order_status after insert or update of status on public.orders
+  for each row execute function fn_record_order_status();
+
+-- Orders placed before this migration start their timeline at their current status
+insert into public.order_status_history (order_id, from_status, to_status, changed_by, note, created_at)
+select o.id, null, o.status, null, 'Recorded when status history was introduced', coalesce(o.created_at, now())
+from public.orders o
+where not exists (select 1 from public.order_status_history h where h.order_id = o.id);
+
+-- Admin status changes, with an optional note for the timeline
+create or replace function public.update_order_status(
+  p_order_id uuid,
+  p_status text,
+  p_note text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order orders%rowtype;
+begin
+  if not exists (
+    select 1 from profiles
+    where id = auth.uid() and role = 'admin'
+  ) then
+    raise exception 'Only admins can change order status';
+  end if;
+
+  perform set_config('app.order_status_note', coalesce(p_note, ''), true);
+
+  update orders set status = p_status where id = p_order_id
+  returning * into v_order;
+
+  if not found then
+    raise exception 'Order % not found', p_order_id;
+  end if;
+
+  perform set_config('app.order_status_note', '', true);
+
+  return to_jsonb(v_order);
+end;
+$$;
+
+grant execute on function public.update_order_status(uuid, text, text) to authenticated;
+
+-- Driver progress moves the order along the same machine
+create or replace function public.fn_on_delivery_update() returns trigger as $$
+declare
+  v_status text;
+begin
+  if TG_OP = 'UPDATE' and NEW.status is distinct from OLD.status then
+    select status into v_status from orders where id = NEW.order_id for update;
+
+    if NEW.status in ('picked_up', 'in_transit') and v_status not in ('Ready', 'Out for Delivery') then
+      raise exception 'Order is % and not ready for delivery yet', v_status;
+    end if;
+
+    if NEW.status in ('in_transit', 'delivered') and v_status = 'Ready' then
+      update orders set status = 'Out for Delivery' where id = NEW.order_id;
+    end if;
+
+    if NEW.status = 'delivered' then
+      update orders set status = 'Delivered', driver_id = NEW.driver_id where id = NEW.order_id;
+      insert into notifications (user_id, type, payload)
+        values ((select user_id from orders where id = NEW.order_id), 'order_delivered', jsonb_build_object('order_id', NEW.order_id));
+
+      update drivers set deliveries = coalesce(deliveries, 0) + 1 where profile_id = NEW.driver_id;
+      perform fn_refresh_driver_availability(NEW.driver_id);
+    end if;
+  end if;
+  return NEW;
+end;
+$$ language plpgsql security definer set search_path = public;
@@ -0,0 +1,173 @@
+-- 011_customer_order_changes.sql
+-- Customers can cancel an order, or change its address, pickup time and special
+-- instructions, until the shop starts working on it. The cutoff is configured in
+-- shop_settings; cancellations are stamped on the order so admins can see who cancelled.
+
+alter table public.orders
+  add column if not exists special_instructions text,
+  add column if not exists pickup_time timestamptz,
+  add column if not exists modified_at timestamptz,
+  add column if not exists cancelled_at timestamptz,
+  add column if not exists cancelled_by text, -- customer | admin
+  add column if not exists cancellation_reason text;
+
+-- Single-row shop configuration
+create table if not exists public.shop_settings (
+  id boolean primary key default true check (id),
+  -- Customer changes are blocked from this status onwards
+  order_changes_locked_from text not null default 'Preparing'
+    check (order_changes_locked_from in ('Confirmed', 'Preparing')),
+  -- Optional limit on how long after placing an order it can still be changed
+  order_change_window_minutes integer check (order_change_window_minutes is null or order_change_window_minutes > 0),
+  updated_at timestamptz default now()
+);
+
+insert into public.shop_settings (id) values (true) on conflict (id) do nothing;
+
+alter table public.shop_settings enable row level security;
+
+drop policy if exists shop_settings_read on public.shop_settings;
+create policy shop_settings_read on public.shop_settings for select using (true);
+
+drop policy if exists shop_settings_admin on public.shop_settings;
+create policy shop_settings_admin on public.shop_settings for update
+  using (exists (select 1 from profiles p where p.id = auth.uid()::uuid and p.role = 'admin'))
+  with check (exists (select 1 from profiles p where p.id = auth.uid()::uuid and p.role = 'admin'));
+
+-- Whether the customer may still cancel or modify this order
+create or replace function public.fn_order_changes_allowed(p_order orders)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select
+    case s.order_changes_locked_from
+      when 'Confirmed' then p_order.status = 'Pending'
+      else p_order.status in ('Pending', 'Confirmed')
+    end
+    and (
+      s.order_change_window_minutes is null
+      or coalesce(p_order.created_at, now()) + make_interval(mins => s.order_change_window_minutes) > now()
+    )
+  from shop_settings s
+  where s.id;
+$$;
+
+-- Record who cancelled and why, whichever path cancelled the order
+create or replace function public.fn_stamp_order_cancellation() returns trigger as $$
+begin
+  if NEW.status = 'Cancelled' and OLD.status is distinct from 'Cancelled' then
+    NEW.cancelled_at := now();
+    NEW.cancelled_by := coalesce(NEW.cancelled_by, case when current_user_role() = 'customer' then 'customer' else 'admin' end);
+    NEW.cancellation_reason := coalesce(NEW.cancellation_reason, nullif(current_setting('app.order_status_note', true), ''));
+  end if;
+  return NEW;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop trigger if exists trg_stamp_order_cancellation on public.orders;
+create trigger trg_stamp_order_cancellation before update of status on public.orders
+  for each row execute function fn_stamp_order_cancellation();
+
+-- A cancelled order no longer needs its driver
+create or replace function public.fn_release_cancelled_delivery() returns trigger as $$
+declare
+  v_driver uuid;
+begin
+  if NEW.status = 'Cancelled' and OLD.status is distinct from 'Cancelled' then
+    delete from deliveries where order_id = NEW.id and status <> 'delivered'
+    returning driver_id into v_driver;
+    if v_driver is not null then
+      perform fn_refresh_driver_availability(v_driver);
+    end if;
+  end if;
+  return NEW;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop trigger if exists trg_release_cancelled_delivery on public.orders;
+create trigger trg_release_cancelled_delivery after update of status on public.orders
+  for each row execute function fn_release_cancelled_delivery();
+
+create or replace function public.cancel_order(
+  p_order_id uuid,
+  p_reason text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order orders%rowtype;
+begin
+  select * into v_order from orders where id = p_order_id and user_id = auth.uid() for update;
+  if not found then
+    raise exception 'Order % not found', p_order_id;
+  end if;
+
+  if not fn_order_changes_allowed(v_order) then
+    raise exception 'Order % can no longer be cancelled online. Please contact the shop.', v_order.order_number;
+  end if;
+
+  perform set_config('app.order_status_note', coalesce(trim(p_reason), ''), true);
+
+  update orders
+     set status = 'Cancelled',
+         cancelled_by = 'customer',
+         cancellation_reason = nullif(trim(p_reason), '')
+   where id = p_order_id
+  returning * into v_order;
+
+  perform set_config('app.order_status_note', '', true);
+
+  return to_jsonb(v_order);
+end;
+$$;
+
+create or replace function public.modify_order(
+  p_order_id uuid,
+  p_delivery_address text,
+  p_pickup_time timestamptz,
+  p_special_instructions text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order orders%rowtype;
+begin
+  select * into v_order from orders where id = p_order_id and user_id = auth.uid() for update;
+  if not found then
+    raise exception 'Order % not found', p_order_id;
+  end if;
+
+  if not fn_order_changes_allowed(v_order) then
+    raise exception 'Order % can no longer be changed online. Please contact the shop.', v_order.order_number;
+  end if;
+
+  if v_order.delivery_option = 'delivery' and coalesce(trim(p_delivery_address), '') = '' then
+    raise exception 'A delivery address is required';
+  end if;
+
+  if p_pickup_time is not null and p_pickup_time < now() then
+    raise exception 'Pickup time must be in the future';
+  end if;
+
+  update orders
+     set delivery_address = case when delivery_option = 'delivery' then trim(p_delivery_address) else delivery_address end,
+         pickup_time = p_pickup_time,
+         special_instructions = nullif(trim(p_special_instructions), ''),
+         modified_at = now()
+   where id = p_order_id
+  returning * into v_order;
+
+  return to_jsonb(v_order);
+end;
+$$;
+
+grant execute on function public.cancel_order(uuid, text) to authenticated;
+grant execute on function public.modify_order(uuid, text, timestamptz, text) to authenticated;
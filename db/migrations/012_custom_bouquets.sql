@@ -0,0 +1,302 @@
+-- 012_custom_bouquets.sql
+-- Custom bouquets from the builder are saved as custom_bouquets rows (size, color and
+-- stems per flower type, priced by the server) and referenced from carts and
+-- order_items in place of a product.
+
+create table if not exists public.custom_bouquets (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  size text not null check (size in ('small', 'medium', 'large')),
+  color_id uuid references public.bouquet_colors(id) on delete set null,
+  -- Snapshot so the recipe still reads correctly if the color or flower is later removed
+  color_name text not null,
+  color_hex text,
+  flowers jsonb not null, -- [{ "flower_type_id", "name", "count" }]
+  image text,
+  price integer not null,
+  created_at timestamptz default now()
+);
+
+create index if not exists idx_custom_bouquets_user on public.custom_bouquets(user_id);
+
+alter table public.custom_bouquets enable row level security;
+
+-- Cart and order lines reference either a product or a custom bouquet
+alter table public.carts
+  alter column product_id drop not null,
+  add column if not exists custom_bouquet_id uuid references public.custom_bouquets(id) on delete cascade;
+
+alter table public.carts drop constraint if exists carts_line_check;
+alter table public.carts
+  add constraint carts_line_check check ((product_id is null) <> (custom_bouquet_id is null));
+
+create unique index if not exists idx_carts_user_custom_bouquet
+  on public.carts(user_id, custom_bouquet_id)
+  where custom_bouquet_id is not null;
+
+alter table public.order_items
+  alter column product_id drop not null,
+  add column if not exists custom_bouquet_id uuid references public.custom_bouquets(id);
+
+alter table public.order_items drop constraint if exists order_items_line_check;
+alter table public.order_items
+  add constraint order_items_line_check check ((product_id is null) <> (custom_bouquet_id is null)) not valid;
+
+-- Owners and admins read them; drivers read the ones in orders they deliver
+drop policy if exists custom_bouquets_select on public.custom_bouquets;
+create policy custom_bouquets_select on public.custom_bouquets for select
+  using (
+    user_id = auth.uid()::uuid or
+    exists (select 1 from profiles p where p.id = auth.uid()::uuid and p.role = 'admin') or
+    exists (
+      select 1 from order_items oi join orders o on o.id = oi.order_id
+      where oi.custom_bouquet_id = custom_bouquets.id and o.driver_id = auth.uid()::uuid
+    )
+  );
+
+-- Base price and stem limit per size, as shown in the bouquet builder
+create or replace function public.fn_custom_bouquet_size(p_size text, out max_stems integer, out price integer)
+language sql
+immutable
+as $$
+  select s.max_stems, s.price from (values
+    ('small', 2, 250),
+    ('medium', 6, 600),
+    ('large', 12, 1200)
+  ) as s(size, max_stems, price)
+  where s.size = p_size;
+$$;
+
+-- Validate and price a bouquet from the builder. p_flowers: [{ "flower_type_id", "count" }]
+create or replace function public.create_custom_bouquet(
+  p_size text,
+  p_color_id uuid,
+  p_flowers jsonb
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_max_stems integer;
+  v_price integer;
+  v_stems integer;
+  v_color bouquet_colors%rowtype;
+  v_flowers jsonb;
+  v_bouquet custom_bouquets%rowtype;
+begin
+  if v_user_id is null then
+    raise exception 'Please sign in to create a custom bouquet';
+  end if;
+
+  select s.max_stems, s.price into v_max_stems, v_price from fn_custom_bouquet_size(p_size) s;
+  if v_max_stems is null then
+    raise exception 'Invalid bouquet size: %', p_size;
+  end if;
+
+  select * into v_color from bouquet_colors where id = p_color_id;
+  if not found then
+    raise exception 'Please choose a color theme';
+  end if;
+
+  if p_flowers is null or jsonb_typeof(p_flowers) <> 'array' or jsonb_array_length(p_flowers) = 0 then
+    raise exception 'Please add at least one stem';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_flowers) f
+    where coalesce((f->>'count')::int, 0) < 1
+  ) then
+    raise exception 'Stem counts must be at least 1';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_flowers) f
+    left join flower_types ft on ft.id = (f->>'flower_type_id')::uuid
+    where ft.id is null or ft.available is not true
+  ) then
+    raise exception 'One or more flowers are no longer available';
+  end if;
+
+  select sum((f->>'count')::int) into v_stems from jsonb_array_elements(p_flowers) f;
+  if v_stems > v_max_stems then
+    raise exception 'A % bouquet holds at most % stems', p_size, v_max_stems;
+  end if;
+
+  select jsonb_agg(jsonb_build_object(
+           'flower_type_id', ft.id,
+           'name', ft.name,
+           'count', (f.value->>'count')::int
+         ) order by f.ordinality)
+    into v_flowers
+  from jsonb_array_elements(p_flowers) with ordinality f
+  join flower_types ft on ft.id = (f.value->>'flower_type_id')::uuid;
+
+  insert into custom_bouquets (user_id, size, color_id, color_name, color_hex, flowers, image, price)
+  values (
+    v_user_id,
+    p_size,
+    v_color.id,
+    v_color.name,
+    v_color.hex_code,
+    v_flowers,
+    (select ft.image from flower_types ft where ft.id = (p_flowers->0->>'flower_type_id')::uuid),
+    v_price
+  )
+  returning * into v_bouquet;
+
+  return to_jsonb(v_bouquet);
+end;
+$$;
+
+grant execute on function public.create_custom_bouquet(text, uuid, jsonb) to authenticated;
+
+-- place_order from 006, now accepting { "custom_bouquet_id", "quantity" } lines
+create or replace function public.place_order(
+  p_items jsonb,
+  p_delivery_option text default 'delivery',
+  p_delivery_address text default null,
+  p_phone text default null,
+  p_idempotency_key text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_order orders%rowtype;
+  v_subtotal integer;
+  v_delivery_fee integer := 0;
+begin
+  if v_user_id is null then
+    raise exception 'Please sign in to place your order';
+  end if;
+
+  -- Replayed request: return the order created by the first attempt
+  if p_idempotency_key is not null then
+    select * into v_order from orders
+      where user_id = v_user_id and idempotency_key = p_idempotency_key;
+    if found then
+      return to_jsonb(v_order) || jsonb_build_object(
+        'delivery_fee', case when v_order.delivery_option = 'delivery' then 59 else 0 end,
+        'order_items', coalesce(
+          (select jsonb_agg(to_jsonb(oi)) from order_items oi where oi.order_id = v_order.id),
+          '[]'::jsonb
+        )
+      );
+    end if;
+  end if;
+
+  if not exists (select 1 from profiles where id = v_user_id) then
+    raise exception 'Account setup incomplete: no user profile found';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Order must contain at least one item';
+  end if;
+
+  if p_delivery_option not in ('delivery', 'pickup') then
+    raise exception 'Invalid delivery option: %', p_delivery_option;
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) i
+    where coalesce((i->>'quantity')::int, 0) < 1
+  ) then
+    raise exception 'Item quantities must be at least 1';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) i
+    left join products p on p.id = (i->>'product_id')::uuid
+    where i ? 'product_id' and p.id is null
+  ) then
+    raise exception 'One or more products in your cart are no longer available';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) i
+    left join custom_bouquets cb on cb.id = (i->>'custom_bouquet_id')::uuid and cb.user_id = v_user_id
+    where i ? 'custom_bouquet_id' and cb.id is null
+  ) then
+    raise exception 'One or more custom bouquets in your cart could not be found';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) i
+    where not (i ? 'product_id') and not (i ? 'custom_bouquet_id')
+  ) then
+    raise exception 'Every order line needs a product or a custom bouquet';
+  end if;
+
+  -- Price every line from the products and custom_bouquets tables
+  select coalesce(sum(coalesce(p.price, cb.price) * (i->>'quantity')::int), 0)
+    into v_subtotal
+  from jsonb_array_elements(p_items) i
+  left join products p on p.id = (i->>'product_id')::uuid
+  left join custom_bouquets cb on cb.id = (i->>'custom_bouquet_id')::uuid;
+
+  if p_delivery_option = 'delivery' then
+    v_delivery_fee := 59;
+  end if;
+
+  insert into orders (user_id, total_amount, phone, date, status, payment, delivery_address, delivery_option, idempotency_key)
+  values (
+    v_user_id,
+    v_subtotal + v_delivery_fee,
+    coalesce(p_phone, (select phone from profiles where id = v_user_id)),
+    current_date,
+    'Pending',
+    'Cash',
+    p_delivery_address,
+    p_delivery_option,
+    p_idempotency_key
+  )
+  returning * into v_order;
+
+  insert into order_items (order_id, product_id, custom_bouquet_id, quantity, price)
+  select v_order.id, p.id, cb.id, (i->>'quantity')::int, coalesce(p.price, cb.price)
+  from jsonb_array_elements(p_items) i
+  left join products p on p.id = (i->>'product_id')::uuid
+  left join custom_bouquets cb on cb.id = (i->>'custom_bouquet_id')::uuid;
+
+  -- Clear only the purchased cart rows
+  delete from carts
+  where user_id = v_user_id
+    and (
+      product_id in (select (i->>'product_id')::uuid from jsonb_array_elements(p_items) i where i ? 'product_id')
+      or custom_bouquet_id in (select (i->>'custom_bouquet_id')::uuid from jsonb_array_elements(p_items) i where i ? 'custom_bouquet_id')
+    );
+
+  return to_jsonb(v_order) || jsonb_build_object(
+    'delivery_fee', v_delivery_fee,
+    'order_items', coalesce(
+      (select jsonb_agg(to_jsonb(oi)) from order_items oi where oi.order_id = v_order.id),
+      '[]'::jsonb
+    )
+  );
+exception
+  -- A concurrent attempt with the same key committed first; return its order instead of
+  -- failing a checkout that was in fact placed
+  when unique_violation then
+    if p_idempotency_key is null then
+      raise;
+    end if;
+    select * into v_order from orders
+      where user_id = v_user_id and idempotency_key = p_idempotency_key;
+    if not found then
+      raise;
+    end if;
+    return to_jsonb(v_order) || jsonb_build_object(
+      'delivery_fee', case when v_order.delivery_option = 'delivery' then 59 else 0 end,
+      'order_items', coalesce(
+        (select jsonb_agg(to_jsonb(oi)) from order_items oi where oi.order_id = v_order.id),
+        '[]'::jsonb
+      )
+    );
+end;
+$$;
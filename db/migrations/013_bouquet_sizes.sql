@@ -0,0 +1,347 @@
+-- 013_bouquet_sizes.sql
+-- Bouquet sizes move from the builder into a bouquet_sizes table managed by admins, and
+-- each flower type gets a per-stem surcharge. A custom bouquet is priced as
+-- base price + stem surcharges + wrapping fee, by fn_quote_custom_bouquet, both when it
+-- is saved and again when it is checked out.
+
+create table if not exists public.bouquet_sizes (
+  id uuid primary key default gen_random_uuid(),
+  code text not null unique, -- stored on custom_bouquets.size
+  name text not null,
+  description text,
+  emoji text,
+  max_stems integer not null check (max_stems > 0),
+  base_price integer not null default 0 check (base_price >= 0),
+  wrapping_fee integer not null default 0 check (wrapping_fee >= 0),
+  sort_order integer not null default 0,
+  active boolean not null default true,
+  created_at timestamptz default now()
+);
+
+-- Same totals as the sizes previously hard-coded in the builder
+insert into public.bouquet_sizes (code, name, description, emoji, max_stems, base_price, wrapping_fee, sort_order)
+values
+  ('small', 'Small', 'Perfect intimate gesture with 1-2 stems', '🌸', 2, 200, 50, 1),
+  ('medium', 'Medium', 'Beautiful arrangement with 6 stems', '💐', 6, 520, 80, 2),
+  ('large', 'Large', 'Stunning display with 12 stems', '🌹', 12, 1050, 150, 3)
+on conflict (code) do nothing;
+
+alter table public.bouquet_sizes enable row level security;
+
+drop policy if exists bouquet_sizes_read on public.bouquet_sizes;
+create policy bouquet_sizes_read on public.bouquet_sizes for select using (true);
+
+drop policy if exists bouquet_sizes_admin on public.bouquet_sizes;
+create policy bouquet_sizes_admin on public.bouquet_sizes for all
+  using (exists (select 1 from profiles p where p.id = auth.uid()::uuid and p.role = 'admin'))
+  with check (exists (select 1 from profiles p where p.id = auth.uid()::uuid and p.role = 'admin'));
+
+-- Added to the price for every stem of this flower
+alter table public.flower_types
+  add column if not exists surcharge integer not null default 0 check (surcharge >= 0);
+
+-- Sizes are no longer a fixed list; keep the size name and price breakdown as a snapshot
+alter table public.custom_bouquets drop constraint if exists custom_bouquets_size_check;
+alter table public.custom_bouquets
+  add column if not exists size_name text,
+  add column if not exists base_price integer,
+  add column if not exists stems_price integer not null default 0,
+  add column if not exists wrapping_fee integer not null default 0;
+
+update public.custom_bouquets
+  set size_name = coalesce(size_name, initcap(size)),
+      base_price = coalesce(base_price, price);
+
+drop function if exists public.fn_custom_bouquet_size(text);
+
+-- Validate a recipe against the current sizes and flowers and price it.
+-- p_flowers: [{ "flower_type_id", "count" }]. Returns the size, the breakdown and the
+-- flowers with their names and surcharges.
+create or replace function public.fn_quote_custom_bouquet(p_size text, p_flowers jsonb)
+returns jsonb
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_size bouquet_sizes%rowtype;
+  v_stems integer;
+  v_stems_price integer;
+  v_flowers jsonb;
+begin
+  select * into v_size from bouquet_sizes where code = p_size and active;
+  if not found then
+    raise exception 'The % bouquet size is no longer available', coalesce(p_size, 'selected');
+  end if;
+
+  if p_flowers is null or jsonb_typeof(p_flowers) <> 'array' or jsonb_array_length(p_flowers) = 0 then
+    raise exception 'Please add at least one stem';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_flowers) f
+    where coalesce((f->>'count')::int, 0) < 1
+  ) then
+    raise exception 'Stem counts must be at least 1';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_flowers) f
+    left join flower_types ft on ft.id = (f->>'flower_type_id')::uuid
+    where ft.id is null or ft.available is not true
+  ) then
+    raise exception 'One or more flowers are no longer available';
+  end if;
+
+  select sum((f->>'count')::int) into v_stems from jsonb_array_elements(p_flowers) f;
+  if v_stems > v_size.max_stems then
+    raise exception 'A % bouquet holds at most % stems', v_size.name, v_size.max_stems;
+  end if;
+
+  select
+    jsonb_agg(jsonb_build_object(
+      'flower_type_id', ft.id,
+      'name', ft.name,
+      'count', (f.value->>'count')::int,
+      'surcharge', ft.surcharge
+    ) order by f.ordinality),
+    sum(ft.surcharge * (f.value->>'count')::int)
+    into v_flowers, v_stems_price
+  from jsonb_array_elements(p_flowers) with ordinality f
+  join flower_types ft on ft.id = (f.value->>'flower_type_id')::uuid;
+
+  return jsonb_build_object(
+    'size', v_size.code,
+    'size_name', v_size.name,
+    'base_price', v_size.base_price,
+    'stems_price', v_stems_price,
+    'wrapping_fee', v_size.wrapping_fee,
+    'price', v_size.base_price + v_stems_price + v_size.wrapping_fee,
+    'flowers', v_flowers
+  );
+end;
+$$;
+
+-- create_custom_bouquet from 012, priced by fn_quote_custom_bouquet
+create or replace function public.create_custom_bouquet(
+  p_size text,
+  p_color_id uuid,
+  p_flowers jsonb
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_color bouquet_colors%rowtype;
+  v_quote jsonb;
+  v_bouquet custom_bouquets%rowtype;
+begin
+  if v_user_id is null then
+    raise exception 'Please sign in to create a custom bouquet';
+  end if;
+
+  select * into v_color from bouquet_colors where id = p_color_id;
+  if not found then
+    raise exception 'Please choose a color theme';
+  end if;
+
+  v_quote := fn_quote_custom_bouquet(p_size, p_flowers);
+
+  insert into custom_bouquets (
+    user_id, size, size_name, color_id, color_name, color_hex, flowers, image,
+    base_price, stems_price, wrapping_fee, price
+  )
+  values (
+    v_user_id,
+    v_quote->>'size',
+    v_quote->>'size_name',
+    v_color.id,
+    v_color.name,
+    v_color.hex_code,
+    v_quote->'flowers',
+    (select ft.image from flower_types ft where ft.id = (p_flowers->0->>'flower_type_id')::uuid),
+    (v_quote->>'base_price')::int,
+    (v_quote->>'stems_price')::int,
+    (v_quote->>'wrapping_fee')::int,
+    (v_quote->>'price')::int
+  )
+  returning * into v_bouquet;
+
+  return to_jsonb(v_bouquet);
+end;
+$$;
+
+grant execute on function public.create_custom_bouquet(text, uuid, jsonb) to authenticated;
+
+-- place_order from 012. Custom bouquets are re-quoted at checkout so a bouquet saved
+-- before a price or availability change is charged (or rejected) by the current rules.
+create or replace function public.place_order(
+  p_items jsonb,
+  p_delivery_option text default 'delivery',
+  p_delivery_address text default null,
+  p_phone text default null,
+  p_idempotency_key text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_order orders%rowtype;
+  v_subtotal integer;
+  v_delivery_fee integer := 0;
+  v_bouquet record;
+  v_quote jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Please sign in to place your order';
+  end if;
+
+  -- Replayed request: return the order created by the first attempt
+  if p_idempotency_key is not null then
+    select * into v_order from orders
+      where user_id = v_user_id and idempotency_key = p_idempotency_key;
+    if found then
+      return to_jsonb(v_order) || jsonb_build_object(
+        'delivery_fee', case when v_order.delivery_option = 'delivery' then 59 else 0 end,
+        'order_items', coalesce(
+          (select jsonb_agg(to_jsonb(oi)) from order_items oi where oi.order_id = v_order.id),
+          '[]'::jsonb
+        )
+      );
+    end if;
+  end if;
+
+  if not exists (select 1 from profiles where id = v_user_id) then
+    raise exception 'Account setup incomplete: no user profile found';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Order must contain at least one item';
+  end if;
+
+  if p_delivery_option not in ('delivery', 'pickup') then
+    raise exception 'Invalid delivery option: %', p_delivery_option;
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) i
+    where coalesce((i->>'quantity')::int, 0) < 1
+  ) then
+    raise exception 'Item quantities must be at least 1';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) i
+    left join products p on p.id = (i->>'product_id')::uuid
+    where i ? 'product_id' and p.id is null
+  ) then
+    raise exception 'One or more products in your cart are no longer available';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) i
+    left join custom_bouquets cb on cb.id = (i->>'custom_bouquet_id')::uuid and cb.user_id = v_user_id
+    where i ? 'custom_bouquet_id' and cb.id is null
+  ) then
+    raise exception 'One or more custom bouquets in your cart could not be found';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) i
+    where not (i ? 'product_id') and not (i ? 'custom_bouquet_id')
+  ) then
+    raise exception 'Every order line needs a product or a custom bouquet';
+  end if;
+
+  -- Re-validate and re-price custom bouquets against the current sizes and flowers
+  for v_bouquet in
+    select cb.id, cb.size, cb.flowers from custom_bouquets cb
+    where cb.id in (
+      select (i->>'custom_bouquet_id')::uuid from jsonb_array_elements(p_items) i
+      where i ? 'custom_bouquet_id'
+    )
+  loop
+    v_quote := fn_quote_custom_bouquet(v_bouquet.size, v_bouquet.flowers);
+    update custom_bouquets
+      set size_name = v_quote->>'size_name',
+          flowers = v_quote->'flowers',
+          base_price = (v_quote->>'base_price')::int,
+          stems_price = (v_quote->>'stems_price')::int,
+          wrapping_fee = (v_quote->>'wrapping_fee')::int,
+          price = (v_quote->>'price')::int
+      where id = v_bouquet.id;
+  end loop;
+
+  -- Price every line from the products and custom_bouquets tables
+  select coalesce(sum(coalesce(p.price, cb.price) * (i->>'quantity')::int), 0)
+    into v_subtotal
+  from jsonb_array_elements(p_items) i
+  left join products p on p.id = (i->>'product_id')::uuid
+  left join custom_bouquets cb on cb.id = (i->>'custom_bouquet_id')::uuid;
+
+  if p_delivery_option = 'delivery' then
+    v_delivery_fee := 59;
+  end if;
+
+  insert into orders (user_id, total_amount, phone, date, status, payment, delivery_address, delivery_option, idempotency_key)
+  values (
+    v_user_id,
+    v_subtotal + v_delivery_fee,
+    coalesce(p_phone, (select phone from profiles where id = v_user_id)),
+    current_date,
+    'Pending',
+    'Cash',
+    p_delivery_address,
+    p_delivery_option,
+    p_idempotency_key
+  )
+  returning * into v_order;
+
+  insert into order_items (order_id, product_id, custom_bouquet_id, quantity, price)
+  select v_order.id, p.id, cb.id, (i->>'quantity')::int, coalesce(p.price, cb.price)
+  from jsonb_array_elements(p_items) i
+  left join products p on p.id = (i->>'product_id')::uuid
+  left join custom_bouquets cb on cb.id = (i->>'custom_bouquet_id')::uuid;
+
+  -- Clear only the purchased cart rows
+  delete from carts
+  where user_id = v_user_id
+    and (
+      product_id in (select (i->>'product_id')::uuid from jsonb_array_elements(p_items) i where i ? 'product_id')
+      or custom_bouquet_id in (select (i->>'custom_bouquet_id')::uuid from jsonb_array_elements(p_items) i where i ? 'custom_bouquet_id')
+    );
+
+  return to_jsonb(v_order) || jsonb_build_object(
+    'delivery_fee', v_delivery_fee,
+    'order_items', coalesce(
+      (select jsonb_agg(to_jsonb(oi)) from order_items oi where oi.order_id = v_order.id),
+      '[]'::jsonb
+    )
+  );
+exception
+  -- A concurrent attempt with the same key committed first; return its order instead of
+  -- failing a checkout that was in fact placed
+  when unique_violation then
+    if p_idempotency_key is null then
+      raise;
+    end if;
+    select * into v_order from orders
+      where user_id = v_user_id and idempotency_key = p_idempotency_key;
+    if not found then
+      raise;
+    end if;
+    return to_jsonb(v_order) || jsonb_build_object(
+      'delivery_fee', case when v_order.delivery_option = 'delivery' then 59 else 0 end,
+      'order_items', coalesce(
+        (select jsonb_agg(to_jsonb(oi)) from order_items oi where oi.order_id = v_order.id),
+        '[]'::jsonb
+      )
+    );
+end;
+$$;
@@ -0,0 +1,204 @@
+-- 014_flower_stock.sql
+-- Stem inventory per flower type. Ordering a custom bouquet reserves its stems and
+-- cancelling the order releases them; every change is recorded in flower_stock_movements.
+-- A flower that can no longer fill the smallest active bouquet size is switched off in the
+-- builder until it is restocked.
+
+-- stock_on_hand is null until the shop starts counting a flower; such flowers are not limited
+alter table public.flower_types
+  add column if not exists stock_on_hand integer check (stock_on_hand is null or stock_on_hand >= 0),
+  add column if not exists reorder_threshold integer not null default 0 check (reorder_threshold >= 0),
+  add column if not exists unit_cost numeric(10, 2) not null default 0 check (unit_cost >= 0),
+  -- Set when the flower was switched off for lack of stock, so restocking switches it back on
+  add column if not exists sold_out boolean not null default false;
+
+create table if not exists public.flower_stock_movements (
+  id uuid primary key default gen_random_uuid(),
+  flower_type_id uuid not null references public.flower_types(id) on delete cascade,
+  change integer not null check (change <> 0),
+  reason text not null check (reason in ('restock', 'adjustment', 'reserve', 'release')),
+  order_id uuid references public.orders(id) on delete set null,
+  note text,
+  created_by uuid references public.profiles(id) on delete set null default auth.uid(),
+  created_at timestamptz default now()
+);
+
+create index if not exists idx_flower_stock_movements_flower on public.flower_stock_movements(flower_type_id, created_at desc);
+create index if not exists idx_flower_stock_movements_order on public.flower_stock_movements(order_id);
+
+alter table public.flower_stock_movements enable row level security;
+
+drop policy if exists flower_stock_movements_admin on public.flower_stock_movements;
+create policy flower_stock_movements_admin on public.flower_stock_movements for select
+  using (exists (select 1 from profiles p where p.id = auth.uid()::uuid and p.role = 'admin'));
+
+-- Stems needed to fill the smallest bouquet currently offered
+create or replace function public.fn_min_bouquet_stems()
+returns integer
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(min(max_stems), 1) from bouquet_sizes where active;
+$$;
+
+create or replace function public.fn_sync_flower_availability() returns trigger as $$
+begin
+  if NEW.stock_on_hand is not null and NEW.stock_on_hand < fn_min_bouquet_stems() then
+    NEW.sold_out := NEW.sold_out or NEW.available;
+    NEW.available := false;
+  elsif NEW.sold_out then
+    NEW.available := true;
+    NEW.sold_out := false;
+  end if;
+  return NEW;
+end;
+$$ language plpgsql set search_path = public;
+
+drop trigger if exists trg_sync_flower_availability on public.flower_types;
+create trigger trg_sync_flower_availability before insert or update of stock_on_hand, available on public.flower_types
+  for each row execute function fn_sync_flower_availability();
+
+-- Changing the sizes changes what "the smallest bouquet" is
+create or replace function public.fn_resync_flower_availability() returns trigger as $$
+begin
+  update flower_types set stock_on_hand = stock_on_hand where stock_on_hand is not null;
+  return null;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop trigger if exists trg_resync_flower_availability on public.bouquet_sizes;
+create trigger trg_resync_flower_availability after insert or update or delete on public.bouquet_sizes
+  for each statement execute function fn_resync_flower_availability();
+
+-- Apply one stock change and record it. Untracked flowers are left alone.
+create or replace function public.fn_adjust_flower_stock(
+  p_flower_type_id uuid,
+  p_change integer,
+  p_reason text,
+  p_order_id uuid default null,
+  p_note text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_flower flower_types%rowtype;
+begin
+  if p_change = 0 then
+    return;
+  end if;
+
+  select * into v_flower from flower_types where id = p_flower_type_id for update;
+  if not found or v_flower.stock_on_hand is null then
+    return;
+  end if;
+
+  if v_flower.stock_on_hand + p_change < 0 then
+    raise exception 'Only % % stems left in stock', v_flower.stock_on_hand, v_flower.name;
+  end if;
+
+  update flower_types set stock_on_hand = stock_on_hand + p_change where id = p_flower_type_id;
+
+  insert into flower_stock_movements (flower_type_id, change, reason, order_id, note)
+  values (p_flower_type_id, p_change, p_reason, p_order_id, nullif(trim(p_note), ''));
+end;
+$$;
+
+-- Only the reservation triggers and the admin-checked wrapper below may call this. Supabase
+-- grants new functions to anon and authenticated directly, so revoking from public alone
+-- would still let any client change stock.
+revoke execute on function public.fn_adjust_flower_stock(uuid, integer, text, uuid, text) from public, anon, authenticated;
+
+-- Reserve the stems of a custom bouquet when it is ordered
+create or replace function public.fn_reserve_bouquet_stems() returns trigger as $$
+declare
+  v_flower record;
+begin
+  if NEW.custom_bouquet_id is null then
+    return NEW;
+  end if;
+
+  for v_flower in
+    select (f->>'flower_type_id')::uuid as flower_type_id, (f->>'count')::int as count
+    from custom_bouquets cb, jsonb_array_elements(cb.flowers) f
+    where cb.id = NEW.custom_bouquet_id
+  loop
+    perform fn_adjust_flower_stock(v_flower.flower_type_id, -(v_flower.count * NEW.quantity), 'reserve', NEW.order_id);
+  end loop;
+
+  return NEW;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop trigger if exists trg_reserve_bouquet_stems on public.order_items;
+create trigger trg_reserve_bouquet_stems after insert on public.order_items
+  for each row execute function fn_reserve_bouquet_stems();
+
+-- Return whatever the order still holds when it is cancelled
+create or replace function public.fn_release_cancelled_stems() returns trigger as $$
+declare
+  v_held record;
+begin
+  if NEW.status = 'Cancelled' and OLD.status is distinct from 'Cancelled' then
+    for v_held in
+      select flower_type_id, -sum(change) as stems
+      from flower_stock_movements
+      where order_id = NEW.id and reason in ('reserve', 'release')
+      group by flower_type_id
+      having sum(change) < 0
+    loop
+      perform fn_adjust_flower_stock(v_held.flower_type_id, v_held.stems::int, 'release', NEW.id);
+    end loop;
+  end if;
+  return NEW;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop trigger if exists trg_release_cancelled_stems on public.orders;
+create trigger trg_release_cancelled_stems after update of status on public.orders
+  for each row execute function fn_release_cancelled_stems();
+
+-- Admin restock (positive) or stock-take correction (either sign). Starts tracking an
+-- untracked flower from zero.
+create or replace function public.adjust_flower_stock(
+  p_flower_type_id uuid,
+  p_change integer,
+  p_reason text default 'restock',
+  p_note text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_flower flower_types%rowtype;
+begin
+  if not exists (select 1 from profiles where id = auth.uid() and role = 'admin') then
+    raise exception 'Only admins can change flower stock';
+  end if;
+
+  if p_reason not in ('restock', 'adjustment') then
+    raise exception 'Invalid stock change reason: %', p_reason;
+  end if;
+
+  if p_reason = 'restock' and coalesce(p_change, 0) <= 0 then
+    raise exception 'Restock quantity must be at least 1';
+  end if;
+
+  update flower_types set stock_on_hand = 0 where id = p_flower_type_id and stock_on_hand is null;
+  if not exists (select 1 from flower_types where id = p_flower_type_id) then
+    raise exception 'Flower type % not found', p_flower_type_id;
+  end if;
+
+  perform fn_adjust_flower_stock(p_flower_type_id, p_change, p_reason, null, p_note);
+
+  select * into v_flower from flower_types where id = p_flower_type_id;
+  return to_jsonb(v_flower);
+end;
+$$;
+
+grant execute on function public.adjust_flower_stock(uuid, integer, text, text) to authenticated;
@@ -0,0 +1,228 @@
+-- 015_product_inventory.sql
+-- Stock for pre-made products. A product can be limited by a stock count, by a daily
+-- capacity (how many the shop can arrange per day), and by the flower stems listed in its
+-- bill of materials (product_components). available_quantity() combines the three and is
+-- exposed to the API as a computed column; ordering reserves stock, cancelling releases it.
+
+-- Both are null when the product is not limited that way
+alter table public.products
+  add column if not exists stock_on_hand integer check (stock_on_hand is null or stock_on_hand >= 0),
+  add column if not exists daily_capacity integer check (daily_capacity is null or daily_capacity > 0);
+
+-- Bill of materials: stems of each flower type used by one unit of the product
+create table if not exists public.product_components (
+  product_id uuid not null references public.products(id) on delete cascade,
+  flower_type_id uuid not null references public.flower_types(id) on delete cascade,
+  stems integer not null check (stems > 0),
+  primary key (product_id, flower_type_id)
+);
+
+alter table public.product_components enable row level security;
+
+drop policy if exists product_components_read on public.product_components;
+create policy product_components_read on public.product_components for select using (true);
+
+drop policy if exists product_components_admin on public.product_components;
+create policy product_components_admin on public.product_components for all
+  using (exists (select 1 from profiles p where p.id = auth.uid()::uuid and p.role = 'admin'))
+  with check (exists (select 1 from profiles p where p.id = auth.uid()::uuid and p.role = 'admin'));
+
+create table if not exists public.product_stock_movements (
+  id uuid primary key default gen_random_uuid(),
+  product_id uuid not null references public.products(id) on delete cascade,
+  change integer not null check (change <> 0),
+  reason text not null check (reason in ('restock', 'adjustment', 'reserve', 'release')),
+  order_id uuid references public.orders(id) on delete set null,
+  note text,
+  created_by uuid references public.profiles(id) on delete set null default auth.uid(),
+  created_at timestamptz default now()
+);
+
+create index if not exists idx_product_stock_movements_product on public.product_stock_movements(product_id, created_at desc);
+create index if not exists idx_product_stock_movements_order on public.product_stock_movements(order_id);
+
+alter table public.product_stock_movements enable row level security;
+
+drop policy if exists product_stock_movements_admin on public.product_stock_movements;
+create policy product_stock_movements_admin on public.product_stock_movements for select
+  using (exists (select 1 from profiles p where p.id = auth.uid()::uuid and p.role = 'admin'));
+
+-- Units of a product in today's orders that have not been cancelled
+create or replace function public.fn_product_sold_today(p_product_id uuid)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(sum(oi.quantity), 0)::int
+  from order_items oi
+  join orders o on o.id = oi.order_id
+  where oi.product_id = p_product_id
+    and o.date = current_date
+    and o.status <> 'Cancelled';
+$$;
+
+-- How many more units can be sold right now; null when the product is not limited.
+-- Select it as products.available_quantity.
+create or replace function public.available_quantity(p products)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select least(
+    p.stock_on_hand,
+    greatest(p.daily_capacity - fn_product_sold_today(p.id), 0),
+    (
+      select min(ft.stock_on_hand / pc.stems)
+      from product_components pc
+      join flower_types ft on ft.id = pc.flower_type_id
+      where pc.product_id = p.id and ft.stock_on_hand is not null
+    )
+  );
+$$;
+
+-- Apply one product stock change and record it. Products without a count are left alone.
+create or replace function public.fn_adjust_product_stock(
+  p_product_id uuid,
+  p_change integer,
+  p_reason text,
+  p_order_id uuid default null,
+  p_note text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_product products%rowtype;
+begin
+  if p_change = 0 then
+    return;
+  end if;
+
+  select * into v_product from products where id = p_product_id for update;
+  if not found or v_product.stock_on_hand is null then
+    return;
+  end if;
+
+  if v_product.stock_on_hand + p_change < 0 then
+    if v_product.stock_on_hand = 0 then
+      raise exception '% is sold out', v_product.name;
+    end if;
+    raise exception 'Only % of % left in stock', v_product.stock_on_hand, v_product.name;
+  end if;
+
+  update products set stock_on_hand = stock_on_hand + p_change where id = p_product_id;
+
+  insert into product_stock_movements (product_id, change, reason, order_id, note)
+  values (p_product_id, p_change, p_reason, p_order_id, nullif(trim(p_note), ''));
+end;
+$$;
+
+-- Only the reservation triggers and the admin-checked wrapper below may call this. Supabase
+-- grants new functions to anon and authenticated directly, so revoking from public alone
+-- would still let any client change stock.
+revoke execute on function public.fn_adjust_product_stock(uuid, integer, text, uuid, text) from public, anon, authenticated;
+
+-- Reserve stock, daily capacity and component stems when a product is ordered
+create or replace function public.fn_reserve_product_stock() returns trigger as $$
+declare
+  v_product products%rowtype;
+  v_component record;
+begin
+  if NEW.product_id is null then
+    return NEW;
+  end if;
+
+  -- Lock the product so concurrent checkouts are counted one after the other
+  select * into v_product from products where id = NEW.product_id for update;
+
+  if v_product.daily_capacity is not null and fn_product_sold_today(v_product.id) > v_product.daily_capacity then
+    raise exception '% is sold out for today', v_product.name;
+  end if;
+
+  perform fn_adjust_product_stock(NEW.product_id, -NEW.quantity, 'reserve', NEW.order_id);
+
+  for v_component in
+    select flower_type_id, stems from product_components where product_id = NEW.product_id
+  loop
+    perform fn_adjust_flower_stock(v_component.flower_type_id, -(v_component.stems * NEW.quantity), 'reserve', NEW.order_id);
+  end loop;
+
+  return NEW;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop trigger if exists trg_reserve_product_stock on public.order_items;
+create trigger trg_reserve_product_stock after insert on public.order_items
+  for each row execute function fn_reserve_product_stock();
+
+-- Component stems are returned by fn_release_cancelled_stems (014)
+create or replace function public.fn_release_cancelled_products() returns trigger as $$
+declare
+  v_held record;
+begin
+  if NEW.status = 'Cancelled' and OLD.status is distinct from 'Cancelled' then
+    for v_held in
+      select product_id, -sum(change) as units
+      from product_stock_movements
+      where order_id = NEW.id and reason in ('reserve', 'release')
+      group by product_id
+      having sum(change) < 0
+    loop
+      perform fn_adjust_product_stock(v_held.product_id, v_held.units::int, 'release', NEW.id);
+    end loop;
+  end if;
+  return NEW;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop trigger if exists trg_release_cancelled_products on public.orders;
+create trigger trg_release_cancelled_products after update of status on public.orders
+  for each row execute function fn_release_cancelled_products();
+
+-- Admin restock (positive) or stock-take correction (either sign). Starts counting a
+-- product that had no stock count from zero.
+create or replace function public.adjust_product_stock(
+  p_product_id uuid,
+  p_change integer,
+  p_reason text default 'restock',
+  p_note text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_product products%rowtype;
+begin
+  if not exists (select 1 from profiles where id = auth.uid() and role = 'admin') then
+    raise exception 'Only admins can change product stock';
+  end if;
+
+  if p_reason not in ('restock', 'adjustment') then
+    raise exception 'Invalid stock change reason: %', p_reason;
+  end if;
+
+  if p_reason = 'restock' and coalesce(p_change, 0) <= 0 then
+    raise exception 'Restock quantity must be at least 1';
+  end if;
+
+  update products set stock_on_hand = 0 where id = p_product_id and stock_on_hand is null;
+  if not exists (select 1 from products where id = p_product_id) then
+    raise exception 'Product % not found', p_product_id;
+  end if;
+
+  perform fn_adjust_product_stock(p_product_id, p_change, p_reason, null, p_note);
+
+  select * into v_product from products where id = p_product_id;
+  return to_jsonb(v_product) || jsonb_build_object('available_quantity', available_quantity(v_product));
+end;
+$$;
+
+grant execute on function public.adjust_product_stock(uuid, integer, text, text) to authenticated;
@@ -0,0 +1,450 @@
+-- 016_payments.sql
+-- Online card payments. place_order records the payment method; for card orders the
+-- payments edge function creates a payment intent with the configured provider, and the
+-- provider's confirmations arrive through the payment-webhook edge function, which calls
+-- apply_payment_event. Refunds are issued from the admin orders screen through the same
+-- edge function and recorded with record_payment_refund.
+
+alter table public.orders
+  add column if not exists payment_status text not null default 'unpaid'
+    check (payment_status in ('unpaid', 'pending', 'paid', 'failed', 'partially_refunded', 'refunded')),
+  add column if not exists payment_provider text,
+  add column if not exists payment_reference text,
+  add column if not exists refunded_amount integer not null default 0 check (refunded_amount >= 0);
+
+-- One row per payment intent; a failed card payment can be retried with a new intent
+create table if not exists public.payments (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null references public.orders(id) on delete cascade,
+  provider text not null,
+  reference text not null, -- the provider's payment intent id
+  amount integer not null check (amount > 0),
+  currency text not null default 'PHP',
+  status text not null default 'requires_action'
+    check (status in ('requires_action', 'processing', 'succeeded', 'failed', 'cancelled')),
+  refunded_amount integer not null default 0 check (refunded_amount >= 0),
+  failure_reason text,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  unique (provider, reference),
+  check (refunded_amount <= amount)
+);
+
+create index if not exists idx_payments_order on public.payments(order_id, created_at desc);
+-- At most one intent per order can still be paid, so a customer is never charged twice
+create unique index if not exists idx_payments_order_open on public.payments(order_id)
+  where status in ('requires_action', 'processing');
+
+create table if not exists public.payment_refunds (
+  id uuid primary key default gen_random_uuid(),
+  payment_id uuid not null references public.payments(id) on delete cascade,
+  amount integer not null check (amount > 0),
+  reason text,
+  reference text, -- the provider's refund id
+  status text not null default 'pending' check (status in ('pending', 'succeeded', 'failed')),
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create index if not exists idx_payment_refunds_payment on public.payment_refunds(payment_id);
+
+-- Every webhook event received, so a provider retrying an event does not apply it twice
+create table if not exists public.payment_events (
+  id uuid primary key default gen_random_uuid(),
+  provider text not null,
+  event_id text not null,
+  type text not null,
+  payload jsonb,
+  received_at timestamptz default now(),
+  unique (provider, event_id)
+);
+
+alter table public.payments enable row level security;
+alter table public.payment_refunds enable row level security;
+alter table public.payment_events enable row level security;
+
+-- Written only by the edge functions (service role); customers read their own
+drop policy if exists payments_select on public.payments;
+create policy payments_select on public.payments for select
+  using (
+    exists (select 1 from profiles p where p.id = auth.uid()::uuid and p.role = 'admin') or
+    exists (select 1 from orders o where o.id = payments.order_id and o.user_id = auth.uid()::uuid)
+  );
+
+drop policy if exists payment_refunds_select on public.payment_refunds;
+create policy payment_refunds_select on public.payment_refunds for select
+  using (
+    exists (select 1 from profiles p where p.id = auth.uid()::uuid and p.role = 'admin') or
+    exists (
+      select 1 from payments pay join orders o on o.id = pay.order_id
+      where pay.id = payment_refunds.payment_id and o.user_id = auth.uid()::uuid
+    )
+  );
+
+-- Add a succeeded refund to the payment and order totals. A fully refunded order that
+-- may move to Refunded is moved there.
+create or replace function public.fn_apply_payment_refund(p_refund_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_refund payment_refunds%rowtype;
+  v_order orders%rowtype;
+begin
+  select * into v_refund from payment_refunds where id = p_refund_id;
+
+  update payments
+     set refunded_amount = refunded_amount + v_refund.amount,
+         updated_at = now()
+   where id = v_refund.payment_id;
+
+  update orders o
+     set refunded_amount = o.refunded_amount + v_refund.amount,
+         payment_status = case
+           when o.refunded_amount + v_refund.amount >= o.total_amount then 'refunded'
+           else 'partially_refunded'
+         end
+    from payments pay
+   where pay.id = v_refund.payment_id and o.id = pay.order_id
+  returning o.* into v_order;
+
+  if v_order.payment_status = 'refunded'
+     and 'Refunded' = any(fn_order_status_transitions(v_order.status, v_order.delivery_option)) then
+    perform set_config('app.order_status_note', 'Payment refunded', true);
+    update orders set status = 'Refunded' where id = v_order.id;
+    perform set_config('app.order_status_note', '', true);
+  end if;
+end;
+$$;
+
+-- Apply a verified provider event. Returns { "applied": false } for an event already seen.
+create or replace function public.apply_payment_event(
+  p_provider text,
+  p_event_id text,
+  p_type text,
+  p_reference text,
+  p_payload jsonb default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_payment payments%rowtype;
+  v_refund payment_refunds%rowtype;
+begin
+  if auth.role() in ('anon', 'authenticated') then
+    raise exception 'Payment events can only be applied by the payment service';
+  end if;
+
+  insert into payment_events (provider, event_id, type, payload)
+  values (p_provider, p_event_id, p_type, p_payload)
+  on conflict (provider, event_id) do nothing;
+  if not found then
+    return jsonb_build_object('applied', false);
+  end if;
+
+  if p_type like 'refund.%' then
+    update payment_refunds r
+       set status = case p_type when 'refund.succeeded' then 'succeeded' else 'failed' end,
+           updated_at = now()
+      from payments pay
+     where pay.id = r.payment_id and pay.provider = p_provider
+       and r.reference = p_reference and r.status = 'pending'
+    returning r.* into v_refund;
+
+    if v_refund.id is not null and v_refund.status = 'succeeded' then
+      perform fn_apply_payment_refund(v_refund.id);
+    end if;
+    return jsonb_build_object('applied', v_refund.id is not null);
+  end if;
+
+  select * into v_payment from payments
+    where provider = p_provider and reference = p_reference
+    for update;
+  if not found then
+    raise exception 'Unknown % payment %', p_provider, p_reference;
+  end if;
+
+  -- A late failure or processing event never overrides a succeeded payment
+  if v_payment.status = 'succeeded' and p_type <> 'payment.succeeded' then
+    return jsonb_build_object('applied', false);
+  end if;
+
+  update payments
+     set status = case p_type
+           when 'payment.succeeded' then 'succeeded'
+           when 'payment.failed' then 'failed'
+           when 'payment.processing' then 'processing'
+           when 'payment.cancelled' then 'cancelled'
+           else status
+         end,
+         failure_reason = case when p_type = 'payment.failed' then p_payload->>'failure_reason' else failure_reason end,
+         updated_at = now()
+   where id = v_payment.id;
+
+  -- Only the order's current intent decides its payment status; a late failure of an
+  -- abandoned intent must not mark a paid order unpaid again
+  update orders
+     set payment_status = case p_type
+           when 'payment.succeeded' then 'paid'
+           when 'payment.failed' then 'failed'
+           when 'payment.cancelled' then 'failed'
+           else payment_status
+         end,
+         payment_provider = v_payment.provider,
+         payment_reference = v_payment.reference
+   where id = v_payment.order_id
+     and payment_status not in ('partially_refunded', 'refunded')
+     and (
+       p_type = 'payment.succeeded'
+       or (payment_reference = v_payment.reference and payment_status <> 'paid')
+     );
+
+  return jsonb_build_object('applied', true);
+end;
+$$;
+
+-- Record a refund issued with the provider; succeeded refunds are applied immediately,
+-- pending ones when their webhook event arrives
+create or replace function public.record_payment_refund(
+  p_payment_id uuid,
+  p_amount integer,
+  p_reason text,
+  p_reference text,
+  p_status text,
+  p_created_by uuid
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_refund payment_refunds%rowtype;
+  v_payment payments%rowtype;
+  v_refundable integer;
+begin
+  if auth.role() in ('anon', 'authenticated') then
+    raise exception 'Refunds can only be recorded by the payment service';
+  end if;
+
+  -- Locked so concurrent refunds cannot together exceed the payment
+  select * into v_payment from payments where id = p_payment_id for update;
+  if not found then
+    raise exception 'Payment % not found', p_payment_id;
+  end if;
+
+  if p_status <> 'failed' then
+    v_refundable := v_payment.amount - v_payment.refunded_amount - coalesce(
+      (select sum(amount) from payment_refunds where payment_id = p_payment_id and status = 'pending'), 0
+    );
+    if p_amount > v_refundable then
+      raise exception 'Refund of ₱% is more than the ₱% left to refund', p_amount, v_refundable;
+    end if;
+  end if;
+
+  insert into payment_refunds (payment_id, amount, reason, reference, status, created_by)
+  values (p_payment_id, p_amount, nullif(trim(p_reason), ''), p_reference, p_status, p_created_by)
+  returning * into v_refund;
+
+  if v_refund.status = 'succeeded' then
+    perform fn_apply_payment_refund(v_refund.id);
+  end if;
+
+  return to_jsonb(v_refund);
+end;
+$$;
+
+-- Only the edge functions (service role) may call these. Supabase grants new functions to
+-- anon and authenticated directly, so they are revoked from those roles as well.
+revoke execute on function public.fn_apply_payment_refund(uuid) from public, anon, authenticated;
+revoke execute on function public.apply_payment_event(text, text, text, text, jsonb) from public, anon, authenticated;
+revoke execute on function public.record_payment_refund(uuid, integer, text, text, text, uuid) from public, anon, authenticated;
+grant execute on function public.apply_payment_event(text, text, text, text, jsonb) to service_role;
+grant execute on function public.record_payment_refund(uuid, integer, text, text, text, uuid) to service_role;
+
+-- place_order from 013 with a payment method. The old signature is dropped so callers
+-- cannot end up on an overload without it.
+drop function if exists public.place_order(jsonb, text, text, text, text);
+
+create or replace function public.place_order(
+  p_items jsonb,
+  p_delivery_option text default 'delivery',
+  p_delivery_address text default null,
+  p_phone text default null,
+  p_idempotency_key text default null,
+  p_payment_method text default 'cash'
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_order orders%rowtype;
+  v_subtotal integer;
+  v_delivery_fee integer := 0;
+  v_bouquet record;
+  v_quote jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Please sign in to place your order';
+  end if;
+
+  -- Replayed request: return the order created by the first attempt
+  if p_idempotency_key is not null then
+    select * into v_order from orders
+      where user_id = v_user_id and idempotency_key = p_idempotency_key;
+    if found then
+      return to_jsonb(v_order) || jsonb_build_object(
+        'delivery_fee', case when v_order.delivery_option = 'delivery' then 59 else 0 end,
+        'order_items', coalesce(
+          (select jsonb_agg(to_jsonb(oi)) from order_items oi where oi.order_id = v_order.id),
+          '[]'::jsonb
+        )
+      );
+    end if;
+  end if;
+
+  if not exists (select 1 from profiles where id = v_user_id) then
+    raise exception 'Account setup incomplete: no user profile found';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Order must contain at least one item';
+  end if;
+
+  if p_delivery_option not in ('delivery', 'pickup') then
+    raise exception 'Invalid delivery option: %', p_delivery_option;
+  end if;
+
+  if p_payment_method not in ('cash', 'card') then
+    raise exception 'Invalid payment method: %', p_payment_method;
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) i
+    where coalesce((i->>'quantity')::int, 0) < 1
+  ) then
+    raise exception 'Item quantities must be at least 1';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) i
+    left join products p on p.id = (i->>'product_id')::uuid
+    where i ? 'product_id' and p.id is null
+  ) then
+    raise exception 'One or more products in your cart are no longer available';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) i
+    left join custom_bouquets cb on cb.id = (i->>'custom_bouquet_id')::uuid and cb.user_id = v_user_id
+    where i ? 'custom_bouquet_id' and cb.id is null
+  ) then
+    raise exception 'One or more custom bouquets in your cart could not be found';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) i
+    where not (i ? 'product_id') and not (i ? 'custom_bouquet_id')
+  ) then
+    raise exception 'Every order line needs a product or a custom bouquet';
+  end if;
+
+  -- Re-validate and re-price custom bouquets against the current sizes and flowers
+  for v_bouquet in
+    select cb.id, cb.size, cb.flowers from custom_bouquets cb
+    where cb.id in (
+      select (i->>'custom_bouquet_id')::uuid from jsonb_array_elements(p_items) i
+      where i ? 'custom_bouquet_id'
+    )
+  loop
+    v_quote := fn_quote_custom_bouquet(v_bouquet.size, v_bouquet.flowers);
+    update custom_bouquets
+      set size_name = v_quote->>'size_name',
+          flowers = v_quote->'flowers',
+          base_price = (v_quote->>'base_price')::int,
+          stems_price = (v_quote->>'stems_price')::int,
+          wrapping_fee = (v_quote->>'wrapping_fee')::int,
+          price = (v_quote->>'price')::int
+      where id = v_bouquet.id;
+  end loop;
+
+  -- Price every line from the products and custom_bouquets tables
+  select coalesce(sum(coalesce(p.price, cb.price) * (i->>'quantity')::int), 0)
+    into v_subtotal
+  from jsonb_array_elements(p_items) i
+  left join products p on p.id = (i->>'product_id')::uuid
+  left join custom_bouquets cb on cb.id = (i->>'custom_bouquet_id')::uuid;
+
+  if p_delivery_option = 'delivery' then
+    v_delivery_fee := 59;
+  end if;
+
+  insert into orders (user_id, total_amount, phone, date, status, payment, payment_status, delivery_address, delivery_option, idempotency_key)
+  values (
+    v_user_id,
+    v_subtotal + v_delivery_fee,
+    coalesce(p_phone, (select phone from profiles where id = v_user_id)),
+    current_date,
+    'Pending',
+    case p_payment_method when 'card' then 'Card' else 'Cash' end,
+    -- Card orders wait for the payment intent; cash is collected on delivery or pickup
+    case p_payment_method when 'card' then 'pending' else 'unpaid' end,
+    p_delivery_address,
+    p_delivery_option,
+    p_idempotency_key
+  )
+  returning * into v_order;
+
+  insert into order_items (order_id, product_id, custom_bouquet_id, quantity, price)
+  select v_order.id, p.id, cb.id, (i->>'quantity')::int, coalesce(p.price, cb.price)
+  from jsonb_array_elements(p_items) i
+  left join products p on p.id = (i->>'product_id')::uuid
+  left join custom_bouquets cb on cb.id = (i->>'custom_bouquet_id')::uuid;
+
+  -- Clear only the purchased cart rows
+  delete from carts
+  where user_id = v_user_id
+    and (
+      product_id in (select (i->>'product_id')::uuid from jsonb_array_elements(p_items) i where i ? 'product_id')
+      or custom_bouquet_id in (select (i->>'custom_bouquet_id')::uuid from jsonb_array_elements(p_items) i where i ? 'custom_bouquet_id')
+    );
+
+  return to_jsonb(v_order) || jsonb_build_object(
+    'delivery_fee', v_delivery_fee,
+    'order_items', coalesce(
+      (select jsonb_agg(to_jsonb(oi)) from order_items oi where oi.order_id = v_order.id),
+      '[]'::jsonb
+    )
+  );
+exception
+  -- A concurrent attempt with the same key committed first; return its order instead of
+  -- failing a checkout that was in fact placed
+  when unique_violation then
+    if p_idempotency_key is null then
+      raise;
+    end if;
+    select * into v_order from orders
+      where user_id = v_user_id and idempotency_key = p_idempotency_key;
+    if not found then
+      raise;
+    end if;
+    return to_jsonb(v_order) || jsonb_build_object(
+      'delivery_fee', case when v_order.delivery_option = 'delivery' then 59 else 0 end,
+      'order_items', coalesce(
+        (select jsonb_agg(to_jsonb(oi)) from order_items oi where oi.order_id = v_order.id),
+        '[]'::jsonb
+      )
+    );
+end;
+$$;
+
+grant execute on function public.place_order(jsonb, text, text, text, text, text) to authenticated;
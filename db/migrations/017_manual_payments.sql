@@ -0,0 +1,354 @@
+-- 017_manual_payments.sql
+-- E-wallet and bank-transfer payments. The customer pays outside the app, uploads a
+-- screenshot of the transfer to the payment-proofs Storage bucket and submits it with
+-- submit_payment_proof; an admin approves or rejects it with review_payment_proof.
+-- Orders paid upfront (card, e-wallet, bank transfer) cannot move to Preparing until paid.
+
+alter table public.orders drop constraint if exists orders_payment_status_check;
+alter table public.orders add constraint orders_payment_status_check
+  check (payment_status in ('unpaid', 'pending', 'verifying', 'paid', 'failed', 'partially_refunded', 'refunded'));
+
+-- Shown to customers next to the upload form
+alter table public.shop_settings
+  add column if not exists ewallet_instructions text not null
+    default 'Send the order total to our GCash number 0917 000 0000 (Jean''s Flower Shop).',
+  add column if not exists bank_transfer_instructions text not null
+    default 'Transfer the order total to BDO account 0000-1234-5678 (Jean''s Flower Shop).';
+
+create table if not exists public.payment_proofs (
+  id uuid primary key default gen_random_uuid(),
+  order_id uuid not null references public.orders(id) on delete cascade,
+  -- Storage path inside the payment-proofs bucket: <user id>/<order id>/<file>
+  file_path text not null,
+  -- Transaction or reference number from the e-wallet or bank receipt
+  reference_number text,
+  status text not null default 'submitted' check (status in ('submitted', 'approved', 'rejected')),
+  review_note text,
+  reviewed_by uuid references public.profiles(id) on delete set null,
+  reviewed_at timestamptz,
+  created_at timestamptz default now()
+);
+
+create index if not exists idx_payment_proofs_order on public.payment_proofs(order_id, created_at desc);
+create index if not exists idx_payment_proofs_submitted on public.payment_proofs(created_at) where status = 'submitted';
+
+alter table public.payment_proofs enable row level security;
+
+-- Written through the functions below; customers read their own
+drop policy if exists payment_proofs_select on public.payment_proofs;
+create policy payment_proofs_select on public.payment_proofs for select
+  using (
+    exists (select 1 from profiles p where p.id = auth.uid()::uuid and p.role = 'admin') or
+    exists (select 1 from orders o where o.id = payment_proofs.order_id and o.user_id = auth.uid()::uuid)
+  );
+
+-- Private bucket; customers upload into a folder named after their user id
+insert into storage.buckets (id, name, public)
+values ('payment-proofs', 'payment-proofs', false)
+on conflict (id) do nothing;
+
+drop policy if exists payment_proofs_upload on storage.objects;
+create policy payment_proofs_upload on storage.objects for insert to authenticated
+  with check (bucket_id = 'payment-proofs' and (storage.foldername(name))[1] = auth.uid()::text);
+
+drop policy if exists payment_proofs_read on storage.objects;
+create policy payment_proofs_read on storage.objects for select to authenticated
+  using (
+    bucket_id = 'payment-proofs' and (
+      (storage.foldername(name))[1] = auth.uid()::text or
+      exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'admin')
+    )
+  );
+
+-- Upfront payments must be settled before the shop starts on the order
+create or replace function public.fn_require_payment_before_preparing() returns trigger as $$
+begin
+  if NEW.status = 'Preparing' and OLD.status is distinct from 'Preparing'
+     and coalesce(NEW.payment, 'Cash') <> 'Cash' and NEW.payment_status <> 'paid' then
+    raise exception 'Order % cannot be prepared until its % payment is verified', NEW.order_number, NEW.payment;
+  end if;
+  return NEW;
+end;
+$$ language plpgsql set search_path = public;
+
+drop trigger if exists trg_require_payment_before_preparing on public.orders;
+create trigger trg_require_payment_before_preparing before update of status on public.orders
+  for each row execute function fn_require_payment_before_preparing();
+
+-- Customer submits an uploaded proof for one of their e-wallet or bank-transfer orders
+create or replace function public.submit_payment_proof(
+  p_order_id uuid,
+  p_file_path text,
+  p_reference_number text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order orders%rowtype;
+  v_proof payment_proofs%rowtype;
+begin
+  select * into v_order from orders where id = p_order_id and user_id = auth.uid() for update;
+  if not found then
+    raise exception 'Order not found';
+  end if;
+
+  if v_order.payment not in ('E-Wallet', 'Bank Transfer') then
+    raise exception 'Order % is not paid by e-wallet or bank transfer', v_order.order_number;
+  end if;
+
+  if v_order.status = 'Cancelled' or v_order.payment_status not in ('pending', 'failed') then
+    raise exception 'Order % does not need a payment proof', v_order.order_number;
+  end if;
+
+  if p_file_path is null or split_part(p_file_path, '/', 1) <> auth.uid()::text then
+    raise exception 'Invalid payment proof file';
+  end if;
+
+  insert into payment_proofs (order_id, file_path, reference_number)
+  values (p_order_id, p_file_path, nullif(trim(p_reference_number), ''))
+  returning * into v_proof;
+
+  update orders set payment_status = 'verifying' where id = p_order_id;
+
+  return to_jsonb(v_proof);
+end;
+$$;
+
+grant execute on function public.submit_payment_proof(uuid, text, text) to authenticated;
+
+-- Admin approves (order becomes paid) or rejects (customer can upload a new proof)
+create or replace function public.review_payment_proof(
+  p_proof_id uuid,
+  p_approve boolean,
+  p_note text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_proof payment_proofs%rowtype;
+begin
+  if not exists (select 1 from profiles where id = auth.uid() and role = 'admin') then
+    raise exception 'Only admins can verify payments';
+  end if;
+
+  select * into v_proof from payment_proofs where id = p_proof_id for update;
+  if not found then
+    raise exception 'Payment proof not found';
+  end if;
+
+  if v_proof.status <> 'submitted' then
+    raise exception 'This payment proof was already reviewed';
+  end if;
+
+  if not p_approve and nullif(trim(p_note), '') is null then
+    raise exception 'Please give the customer a reason for rejecting the payment';
+  end if;
+
+  update payment_proofs
+     set status = case when p_approve then 'approved' else 'rejected' end,
+         review_note = nullif(trim(p_note), ''),
+         reviewed_by = auth.uid(),
+         reviewed_at = now()
+   where id = p_proof_id
+  returning * into v_proof;
+
+  update orders
+     set payment_status = case when p_approve then 'paid' else 'failed' end,
+         payment_reference = case when p_approve then coalesce(v_proof.reference_number, payment_reference) else payment_reference end
+   where id = v_proof.order_id;
+
+  return to_jsonb(v_proof);
+end;
+$$;
+
+grant execute on function public.review_payment_proof(uuid, boolean, text) to authenticated;
+
+-- place_order from 016 with the e-wallet and bank-transfer methods
+
+create or replace function public.place_order(
+  p_items jsonb,
+  p_delivery_option text default 'delivery',
+  p_delivery_address text default null,
+  p_phone text default null,
+  p_idempotency_key text default null,
+  p_payment_method text default 'cash'
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_order orders%rowtype;
+  v_subtotal integer;
+  v_delivery_fee integer := 0;
+  v_bouquet record;
+  v_quote jsonb;
+begin
+  if v_user_id is null then
+    raise exception 'Please sign in to place your order';
+  end if;
+
+  -- Replayed request: return the order created by the first attempt
+  if p_idempotency_key is not null then
+    select * into v_order from orders
+      where user_id = v_user_id and idempotency_key = p_idempotency_key;
+    if found then
+      return to_jsonb(v_order) || jsonb_build_object(
+        'delivery_fee', case when v_order.delivery_option = 'delivery' then 59 else 0 end,
+        'order_items', coalesce(
+          (select jsonb_agg(to_jsonb(oi)) from order_items oi where oi.order_id = v_order.id),
+          '[]'::jsonb
+        )
+      );
+    end if;
+  end if;
+
+  if not exists (select 1 from profiles where id = v_user_id) then
+    raise exception 'Account setup incomplete: no user profile found';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Order must contain at least one item';
+  end if;
+
+  if p_delivery_option not in ('delivery', 'pickup') then
+    raise exception 'Invalid delivery option: %', p_delivery_option;
+  end if;
+
+  if p_payment_method not in ('cash', 'card', 'ewallet', 'bank_transfer') then
+    raise exception 'Invalid payment method: %', p_payment_method;
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) i
+    where coalesce((i->>'quantity')::int, 0) < 1
+  ) then
+    raise exception 'Item quantities must be at least 1';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) i
+    left join products p on p.id = (i->>'product_id')::uuid
+    where i ? 'product_id' and p.id is null
+  ) then
+    raise exception 'One or more products in your cart are no longer available';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) i
+    left join custom_bouquets cb on cb.id = (i->>'custom_bouquet_id')::uuid and cb.user_id = v_user_id
+    where i ? 'custom_bouquet_id' and cb.id is null
+  ) then
+    raise exception 'One or more custom bouquets in your cart could not be found';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) i
+    where not (i ? 'product_id') and not (i ? 'custom_bouquet_id')
+  ) then
+    raise exception 'Every order line needs a product or a custom bouquet';
+  end if;
+
+  -- Re-validate and re-price custom bouquets against the current sizes and flowers
+  for v_bouquet in
+    select cb.id, cb.size, cb.flowers from custom_bouquets cb
+    where cb.id in (
+      select (i->>'custom_bouquet_id')::uuid from jsonb_array_elements(p_items) i
+      where i ? 'custom_bouquet_id'
+    )
+  loop
+    v_quote := fn_quote_custom_bouquet(v_bouquet.size, v_bouquet.flowers);
+    update custom_bouquets
+      set size_name = v_quote->>'size_name',
+          flowers = v_quote->'flowers',
+          base_price = (v_quote->>'base_price')::int,
+          stems_price = (v_quote->>'stems_price')::int,
+          wrapping_fee = (v_quote->>'wrapping_fee')::int,
+          price = (v_quote->>'price')::int
+      where id = v_bouquet.id;
+  end loop;
+
+  -- Price every line from the products and custom_bouquets tables
+  select coalesce(sum(coalesce(p.price, cb.price) * (i->>'quantity')::int), 0)
+    into v_subtotal
+  from jsonb_array_elements(p_items) i
+  left join products p on p.id = (i->>'product_id')::uuid
+  left join custom_bouquets cb on cb.id = (i->>'custom_bouquet_id')::uuid;
+
+  if p_delivery_option = 'delivery' then
+    v_delivery_fee := 59;
+  end if;
+
+  insert into orders (user_id, total_amount, phone, date, status, payment, payment_status, delivery_address, delivery_option, idempotency_key)
+  values (
+    v_user_id,
+    v_subtotal + v_delivery_fee,
+    coalesce(p_phone, (select phone from profiles where id = v_user_id)),
+    current_date,
+    'Pending',
+    case p_payment_method
+      when 'card' then 'Card'
+      when 'ewallet' then 'E-Wallet'
+      when 'bank_transfer' then 'Bank Transfer'
+      else 'Cash'
+    end,
+    -- Upfront payments wait for the card payment or the proof; cash is collected on delivery or pickup
+    case p_payment_method when 'cash' then 'unpaid' else 'pending' end,
+    p_delivery_address,
+    p_delivery_option,
+    p_idempotency_key
+  )
+  returning * into v_order;
+
+  insert into order_items (order_id, product_id, custom_bouquet_id, quantity, price)
+  select v_order.id, p.id, cb.id, (i->>'quantity')::int, coalesce(p.price, cb.price)
+  from jsonb_array_elements(p_items) i
+  left join products p on p.id = (i->>'product_id')::uuid
+  left join custom_bouquets cb on cb.id = (i->>'custom_bouquet_id')::uuid;
+
+  -- Clear only the purchased cart rows
+  delete from carts
+  where user_id = v_user_id
+    and (
+      product_id in (select (i->>'product_id')::uuid from jsonb_array_elements(p_items) i where i ? 'product_id')
+      or custom_bouquet_id in (select (i->>'custom_bouquet_id')::uuid from jsonb_array_elements(p_items) i where i ? 'custom_bouquet_id')
+    );
+
+  return to_jsonb(v_order) || jsonb_build_object(
+    'delivery_fee', v_delivery_fee,
+    'order_items', coalesce(
+      (select jsonb_agg(to_jsonb(oi)) from order_items oi where oi.order_id = v_order.id),
+      '[]'::jsonb
+    )
+  );
+exception
+  -- A concurrent attempt with the same key committed first; return its order instead of
+  -- failing a checkout that was in fact placed
+  when unique_violation then
+    if p_idempotency_key is null then
+      raise;
+    end if;
+    select * into v_order from orders
+      where user_id = v_user_id and idempotency_key = p_idempotency_key;
+    if not found then
+      raise;
+    end if;
+    return to_jsonb(v_order) || jsonb_build_object(
+      'delivery_fee', case when v_order.delivery_option = 'delivery' then 59 else 0 end,
+      'order_items', coalesce(
+        (select jsonb_agg(to_jsonb(oi)) from order_items oi where oi.order_id = v_order.id),
+        '[]'::jsonb
+      )
+    );
+end;
+$$;
+
+grant execute on function public.place_order(jsonb, text, text, text, text, text) to authenticated;
@@ -0,0 +1,381 @@
+-- 018_delivery_zones.sql
+-- Admin-managed delivery zones replace the flat ₱59 delivery fee. A delivery address is
+-- matched to a zone by ZIP code first, then by city; addresses outside every active zone
+-- are not served. Each zone has its own fee, minimum order and same-day cutoff.
+-- quote_delivery is what the cart shows and place_order charges, so both use one source.
+
+alter table public.shop_settings
+  add column if not exists timezone text not null default 'Asia/Manila';
+
+create table if not exists public.delivery_zones (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  -- Matched case-insensitively against the city the customer enters
+  cities text[] not null default '{}',
+  zip_codes text[] not null default '{}',
+  fee integer not null default 0 check (fee >= 0),
+  -- Subtotal (before the delivery fee) needed for delivery to this zone
+  min_order integer not null default 0 check (min_order >= 0),
+  -- Orders placed after this local time are delivered the next day; null for no same-day delivery
+  same_day_cutoff time,
+  active boolean not null default true,
+  sort_order integer not null default 0,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+alter table public.delivery_zones enable row level security;
+
+drop policy if exists delivery_zones_read on public.delivery_zones;
+create policy delivery_zones_read on public.delivery_zones for select using (true);
+
+drop policy if exists delivery_zones_admin on public.delivery_zones;
+create policy delivery_zones_admin on public.delivery_zones for all
+  using (exists (select 1 from profiles p where p.id = auth.uid()::uuid and p.role = 'admin'))
+  with check (exists (select 1 from profiles p where p.id = auth.uid()::uuid and p.role = 'admin'));
+
+-- The area served at the old flat fee
+insert into public.delivery_zones (name, cities, zip_codes, fee, same_day_cutoff)
+select 'Flower City', array['flower city'], array['12345'], 59, '14:00'
+where not exists (select 1 from public.delivery_zones);
+
+-- The fee is stored on the order so replays and receipts don't depend on today's zones
+alter table public.orders
+  add column if not exists delivery_zone_id uuid references public.delivery_zones(id) on delete set null,
+  add column if not exists delivery_city text,
+  add column if not exists delivery_zip_code text,
+  add column if not exists delivery_fee integer not null default 0 check (delivery_fee >= 0);
+
+update public.orders set delivery_fee = 59 where delivery_option = 'delivery' and delivery_fee = 0;
+
+-- ZIP code matches win over city matches; ties go to the lowest sort order
+create or replace function public.fn_match_delivery_zone(p_city text, p_zip_code text)
+returns delivery_zones
+language sql
+stable
+set search_path = public
+as $$
+  select z.*
+  from delivery_zones z
+  where z.active
+    and (
+      nullif(trim(p_zip_code), '') = any(z.zip_codes)
+      or lower(trim(p_city)) = any(select lower(trim(c)) from unnest(z.cities) c)
+    )
+  order by (nullif(trim(p_zip_code), '') = any(z.zip_codes)) desc nulls last, z.sort_order, z.name
+  limit 1;
+$$;
+
+-- Delivery fee and rules for an address. { "served": false } when no zone covers it.
+create or replace function public.quote_delivery(p_city text, p_zip_code text default null, p_subtotal integer default null)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_zone delivery_zones%rowtype;
+  v_local_time time;
+begin
+  v_zone := fn_match_delivery_zone(p_city, p_zip_code);
+  if v_zone.id is null then
+    return jsonb_build_object('served', false);
+  end if;
+
+  select (now() at time zone coalesce((select timezone from shop_settings limit 1), 'Asia/Manila'))::time
+    into v_local_time;
+
+  return jsonb_build_object(
+    'served', true,
+    'zone_id', v_zone.id,
+    'zone_name', v_zone.name,
+    'fee', v_zone.fee,
+    'min_order', v_zone.min_order,
+    'meets_min_order', p_subtotal is null or p_subtotal >= v_zone.min_order,
+    'same_day_cutoff', v_zone.same_day_cutoff,
+    'same_day_available', v_zone.same_day_cutoff is not null and v_local_time < v_zone.same_day_cutoff
+  );
+end;
+$$;
+
+grant execute on function public.quote_delivery(text, text, integer) to anon, authenticated;
+
+-- place_order from 017 with the delivery address matched to a zone. The old signature is
+-- dropped so callers cannot skip the zone check.
+drop function if exists public.place_order(jsonb, text, text, text, text, text);
+
+create or replace function public.place_order(
+  p_items jsonb,
+  p_delivery_option text default 'delivery',
+  p_delivery_address text default null,
+  p_phone text default null,
+  p_idempotency_key text default null,
+  p_payment_method text default 'cash',
+  p_city text default null,
+  p_zip_code text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_order orders%rowtype;
+  v_subtotal integer;
+  v_delivery_fee integer := 0;
+  v_bouquet record;
+  v_quote jsonb;
+  v_zone delivery_zones%rowtype;
+begin
+  if v_user_id is null then
+    raise exception 'Please sign in to place your order';
+  end if;
+
+  -- Replayed request: return the order created by the first attempt
+  if p_idempotency_key is not null then
+    select * into v_order from orders
+      where user_id = v_user_id and idempotency_key = p_idempotency_key;
+    if found then
+      return to_jsonb(v_order) || jsonb_build_object(
+        'delivery_fee', v_order.delivery_fee,
+        'order_items', coalesce(
+          (select jsonb_agg(to_jsonb(oi)) from order_items oi where oi.order_id = v_order.id),
+          '[]'::jsonb
+        )
+      );
+    end if;
+  end if;
+
+  if not exists (select 1 from profiles where id = v_user_id) then
+    raise exception 'Account setup incomplete: no user profile found';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Order must contain at least one item';
+  end if;
+
+  if p_delivery_option not in ('delivery', 'pickup') then
+    raise exception 'Invalid delivery option: %', p_delivery_option;
+  end if;
+
+  if p_payment_method not in ('cash', 'card', 'ewallet', 'bank_transfer') then
+    raise exception 'Invalid payment method: %', p_payment_method;
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) i
+    where coalesce((i->>'quantity')::int, 0) < 1
+  ) then
+    raise exception 'Item quantities must be at least 1';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) i
+    left join products p on p.id = (i->>'product_id')::uuid
+    where i ? 'product_id' and p.id is null
+  ) then
+    raise exception 'One or more products in your cart are no longer available';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) i
+    left join custom_bouquets cb on cb.id = (i->>'custom_bouquet_id')::uuid and cb.user_id = v_user_id
+    where i ? 'custom_bouquet_id' and cb.id is null
+  ) then
+    raise exception 'One or more custom bouquets in your cart could not be found';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) i
+    where not (i ? 'product_id') and not (i ? 'custom_bouquet_id')
+  ) then
+    raise exception 'Every order line needs a product or a custom bouquet';
+  end if;
+
+  -- Re-validate and re-price custom bouquets against the current sizes and flowers
+  for v_bouquet in
+    select cb.id, cb.size, cb.flowers from custom_bouquets cb
+    where cb.id in (
+      select (i->>'custom_bouquet_id')::uuid from jsonb_array_elements(p_items) i
+      where i ? 'custom_bouquet_id'
+    )
+  loop
+    v_quote := fn_quote_custom_bouquet(v_bouquet.size, v_bouquet.flowers);
+    update custom_bouquets
+      set size_name = v_quote->>'size_name',
+          flowers = v_quote->'flowers',
+          base_price = (v_quote->>'base_price')::int,
+          stems_price = (v_quote->>'stems_price')::int,
+          wrapping_fee = (v_quote->>'wrapping_fee')::int,
+          price = (v_quote->>'price')::int
+      where id = v_bouquet.id;
+  end loop;
+
+  -- Price every line from the products and custom_bouquets tables
+  select coalesce(sum(coalesce(p.price, cb.price) * (i->>'quantity')::int), 0)
+    into v_subtotal
+  from jsonb_array_elements(p_items) i
+  left join products p on p.id = (i->>'product_id')::uuid
+  left join custom_bouquets cb on cb.id = (i->>'custom_bouquet_id')::uuid;
+
+  if p_delivery_option = 'delivery' then
+    v_zone := fn_match_delivery_zone(p_city, p_zip_code);
+    if v_zone.id is null then
+      raise exception 'Sorry, we do not deliver to % yet', coalesce(nullif(trim(p_city), ''), 'this address');
+    end if;
+    if v_subtotal < v_zone.min_order then
+      raise exception 'Orders for delivery to % must be at least ₱%', v_zone.name, v_zone.min_order;
+    end if;
+    v_delivery_fee := v_zone.fee;
+  end if;
+
+  insert into orders (
+    user_id, total_amount, phone, date, status, payment, payment_status, delivery_address, delivery_option,
+    delivery_zone_id, delivery_city, delivery_zip_code, delivery_fee, idempotency_key
+  )
+  values (
+    v_user_id,
+    v_subtotal + v_delivery_fee,
+    coalesce(p_phone, (select phone from profiles where id = v_user_id)),
+    current_date,
+    'Pending',
+    case p_payment_method
+      when 'card' then 'Card'
+      when 'ewallet' then 'E-Wallet'
+      when 'bank_transfer' then 'Bank Transfer'
+      else 'Cash'
+    end,
+    -- Upfront payments wait for the card payment or the proof; cash is collected on delivery or pickup
+    case p_payment_method when 'cash' then 'unpaid' else 'pending' end,
+    p_delivery_address,
+    p_delivery_option,
+    v_zone.id,
+    nullif(trim(p_city), ''),
+    nullif(trim(p_zip_code), ''),
+    v_delivery_fee,
+    p_idempotency_key
+  )
+  returning * into v_order;
+
+  insert into order_items (order_id, product_id, custom_bouquet_id, quantity, price)
+  select v_order.id, p.id, cb.id, (i->>'quantity')::int, coalesce(p.price, cb.price)
+  from jsonb_array_elements(p_items) i
+  left join products p on p.id = (i->>'product_id')::uuid
+  left join custom_bouquets cb on cb.id = (i->>'custom_bouquet_id')::uuid;
+
+  -- Clear only the purchased cart rows
+  delete from carts
+  where user_id = v_user_id
+    and (
+      product_id in (select (i->>'product_id')::uuid from jsonb_array_elements(p_items) i where i ? 'product_id')
+      or custom_bouquet_id in (select (i->>'custom_bouquet_id')::uuid from jsonb_array_elements(p_items) i where i ? 'custom_bouquet_id')
+    );
+
+  return to_jsonb(v_order) || jsonb_build_object(
+    'delivery_fee', v_delivery_fee,
+    'order_items', coalesce(
+      (select jsonb_agg(to_jsonb(oi)) from order_items oi where oi.order_id = v_order.id),
+      '[]'::jsonb
+    )
+  );
+exception
+  -- A concurrent attempt with the same key committed first; return its order instead of
+  -- failing a checkout that was in fact placed
+  when unique_violation then
+    if p_idempotency_key is null then
+      raise;
+    end if;
+    select * into v_order from orders
+      where user_id = v_user_id and idempotency_key = p_idempotency_key;
+    if not found then
+      raise;
+    end if;
+    return to_jsonb(v_order) || jsonb_build_object(
+      'delivery_fee', v_order.delivery_fee,
+      'order_items', coalesce(
+        (select jsonb_agg(to_jsonb(oi)) from order_items oi where oi.order_id = v_order.id),
+        '[]'::jsonb
+      )
+    );
+end;
+$$;
+
+grant execute on function public.place_order(jsonb, text, text, text, text, text, text, text) to authenticated;
+
+-- modify_order from 011 with the new address matched to a zone again, so a customer
+-- cannot move a delivery outside the served area or keep the old zone's fee. The old
+-- signature is dropped so callers cannot skip the zone check.
+drop function if exists public.modify_order(uuid, text, timestamptz, text);
+
+create or replace function public.modify_order(
+  p_order_id uuid,
+  p_delivery_address text,
+  p_city text,
+  p_zip_code text,
+  p_pickup_time timestamptz,
+  p_special_instructions text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order orders%rowtype;
+  v_zone delivery_zones%rowtype;
+  v_delivery_fee integer;
+begin
+  select * into v_order from orders where id = p_order_id and user_id = auth.uid() for update;
+  if not found then
+    raise exception 'Order % not found', p_order_id;
+  end if;
+
+  if not fn_order_changes_allowed(v_order) then
+    raise exception 'Order % can no longer be changed online. Please contact the shop.', v_order.order_number;
+  end if;
+
+  if v_order.delivery_option = 'delivery' and coalesce(trim(p_delivery_address), '') = '' then
+    raise exception 'A delivery address is required';
+  end if;
+
+  if p_pickup_time is not null and p_pickup_time < now() then
+    raise exception 'Pickup time must be in the future';
+  end if;
+
+  v_delivery_fee := v_order.delivery_fee;
+  if v_order.delivery_option = 'delivery' then
+    v_zone := fn_match_delivery_zone(p_city, p_zip_code);
+    if v_zone.id is null then
+      raise exception 'Sorry, we do not deliver to % yet', coalesce(nullif(trim(p_city), ''), 'this address');
+    end if;
+    if v_order.total_amount - v_order.delivery_fee < v_zone.min_order then
+      raise exception 'Orders for delivery to % must be at least ₱%', v_zone.name, v_zone.min_order;
+    end if;
+    v_delivery_fee := v_zone.fee;
+
+    -- The amount already paid or being paid was for the old fee
+    if v_delivery_fee <> v_order.delivery_fee and v_order.payment_status <> 'unpaid' then
+      raise exception 'Moving order % to % changes the delivery fee. Please contact the shop.', v_order.order_number, v_zone.name;
+    end if;
+  end if;
+
+  update orders
+     set delivery_address = case when delivery_option = 'delivery' then trim(p_delivery_address) else delivery_address end,
+         delivery_zone_id = case when delivery_option = 'delivery' then v_zone.id else delivery_zone_id end,
+         delivery_city = case when delivery_option = 'delivery' then nullif(trim(p_city), '') else delivery_city end,
+         delivery_zip_code = case when delivery_option = 'delivery' then nullif(trim(p_zip_code), '') else delivery_zip_code end,
+         total_amount = total_amount - delivery_fee + v_delivery_fee,
+         delivery_fee = v_delivery_fee,
+         pickup_time = p_pickup_time,
+         special_instructions = nullif(trim(p_special_instructions), ''),
+         modified_at = now()
+   where id = p_order_id
+  returning * into v_order;
+
+  return to_jsonb(v_order);
+end;
+$$;
+
+grant execute on function public.modify_order(uuid, text, text, text, timestamptz, text) to authenticated;
@@ -0,0 +1,538 @@
+-- 019_delivery_slots.sql
+-- Scheduled delivery and pickup. Admins define time slots (with an optional per-slot order
+-- capacity and the weekdays they run), blackout dates and how far ahead orders must be
+-- placed. Customers pick a date and slot at checkout; place_order re-checks the slot and
+-- stores it on the order, and the admin order queue is sorted by it.
+
+alter table public.shop_settings
+  -- Minimum time between placing an order and the start of its slot
+  add column if not exists min_lead_minutes integer not null default 120 check (min_lead_minutes >= 0),
+  -- How far ahead customers can schedule
+  add column if not exists max_days_ahead integer not null default 60 check (max_days_ahead > 0);
+
+create table if not exists public.time_slots (
+  id uuid primary key default gen_random_uuid(),
+  label text not null,
+  start_time time not null,
+  end_time time not null,
+  applies_to text not null default 'both' check (applies_to in ('delivery', 'pickup', 'both')),
+  -- Orders per slot per day; null for no limit
+  capacity integer check (capacity is null or capacity > 0),
+  -- Days of the week the slot runs, 0 = Sunday
+  weekdays smallint[] not null default '{0,1,2,3,4,5,6}',
+  active boolean not null default true,
+  sort_order integer not null default 0,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  check (end_time > start_time)
+);
+
+create table if not exists public.blackout_dates (
+  date date primary key,
+  reason text,
+  created_at timestamptz default now()
+);
+
+alter table public.time_slots enable row level security;
+alter table public.blackout_dates enable row level security;
+
+drop policy if exists time_slots_read on public.time_slots;
+create policy time_slots_read on public.time_slots for select using (true);
+
+drop policy if exists time_slots_admin on public.time_slots;
+create policy time_slots_admin on public.time_slots for all
+  using (exists (select 1 from profiles p where p.id = auth.uid()::uuid and p.role = 'admin'))
+  with check (exists (select 1 from profiles p where p.id = auth.uid()::uuid and p.role = 'admin'));
+
+drop policy if exists blackout_dates_read on public.blackout_dates;
+create policy blackout_dates_read on public.blackout_dates for select using (true);
+
+drop policy if exists blackout_dates_admin on public.blackout_dates;
+create policy blackout_dates_admin on public.blackout_dates for all
+  using (exists (select 1 from profiles p where p.id = auth.uid()::uuid and p.role = 'admin'))
+  with check (exists (select 1 from profiles p where p.id = auth.uid()::uuid and p.role = 'admin'));
+
+insert into public.time_slots (label, start_time, end_time, capacity, sort_order)
+select label, start_time, end_time, 10, sort_order
+from (values
+  ('Morning', time '09:00', time '12:00', 1),
+  ('Afternoon', time '12:00', time '15:00', 2),
+  ('Late Afternoon', time '15:00', time '18:00', 3)
+) as seed(label, start_time, end_time, sort_order)
+where not exists (select 1 from public.time_slots);
+
+alter table public.orders
+  add column if not exists scheduled_date date,
+  add column if not exists time_slot_id uuid references public.time_slots(id) on delete set null,
+  -- Copied from the slot so renaming or deleting it keeps the order readable
+  add column if not exists time_slot_label text,
+  -- Start of the slot; what the admin queue sorts by
+  add column if not exists scheduled_for timestamptz;
+
+create index if not exists idx_orders_time_slot on public.orders(time_slot_id, scheduled_date) where status <> 'Cancelled';
+create index if not exists idx_orders_scheduled_for on public.orders(scheduled_for);
+
+-- Current date and time in the shop's timezone
+create or replace function public.fn_shop_now()
+returns timestamp
+language sql
+stable
+set search_path = public
+as $$
+  select now() at time zone coalesce((select timezone from shop_settings limit 1), 'Asia/Manila');
+$$;
+
+create or replace function public.fn_time_slot_booked(p_slot_id uuid, p_date date)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select count(*)::int from orders
+  where time_slot_id = p_slot_id and scheduled_date = p_date and status <> 'Cancelled';
+$$;
+
+-- Why a slot cannot be booked on a date, or null when it can. The zone is only needed
+-- for same-day delivery.
+create or replace function public.fn_time_slot_unavailable_reason(
+  p_slot time_slots,
+  p_date date,
+  p_delivery_option text,
+  p_zone delivery_zones default null
+)
+returns text
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_now timestamp := fn_shop_now();
+  v_settings shop_settings%rowtype;
+begin
+  select * into v_settings from shop_settings limit 1;
+
+  if not p_slot.active then
+    return 'This time slot is no longer offered';
+  end if;
+  if p_slot.applies_to not in (p_delivery_option, 'both') then
+    return format('This time slot is not available for %s', p_delivery_option);
+  end if;
+  if exists (select 1 from blackout_dates where date = p_date) then
+    return 'We are closed on this date';
+  end if;
+  if not (extract(dow from p_date)::smallint = any(p_slot.weekdays)) then
+    return 'This time slot is not offered on this day';
+  end if;
+  if p_date < v_now::date then
+    return 'This date has already passed';
+  end if;
+  if p_date > v_now::date + coalesce(v_settings.max_days_ahead, 60) then
+    return format('Orders can only be scheduled up to %s days ahead', coalesce(v_settings.max_days_ahead, 60));
+  end if;
+  if p_date + p_slot.start_time < v_now + make_interval(mins => coalesce(v_settings.min_lead_minutes, 0)) then
+    return 'This time slot is too soon, please choose a later one';
+  end if;
+  if p_delivery_option = 'delivery' and p_date = v_now::date and p_zone.id is not null
+     and (p_zone.same_day_cutoff is null or v_now::time >= p_zone.same_day_cutoff) then
+    return format('Same-day delivery to %s has closed for today', p_zone.name);
+  end if;
+  if p_slot.capacity is not null and fn_time_slot_booked(p_slot.id, p_date) >= p_slot.capacity then
+    return 'This time slot is fully booked';
+  end if;
+  return null;
+end;
+$$;
+
+-- Internal to available_time_slots, place_order and modify_order; the client roles hold
+-- their own grants, so they are revoked explicitly to keep booking counts private.
+revoke execute on function public.fn_time_slot_booked(uuid, date) from public, anon, authenticated;
+revoke execute on function public.fn_time_slot_unavailable_reason(time_slots, date, text, delivery_zones) from public, anon, authenticated;
+
+-- Slots offered on a date, each with whether it can still be booked and why not
+create or replace function public.available_time_slots(
+  p_date date,
+  p_delivery_option text default 'delivery',
+  p_city text default null,
+  p_zip_code text default null
+)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_zone delivery_zones%rowtype;
+  v_slot time_slots%rowtype;
+  v_reason text;
+  v_result jsonb := '[]'::jsonb;
+begin
+  if p_delivery_option = 'delivery' then
+    v_zone := fn_match_delivery_zone(p_city, p_zip_code);
+  end if;
+
+  for v_slot in
+    select * from time_slots
+    where active
+      and applies_to in (p_delivery_option, 'both')
+      and extract(dow from p_date)::smallint = any(weekdays)
+    order by sort_order, start_time
+  loop
+    v_reason := fn_time_slot_unavailable_reason(v_slot, p_date, p_delivery_option, v_zone);
+    v_result := v_result || jsonb_build_object(
+      'id', v_slot.id,
+      'label', v_slot.label,
+      'start_time', v_slot.start_time,
+      'end_time', v_slot.end_time,
+      'remaining', case when v_slot.capacity is null then null
+                        else greatest(v_slot.capacity - fn_time_slot_booked(v_slot.id, p_date), 0) end,
+      'available', v_reason is null,
+      'reason', v_reason
+    );
+  end loop;
+
+  return v_result;
+end;
+$$;
+
+grant execute on function public.available_time_slots(date, text, text, text) to anon, authenticated;
+
+-- place_order from 018 with a scheduled date and time slot. The old signature is dropped
+-- so callers cannot skip the slot check.
+drop function if exists public.place_order(jsonb, text, text, text, text, text, text, text);
+
+create or replace function public.place_order(
+  p_items jsonb,
+  p_delivery_option text default 'delivery',
+  p_delivery_address text default null,
+  p_phone text default null,
+  p_idempotency_key text default null,
+  p_payment_method text default 'cash',
+  p_city text default null,
+  p_zip_code text default null,
+  p_scheduled_date date default null,
+  p_time_slot_id uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_order orders%rowtype;
+  v_subtotal integer;
+  v_delivery_fee integer := 0;
+  v_bouquet record;
+  v_quote jsonb;
+  v_zone delivery_zones%rowtype;
+  v_slot time_slots%rowtype;
+  v_slot_error text;
+  v_scheduled_for timestamptz;
+begin
+  if v_user_id is null then
+    raise exception 'Please sign in to place your order';
+  end if;
+
+  -- Replayed request: return the order created by the first attempt
+  if p_idempotency_key is not null then
+    select * into v_order from orders
+      where user_id = v_user_id and idempotency_key = p_idempotency_key;
+    if found then
+      return to_jsonb(v_order) || jsonb_build_object(
+        'delivery_fee', v_order.delivery_fee,
+        'order_items', coalesce(
+          (select jsonb_agg(to_jsonb(oi)) from order_items oi where oi.order_id = v_order.id),
+          '[]'::jsonb
+        )
+      );
+    end if;
+  end if;
+
+  if not exists (select 1 from profiles where id = v_user_id) then
+    raise exception 'Account setup incomplete: no user profile found';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Order must contain at least one item';
+  end if;
+
+  if p_delivery_option not in ('delivery', 'pickup') then
+    raise exception 'Invalid delivery option: %', p_delivery_option;
+  end if;
+
+  if p_payment_method not in ('cash', 'card', 'ewallet', 'bank_transfer') then
+    raise exception 'Invalid payment method: %', p_payment_method;
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) i
+    where coalesce((i->>'quantity')::int, 0) < 1
+  ) then
+    raise exception 'Item quantities must be at least 1';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) i
+    left join products p on p.id = (i->>'product_id')::uuid
+    where i ? 'product_id' and p.id is null
+  ) then
+    raise exception 'One or more products in your cart are no longer available';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) i
+    left join custom_bouquets cb on cb.id = (i->>'custom_bouquet_id')::uuid and cb.user_id = v_user_id
+    where i ? 'custom_bouquet_id' and cb.id is null
+  ) then
+    raise exception 'One or more custom bouquets in your cart could not be found';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) i
+    where not (i ? 'product_id') and not (i ? 'custom_bouquet_id')
+  ) then
+    raise exception 'Every order line needs a product or a custom bouquet';
+  end if;
+
+  -- Re-validate and re-price custom bouquets against the current sizes and flowers
+  for v_bouquet in
+    select cb.id, cb.size, cb.flowers from custom_bouquets cb
+    where cb.id in (
+      select (i->>'custom_bouquet_id')::uuid from jsonb_array_elements(p_items) i
+      where i ? 'custom_bouquet_id'
+    )
+  loop
+    v_quote := fn_quote_custom_bouquet(v_bouquet.size, v_bouquet.flowers);
+    update custom_bouquets
+      set size_name = v_quote->>'size_name',
+          flowers = v_quote->'flowers',
+          base_price = (v_quote->>'base_price')::int,
+          stems_price = (v_quote->>'stems_price')::int,
+          wrapping_fee = (v_quote->>'wrapping_fee')::int,
+          price = (v_quote->>'price')::int
+      where id = v_bouquet.id;
+  end loop;
+
+  -- Price every line from the products and custom_bouquets tables
+  select coalesce(sum(coalesce(p.price, cb.price) * (i->>'quantity')::int), 0)
+    into v_subtotal
+  from jsonb_array_elements(p_items) i
+  left join products p on p.id = (i->>'product_id')::uuid
+  left join custom_bouquets cb on cb.id = (i->>'custom_bouquet_id')::uuid;
+
+  if p_delivery_option = 'delivery' then
+    v_zone := fn_match_delivery_zone(p_city, p_zip_code);
+    if v_zone.id is null then
+      raise exception 'Sorry, we do not deliver to % yet', coalesce(nullif(trim(p_city), ''), 'this address');
+    end if;
+    if v_subtotal < v_zone.min_order then
+      raise exception 'Orders for delivery to % must be at least ₱%', v_zone.name, v_zone.min_order;
+    end if;
+    v_delivery_fee := v_zone.fee;
+  end if;
+
+  -- The slot row is locked so concurrent checkouts cannot overbook it
+  if p_time_slot_id is not null or p_scheduled_date is not null then
+    if p_time_slot_id is null or p_scheduled_date is null then
+      raise exception 'Please choose both a date and a time slot';
+    end if;
+
+    select * into v_slot from time_slots where id = p_time_slot_id for update;
+    if not found then
+      raise exception 'The selected time slot is no longer offered';
+    end if;
+
+    v_slot_error := fn_time_slot_unavailable_reason(v_slot, p_scheduled_date, p_delivery_option, v_zone);
+    if v_slot_error is not null then
+      raise exception '%', v_slot_error;
+    end if;
+
+    v_scheduled_for := (p_scheduled_date + v_slot.start_time)
+      at time zone coalesce((select timezone from shop_settings limit 1), 'Asia/Manila');
+  elsif exists (select 1 from time_slots where active and applies_to in (p_delivery_option, 'both')) then
+    raise exception 'Please choose a % date and time slot', p_delivery_option;
+  end if;
+
+  insert into orders (
+    user_id, total_amount, phone, date, status, payment, payment_status, delivery_address, delivery_option,
+    delivery_zone_id, delivery_city, delivery_zip_code, delivery_fee,
+    scheduled_date, time_slot_id, time_slot_label, scheduled_for, pickup_time, idempotency_key
+  )
+  values (
+    v_user_id,
+    v_subtotal + v_delivery_fee,
+    coalesce(p_phone, (select phone from profiles where id = v_user_id)),
+    current_date,
+    'Pending',
+    case p_payment_method
+      when 'card' then 'Card'
+      when 'ewallet' then 'E-Wallet'
+      when 'bank_transfer' then 'Bank Transfer'
+      else 'Cash'
+    end,
+    -- Upfront payments wait for the card payment or the proof; cash is collected on delivery or pickup
+    case p_payment_method when 'cash' then 'unpaid' else 'pending' end,
+    p_delivery_address,
+    p_delivery_option,
+    v_zone.id,
+    nullif(trim(p_city), ''),
+    nullif(trim(p_zip_code), ''),
+    v_delivery_fee,
+    p_scheduled_date,
+    v_slot.id,
+    v_slot.label,
+    v_scheduled_for,
+    case when p_delivery_option = 'pickup' then v_scheduled_for end,
+    p_idempotency_key
+  )
+  returning * into v_order;
+
+  insert into order_items (order_id, product_id, custom_bouquet_id, quantity, price)
+  select v_order.id, p.id, cb.id, (i->>'quantity')::int, coalesce(p.price, cb.price)
+  from jsonb_array_elements(p_items) i
+  left join products p on p.id = (i->>'product_id')::uuid
+  left join custom_bouquets cb on cb.id = (i->>'custom_bouquet_id')::uuid;
+
+  -- Clear only the purchased cart rows
+  delete from carts
+  where user_id = v_user_id
+    and (
+      product_id in (select (i->>'product_id')::uuid from jsonb_array_elements(p_items) i where i ? 'product_id')
+      or custom_bouquet_id in (select (i->>'custom_bouquet_id')::uuid from jsonb_array_elements(p_items) i where i ? 'custom_bouquet_id')
+    );
+
+  return to_jsonb(v_order) || jsonb_build_object(
+    'delivery_fee', v_delivery_fee,
+    'order_items', coalesce(
+      (select jsonb_agg(to_jsonb(oi)) from order_items oi where oi.order_id = v_order.id),
+      '[]'::jsonb
+    )
+  );
+exception
+  -- A concurrent attempt with the same key committed first; return its order instead of
+  -- failing a checkout that was in fact placed
+  when unique_violation then
+    if p_idempotency_key is null then
+      raise;
+    end if;
+    select * into v_order from orders
+      where user_id = v_user_id and idempotency_key = p_idempotency_key;
+    if not found then
+      raise;
+    end if;
+    return to_jsonb(v_order) || jsonb_build_object(
+      'delivery_fee', v_order.delivery_fee,
+      'order_items', coalesce(
+        (select jsonb_agg(to_jsonb(oi)) from order_items oi where oi.order_id = v_order.id),
+        '[]'::jsonb
+      )
+    );
+end;
+$$;
+
+grant execute on function public.place_order(jsonb, text, text, text, text, text, text, text, date, uuid) to authenticated;
+
+-- modify_order from 018 with the pickup time replaced by a date and time slot, checked the
+-- same way place_order checks them. Leaving both empty keeps the order's current slot.
+drop function if exists public.modify_order(uuid, text, text, text, timestamptz, text);
+
+create or replace function public.modify_order(
+  p_order_id uuid,
+  p_delivery_address text,
+  p_city text,
+  p_zip_code text,
+  p_scheduled_date date,
+  p_time_slot_id uuid,
+  p_special_instructions text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order orders%rowtype;
+  v_zone delivery_zones%rowtype;
+  v_delivery_fee integer;
+  v_slot time_slots%rowtype;
+  v_slot_error text;
+  v_scheduled_for timestamptz;
+begin
+  select * into v_order from orders where id = p_order_id and user_id = auth.uid() for update;
+  if not found then
+    raise exception 'Order % not found', p_order_id;
+  end if;
+
+  if not fn_order_changes_allowed(v_order) then
+    raise exception 'Order % can no longer be changed online. Please contact the shop.', v_order.order_number;
+  end if;
+
+  if v_order.delivery_option = 'delivery' and coalesce(trim(p_delivery_address), '') = '' then
+    raise exception 'A delivery address is required';
+  end if;
+
+  v_delivery_fee := v_order.delivery_fee;
+  if v_order.delivery_option = 'delivery' then
+    v_zone := fn_match_delivery_zone(p_city, p_zip_code);
+    if v_zone.id is null then
+      raise exception 'Sorry, we do not deliver to % yet', coalesce(nullif(trim(p_city), ''), 'this address');
+    end if;
+    if v_order.total_amount - v_order.delivery_fee < v_zone.min_order then
+      raise exception 'Orders for delivery to % must be at least ₱%', v_zone.name, v_zone.min_order;
+    end if;
+    v_delivery_fee := v_zone.fee;
+
+    -- The amount already paid or being paid was for the old fee
+    if v_delivery_fee <> v_order.delivery_fee and v_order.payment_status <> 'unpaid' then
+      raise exception 'Moving order % to % changes the delivery fee. Please contact the shop.', v_order.order_number, v_zone.name;
+    end if;
+  end if;
+
+  -- A new slot is checked under the slot row lock so concurrent changes and checkouts
+  -- cannot overbook it
+  if p_time_slot_id is not null or p_scheduled_date is not null then
+    if p_time_slot_id is null or p_scheduled_date is null then
+      raise exception 'Please choose both a date and a time slot';
+    end if;
+
+    select * into v_slot from time_slots where id = p_time_slot_id for update;
+    if not found then
+      raise exception 'The selected time slot is no longer offered';
+    end if;
+
+    if p_time_slot_id is distinct from v_order.time_slot_id or p_scheduled_date is distinct from v_order.scheduled_date then
+      v_slot_error := fn_time_slot_unavailable_reason(v_slot, p_scheduled_date, v_order.delivery_option, v_zone);
+      if v_slot_error is not null then
+        raise exception '%', v_slot_error;
+      end if;
+    end if;
+
+    v_scheduled_for := (p_scheduled_date + v_slot.start_time)
+      at time zone coalesce((select timezone from shop_settings limit 1), 'Asia/Manila');
+  end if;
+
+  update orders
+     set delivery_address = case when delivery_option = 'delivery' then trim(p_delivery_address) else delivery_address end,
+         delivery_zone_id = case when delivery_option = 'delivery' then v_zone.id else delivery_zone_id end,
+         delivery_city = case when delivery_option = 'delivery' then nullif(trim(p_city), '') else delivery_city end,
+         delivery_zip_code = case when delivery_option = 'delivery' then nullif(trim(p_zip_code), '') else delivery_zip_code end,
+         total_amount = total_amount - delivery_fee + v_delivery_fee,
+         delivery_fee = v_delivery_fee,
+         scheduled_date = coalesce(p_scheduled_date, scheduled_date),
+         time_slot_id = case when p_time_slot_id is not null then v_slot.id else time_slot_id end,
+         time_slot_label = case when p_time_slot_id is not null then v_slot.label else time_slot_label end,
+         scheduled_for = coalesce(v_scheduled_for, scheduled_for),
+         pickup_time = case when delivery_option = 'pickup' and v_scheduled_for is not null then v_scheduled_for else pickup_time end,
+         special_instructions = nullif(trim(p_special_instructions), ''),
+         modified_at = now()
+   where id = p_order_id
+  returning * into v_order;
+
+  return to_jsonb(v_order);
+end;
+$$;
+
+grant execute on function public.modify_order(uuid, text, text, text, date, uuid, text) to authenticated;
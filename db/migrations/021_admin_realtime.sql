@@ -0,0 +1,19 @@
+-- 021_admin_realtime.sql
+-- The admin order board listens for new and changed orders. Only orders is added to the
+-- Realtime publication, where RLS decides which rows each client receives. order_items has
+-- no RLS, so it stays out and the board refetches the items after each order event.
+
+do $$
+begin
+  if not exists (select 1 from pg_publication where pubname = 'supabase_realtime') then
+    return;
+  end if;
+
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'orders'
+  ) then
+    alter publication supabase_realtime add table public.orders;
+  end if;
+end;
+$$;
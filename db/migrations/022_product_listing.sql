@@ -0,0 +1,35 @@
+-- 022_product_listing.sql
+-- Computed columns for the paginated shop listing, so filtering by category and sorting
+-- by popularity happen in the same products query as paging and the total count.
+
+create index if not exists idx_products_price on public.products(price);
+create index if not exists idx_product_categories_category on public.product_categories(category_id);
+create index if not exists idx_order_items_product on public.order_items(product_id);
+
+-- Names of the product's categories. Filter with products?category_names=cs.{Wedding}.
+create or replace function public.category_names(p products)
+returns text[]
+language sql
+stable
+as $$
+  select coalesce(array_agg(c.name order by c.name), '{}')
+  from product_categories pc
+  join categories c on c.id = pc.category_id
+  where pc.product_id = p.id;
+$$;
+
+-- Units sold in orders that were not cancelled or refunded. Runs as the owner because
+-- customers cannot read each other's order items; only the total is exposed.
+create or replace function public.units_sold(p products)
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(sum(oi.quantity), 0)::integer
+  from order_items oi
+  join orders o on o.id = oi.order_id
+  where oi.product_id = p.id
+    and o.status not in ('Cancelled', 'Refunded');
+$$;
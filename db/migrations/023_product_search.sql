@@ -0,0 +1,193 @@
+-- 023_product_search.sql
+-- Storefront search. Each product keeps a search_text (description, category names and
+-- the flowers in its bill of materials) that triggers refresh when any of those change;
+-- search_vector weights the name above it. search_products combines full-text matches
+-- with trigram similarity so misspelt queries still find products, and
+-- search_suggestions offers "did you mean" terms.
+
+create extension if not exists pg_trgm;
+
+alter table public.products
+  add column if not exists description text,
+  add column if not exists search_text text not null default '';
+
+alter table public.products
+  add column if not exists search_vector tsvector generated always as (
+    setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('english', search_text), 'B')
+  ) stored;
+
+create index if not exists idx_products_search_vector on public.products using gin (search_vector);
+create index if not exists idx_products_name_trgm on public.products using gin (name gin_trgm_ops);
+create index if not exists idx_products_search_text_trgm on public.products using gin (search_text gin_trgm_ops);
+
+-- Everything searchable about a product except its name
+create or replace function public.fn_product_search_text(p_product_id uuid, p_description text)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select concat_ws(' ',
+    p_description,
+    (select string_agg(c.name, ' ')
+       from product_categories pc
+       join categories c on c.id = pc.category_id
+      where pc.product_id = p_product_id),
+    (select string_agg(ft.name, ' ')
+       from product_components pcm
+       join flower_types ft on ft.id = pcm.flower_type_id
+      where pcm.product_id = p_product_id)
+  );
+$$;
+
+create or replace function public.fn_refresh_product_search(p_product_ids uuid[])
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update products
+     set search_text = fn_product_search_text(id, description)
+   where id = any(p_product_ids);
+$$;
+
+-- Internal to the search triggers below. Revoked from the client roles by name as well,
+-- since their direct grants would otherwise let anyone rewrite products.search_text.
+revoke execute on function public.fn_product_search_text(uuid, text) from public, anon, authenticated;
+revoke execute on function public.fn_refresh_product_search(uuid[]) from public, anon, authenticated;
+
+create or replace function public.trg_products_search_text()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.search_text := fn_product_search_text(new.id, new.description);
+  return new;
+end;
+$$;
+
+drop trigger if exists products_search_text on public.products;
+create trigger products_search_text
+  before insert or update of name, description on public.products
+  for each row execute function public.trg_products_search_text();
+
+-- Category links and bill of materials rows point at one product
+create or replace function public.trg_product_link_search_refresh()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op in ('UPDATE', 'DELETE') then
+    perform fn_refresh_product_search(array[old.product_id]);
+  end if;
+  if tg_op in ('INSERT', 'UPDATE') then
+    perform fn_refresh_product_search(array[new.product_id]);
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists product_categories_search_refresh on public.product_categories;
+create trigger product_categories_search_refresh
+  after insert or update or delete on public.product_categories
+  for each row execute function public.trg_product_link_search_refresh();
+
+drop trigger if exists product_components_search_refresh on public.product_components;
+create trigger product_components_search_refresh
+  after insert or update or delete on public.product_components
+  for each row execute function public.trg_product_link_search_refresh();
+
+-- Renaming a category or flower changes the text of every product using it
+create or replace function public.trg_category_search_refresh()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform fn_refresh_product_search(array(
+    select product_id from product_categories where category_id = new.id
+  ));
+  return null;
+end;
+$$;
+
+drop trigger if exists categories_search_refresh on public.categories;
+create trigger categories_search_refresh
+  after update of name on public.categories
+  for each row execute function public.trg_category_search_refresh();
+
+create or replace function public.trg_flower_type_search_refresh()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform fn_refresh_product_search(array(
+    select product_id from product_components where flower_type_id = new.id
+  ));
+  return null;
+end;
+$$;
+
+drop trigger if exists flower_types_search_refresh on public.flower_types;
+create trigger flower_types_search_refresh
+  after update of name on public.flower_types
+  for each row execute function public.trg_flower_type_search_refresh();
+
+update public.products set search_text = fn_product_search_text(id, description);
+
+-- Products matching the query, best first. Full-text matches rank by ts_rank; trigram
+-- word similarity catches typos ("rosses", "sunflwer") and partial words.
+-- Rows come back in rank order unless the caller asks for another order.
+create or replace function public.search_products(p_query text)
+returns setof products
+language sql
+stable
+as $$
+  with q as (
+    select trim(p_query) as text, websearch_to_tsquery('english', trim(p_query)) as tsq
+  )
+  select p.*
+  from products p, q
+  where q.text <> ''
+    and (p.search_vector @@ q.tsq or q.text <% p.name or q.text <% p.search_text)
+  order by
+    ts_rank(p.search_vector, q.tsq) * 2
+      + word_similarity(q.text, p.name)
+      + word_similarity(q.text, p.search_text) / 2 desc,
+    p.name;
+$$;
+
+-- Product, category and flower names closest to a query, for "did you mean"
+create or replace function public.search_suggestions(p_query text, p_limit integer default 3)
+returns setof text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select term
+  from (
+    select name as term from products
+    union
+    select name from categories
+    union
+    select name from flower_types where available
+  ) terms
+  where trim(p_query) <> ''
+    and lower(term) <> lower(trim(p_query))
+    and similarity(term, trim(p_query)) > 0.2
+  order by similarity(term, trim(p_query)) desc, term
+  limit greatest(p_limit, 0);
+$$;
+
+grant execute on function public.search_products(text) to anon, authenticated;
+grant execute on function public.search_suggestions(text, integer) to anon, authenticated;
@@ -0,0 +1,405 @@
+-- 024_product_details.sql
+-- Richer products: a description (added with search in 023), care instructions and a
+-- gallery of extra images, variants such as stem count or "with vase" that change the
+-- price, and shop-wide add-ons (chocolates, balloons, greeting cards) customers can attach
+-- to a product. Each variant and add-on combination is its own cart line, and order items
+-- keep the variant name and the add-ons they were sold with.
+
+alter table public.products
+  add column if not exists care_instructions text,
+  -- Shown after products.image in the product's carousel
+  add column if not exists gallery text[] not null default '{}';
+
+-- Options of one product; price_delta is added to products.price and may be negative
+create table if not exists public.product_variants (
+  id uuid primary key default gen_random_uuid(),
+  product_id uuid not null references public.products(id) on delete cascade,
+  name text not null,
+  price_delta integer not null default 0,
+  sort_order integer not null default 0,
+  created_at timestamptz default now(),
+  unique (product_id, name)
+);
+
+create index if not exists idx_product_variants_product on public.product_variants(product_id);
+
+alter table public.product_variants enable row level security;
+
+drop policy if exists product_variants_read on public.product_variants;
+create policy product_variants_read on public.product_variants for select using (true);
+
+drop policy if exists product_variants_admin on public.product_variants;
+create policy product_variants_admin on public.product_variants for all
+  using (exists (select 1 from profiles p where p.id = auth.uid()::uuid and p.role = 'admin'))
+  with check (exists (select 1 from profiles p where p.id = auth.uid()::uuid and p.role = 'admin'));
+
+-- Extras offered with every product
+create table if not exists public.product_addons (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  description text,
+  image text,
+  price integer not null check (price >= 0),
+  active boolean not null default true,
+  sort_order integer not null default 0,
+  created_at timestamptz default now()
+);
+
+alter table public.product_addons enable row level security;
+
+drop policy if exists product_addons_read on public.product_addons;
+create policy product_addons_read on public.product_addons for select using (true);
+
+drop policy if exists product_addons_admin on public.product_addons;
+create policy product_addons_admin on public.product_addons for all
+  using (exists (select 1 from profiles p where p.id = auth.uid()::uuid and p.role = 'admin'))
+  with check (exists (select 1 from profiles p where p.id = auth.uid()::uuid and p.role = 'admin'));
+
+insert into public.product_addons (name, description, price, sort_order)
+select v.name, v.description, v.price, v.sort_order
+from (values
+  ('Greeting Card', 'A printed card with your message', 50, 1),
+  ('Box of Chocolates', 'Assorted chocolates, 12 pieces', 350, 2),
+  ('Balloon', 'A helium foil balloon', 250, 3)
+) as v(name, description, price, sort_order)
+where not exists (select 1 from public.product_addons);
+
+-- The same product with another variant or other add-ons is a separate cart line.
+-- addon_ids are kept sorted by the client so equal selections compare equal.
+alter table public.carts
+  add column if not exists variant_id uuid references public.product_variants(id) on delete cascade,
+  add column if not exists addon_ids uuid[] not null default '{}';
+
+alter table public.carts drop constraint if exists carts_user_id_product_id_key;
+
+create unique index if not exists idx_carts_user_product_line
+  on public.carts(user_id, product_id, variant_id, addon_ids) nulls not distinct
+  where product_id is not null;
+
+-- Unit price stays in order_items.price; variant_name and addons are what the customer chose
+alter table public.order_items
+  add column if not exists variant_id uuid references public.product_variants(id) on delete set null,
+  add column if not exists variant_name text,
+  -- [{ "id", "name", "price" }, ...]
+  add column if not exists addons jsonb not null default '[]';
+
+-- ["<uuid>", ...] to uuid[]; null or a non-array gives an empty array
+create or replace function public.fn_jsonb_uuid_array(p_value jsonb)
+returns uuid[]
+language sql
+immutable
+as $$
+  select coalesce(array_agg(v::uuid order by v::uuid), '{}')
+  from jsonb_array_elements_text(case when jsonb_typeof(p_value) = 'array' then p_value else '[]'::jsonb end) v;
+$$;
+
+-- Unit price of a product with a variant and add-ons; null when the product does not exist
+create or replace function public.fn_product_line_price(p_product_id uuid, p_variant_id uuid, p_addon_ids uuid[])
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.price
+    + coalesce((select v.price_delta from product_variants v where v.id = p_variant_id and v.product_id = p.id), 0)
+    + coalesce((select sum(a.price) from product_addons a where a.id = any(p_addon_ids)), 0)::integer
+  from products p
+  where p.id = p_product_id;
+$$;
+
+-- place_order from 020 with variants and add-ons. Product lines in p_items may carry a
+-- variant_id and addon_ids; both are priced here, never by the client.
+drop function if exists public.place_order(jsonb, text, text, text, text, text, text, text, date, uuid, text, jsonb);
+
+create or replace function public.place_order(
+  p_items jsonb,
+  p_delivery_option text default 'delivery',
+  p_delivery_address text default null,
+  p_phone text default null,
+  p_idempotency_key text default null,
+  p_payment_method text default 'cash',
+  p_city text default null,
+  p_zip_code text default null,
+  p_scheduled_date date default null,
+  p_time_slot_id uuid default null,
+  p_special_instructions text default null,
+  p_gift jsonb default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_order orders%rowtype;
+  v_subtotal integer;
+  v_delivery_fee integer := 0;
+  v_bouquet record;
+  v_quote jsonb;
+  v_zone delivery_zones%rowtype;
+  v_slot time_slots%rowtype;
+  v_slot_error text;
+  v_scheduled_for timestamptz;
+  v_card_message text := nullif(trim(p_gift->>'card_message'), '');
+begin
+  if v_user_id is null then
+    raise exception 'Please sign in to place your order';
+  end if;
+
+  -- Replayed request: return the order created by the first attempt
+  if p_idempotency_key is not null then
+    select * into v_order from orders
+      where user_id = v_user_id and idempotency_key = p_idempotency_key;
+    if found then
+      return to_jsonb(v_order) || jsonb_build_object(
+        'delivery_fee', v_order.delivery_fee,
+        'order_items', coalesce(
+          (select jsonb_agg(to_jsonb(oi)) from order_items oi where oi.order_id = v_order.id),
+          '[]'::jsonb
+        )
+      );
+    end if;
+  end if;
+
+  if not exists (select 1 from profiles where id = v_user_id) then
+    raise exception 'Account setup incomplete: no user profile found';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Order must contain at least one item';
+  end if;
+
+  if p_delivery_option not in ('delivery', 'pickup') then
+    raise exception 'Invalid delivery option: %', p_delivery_option;
+  end if;
+
+  if p_payment_method not in ('cash', 'card', 'ewallet', 'bank_transfer') then
+    raise exception 'Invalid payment method: %', p_payment_method;
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) i
+    where coalesce((i->>'quantity')::int, 0) < 1
+  ) then
+    raise exception 'Item quantities must be at least 1';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) i
+    left join products p on p.id = (i->>'product_id')::uuid
+    where i ? 'product_id' and p.id is null
+  ) then
+    raise exception 'One or more products in your cart are no longer available';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) i
+    left join custom_bouquets cb on cb.id = (i->>'custom_bouquet_id')::uuid and cb.user_id = v_user_id
+    where i ? 'custom_bouquet_id' and cb.id is null
+  ) then
+    raise exception 'One or more custom bouquets in your cart could not be found';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) i
+    where not (i ? 'product_id') and not (i ? 'custom_bouquet_id')
+  ) then
+    raise exception 'Every order line needs a product or a custom bouquet';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) i
+    left join product_variants v
+      on v.id = (i->>'variant_id')::uuid and v.product_id = (i->>'product_id')::uuid
+    where i ? 'product_id' and i->>'variant_id' is not null and v.id is null
+  ) then
+    raise exception 'One or more product options in your cart are no longer available';
+  end if;
+
+  if exists (
+    select 1 from jsonb_array_elements(p_items) i
+    cross join unnest(fn_jsonb_uuid_array(i->'addon_ids')) as chosen(addon_id)
+    left join product_addons a on a.id = chosen.addon_id and a.active
+    where i ? 'product_id' and a.id is null
+  ) then
+    raise exception 'One or more add-ons in your cart are no longer available';
+  end if;
+
+  -- Re-validate and re-price custom bouquets against the current sizes and flowers
+  for v_bouquet in
+    select cb.id, cb.size, cb.flowers from custom_bouquets cb
+    where cb.id in (
+      select (i->>'custom_bouquet_id')::uuid from jsonb_array_elements(p_items) i
+      where i ? 'custom_bouquet_id'
+    )
+  loop
+    v_quote := fn_quote_custom_bouquet(v_bouquet.size, v_bouquet.flowers);
+    update custom_bouquets
+      set size_name = v_quote->>'size_name',
+          flowers = v_quote->'flowers',
+          base_price = (v_quote->>'base_price')::int,
+          stems_price = (v_quote->>'stems_price')::int,
+          wrapping_fee = (v_quote->>'wrapping_fee')::int,
+          price = (v_quote->>'price')::int
+      where id = v_bouquet.id;
+  end loop;
+
+  -- Price every line from the products, variants, add-ons and custom_bouquets tables
+  select coalesce(sum(
+      coalesce(
+        fn_product_line_price(p.id, (i->>'variant_id')::uuid, fn_jsonb_uuid_array(i->'addon_ids')),
+        cb.price
+      ) * (i->>'quantity')::int
+    ), 0)
+    into v_subtotal
+  from jsonb_array_elements(p_items) i
+  left join products p on p.id = (i->>'product_id')::uuid
+  left join custom_bouquets cb on cb.id = (i->>'custom_bouquet_id')::uuid;
+
+  if p_delivery_option = 'delivery' then
+    v_zone := fn_match_delivery_zone(p_city, p_zip_code);
+    if v_zone.id is null then
+      raise exception 'Sorry, we do not deliver to % yet', coalesce(nullif(trim(p_city), ''), 'this address');
+    end if;
+    if v_subtotal < v_zone.min_order then
+      raise exception 'Orders for delivery to % must be at least ₱%', v_zone.name, v_zone.min_order;
+    end if;
+    v_delivery_fee := v_zone.fee;
+  end if;
+
+  if char_length(v_card_message) > 200 then
+    raise exception 'Gift card messages can be at most 200 characters';
+  end if;
+
+  -- The slot row is locked so concurrent checkouts cannot overbook it
+  if p_time_slot_id is not null or p_scheduled_date is not null then
+    if p_time_slot_id is null or p_scheduled_date is null then
+      raise exception 'Please choose both a date and a time slot';
+    end if;
+
+    select * into v_slot from time_slots where id = p_time_slot_id for update;
+    if not found then
+      raise exception 'The selected time slot is no longer offered';
+    end if;
+
+    v_slot_error := fn_time_slot_unavailable_reason(v_slot, p_scheduled_date, p_delivery_option, v_zone);
+    if v_slot_error is not null then
+      raise exception '%', v_slot_error;
+    end if;
+
+    v_scheduled_for := (p_scheduled_date + v_slot.start_time)
+      at time zone coalesce((select timezone from shop_settings limit 1), 'Asia/Manila');
+  elsif exists (select 1 from time_slots where active and applies_to in (p_delivery_option, 'both')) then
+    raise exception 'Please choose a % date and time slot', p_delivery_option;
+  end if;
+
+  insert into orders (
+    user_id, total_amount, phone, date, status, payment, payment_status, delivery_address, delivery_option,
+    delivery_zone_id, delivery_city, delivery_zip_code, delivery_fee,
+    scheduled_date, time_slot_id, time_slot_label, scheduled_for, pickup_time, special_instructions,
+    sender_name, sender_phone, recipient_name, card_message, anonymous_sender, surprise_delivery, idempotency_key
+  )
+  values (
+    v_user_id,
+    v_subtotal + v_delivery_fee,
+    coalesce(p_phone, (select phone from profiles where id = v_user_id)),
+    current_date,
+    'Pending',
+    case p_payment_method
+      when 'card' then 'Card'
+      when 'ewallet' then 'E-Wallet'
+      when 'bank_transfer' then 'Bank Transfer'
+      else 'Cash'
+    end,
+    -- Upfront payments wait for the card payment or the proof; cash is collected on delivery or pickup
+    case p_payment_method when 'cash' then 'unpaid' else 'pending' end,
+    p_delivery_address,
+    p_delivery_option,
+    v_zone.id,
+    nullif(trim(p_city), ''),
+    nullif(trim(p_zip_code), ''),
+    v_delivery_fee,
+    p_scheduled_date,
+    v_slot.id,
+    v_slot.label,
+    v_scheduled_for,
+    case when p_delivery_option = 'pickup' then v_scheduled_for end,
+    nullif(trim(p_special_instructions), ''),
+    coalesce(nullif(trim(p_gift->>'sender_name'), ''), (select full_name from profiles where id = v_user_id)),
+    coalesce(nullif(trim(p_gift->>'sender_phone'), ''), (select phone from profiles where id = v_user_id)),
+    nullif(trim(p_gift->>'recipient_name'), ''),
+    v_card_message,
+    coalesce((p_gift->>'anonymous_sender')::boolean, false),
+    coalesce((p_gift->>'surprise_delivery')::boolean, false),
+    p_idempotency_key
+  )
+  returning * into v_order;
+
+  insert into order_items (order_id, product_id, custom_bouquet_id, quantity, price, variant_id, variant_name, addons)
+  select
+    v_order.id,
+    p.id,
+    cb.id,
+    (i->>'quantity')::int,
+    coalesce(
+      fn_product_line_price(p.id, v.id, fn_jsonb_uuid_array(i->'addon_ids')),
+      cb.price
+    ),
+    v.id,
+    v.name,
+    coalesce(
+      (select jsonb_agg(jsonb_build_object('id', a.id, 'name', a.name, 'price', a.price) order by a.sort_order, a.name)
+         from product_addons a
+        where p.id is not null and a.id = any(fn_jsonb_uuid_array(i->'addon_ids'))),
+      '[]'::jsonb
+    )
+  from jsonb_array_elements(p_items) i
+  left join products p on p.id = (i->>'product_id')::uuid
+  left join product_variants v on v.id = (i->>'variant_id')::uuid and v.product_id = p.id
+  left join custom_bouquets cb on cb.id = (i->>'custom_bouquet_id')::uuid;
+
+  -- Clear only the purchased cart rows, matching the variant and add-ons of product lines
+  delete from carts c
+  where c.user_id = v_user_id
+    and exists (
+      select 1 from jsonb_array_elements(p_items) i
+      where (
+          c.product_id = (i->>'product_id')::uuid
+          and c.variant_id is not distinct from (i->>'variant_id')::uuid
+          and c.addon_ids = fn_jsonb_uuid_array(i->'addon_ids')
+        )
+        or c.custom_bouquet_id = (i->>'custom_bouquet_id')::uuid
+    );
+
+  return to_jsonb(v_order) || jsonb_build_object(
+    'delivery_fee', v_delivery_fee,
+    'order_items', coalesce(
+      (select jsonb_agg(to_jsonb(oi)) from order_items oi where oi.order_id = v_order.id),
+      '[]'::jsonb
+    )
+  );
+exception
+  -- A concurrent attempt with the same key committed first; return its order instead of
+  -- failing a checkout that was in fact placed
+  when unique_violation then
+    if p_idempotency_key is null then
+      raise;
+    end if;
+    select * into v_order from orders
+      where user_id = v_user_id and idempotency_key = p_idempotency_key;
+    if not found then
+      raise;
+    end if;
+    return to_jsonb(v_order) || jsonb_build_object(
+      'delivery_fee', v_order.delivery_fee,
+      'order_items', coalesce(
+        (select jsonb_agg(to_jsonb(oi)) from order_items oi where oi.order_id = v_order.id),
+        '[]'::jsonb
+      )
+    );
+end;
+$$;
+
+grant execute on function public.place_order(jsonb, text, text, text, text, text, text, text, date, uuid, text, jsonb) to authenticated;
@@ -0,0 +1,6 @@
+-- 025_profile_address.sql
+-- Sign-up, the profile page and the auth context read and write profiles.address, but
+-- 001 never created it, so a database built from these migrations rejected those queries.
+
+alter table public.profiles
+  add column if not exists address text;
@@ -1,6 +1,20 @@
 import { useState, useEffect } from "react";
 import supabase from "./services/supabaseClient";
-import { fetchUserCart, addToCart, updateCartQuantity, removeFromCart, clearUserCart } from "./services/cartService";
+import { fetchUserCart, addToCart, updateCartQuantity, removeFromCart, clearUserCart, type CartLineKind, type CartLineOptions } from "./services/cartService";
+import { fetchCustomBouquets, customBouquetToProduct, mapBouquetSize } from "./services/customBouquetService";
+import { FLOWER_TYPE_COLUMNS, mapFlowerType } from "./services/flowerStockService";
+import { cartLineKey, configureProduct, fetchProduct, fetchProductAddOns, fetchProductsByIds } from "./services/catalogService";
+import { needsCardPayment, needsPaymentProof, type PaymentStatus } from "./services/paymentService";
+import {
+  enqueueCheckout,
+  flushCheckoutQueue,
+  listQueuedCheckouts,
+  removeQueuedCheckout,
+  submitQueuedCheckout,
+  type CheckoutAttemptResult,
+  type QueuedCheckout
+} from "./services/checkoutQueue";
+import type { OrderStatus } from "./services/orderService";
 import { Header } from "./components/Header";
 import { Footer } from "./components/Footer";
 import { HomePage } from "./components/HomePage";
@@ -15,12 +29,18 @@ import { UserPage } from "./components/UserPage";
 import { CartPage } from "./components/CartPage";
 import { OrderHistoryPage } from "./components/OrderHistoryPage";
 import { CustomBouquetBuilderPage } from "./components/CustomBouquetBuilderPage";
+import { DriverDashboard } from "./components/driver/DriverDashboard";
 import { LoginRequiredModal } from "./components/LoginRequiredModal";
+import { CardPaymentModal } from "./components/CardPaymentModal";
+import { PaymentProofModal } from "./components/PaymentProofModal";
 import { Toaster } from "./components/ui/sonner";
 import { toast } from "sonner";
 import type { Category, Product } from "./data/products";
-import { initialBouquetColors, initialFlowerTypes } from "./data/bouquetData";
-import type { BouquetColor, FlowerType } from "./data/bouquetData";
+import { initialBouquetColors, initialFlowerTypes, initialBouquetSizes } from "./data/bouquetData";
+import type { BouquetColor, BouquetSize, FlowerType } from "./data/bouquetData";
+import { useRoute, buildPath, canAccessRoute, getRouteAccess, parsePath, type PageId } from "./routes";
+import { can, landingPageFor, toRole, type Role } from "./permissions";
+import { useAuth } from "./context/AuthContext";
 
 interface CartItem {
   product: Product;
@@ -42,38 +62,74 @@ export interface Order {
   totalAmount: number;
   phone: string;
   date: string;
-  status: "Pending" | "Confirmed" | "Preparing" | "Ready" | "Delivered";
-  payment: "Cash" | "Card";
+  status: OrderStatus;
+  payment: "Cash" | "Card" | "E-Wallet" | "Bank Transfer";
+  paymentStatus?: PaymentStatus;
+  refundedAmount?: number;
   driver: string;
   deliveryAddress?: string;
   deliveryOption: "delivery" | "pickup";
+  specialInstructions?: string;
+  /** Gift details; phone is the recipient's number for deliveries */
+  senderName?: string | null;
+  senderPhone?: string | null;
+  recipientName?: string | null;
+  cardMessage?: string | null;
+  anonymousSender?: boolean;
+  surpriseDelivery?: boolean;
+  pickupTime?: string | null;
+  /** "YYYY-MM-DD" and slot name chosen at checkout */
+  scheduledDate?: string | null;
+  timeSlotLabel?: string | null;
+  /** Start of the slot, for sorting the admin queue */
+  scheduledFor?: string | null;
+  /** "customer" | "admin" once the order is cancelled */
+  cancelledBy?: string | null;
+  cancellationReason?: string | null;
 }
 
+const GUEST_USER: UserData = {
+  fullName: "Guest User",
+  email: "guest@email.com",
+  phone: "0000000000",
+  address: ""
+};
+
 export default function App() {
-  const [currentPage, setCurrentPage] = useState("home");
-  const [selectedCategory, setSelectedCategory] = useState<Category | null>(null);
-  const [isLoggedIn, setIsLoggedIn] = useState(false);
-  const [isAdmin, setIsAdmin] = useState(false);
-  const [userId, setUserId] = useState<string | null>(null);
+  const [route, navigate] = useRoute();
+  const currentPage = route.page;
+  const selectedCategory = (route.category as Category | undefined) ?? null;
+  const { user, profile, loading: authLoading, refreshProfile, signOut } = useAuth();
+  const isLoggedIn = !!user;
+  // Always derived from profiles.role, never from what the sign-in page thinks
+  const role: Role | null = user ? toRole(profile?.role) : null;
+  const isAdmin = role === 'admin';
+  const userId = user?.id ?? null;
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
   const [cartItems, setCartItems] = useState<CartItem[]>([]);
   const [showLoginRequired, setShowLoginRequired] = useState(false);
+  const [pendingLoginRedirect, setPendingLoginRedirect] = useState(false);
   const [orders, setOrders] = useState<Order[]>([]);
-  const [userData, setUserData] = useState<UserData>({
-    fullName: "Guest User",
-    email: "guest@email.com",
-    phone: "0000000000",
-    address: ""
-  });
+  const [queuedCheckouts, setQueuedCheckouts] = useState<QueuedCheckout[]>([]);
+  const [pendingPayment, setPendingPayment] = useState<{ orderId: string; orderNumber: string | null; amount: number; payment: string } | null>(null);
+  const userData: UserData = user
+    ? {
+        fullName: profile?.full_name ?? user.email?.split('@')[0] ?? "Customer",
+        email: profile?.email ?? user.email ?? "",
+        phone: profile?.phone ?? "0000000000",
+        address: profile?.address ?? ""
+      }
+    : GUEST_USER;
   const [bouquetColors, setBouquetColors] = useState<BouquetColor[]>(initialBouquetColors);
   const [flowerTypes, setFlowerTypes] = useState<FlowerType[]>(initialFlowerTypes);
+  const [bouquetSizes, setBouquetSizes] = useState<BouquetSize[]>(initialBouquetSizes);
 
   // Scroll to top when page changes
   useEffect(() => {
     window.scrollTo({ top: 0, behavior: 'smooth' });
   }, [currentPage]);
 
-  // Load bouquet colors and flower types from Supabase on mount
+  // Load bouquet colors, flower types and bouquet sizes from Supabase on mount
   useEffect(() => {
     let mounted = true;
     (async () => {
@@ -92,20 +148,21 @@ export default function App() {
 
         const { data: flowers, error: flowersErr } = await supabase
           .from('flower_types')
-          .select('id, name, image, category, available')
+          .select(FLOWER_TYPE_COLUMNS)
           .order('name', { ascending: true });
         if (flowersErr) throw flowersErr;
-        const mappedFlowers = (flowers || []).map((f: any) => ({
-          id: f.id,
-          name: f.name,
-          image: f.image ?? '',
-          category: f.category ?? '',
-          available: f.available ?? true
-        }));
+        const mappedFlowers = (flowers || []).map(mapFlowerType);
+
+        const { data: sizes, error: sizesErr } = await supabase
+          .from('bouquet_sizes')
+          .select('*')
+          .order('sort_order', { ascending: true });
+        if (sizesErr) throw sizesErr;
 
         if (!mounted) return;
         setBouquetColors(mappedColors);
         setFlowerTypes(mappedFlowers);
+        setBouquetSizes((sizes || []).map(mapBouquetSize));
       } catch (err) {
         console.error('Failed to load admin data', err);
       }
@@ -114,109 +171,178 @@ export default function App() {
     return () => { mounted = false; };
   }, []);
 
+  // Restore the signed-in user's cart from the database (after sign in and on page reload)
+  useEffect(() => {
+    if (!userId) {
+      setCartItems([]);
+      return;
+    }
+
+    const id = userId;
+    let cancelled = false;
+    (async () => {
+      try {
+        const cartData = await fetchUserCart(id);
+        if (cancelled) return;
+        if (cartData.length === 0) {
+          setCartItems([]);
+          return;
+        }
+
+        // Only the products in the cart, not the whole catalog
+        const productsInCart = await fetchProductsByIds(
+          cartData.filter(item => item.product_id).map(item => item.product_id as string)
+        );
+
+        // Custom bouquet lines reference saved custom_bouquets rows instead of products
+        const customBouquets = await fetchCustomBouquets(
+          cartData.filter(item => item.custom_bouquet_id).map(item => item.custom_bouquet_id as string)
+        );
+
+        // Add-on lines need the add-ons' names and prices
+        const addOns = cartData.some(item => item.addon_ids?.length) ? await fetchProductAddOns() : [];
+
+        const mappedItems: CartItem[] = [];
+        cartData.forEach(item => {
+          if (item.custom_bouquet_id) {
+            const bouquet = customBouquets.find(b => b.id === item.custom_bouquet_id);
+            if (bouquet) {
+              mappedItems.push({ product: customBouquetToProduct(bouquet), quantity: item.quantity });
+            }
+            return;
+          }
+          const product = productsInCart.find(p => p.id === item.product_id);
+          if (product) {
+            const variant = product.variants?.find(v => v.id === item.variant_id) ?? null;
+            const chosenAddOns = addOns.filter(addOn => item.addon_ids?.includes(addOn.id));
+            mappedItems.push({ product: configureProduct(product, variant, chosenAddOns), quantity: item.quantity });
+          }
+        });
+        if (!cancelled) setCartItems(mappedItems);
+      } catch (err) {
+        console.error('Failed to load cart:', err);
+      }
+    })();
+
+    return () => { cancelled = true; };
+  }, [userId]);
+
+  const setCurrentPage = (page: PageId) => {
+    navigate({ page });
+  };
+
+  // Keep the product detail modal in sync with /products/:id (deep links, back/forward)
+  useEffect(() => {
+    const productId = route.productId;
+    if (!productId) {
+      setSelectedProduct(null);
+      return;
+    }
+    if (selectedProduct?.id === productId) return;
+
+    let cancelled = false;
+    (async () => {
+      try {
+        const product = await fetchProduct(productId);
+        if (!product) throw new Error(`Product ${productId} not found`);
+        if (cancelled) return;
+        setSelectedProduct(product);
+      } catch (err) {
+        console.error('Failed to load product', err);
+        if (!cancelled) {
+          toast.error('That product could not be found.');
+          navigate({ page: 'products', category: route.category, search: route.search }, { replace: true });
+        }
+      }
+    })();
+
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [route.productId]);
+
+  // Role guard: pages the role isn't permitted to see send guests to sign in and
+  // signed-in users back to their own landing page
+  useEffect(() => {
+    if (authLoading || canAccessRoute(route, role)) return;
+    if (!role) {
+      navigate({ page: 'signin', next: buildPath(route) }, { replace: true });
+    } else {
+      toast.error('You do not have access to that page.');
+      navigate({ page: landingPageFor(role) }, { replace: true });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [route, role, authLoading]);
+
+  // After sign in, wait for the profile (and its role) before deciding where to go
+  useEffect(() => {
+    if (!pendingLoginRedirect || authLoading || !role) return;
+    setPendingLoginRedirect(false);
+
+    // Continue to the page that required sign in, if this role may see it
+    const nextRoute = route.next ? parsePath(route.next) : null;
+    if (nextRoute && canAccessRoute(nextRoute, role)) {
+      navigate(nextRoute, { replace: true });
+    } else {
+      navigate({ page: landingPageFor(role) }, { replace: true });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pendingLoginRedirect, authLoading, role]);
+
   const handleNavigate = (page: string, category?: Category) => {
-    setCurrentPage(page);
-    setSelectedProduct(null); // Clear product detail when navigating
+    navigate({ page: page as PageId, category: page === "products" ? category : undefined });
     // Scroll to top when navigating
     window.scrollTo({ top: 0, behavior: 'smooth' });
-    if (category) {
-      setSelectedCategory(category);
-    } else if (page !== "products") {
-      setSelectedCategory(null);
-    }
   };
 
   const handleProductClick = (product: Product) => {
     setSelectedProduct(product);
+    navigate({
+      page: 'products',
+      category: currentPage === 'products' ? route.category : undefined,
+      search: currentPage === 'products' ? route.search : undefined,
+      productId: product.id
+    });
   };
 
   const handleCloseProductDetail = () => {
-    setSelectedProduct(null);
+    navigate({ page: 'products', category: route.category, search: route.search });
   };
 
-  const handleLogin = (asAdmin: boolean = false, newUserData?: UserData, id?: string) => {
-    setIsLoggedIn(true);
-    setIsAdmin(asAdmin);
-    if (id) {
-      setUserId(id);
-      // Load user's cart from database
-      (async () => {
-        try {
-          const cartData = await fetchUserCart(id);
-          if (cartData.length === 0) {
-            setCartItems([]);
-            return;
-          }
-          
-          // Fetch products from Supabase to match cart items
-          const { data: productsFromDb } = await supabase
-            .from('products')
-            .select('*');
-          
-          const mappedItems: CartItem[] = [];
-          cartData.forEach(item => {
-            const product = productsFromDb?.find(p => p.id === item.product_id);
-            if (product) {
-              mappedItems.push({
-                product: {
-                  id: product.id,
-                  name: product.name,
-                  price: product.price,
-                  image: product.image || '',
-                  categories: product.categories ? [product.categories] : [],
-                  badge: product.badge
-                },
-                quantity: item.quantity
-              });
-            }
-          });
-          setCartItems(mappedItems);
-        } catch (err) {
-          console.error('Failed to load cart:', err);
-        }
-      })();
-    }
-    if (newUserData) {
-      setUserData(newUserData);
-    } else if (asAdmin) {
-      // Admin login
-      setUserData({
-        fullName: "Admin",
-        email: "admin@jeans.com",
-        phone: "0000000000"
-      });
-    }
-    if (asAdmin) {
-      setCurrentPage("admin");
-    } else {
-      setCurrentPage("home");
-    }
+  const handleSearch = (query: string) => {
+    navigate({ page: 'products', search: query.trim() || undefined });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // Session, profile and cart are restored by AuthProvider and the effects above;
+  // the redirect effect picks the destination once the role is known
+  const handleLogin = () => {
+    setPendingLoginRedirect(true);
   };
 
-  const handleLogout = () => {
-    setIsLoggedIn(false);
-    setIsAdmin(false);
-    setUserId(null);
-    setCartItems([]);
+  const handleLogout = async () => {
+    await signOut();
     setCurrentPage("home");
-    setUserData({
-      fullName: "Guest User",
-      email: "guest@email.com",
-      phone: "0000000000",
-      address: ""
-    });
   };
 
   const handleAuthNavigate = (page: string) => {
-    setCurrentPage(page);
+    // Carry the post-login destination between the auth pages
+    navigate({ page: page as PageId, next: route.next });
   };
 
+  const cartLineKind = (product: Product): CartLineKind => (product.customBouquet ? 'custom' : 'product');
+
+  const cartLineOptions = (product: Product): CartLineOptions => ({
+    variantId: product.selectedVariant?.id ?? null,
+    addOnIds: (product.selectedAddOns ?? []).map((addOn) => addOn.id),
+  });
+
   const handleAddToCart = async (product: Product, quantity: number = 1) => {
+    const lineKey = cartLineKey(product);
     setCartItems((prev) => {
-      const existingItem = prev.find((item) => item.product.id === product.id);
+      const existingItem = prev.find((item) => cartLineKey(item.product) === lineKey);
       if (existingItem) {
         return prev.map((item) =>
-          item.product.id === product.id
+          cartLineKey(item.product) === lineKey
             ? { ...item, quantity: item.quantity + quantity }
             : item
         );
@@ -226,37 +352,41 @@ export default function App() {
     
     // Sync to database if logged in
     if (userId) {
-      const existingItem = cartItems.find((item) => item.product.id === product.id);
+      const kind = cartLineKind(product);
+      const existingItem = cartItems.find((item) => cartLineKey(item.product) === lineKey);
       if (existingItem) {
-        await updateCartQuantity(userId, product.id, existingItem.quantity + quantity);
+        await updateCartQuantity(userId, product.id, existingItem.quantity + quantity, kind, cartLineOptions(product));
       } else {
-        await addToCart(userId, product.id, quantity);
+        await addToCart(userId, product.id, quantity, kind, cartLineOptions(product));
       }
     }
   };
 
-  const handleUpdateQuantity = async (productId: string, newQuantity: number) => {
+  // Cart lines are identified by cartLineKey, since one product can be in the cart with different options
+  const handleUpdateQuantity = async (lineKey: string, newQuantity: number) => {
     // Prevent negative quantities
     if (newQuantity < 1) return;
+    const line = cartItems.find((item) => cartLineKey(item.product) === lineKey);
     
     setCartItems((prev) =>
       prev.map((item) =>
-        item.product.id === productId ? { ...item, quantity: newQuantity } : item
+        cartLineKey(item.product) === lineKey ? { ...item, quantity: newQuantity } : item
       )
     );
     
     // Sync to database if logged in
-    if (userId) {
-      await updateCartQuantity(userId, productId, newQuantity);
+    if (userId && line) {
+      await updateCartQuantity(userId, line.product.id, newQuantity, cartLineKind(line.product), cartLineOptions(line.product));
     }
   };
 
-  const handleRemoveFromCart = async (productId: string) => {
-    setCartItems((prev) => prev.filter((item) => item.product.id !== productId));
+  const handleRemoveFromCart = async (lineKey: string) => {
+    const line = cartItems.find((item) => cartLineKey(item.product) === lineKey);
+    setCartItems((prev) => prev.filter((item) => cartLineKey(item.product) !== lineKey));
     
     // Sync to database if logged in
-    if (userId) {
-      await removeFromCart(userId, productId);
+    if (userId && line) {
+      await removeFromCart(userId, line.product.id, cartLineKind(line.product), cartLineOptions(line.product));
     }
   };
 
@@ -274,127 +404,184 @@ export default function App() {
     }
   };
 
-  const handleCheckout = async (selectedProductIds: string[], deliveryInfo?: any) => {
-    // Get the selected items
-    const selectedItems = cartItems.filter((item) => selectedProductIds.includes(item.product.id));
-
-    // Compute totals
-    const total = selectedItems.reduce((total, item) => total + item.product.price * item.quantity, 0) + (deliveryInfo?.deliveryOption === "delivery" ? 59 : 0);
-
-    // Try to persist the order to Supabase
-    try {
-      // 1. Get current user session (must be signed in for RLS to allow INSERT)
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        setShowLoginRequired(true);
-        toast.error('Please sign in to place your order.');
-        throw new Error('No authenticated session');
-      }
-
-      // 2. Verify user has a profile (required for orders.user_id foreign key)
-      const { data: profile, error: profileError } = await supabase
-        .from('profiles')
-        .select('id, full_name')
-        .eq('id', user.id)
-        .single();
-
-      if (profileError || !profile) {
-        toast.error('Account setup incomplete. Please try signing out and back in.');
-        throw new Error('No user profile found');
-      }
-
-      // Build order payload (user_id should match profiles.id)
-      const orderPayload: any = {
-        user_id: user?.id ?? null,
-        order_number: `ORD-${String((orders?.length ?? 0) + 1).padStart(3, '0')}`,
-        total_amount: Math.round(total),
-        phone: userData.phone,
-        date: new Date().toISOString().split('T')[0],
-        status: 'Pending',
-        payment: 'Cash',
-        delivery_address: deliveryInfo?.address || null,
-        delivery_option: deliveryInfo?.deliveryOption || 'delivery'
-      };
+  const refreshQueuedCheckouts = async (uid: string) => {
+    setQueuedCheckouts(await listQueuedCheckouts(uid));
+  };
 
-      const { data: insertedOrder, error: orderErr } = await supabase.from('orders').insert([orderPayload]).select().single();
-      if (orderErr) throw orderErr;
-
-      // Insert order_items
-      const orderId = insertedOrder.id;
-      const itemsPayload = selectedItems.map(si => ({
-        order_id: orderId,
-        product_id: si.product.id,
-        quantity: si.quantity,
-        price: Math.round(si.product.price)
-      }));
-
-      if (itemsPayload.length) {
-        const { error: itemsErr } = await supabase.from('order_items').insert(itemsPayload);
-        if (itemsErr) throw itemsErr;
-      }
+  // Apply the outcome of a checkout attempt. Cart items are only removed once the server confirms.
+  const applyCheckoutResult = (result: CheckoutAttemptResult, interactive: boolean) => {
+    if (result.outcome === "placed") {
+      const { order, checkout } = result;
+      const purchasedKeys = checkout.items.map((item) => cartLineKey(item.product));
 
-      // Build local order shape for UI (use returned id and created_at)
+      // Build local order shape for UI from the persisted order
       const newOrder: Order = {
-        id: insertedOrder.id,
+        id: order.id,
         name: userData.fullName,
-        orderId: insertedOrder.order_number || insertedOrder.id,
-        items: selectedItems,
-        totalAmount: total,
-        phone: userData.phone,
-        date: insertedOrder.date || new Date().toISOString().split('T')[0],
-        status: insertedOrder.status ?? 'Pending',
-        payment: insertedOrder.payment ?? 'Cash',
+        orderId: order.orderNumber || order.id,
+        items: checkout.items,
+        totalAmount: order.totalAmount,
+        phone: order.phone,
+        date: order.date,
+        status: order.status as Order["status"],
+        payment: order.payment as Order["payment"],
+        paymentStatus: order.paymentStatus,
         driver: 'Unassigned',
-        deliveryAddress: insertedOrder.delivery_address ?? '',
-        deliveryOption: insertedOrder.delivery_option ?? 'delivery'
+        deliveryAddress: order.deliveryAddress,
+        deliveryOption: order.deliveryOption
       };
 
-      // Add order to orders list
-      setOrders((prev) => [...prev, newOrder]);
+      setOrders((prev) => [...prev.filter((o) => o.id !== newOrder.id), newOrder]);
 
-      // Remove only selected items from cart
-      setCartItems((prev) => prev.filter((item) => !selectedProductIds.includes(item.product.id)));
-      
-      // Sync cart to database - remove sold items
-      if (userId) {
-        for (const productId of selectedProductIds) {
-          await removeFromCart(userId, productId);
+      // place_order already cleared these rows in the database
+      setCartItems((prev) => prev.filter((item) => !purchasedKeys.includes(cartLineKey(item.product))));
+
+      if (needsCardPayment(order) || needsPaymentProof(order)) {
+        if (interactive) {
+          setCurrentPage("home");
+          setPendingPayment({ orderId: order.id, orderNumber: order.orderNumber, amount: order.totalAmount, payment: order.payment });
+          toast.success("Order placed! Complete your payment to confirm it.", { duration: 3000 });
+        } else {
+          toast.success(`Your queued order ${newOrder.orderId} was placed. Pay for it from your order history.`, { duration: 5000 });
         }
+      } else if (interactive) {
+        setCurrentPage("home");
+        toast.success("Order placed successfully! Thank you for your purchase.", { duration: 3000 });
+      } else {
+        toast.success(`Your queued order ${newOrder.orderId} was placed.`, { duration: 4000 });
       }
-      
-      setCurrentPage("home");
-      toast.success("Order placed successfully! Thank you for your purchase.", { duration: 3000 });
-    } catch (err: any) {
-      console.error('Failed to persist order', err);
-      // Show a clearer message to the user when persistence fails
-      const message = err?.message || (err?.error && err.error.message) || 'Failed to persist order to server';
-      try { toast.error(message); } catch { /* ignore toast failures */ }
-      // Fallback: still add to local state so admin can see it, but warn the user
-      const fallbackOrder: Order = {
-        id: String(Date.now()),
-        name: userData.fullName,
-        orderId: `ORD-${String((orders?.length ?? 0) + 1).padStart(3, '0')}`,
-        items: selectedItems,
-        totalAmount: total,
-        phone: userData.phone,
-        date: new Date().toISOString().split('T')[0],
-        status: 'Pending',
-        payment: 'Cash',
-        driver: 'Unassigned',
-        deliveryAddress: deliveryInfo?.address || '',
-        deliveryOption: deliveryInfo?.deliveryOption || 'delivery'
-      };
-      setOrders((prev) => [...prev, fallbackOrder]);
-      setCartItems((prev) => prev.filter((item) => !selectedProductIds.includes(item.product.id)));
-      setCurrentPage('home');
-      toast.error('Order saved locally but failed to persist to the server. Please try again or contact support.');
+      return;
+    }
+
+    if (result.outcome === "offline") {
+      if (interactive) {
+        toast.warning("You're offline. Your order is queued and will be placed automatically when you reconnect.", { duration: 5000 });
+      }
+      return;
+    }
+
+    toast.error(result.checkout.lastError || 'Failed to place order. Please try again.');
+  };
+
+  const flushQueuedCheckouts = async (uid: string) => {
+    try {
+      const results = await flushCheckoutQueue(uid);
+      results.forEach((result) => applyCheckoutResult(result, false));
+    } catch (err) {
+      console.error('Failed to flush checkout queue', err);
+    } finally {
+      await refreshQueuedCheckouts(uid);
     }
   };
 
+  // Restore queued checkouts for the signed-in user and retry them whenever connectivity returns
+  useEffect(() => {
+    if (!userId) {
+      setQueuedCheckouts([]);
+      return;
+    }
+
+    const uid = userId;
+    if (navigator.onLine) {
+      flushQueuedCheckouts(uid);
+    } else {
+      refreshQueuedCheckouts(uid);
+    }
+
+    const handleOnline = () => { flushQueuedCheckouts(uid); };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userId]);
+
+  const handleCheckout = async (selectedLineKeys: string[], deliveryInfo?: any) => {
+    // Get the selected items
+    const selectedItems = cartItems.filter((item) => selectedLineKeys.includes(cartLineKey(item.product)));
+
+    // Must be signed in for place_order to accept the request
+    if (!userId) {
+      setShowLoginRequired(true);
+      toast.error('Please sign in to place your order.');
+      return;
+    }
+
+    // Persist the attempt locally first so it survives a dropped connection or a closed tab
+    let checkout: QueuedCheckout;
+    try {
+      checkout = await enqueueCheckout(userId, selectedItems, {
+        deliveryOption: deliveryInfo?.deliveryOption || 'delivery',
+        deliveryAddress: deliveryInfo?.address || null,
+        city: deliveryInfo?.city || null,
+        zipCode: deliveryInfo?.zipCode || null,
+        scheduledDate: deliveryInfo?.scheduledDate || null,
+        timeSlotId: deliveryInfo?.timeSlotId || null,
+        // Deliveries go to the recipient's number; pickups use the customer's
+        phone: deliveryInfo?.recipientPhone || userData.phone,
+        specialInstructions: deliveryInfo?.specialInstructions || null,
+        gift: {
+          senderName: deliveryInfo?.senderName || null,
+          senderPhone: deliveryInfo?.senderPhone || null,
+          recipientName: deliveryInfo?.recipientName || null,
+          cardMessage: deliveryInfo?.cardMessage || null,
+          anonymousSender: !!deliveryInfo?.anonymousSender,
+          surpriseDelivery: !!deliveryInfo?.surpriseDelivery
+        },
+        paymentMethod: deliveryInfo?.paymentMethod || 'cash'
+      });
+    } catch (err) {
+      console.error('Failed to queue checkout', err);
+      toast.error('Could not start checkout on this device. Please try again.');
+      return;
+    }
+
+    const result = await submitQueuedCheckout(checkout);
+    applyCheckoutResult(result, true);
+    await refreshQueuedCheckouts(userId);
+  };
+
+  const handleRetryCheckout = async (checkoutId: string) => {
+    if (!userId) return;
+    const checkout = queuedCheckouts.find((c) => c.id === checkoutId);
+    if (!checkout) return;
+    const result = await submitQueuedCheckout(checkout);
+    applyCheckoutResult(result, true);
+    await refreshQueuedCheckouts(userId);
+  };
+
+  const handleDiscardCheckout = async (checkoutId: string) => {
+    if (!userId) return;
+    try {
+      await removeQueuedCheckout(checkoutId);
+    } catch (err) {
+      console.error('Failed to discard queued checkout', err);
+    }
+    await refreshQueuedCheckouts(userId);
+  };
+
   const renderPage = () => {
+    // Wait for the restored session before rendering guarded pages
+    if (authLoading && getRouteAccess(route) !== "public") {
+      return (
+        <div className="min-h-[50vh] flex items-center justify-center text-gray-500">
+          Loading...
+        </div>
+      );
+    }
+
     // If admin, show admin dashboard
     if (isAdmin && currentPage === "admin") {
-      return <AdminDashboard onLogout={handleLogout} orders={orders} onUpdateOrders={setOrders} bouquetColors={bouquetColors} onUpdateBouquetColors={setBouquetColors} flowerTypes={flowerTypes} onUpdateFlowerTypes={setFlowerTypes} />;
+      return <AdminDashboard
+        role={role}
+        currentSection={route.adminSection ?? "reports"}
+        onSectionChange={(section) => navigate({ page: "admin", adminSection: section })}
+        focusedOrderId={route.adminOrderId}
+        onFocusOrder={(orderId) => navigate({ page: "admin", adminSection: "orders", adminOrderId: orderId ?? undefined })}
+        onLogout={handleLogout} orders={orders} onUpdateOrders={setOrders} bouquetColors={bouquetColors} onUpdateBouquetColors={setBouquetColors} flowerTypes={flowerTypes} onUpdateFlowerTypes={setFlowerTypes} bouquetSizes={bouquetSizes} onUpdateBouquetSizes={setBouquetSizes} />;
+    }
+
+    // Driver portal
+    if (role === "driver" && currentPage === "driver") {
+      return <DriverDashboard driverId={userId} driverName={userData.fullName} onLogout={handleLogout} onNavigateToShop={() => setCurrentPage("home")} />;
     }
 
     // Auth pages
@@ -412,13 +599,13 @@ export default function App() {
       case "home":
         return <HomePage onNavigate={handleNavigate} onProductClick={handleProductClick} selectedProduct={selectedProduct} onCloseProductDetail={handleCloseProductDetail} onAddToCart={handleAddToCart} isLoggedIn={isLoggedIn} onShowLoginRequired={() => setShowLoginRequired(true)} />;
       case "products":
-        return <ProductsPage selectedCategory={selectedCategory} onClearCategory={() => setSelectedCategory(null)} onNavigate={handleNavigate} onProductClick={handleProductClick} selectedProduct={selectedProduct} onCloseProductDetail={handleCloseProductDetail} onAddToCart={handleAddToCart} isLoggedIn={isLoggedIn} onShowLoginRequired={() => setShowLoginRequired(true)} />;
+        return <ProductsPage selectedCategory={selectedCategory} onClearCategory={() => navigate({ page: "products", search: route.search })} searchQuery={route.search ?? null} onSearch={(query) => navigate({ page: "products", category: route.category, search: query.trim() || undefined }, { replace: true })} onNavigate={handleNavigate} onProductClick={handleProductClick} selectedProduct={selectedProduct} onCloseProductDetail={handleCloseProductDetail} onAddToCart={handleAddToCart} isLoggedIn={isLoggedIn} onShowLoginRequired={() => setShowLoginRequired(true)} />;
       case "categories":
         return <CategoriesPage onNavigate={handleNavigate} />;
       case "about":
         return <AboutPage />;
       case "custom-bouquet":
-        return <CustomBouquetBuilderPage onBack={() => handleNavigate("categories")} onAddToCart={handleAddToCart} isLoggedIn={isLoggedIn} onShowLoginRequired={() => setShowLoginRequired(true)} bouquetColors={bouquetColors} flowerTypes={flowerTypes} />;
+        return <CustomBouquetBuilderPage onBack={() => handleNavigate("categories")} onAddToCart={handleAddToCart} isLoggedIn={isLoggedIn} onShowLoginRequired={() => setShowLoginRequired(true)} bouquetColors={bouquetColors} flowerTypes={flowerTypes} bouquetSizes={bouquetSizes} />;
       case "user":
         return <UserPage 
           userName={userData.fullName} 
@@ -429,9 +616,8 @@ export default function App() {
           onNavigateToOrders={() => setCurrentPage("orders")}
           onUpdateProfile={async (data) => {
             try {
-              const { data: { user } } = await supabase.auth.getUser();
-              if (!user) throw new Error("Not authenticated");
-              
+              if (!userId) throw new Error("Not authenticated");
+
               const updateData: any = {};
               if (data.phone) updateData.phone = data.phone;
               if (data.address !== undefined) updateData.address = data.address;
@@ -439,16 +625,12 @@ export default function App() {
               const { error } = await supabase
                 .from('profiles')
                 .update(updateData)
-                .eq('id', user.id);
+                .eq('id', userId);
               
               if (error) throw error;
               
-              // Update local state
-              setUserData(prev => ({
-                ...prev,
-                ...(data.phone && { phone: data.phone }),
-                ...(data.address !== undefined && { address: data.address })
-              }));
+              // Reload the profile so every page sees the new values
+              await refreshProfile();
               
               toast.success("Profile updated successfully!");
             } catch (err: any) {
@@ -459,16 +641,20 @@ export default function App() {
           }}
         />;
       case "orders":
-        return <OrderHistoryPage onBack={() => setCurrentPage("user")} />;
+        return <OrderHistoryPage
+          onBack={() => setCurrentPage("user")}
+          orderNumber={route.orderNumber}
+          onSelectOrder={(orderNumber) => navigate({ page: "orders", orderNumber: orderNumber ?? undefined }, { replace: true })}
+        />;
       case "cart":
-        return <CartPage cartItems={cartItems} onUpdateQuantity={handleUpdateQuantity} onRemoveItem={handleRemoveFromCart} onCheckout={handleCheckout} />;
+        return <CartPage cartItems={cartItems} onUpdateQuantity={handleUpdateQuantity} onRemoveItem={handleRemoveFromCart} onCheckout={handleCheckout} queuedCheckouts={queuedCheckouts} onRetryCheckout={handleRetryCheckout} onDiscardCheckout={handleDiscardCheckout} customerName={userData.fullName} customerPhone={userData.phone} />;
       default:
         return <HomePage onNavigate={handleNavigate} onProductClick={handleProductClick} selectedProduct={selectedProduct} onCloseProductDetail={handleCloseProductDetail} onAddToCart={handleAddToCart} isLoggedIn={isLoggedIn} onShowLoginRequired={() => setShowLoginRequired(true)} />;
     }
   };
 
-  // Show admin dashboard without header/footer if admin
-  if (isAdmin && currentPage === "admin") {
+  // Show admin dashboard and driver portal without header/footer
+  if ((isAdmin && currentPage === "admin") || (role === "driver" && currentPage === "driver")) {
     return (
       <div className="min-h-screen">
         {renderPage()}
@@ -485,10 +671,15 @@ export default function App() {
         currentPage={currentPage} 
         onNavigate={handleNavigate} 
         isLoggedIn={isLoggedIn} 
-        onLogin={() => setCurrentPage("auth")}
+        onLogin={() => navigate({ page: "auth" })}
         onUserClick={handleUserClick}
         onCartClick={handleCartClick}
+        onSearch={handleSearch}
+        onProductSelect={handleProductClick}
         cartItemCount={cartItems.reduce((total, item) => total + item.quantity, 0)}
+        showCart={can(role, "orders", "create")}
+        dashboardLabel={role === "admin" ? "ADMIN" : role === "driver" ? "DELIVERIES" : undefined}
+        onDashboardClick={role ? () => setCurrentPage(landingPageFor(role)) : undefined}
       />
       <main className="flex-1">{renderPage()}</main>
       <Footer />
@@ -498,16 +689,42 @@ export default function App() {
         <LoginRequiredModal
           onLogin={() => {
             setShowLoginRequired(false);
-            setCurrentPage("auth");
+            navigate({ page: "auth", next: buildPath(route) });
           }}
           onSignUp={() => {
             setShowLoginRequired(false);
-            setCurrentPage("createaccount");
+            navigate({ page: "createaccount", next: buildPath(route) });
           }}
           onClose={() => setShowLoginRequired(false)}
         />
       )}
 
+      {/* Payment for an order just placed */}
+      {pendingPayment && (pendingPayment.payment === "Card" ? (
+        <CardPaymentModal
+          orderId={pendingPayment.orderId}
+          orderNumber={pendingPayment.orderNumber}
+          amount={pendingPayment.amount}
+          onClose={() => {
+            setPendingPayment(null);
+            toast.info("You can pay for this order later from your order history.");
+          }}
+          onPaid={() => setPendingPayment(null)}
+        />
+      ) : (
+        <PaymentProofModal
+          orderId={pendingPayment.orderId}
+          orderNumber={pendingPayment.orderNumber}
+          amount={pendingPayment.amount}
+          payment={pendingPayment.payment}
+          onClose={() => {
+            setPendingPayment(null);
+            toast.info("You can upload your proof of payment later from your order history.");
+          }}
+          onSubmitted={() => setPendingPayment(null)}
+        />
+      ))}
+
       {/* Toast Notifications */}
       <Toaster />
     </div>
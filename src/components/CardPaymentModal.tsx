@@ -0,0 +1,212 @@
+import { useEffect, useState } from "react";
+import { motion } from "motion/react";
+import { X, CreditCard, Lock, AlertCircle } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { toast } from "sonner";
+import {
+  createPaymentIntent,
+  confirmMockPayment,
+  MOCK_TEST_CARD,
+  type PaymentIntentResult,
+} from "../services/paymentService";
+
+interface CardPaymentModalProps {
+  orderId: string;
+  orderNumber: string | null;
+  amount: number;
+  onClose: () => void;
+  onPaid: () => void;
+}
+
+export function CardPaymentModal({ orderId, orderNumber, amount, onClose, onPaid }: CardPaymentModalProps) {
+  const [intent, setIntent] = useState<PaymentIntentResult | null>(null);
+  const [loadingIntent, setLoadingIntent] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [card, setCard] = useState({ name: "", number: "", expiry: "", cvc: "" });
+
+  // Each attempt gets a fresh intent; a declined one cannot be reused
+  const startIntent = async () => {
+    setLoadingIntent(true);
+    setError(null);
+    try {
+      const result = await createPaymentIntent(orderId);
+      if (result.redirectUrl) {
+        window.location.assign(result.redirectUrl);
+        return;
+      }
+      setIntent(result);
+    } catch (err: any) {
+      setError(err?.message || "Could not start the payment. Please try again.");
+    } finally {
+      setLoadingIntent(false);
+    }
+  };
+
+  useEffect(() => {
+    startIntent();
+  }, [orderId]);
+
+  const formatCardNumber = (value: string) =>
+    value.replace(/\D/g, "").slice(0, 16).replace(/(\d{4})(?=\d)/g, "$1 ");
+
+  const formatExpiry = (value: string) => {
+    const digits = value.replace(/\D/g, "").slice(0, 4);
+    return digits.length > 2 ? `${digits.slice(0, 2)}/${digits.slice(2)}` : digits;
+  };
+
+  const cardComplete =
+    card.name.trim() !== "" &&
+    card.number.replace(/\D/g, "").length === 16 &&
+    /^(0[1-9]|1[0-2])\/\d{2}$/.test(card.expiry) &&
+    /^\d{3,4}$/.test(card.cvc);
+
+  const handlePay = async () => {
+    if (!intent || !cardComplete) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      const result = await confirmMockPayment(intent.paymentId, card.number);
+      if (result.status === "succeeded") {
+        toast.success("Payment received! Your order is on its way to the shop.");
+        onPaid();
+        return;
+      }
+      setError(result.failureReason || "Your payment did not go through.");
+      setIntent(null);
+    } catch (err: any) {
+      setError(err?.message || "Your payment did not go through.");
+      setIntent(null);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.9 }}
+        className="bg-white rounded-2xl shadow-2xl max-w-md w-full mx-4 max-h-[90vh] overflow-y-auto"
+      >
+        {/* Header */}
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between rounded-t-2xl">
+          <h2 className="text-2xl text-[#FF69B4]" style={{ fontFamily: "'Playfair Display', serif" }}>
+            Card Payment
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          <div className="flex justify-between items-center bg-gray-50 border border-gray-200 rounded-lg p-4">
+            <div>
+              <p className="text-sm text-gray-600">Order</p>
+              <p>{orderNumber || orderId}</p>
+            </div>
+            <div className="text-right">
+              <p className="text-sm text-gray-600">Amount due</p>
+              <p className="text-xl text-[#FF69B4]">₱{amount.toFixed(2)}</p>
+            </div>
+          </div>
+
+          {error && (
+            <div className="flex gap-2 bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 text-sm">
+              <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {intent?.provider === "mock" && (
+            <p className="text-xs text-gray-500">
+              Test mode: use card {MOCK_TEST_CARD} with any future expiry and CVC. Other numbers are declined.
+            </p>
+          )}
+
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="card-name">Name on card</Label>
+              <Input
+                id="card-name"
+                value={card.name}
+                onChange={(e) => setCard({ ...card, name: e.target.value })}
+                autoComplete="cc-name"
+              />
+            </div>
+            <div>
+              <Label htmlFor="card-number">Card number</Label>
+              <Input
+                id="card-number"
+                value={card.number}
+                onChange={(e) => setCard({ ...card, number: formatCardNumber(e.target.value) })}
+                inputMode="numeric"
+                autoComplete="cc-number"
+                placeholder="1234 5678 9012 3456"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="card-expiry">Expiry</Label>
+                <Input
+                  id="card-expiry"
+                  value={card.expiry}
+                  onChange={(e) => setCard({ ...card, expiry: formatExpiry(e.target.value) })}
+                  inputMode="numeric"
+                  autoComplete="cc-exp"
+                  placeholder="MM/YY"
+                />
+              </div>
+              <div>
+                <Label htmlFor="card-cvc">CVC</Label>
+                <Input
+                  id="card-cvc"
+                  value={card.cvc}
+                  onChange={(e) => setCard({ ...card, cvc: e.target.value.replace(/\D/g, "").slice(0, 4) })}
+                  inputMode="numeric"
+                  autoComplete="cc-csc"
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            <Button
+              onClick={onClose}
+              variant="outline"
+              className="flex-1 border-gray-300 text-gray-700 hover:bg-gray-50 py-6"
+            >
+              Pay Later
+            </Button>
+            {intent ? (
+              <Button
+                onClick={handlePay}
+                disabled={!cardComplete || submitting}
+                className="flex-1 bg-[#FF69B4] hover:bg-[#FF1493] text-white py-6"
+              >
+                <Lock className="w-4 h-4 mr-2" />
+                {submitting ? "Processing..." : `Pay ₱${amount.toFixed(2)}`}
+              </Button>
+            ) : (
+              <Button
+                onClick={startIntent}
+                disabled={loadingIntent}
+                className="flex-1 bg-[#FF69B4] hover:bg-[#FF1493] text-white py-6"
+              >
+                <CreditCard className="w-4 h-4 mr-2" />
+                {loadingIntent ? "Preparing..." : "Try Again"}
+              </Button>
+            )}
+          </div>
+
+          <p className="text-xs text-gray-500 text-center">
+            Unpaid card orders can be paid later from your order history.
+          </p>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -1,11 +1,18 @@
 import { useState, useEffect } from "react";
 import { motion } from "motion/react";
-import { Trash2, Minus, Plus, MapPin, Clock } from "lucide-react";
+import { Trash2, Minus, Plus, MapPin, Clock, CloudOff, AlertCircle, RotateCw } from "lucide-react";
 import { Button } from "./ui/button";
 import { Product } from "../data/products";
 import { ImageWithFallback } from "./figma/ImageWithFallback";
 import { DeliveryInformationModal, DeliveryInfo } from "./DeliveryInformationModal";
 import { ConfirmOrderModal } from "./ConfirmOrderModal";
+import type { PaymentMethod } from "../services/paymentService";
+import type { QueuedCheckout } from "../services/checkoutQueue";
+import { describeCustomBouquet } from "../services/customBouquetService";
+import { cartLineKey, describeProductOptions } from "../services/catalogService";
+import { fetchProductAvailability } from "../services/productInventoryService";
+import { fetchDeliveryZones, formatCutoff, type DeliveryQuote, type DeliveryZone } from "../services/deliveryZoneService";
+import { toast } from "sonner";
 
 interface CartItem {
   product: Product;
@@ -14,82 +21,151 @@ interface CartItem {
 
 interface CartPageProps {
   cartItems: CartItem[];
-  onUpdateQuantity: (productId: string, newQuantity: number) => void;
-  onRemoveItem: (productId: string) => void;
-  onCheckout: (selectedProductIds: string[], deliveryInfo?: any) => void;
+  /** Lines are identified by cartLineKey */
+  onUpdateQuantity: (lineKey: string, newQuantity: number) => void;
+  onRemoveItem: (lineKey: string) => void;
+  onCheckout: (selectedLineKeys: string[], deliveryInfo?: any) => void;
+  queuedCheckouts: QueuedCheckout[];
+  onRetryCheckout: (checkoutId: string) => void;
+  onDiscardCheckout: (checkoutId: string) => void;
+  /** Prefills the sender on the delivery form */
+  customerName?: string;
+  customerPhone?: string;
 }
 
-export function CartPage({ cartItems, onUpdateQuantity, onRemoveItem, onCheckout }: CartPageProps) {
+export function CartPage({ cartItems, onUpdateQuantity, onRemoveItem, onCheckout, queuedCheckouts, onRetryCheckout, onDiscardCheckout, customerName, customerPhone }: CartPageProps) {
   const [showDeliveryModal, setShowDeliveryModal] = useState(false);
   const [showConfirmModal, setShowConfirmModal] = useState(false);
   const [deliveryInfo, setDeliveryInfo] = useState<DeliveryInfo | null>(null);
   const [selectedDeliveryOption, setSelectedDeliveryOption] = useState<"delivery" | "pickup">("delivery");
-  const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set(cartItems.map(item => item.product.id)));
+  // Units still available for lines that failed the stock check, by cart line key
+  const [stockIssues, setStockIssues] = useState<Record<string, number>>({});
+  const [checkingStock, setCheckingStock] = useState(false);
+  const [deliveryZones, setDeliveryZones] = useState<DeliveryZone[]>([]);
+  // Set once the delivery address has been matched to a zone
+  const [deliveryQuote, setDeliveryQuote] = useState<Extract<DeliveryQuote, { served: true }> | null>(null);
+  // Items that belong to a queued checkout stay in the cart until the server confirms the order,
+  // but can't be checked out a second time
+  const lockedLineKeys = new Set(queuedCheckouts.flatMap(checkout => checkout.items.map(item => cartLineKey(item.product))));
+  const selectableItems = cartItems.filter(item => !lockedLineKeys.has(cartLineKey(item.product)));
+  const [selectedItems, setSelectedItems] = useState<Set<string>>(new Set(selectableItems.map(item => cartLineKey(item.product))));
 
   // Update selectedItems when new items are added to cart
   useEffect(() => {
     setSelectedItems(prev => {
       const newSet = new Set(prev);
-      cartItems.forEach(item => {
-        if (!prev.has(item.product.id)) {
-          newSet.add(item.product.id);
+      selectableItems.forEach(item => {
+        if (!prev.has(cartLineKey(item.product))) {
+          newSet.add(cartLineKey(item.product));
         }
       });
-      // Remove items that are no longer in cart
+      // Remove items that are no longer in cart or are waiting in a queued checkout
       prev.forEach(id => {
-        if (!cartItems.find(item => item.product.id === id)) {
+        if (!selectableItems.find(item => cartLineKey(item.product) === id)) {
           newSet.delete(id);
         }
       });
       return newSet;
     });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [cartItems, queuedCheckouts]);
+
+  useEffect(() => {
+    fetchDeliveryZones(true).then(setDeliveryZones).catch(() => setDeliveryZones([]));
+  }, []);
+
+  // Drop stock warnings once the line is removed or brought within what's available
+  useEffect(() => {
+    setStockIssues(prev => {
+      const next: Record<string, number> = {};
+      Object.entries(prev).forEach(([lineKey, available]) => {
+        const item = cartItems.find(i => cartLineKey(i.product) === lineKey);
+        if (item && item.quantity > available) next[lineKey] = available;
+      });
+      return next;
+    });
   }, [cartItems]);
 
-  const handleToggleItem = (productId: string) => {
+  const handleToggleItem = (lineKey: string) => {
     setSelectedItems(prev => {
       const newSet = new Set(prev);
-      if (newSet.has(productId)) {
-        newSet.delete(productId);
+      if (newSet.has(lineKey)) {
+        newSet.delete(lineKey);
       } else {
-        newSet.add(productId);
+        newSet.add(lineKey);
       }
       return newSet;
     });
   };
 
   const handleSelectAll = () => {
-    if (selectedItems.size === cartItems.length) {
+    if (selectedItems.size === selectableItems.length) {
       setSelectedItems(new Set());
     } else {
-      setSelectedItems(new Set(cartItems.map(item => item.product.id)));
+      setSelectedItems(new Set(selectableItems.map(item => cartLineKey(item.product))));
     }
   };
 
-  const selectedCartItems = cartItems.filter(item => selectedItems.has(item.product.id));
+  const selectedCartItems = cartItems.filter(item => selectedItems.has(cartLineKey(item.product)));
 
   const subtotal = selectedCartItems.reduce(
     (total, item) => total + item.product.price * item.quantity,
     0
   );
 
-  const deliveryFee = selectedDeliveryOption === "delivery" ? 59 : 0;
-  const total = subtotal + deliveryFee;
+  // Unknown until the address is matched to a zone; place_order charges the same zone fee
+  const deliveryFee = selectedDeliveryOption === "delivery" ? deliveryQuote?.fee ?? null : 0;
+  const total = subtotal + (deliveryFee ?? 0);
+  const zoneFees = deliveryZones.map(zone => zone.fee);
+  const deliveryFeeRange = zoneFees.length === 0
+    ? null
+    : Math.min(...zoneFees) === Math.max(...zoneFees)
+      ? `₱${Math.min(...zoneFees).toFixed(2)}`
+      : `₱${Math.min(...zoneFees).toFixed(2)}-₱${Math.max(...zoneFees).toFixed(2)} depending on your area`;
 
-  const handleProceedToCheckout = () => {
+  const handleProceedToCheckout = async () => {
+    const productLines = selectedCartItems.filter(item => !item.product.customBouquet);
+    setCheckingStock(true);
+    try {
+      const availability = await fetchProductAvailability(productLines.map(item => item.product.id));
+      // Lines of the same product with different options draw on the same stock
+      const orderedByProduct: Record<string, number> = {};
+      productLines.forEach(item => {
+        orderedByProduct[item.product.id] = (orderedByProduct[item.product.id] ?? 0) + item.quantity;
+      });
+      const issues: Record<string, number> = {};
+      productLines.forEach(item => {
+        const available = availability[item.product.id];
+        if (available != null && orderedByProduct[item.product.id] > available) {
+          issues[cartLineKey(item.product)] = available;
+        }
+      });
+      setStockIssues(issues);
+      if (Object.keys(issues).length > 0) {
+        toast.error("Some items in your cart are sold out or low on stock. Please update them to continue.");
+        return;
+      }
+    } catch {
+      // Offline or unreachable: place_order checks stock again when the order is submitted
+    } finally {
+      setCheckingStock(false);
+    }
     setShowDeliveryModal(true);
   };
 
-  const handleDeliveryInfoSubmit = (info: DeliveryInfo) => {
+  const handleDeliveryInfoSubmit = (info: DeliveryInfo, quote?: Extract<DeliveryQuote, { served: true }>) => {
     setDeliveryInfo(info);
+    setDeliveryQuote(quote ?? null);
     setShowDeliveryModal(false);
     setShowConfirmModal(true);
   };
 
-  const handlePlaceOrder = () => {
+  const handlePlaceOrder = (paymentMethod: PaymentMethod) => {
     setShowConfirmModal(false);
     onCheckout(Array.from(selectedItems), {
       ...deliveryInfo,
-      deliveryOption: selectedDeliveryOption
+      deliveryOption: selectedDeliveryOption,
+      paymentMethod
     });
   };
 
@@ -116,17 +192,72 @@ export function CartPage({ cartItems, onUpdateQuantity, onRemoveItem, onCheckout
                 {cartItems.length} {cartItems.length === 1 ? "item" : "items"} in your cart
               </p>
             </div>
-            {cartItems.length > 0 && (
+            {selectableItems.length > 0 && (
               <button
                 onClick={handleSelectAll}
                 className="text-sm text-gray-600 hover:text-[#FF69B4] transition-colors"
               >
-                {selectedItems.size === cartItems.length ? "Deselect All" : "Select All"}
+                {selectedItems.size === selectableItems.length ? "Deselect All" : "Select All"}
               </button>
             )}
           </div>
         </div>
 
+        {/* Queued Checkouts */}
+        {queuedCheckouts.length > 0 && (
+          <div className="space-y-3">
+            {queuedCheckouts.map((checkout) => (
+              <div
+                key={checkout.id}
+                className={`border rounded-lg p-4 ${
+                  checkout.status === "failed"
+                    ? "bg-red-50 border-red-200"
+                    : "bg-yellow-50 border-yellow-200"
+                }`}
+              >
+                <div className="flex items-start gap-3">
+                  {checkout.status === "failed" ? (
+                    <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+                  ) : (
+                    <CloudOff className="w-5 h-5 text-yellow-600 flex-shrink-0 mt-0.5" />
+                  )}
+                  <div className="flex-1">
+                    <h3 className="text-sm mb-1">
+                      {checkout.status === "failed" ? "Order could not be placed" : "Order waiting to be sent"}
+                    </h3>
+                    <p className="text-xs text-gray-700">
+                      {checkout.items.map(item => `${item.product.name} × ${item.quantity}`).join(", ")}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {checkout.status === "failed"
+                        ? checkout.lastError
+                        : "We'll place this order automatically as soon as you're back online."}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    <button
+                      onClick={() => onRetryCheckout(checkout.id)}
+                      className="text-xs flex items-center gap-1 px-2 py-1 rounded text-gray-700 hover:bg-white transition-colors"
+                    >
+                      <RotateCw className="w-3 h-3" />
+                      Retry
+                    </button>
+                    {checkout.status === "failed" && (
+                      <button
+                        onClick={() => onDiscardCheckout(checkout.id)}
+                        className="text-xs flex items-center gap-1 px-2 py-1 rounded text-red-600 hover:bg-white transition-colors"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                        Discard
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
         {cartItems.length === 0 ? (
           <div className="text-center py-12">
             <p className="text-gray-500 mb-4">Your cart is empty</p>
@@ -136,69 +267,90 @@ export function CartPage({ cartItems, onUpdateQuantity, onRemoveItem, onCheckout
           <>
             {/* Cart Items */}
             <div className="space-y-4">
-              {cartItems.map((item) => (
-                <motion.div
-                  key={item.product.id}
-                  initial={{ opacity: 0 }}
-                  animate={{ opacity: 1 }}
-                  exit={{ opacity: 0 }}
-                  className={`bg-white border rounded-lg p-4 transition-all ${
-                    selectedItems.has(item.product.id) 
-                      ? 'border-[#FF69B4] shadow-sm' 
-                      : 'border-gray-200'
-                  }`}
-                >
-                  <div className="flex items-center gap-4">
-                    {/* Checkbox */}
-                    <input
-                      type="checkbox"
-                      checked={selectedItems.has(item.product.id)}
-                      onChange={() => handleToggleItem(item.product.id)}
-                      className="w-5 h-5 text-[#FF69B4] border-gray-300 rounded focus:ring-[#FF69B4] cursor-pointer"
-                    />
-
-                    {/* Product Image */}
-                    <div className="w-16 h-16 flex-shrink-0 bg-gray-100 rounded overflow-hidden">
-                      <ImageWithFallback
-                        src={item.product.image}
-                        alt={item.product.name}
-                        className="w-full h-full object-cover"
+              {cartItems.map((item) => {
+                const lineKey = cartLineKey(item.product);
+                const options = describeProductOptions(item.product);
+                return (
+                  <motion.div
+                    key={lineKey}
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className={`bg-white border rounded-lg p-4 transition-all ${
+                      selectedItems.has(lineKey) 
+                        ? 'border-[#FF69B4] shadow-sm' 
+                        : 'border-gray-200'
+                    }`}
+                  >
+                    <div className="flex items-center gap-4">
+                      {/* Checkbox */}
+                      <input
+                        type="checkbox"
+                        checked={selectedItems.has(lineKey)}
+                        onChange={() => handleToggleItem(lineKey)}
+                        disabled={lockedLineKeys.has(lineKey)}
+                        className="w-5 h-5 text-[#FF69B4] border-gray-300 rounded focus:ring-[#FF69B4] cursor-pointer disabled:cursor-not-allowed disabled:opacity-50"
                       />
-                    </div>
 
-                    {/* Product Details */}
-                    <div className="flex-1">
-                      <h3 className="mb-1">{item.product.name}</h3>
-                      <p className="text-[#FF69B4]">₱{item.product.price.toFixed(2)}</p>
-                    </div>
+                      {/* Product Image */}
+                      <div className="w-16 h-16 flex-shrink-0 bg-gray-100 rounded overflow-hidden">
+                        <ImageWithFallback
+                          src={item.product.image}
+                          alt={item.product.name}
+                          className="w-full h-full object-cover"
+                        />
+                      </div>
 
-                    {/* Quantity Controls */}
-                    <div className="flex items-center gap-3 bg-gray-100 rounded px-3 py-2">
-                      <button
-                        onClick={() => onUpdateQuantity(item.product.id, Math.max(1, item.quantity - 1))}
-                        className="text-gray-600 hover:text-[#FF69B4]"
-                      >
-                        <Minus className="w-4 h-4" />
-                      </button>
-                      <span className="w-8 text-center">{item.quantity}</span>
+                      {/* Product Details */}
+                      <div className="flex-1">
+                        <h3 className="mb-1">{item.product.name}</h3>
+                        {item.product.customBouquet && (
+                          <p className="text-xs text-gray-500 mb-1">{describeCustomBouquet(item.product.customBouquet)}</p>
+                        )}
+                        {options && (
+                          <p className="text-xs text-gray-500 mb-1">{options}</p>
+                        )}
+                        <p className="text-[#FF69B4]">₱{item.product.price.toFixed(2)}</p>
+                        {lockedLineKeys.has(lineKey) && (
+                          <p className="text-xs text-yellow-700 mt-1">Checkout pending</p>
+                        )}
+                        {stockIssues[lineKey] !== undefined && (
+                          <p className="text-xs text-red-600 mt-1">
+                            {stockIssues[lineKey] === 0
+                              ? "Sold out — please remove it to continue"
+                              : `Only ${stockIssues[lineKey]} left — please lower the quantity`}
+                          </p>
+                        )}
+                      </div>
+
+                      {/* Quantity Controls */}
+                      <div className="flex items-center gap-3 bg-gray-100 rounded px-3 py-2">
+                        <button
+                          onClick={() => onUpdateQuantity(lineKey, Math.max(1, item.quantity - 1))}
+                          className="text-gray-600 hover:text-[#FF69B4]"
+                        >
+                          <Minus className="w-4 h-4" />
+                        </button>
+                        <span className="w-8 text-center">{item.quantity}</span>
+                        <button
+                          onClick={() => onUpdateQuantity(lineKey, item.quantity + 1)}
+                          className="text-gray-600 hover:text-[#FF69B4]"
+                        >
+                          <Plus className="w-4 h-4" />
+                        </button>
+                      </div>
+
+                      {/* Remove Button */}
                       <button
-                        onClick={() => onUpdateQuantity(item.product.id, item.quantity + 1)}
-                        className="text-gray-600 hover:text-[#FF69B4]"
+                        onClick={() => onRemoveItem(lineKey)}
+                        className="text-red-500 hover:text-red-600"
                       >
-                        <Plus className="w-4 h-4" />
+                        <Trash2 className="w-5 h-5" />
                       </button>
                     </div>
-
-                    {/* Remove Button */}
-                    <button
-                      onClick={() => onRemoveItem(item.product.id)}
-                      className="text-red-500 hover:text-red-600"
-                    >
-                      <Trash2 className="w-5 h-5" />
-                    </button>
-                  </div>
-                </motion.div>
-              ))}
+                  </motion.div>
+                );
+              })}
             </div>
 
             {/* Delivery Options */}
@@ -221,8 +373,15 @@ export function CartPage({ cartItems, onUpdateQuantity, onRemoveItem, onCheckout
                       <span>Home Delivery</span>
                     </div>
                     <p className="text-sm text-gray-600">
-                      Same day delivery - ₱59.00
+                      {deliveryFeeRange ? `Delivery fee ${deliveryFeeRange}` : "Delivery is not available right now"}
                     </p>
+                    {deliveryQuote && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        {deliveryQuote.zoneName}: {deliveryQuote.sameDayAvailable && deliveryQuote.sameDayCutoff
+                          ? `same-day delivery for orders before ${formatCutoff(deliveryQuote.sameDayCutoff)}`
+                          : "next-day delivery"}
+                      </p>
+                    )}
                   </div>
                 </label>
                 <label className="flex items-start gap-3 cursor-pointer">
@@ -239,7 +398,7 @@ export function CartPage({ cartItems, onUpdateQuantity, onRemoveItem, onCheckout
                       <span>Store Pickup</span>
                     </div>
                     <p className="text-sm text-gray-600">
-                      Ready in 30-45 minutes - Free
+                      Pick a date and time slot - Free
                     </p>
                     <p className="text-xs text-gray-500 mt-1">
                       <MapPin className="w-3 h-3 inline mr-1" />
@@ -262,16 +421,16 @@ export function CartPage({ cartItems, onUpdateQuantity, onRemoveItem, onCheckout
               <div className="space-y-2 mb-4">
                 <div className="flex justify-between text-gray-600 text-sm">
                   <span>Selected Items</span>
-                  <span>{selectedItems.size} of {cartItems.length}</span>
+                  <span>{selectedItems.size} of {selectableItems.length}</span>
                 </div>
                 <div className="flex justify-between text-gray-600">
                   <span>Subtotal</span>
                   <span>₱{subtotal.toFixed(2)}</span>
                 </div>
-                {deliveryFee > 0 && (
+                {selectedDeliveryOption === "delivery" && (
                   <div className="flex justify-between text-gray-600">
-                    <span>Delivery Fee</span>
-                    <span>₱{deliveryFee.toFixed(2)}</span>
+                    <span>Delivery Fee{deliveryQuote ? ` (${deliveryQuote.zoneName})` : ""}</span>
+                    <span>{deliveryFee === null ? "Calculated at checkout" : `₱${deliveryFee.toFixed(2)}`}</span>
                   </div>
                 )}
                 <div className="border-t border-gray-200 pt-2 mt-2 flex justify-between">
@@ -281,7 +440,7 @@ export function CartPage({ cartItems, onUpdateQuantity, onRemoveItem, onCheckout
               </div>
               <Button
                 onClick={handleProceedToCheckout}
-                disabled={selectedItems.size === 0}
+                disabled={selectedItems.size === 0 || checkingStock}
                 className="w-full bg-[#FF69B4] hover:bg-[#FF1493] text-white py-6 rounded-lg disabled:bg-gray-300 disabled:cursor-not-allowed"
               >
                 <span className="mr-2">⊞</span>
@@ -298,6 +457,9 @@ export function CartPage({ cartItems, onUpdateQuantity, onRemoveItem, onCheckout
           onClose={() => setShowDeliveryModal(false)}
           onContinue={handleDeliveryInfoSubmit}
           deliveryOption={selectedDeliveryOption}
+          subtotal={subtotal}
+          customerName={customerName}
+          customerPhone={customerPhone}
         />
       )}
 
@@ -309,6 +471,8 @@ export function CartPage({ cartItems, onUpdateQuantity, onRemoveItem, onCheckout
           deliveryInfo={deliveryInfo}
           cartItems={selectedCartItems}
           total={total}
+          deliveryFee={deliveryFee ?? 0}
+          deliveryQuote={selectedDeliveryOption === "delivery" ? deliveryQuote : null}
           deliveryOption={selectedDeliveryOption}
         />
       )}
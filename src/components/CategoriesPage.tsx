@@ -3,22 +3,14 @@ import { motion } from "motion/react";
 import { Sparkles } from "lucide-react";
 import { Button } from "./ui/button";
 import { useEffect, useState } from "react";
-import supabase from "../services/supabaseClient";
-
-interface Category {
-  id: string;
-  name: string;
-  description?: string | null;
-  image?: string | null;
-}
+import { fetchCategories as fetchCatalogCategories, type CatalogCategory } from "../services/catalogService";
 
 interface CategoriesPageProps {
-  onNavigate: (page: string, category?: string | Category) => void;
+  onNavigate: (page: string, category?: string | CatalogCategory) => void;
 }
 
 export function CategoriesPage({ onNavigate }: CategoriesPageProps) {
-  const [categories, setCategories] = useState<Category[]>([]);
-  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [categories, setCategories] = useState<CatalogCategory[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -32,32 +24,11 @@ export function CategoriesPage({ onNavigate }: CategoriesPageProps) {
     setLoading(true);
     setError(null);
     try {
-      const { data: catsData, error: catsErr } = await supabase.from('categories').select('*').order('name');
-      if (catsErr) throw catsErr;
-      const cats = (catsData ?? []) as Category[];
-
-      // fetch product->category mappings
-      const catIds = cats.map(c => c.id);
-      let pc: any[] = [];
-      if (catIds.length) {
-        const { data: pcData, error: pcErr } = await supabase.from('product_categories').select('category_id,product_id').in('category_id', catIds);
-        if (pcErr) {
-          console.warn('Failed to load product_categories', pcErr.message || pcErr);
-        } else {
-          pc = pcData ?? [];
-        }
-      }
-
-      const countsMap: Record<string, number> = {};
-      pc.forEach((r) => { countsMap[r.category_id] = (countsMap[r.category_id] || 0) + 1; });
-
-      setCategories(cats);
-      setCounts(countsMap);
+      setCategories(await fetchCatalogCategories());
     } catch (err: any) {
       console.error(err);
       setError(err?.message ?? String(err));
       setCategories([]);
-      setCounts({});
     } finally {
       setLoading(false);
     }
@@ -246,7 +217,7 @@ export function CategoriesPage({ onNavigate }: CategoriesPageProps) {
                   <div className="absolute bottom-0 left-0 right-0 p-6 text-white">
                     <h3 className="text-xl mb-1">{category.name}</h3>
                     <p className="text-sm text-white/90">
-                      {counts[category.id] || 0} items
+                      {category.productCount} items
                     </p>
                   </div>
                   {/* Decorative corner accent */}
@@ -1,21 +1,35 @@
+import { useState } from "react";
 import { motion } from "motion/react";
-import { X, Wallet, AlertCircle } from "lucide-react";
+import { X, Wallet, AlertCircle, CreditCard, Smartphone, Landmark, type LucideIcon } from "lucide-react";
 import { Button } from "./ui/button";
 import { DeliveryInfo } from "./DeliveryInformationModal";
 import { Product } from "../data/products";
+import type { PaymentMethod } from "../services/paymentService";
+import type { DeliveryQuote } from "../services/deliveryZoneService";
+import { formatScheduleDate } from "../services/scheduleService";
 
 interface CartItem {
   product: Product;
   quantity: number;
 }
 
+const PAYMENT_OPTIONS: { method: PaymentMethod; title: string; description: string; icon: LucideIcon; iconClass: string }[] = [
+  { method: "cash", title: "Cash Payment", description: "Pay when you receive your order", icon: Wallet, iconClass: "bg-green-100 text-green-600" },
+  { method: "card", title: "Card Payment", description: "Pay online now with a credit or debit card", icon: CreditCard, iconClass: "bg-blue-100 text-blue-600" },
+  { method: "ewallet", title: "E-Wallet", description: "GCash or Maya, then upload your receipt", icon: Smartphone, iconClass: "bg-sky-100 text-sky-600" },
+  { method: "bank_transfer", title: "Bank Transfer", description: "Transfer to our bank account, then upload your receipt", icon: Landmark, iconClass: "bg-purple-100 text-purple-600" },
+];
+
 interface ConfirmOrderModalProps {
   onClose: () => void;
-  onPlaceOrder: () => void;
+  onPlaceOrder: (paymentMethod: PaymentMethod) => void;
   onBack: () => void;
   deliveryInfo: DeliveryInfo;
   cartItems: CartItem[];
   total: number;
+  deliveryFee: number;
+  /** Zone the delivery address matched; null for pickup */
+  deliveryQuote: Extract<DeliveryQuote, { served: true }> | null;
   deliveryOption: "delivery" | "pickup";
 }
 
@@ -26,19 +40,14 @@ export function ConfirmOrderModal({
   deliveryInfo,
   cartItems,
   total,
+  deliveryFee,
+  deliveryQuote,
   deliveryOption,
 }: ConfirmOrderModalProps) {
-  const getPickupTimeLabel = (value: string) => {
-    const labels: Record<string, string> = {
-      "asap": "ASAP (30-45 minutes)",
-      "1-2hours": "1-2 hours",
-      "2-4hours": "2-4 hours",
-      "tomorrow-morning": "Tomorrow morning (9-12 PM)",
-      "tomorrow-afternoon": "Tomorrow afternoon (12-5 PM)",
-      "tomorrow-evening": "Tomorrow evening (5-8 PM)",
-    };
-    return labels[value] || value;
-  };
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("cash");
+  const scheduleLabel = deliveryInfo.scheduledDate
+    ? `${formatScheduleDate(deliveryInfo.scheduledDate)}, ${deliveryInfo.timeSlotLabel ?? ""}`
+    : "Not scheduled";
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
       <motion.div
@@ -63,16 +72,27 @@ export function ConfirmOrderModal({
         {/* Content */}
         <div className="p-6 space-y-6">
           {/* Payment Method */}
-          <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
-            <div className="flex items-center gap-3">
-              <div className="w-10 h-10 bg-green-100 rounded-lg flex items-center justify-center">
-                <Wallet className="w-5 h-5 text-green-600" />
-              </div>
-              <div>
-                <h3 className="mb-1">Cash Payment</h3>
-                <p className="text-sm text-gray-600">Pay when you receive your order</p>
-              </div>
-            </div>
+          <div className="space-y-3">
+            {PAYMENT_OPTIONS.map(({ method, title, description, icon: Icon, iconClass }) => (
+              <button
+                key={method}
+                type="button"
+                onClick={() => setPaymentMethod(method)}
+                className={`w-full text-left border rounded-lg p-4 transition-colors ${
+                  paymentMethod === method ? "border-[#FF69B4] bg-pink-50" : "border-gray-200 bg-gray-50 hover:border-gray-300"
+                }`}
+              >
+                <div className="flex items-center gap-3">
+                  <div className={`w-10 h-10 rounded-lg flex items-center justify-center ${iconClass}`}>
+                    <Icon className="w-5 h-5" />
+                  </div>
+                  <div>
+                    <h3 className="mb-1">{title}</h3>
+                    <p className="text-sm text-gray-600">{description}</p>
+                  </div>
+                </div>
+              </button>
+            ))}
           </div>
 
           {/* Order Summary */}
@@ -85,18 +105,34 @@ export function ConfirmOrderModal({
                 <>
                   <div className="flex justify-between">
                     <span className="text-gray-600">Pickup Time:</span>
-                    <span className="text-right">{getPickupTimeLabel(deliveryInfo.pickupTime || "")}</span>
+                    <span className="text-right">{scheduleLabel}</span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-gray-600">Location:</span>
                     <span className="text-right">Jean's Flower Shop</span>
                   </div>
+                  {deliveryInfo.anonymousSender && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">From:</span>
+                      <span className="text-right">Anonymous</span>
+                    </div>
+                  )}
                 </>
               ) : (
                 <>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">From:</span>
+                    <span className="text-right">
+                      {deliveryInfo.senderName}
+                      {deliveryInfo.anonymousSender && " (anonymous)"}
+                    </span>
+                  </div>
                   <div className="flex justify-between">
                     <span className="text-gray-600">Delivery to:</span>
-                    <span className="text-right">{deliveryInfo.fullName}</span>
+                    <span className="text-right">
+                      {deliveryInfo.recipientName}
+                      {deliveryInfo.surpriseDelivery && " (surprise)"}
+                    </span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-gray-600">Address:</span>
@@ -106,7 +142,27 @@ export function ConfirmOrderModal({
                   </div>
                   <div className="flex justify-between">
                     <span className="text-gray-600">Phone:</span>
-                    <span>{deliveryInfo.phoneNumber}</span>
+                    <span>{deliveryInfo.recipientPhone}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Delivery Time:</span>
+                    <span className="text-right">{scheduleLabel}</span>
+                  </div>
+                </>
+              )}
+
+              {deliveryInfo.cardMessage && (
+                <div className="flex justify-between gap-4">
+                  <span className="text-gray-600 flex-shrink-0">Card Message:</span>
+                  <span className="text-right italic max-w-[220px] break-words">"{deliveryInfo.cardMessage}"</span>
+                </div>
+              )}
+
+              {deliveryQuote && (
+                <>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Delivery Fee ({deliveryQuote.zoneName}):</span>
+                    <span>₱{deliveryFee.toFixed(2)}</span>
                   </div>
                 </>
               )}
@@ -127,17 +183,22 @@ export function ConfirmOrderModal({
               <div>
                 <h4 className="text-sm mb-2">Payment Instructions:</h4>
                 <ul className="text-xs text-gray-700 space-y-1">
-                  {deliveryOption === "pickup" ? (
+                  {paymentMethod === "card" ? (
                     <>
-                      <li>• Please prepare exact change if possible</li>
-                      <li>• Payment will be collected upon pickup</li>
-                      <li>• Cash only - no credit/debit cards accepted</li>
+                      <li>• You will be asked for your card details after placing the order</li>
+                      <li>• The shop starts preparing your order once the payment goes through</li>
+                      <li>• If the payment fails you can retry it from your order history</li>
+                    </>
+                  ) : paymentMethod === "ewallet" || paymentMethod === "bank_transfer" ? (
+                    <>
+                      <li>• You will see our account details after placing the order</li>
+                      <li>• Upload a screenshot of your {paymentMethod === "ewallet" ? "e-wallet" : "bank"} receipt as proof of payment</li>
+                      <li>• The shop starts preparing your order once we verify the payment</li>
                     </>
                   ) : (
                     <>
                       <li>• Please prepare exact change if possible</li>
-                      <li>• Payment will be collected upon delivery</li>
-                      <li>• Cash only - no credit/debit cards accepted</li>
+                      <li>• Payment will be collected upon {deliveryOption === "pickup" ? "pickup" : "delivery"}</li>
                     </>
                   )}
                 </ul>
@@ -155,11 +216,11 @@ export function ConfirmOrderModal({
               Back
             </Button>
             <Button
-              onClick={onPlaceOrder}
+              onClick={() => onPlaceOrder(paymentMethod)}
               className="flex-1 bg-[#FF69B4] hover:bg-[#FF1493] text-white py-6"
             >
-              <Wallet className="w-4 h-4 mr-2" />
-              Place Order
+              {paymentMethod === "card" ? <CreditCard className="w-4 h-4 mr-2" /> : <Wallet className="w-4 h-4 mr-2" />}
+              {paymentMethod === "cash" ? "Place Order" : "Place Order & Pay"}
             </Button>
           </div>
         </div>
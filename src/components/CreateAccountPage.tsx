@@ -8,7 +8,7 @@ import { Label } from "./ui/label";
 
 interface CreateAccountPageProps {
   onNavigate: (page: string) => void;
-  onLogin: (asAdmin?: boolean, userData?: { fullName: string; email: string; phone: string; address?: string }, userId?: string) => void;
+  onLogin: () => void;
 }
 
 export function CreateAccountPage({ onNavigate, onLogin }: CreateAccountPageProps) {
@@ -28,13 +28,13 @@ export function CreateAccountPage({ onNavigate, onLogin }: CreateAccountPageProp
     }
     (async () => {
       try {
-        const { user, error } = await signUpWithEmail(email, password, fullName, phone);
+        const { error } = await signUpWithEmail(email, password, fullName, phone);
         if (error) {
           alert(error.message || 'Failed to create account');
           return;
         }
-        // created successfully - update app state
-        onLogin(false, { fullName, email, phone, address: "" }, user?.id);
+        // created successfully - AuthProvider picks up the new session
+        onLogin();
       } catch (err: any) {
         alert(err?.message ?? String(err));
       }
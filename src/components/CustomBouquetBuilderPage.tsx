@@ -4,73 +4,58 @@ import { ArrowLeft, Sparkles, Check } from "lucide-react";
 import { Button } from "./ui/button";
 import { ImageWithFallback } from "./figma/ImageWithFallback";
 import { toast } from "sonner";
-import type { BouquetColor, FlowerType } from "../data/bouquetData";
+import type { BouquetColor, BouquetSize, FlowerType } from "../data/bouquetData";
+import type { Product } from "../data/products";
+import { createCustomBouquet, customBouquetToProduct, quoteCustomBouquet } from "../services/customBouquetService";
 
 interface CustomBouquetBuilderPageProps {
   onBack: () => void;
-  onAddToCart: (bouquet: any) => void;
+  onAddToCart: (bouquet: Product) => void;
   isLoggedIn: boolean;
   onShowLoginRequired: () => void;
   bouquetColors: BouquetColor[];
   flowerTypes: FlowerType[];
+  bouquetSizes: BouquetSize[];
 }
 
-type BouquetSize = "small" | "medium" | "large" | null;
-
 interface SelectedFlower {
   flower: FlowerType;
   count: number;
 }
 
-const sizeOptions = [
-  {
-    id: "small" as const,
-    name: "Small",
-    description: "Perfect intimate gesture with 1-2 stems",
-    maxFlowers: 2,
-    price: 250,
-    emoji: "🌸"
-  },
-  {
-    id: "medium" as const,
-    name: "Medium",
-    description: "Beautiful arrangement with 6 stems",
-    maxFlowers: 6,
-    price: 600,
-    emoji: "💐"
-  },
-  {
-    id: "large" as const,
-    name: "Large",
-    description: "Stunning display with 12 stems",
-    maxFlowers: 12,
-    price: 1200,
-    emoji: "🌹"
-  }
-];
-
 export function CustomBouquetBuilderPage({ 
   onBack, 
   onAddToCart, 
   isLoggedIn, 
   onShowLoginRequired,
   bouquetColors,
-  flowerTypes
+  flowerTypes,
+  bouquetSizes
 }: CustomBouquetBuilderPageProps) {
-  const [selectedSize, setSelectedSize] = useState<BouquetSize>(null);
+  const [selectedSize, setSelectedSize] = useState<string | null>(null);
   const [selectedColor, setSelectedColor] = useState<string | null>(null);
   const [selectedFlowers, setSelectedFlowers] = useState<SelectedFlower[]>([]);
+  const [saving, setSaving] = useState(false);
 
   // Filter only available flower types
   const availableFlowers = flowerTypes.filter(flower => flower.available);
 
-  const maxFlowers = sizeOptions.find(s => s.id === selectedSize)?.maxFlowers || 0;
+  const sizeOptions = bouquetSizes.filter(size => size.active);
+  const size = sizeOptions.find(s => s.code === selectedSize);
+
+  const maxFlowers = size?.maxStems || 0;
   const totalFlowers = selectedFlowers.reduce((sum, f) => sum + f.count, 0);
-  const basePrice = sizeOptions.find(s => s.id === selectedSize)?.price || 0;
+  const quote = size ? quoteCustomBouquet(size, selectedFlowers) : null;
 
   const handleFlowerSelect = (flower: FlowerType) => {
     if (totalFlowers >= maxFlowers) {
-      toast.error(`Maximum ${maxFlowers} stems allowed for ${selectedSize} size`);
+      toast.error(`Maximum ${maxFlowers} stems allowed for ${size?.name} size`);
+      return;
+    }
+
+    const selectedCount = selectedFlowers.find(f => f.flower.id === flower.id)?.count || 0;
+    if (flower.stockOnHand !== null && selectedCount >= flower.stockOnHand) {
+      toast.error(`Only ${flower.stockOnHand} ${flower.name} ${flower.stockOnHand === 1 ? 'stem is' : 'stems are'} left`);
       return;
     }
 
@@ -101,7 +86,7 @@ export function CustomBouquetBuilderPage({
     });
   };
 
-  const handleAddToCart = () => {
+  const handleAddToCart = async () => {
     if (!isLoggedIn) {
       onShowLoginRequired();
       return;
@@ -120,24 +105,22 @@ export function CustomBouquetBuilderPage({
       return;
     }
 
-    const customBouquet = {
-      id: `custom-${Date.now()}`,
-      name: `Custom ${selectedSize.charAt(0).toUpperCase() + selectedSize.slice(1)} Bouquet`,
-      price: basePrice,
-      image: selectedFlowers[0].flower.image,
-      category: "Custom",
-      isSpecial: false,
-      isBestSeller: false,
-      customDetails: {
+    // Saved and priced by the server so it survives cart reloads and checkout
+    setSaving(true);
+    try {
+      const bouquet = await createCustomBouquet({
         size: selectedSize,
-        color: selectedColor,
-        flowers: selectedFlowers
-      }
-    };
-
-    onAddToCart(customBouquet);
-    toast.success("Custom bouquet added to cart!");
-    onBack();
+        colorId: selectedColor,
+        flowers: selectedFlowers.map(f => ({ flowerTypeId: f.flower.id, count: f.count }))
+      });
+      onAddToCart(customBouquetToProduct(bouquet));
+      toast.success("Custom bouquet added to cart!");
+      onBack();
+    } catch (err: any) {
+      toast.error(err?.message || "Failed to save your custom bouquet");
+    } finally {
+      setSaving(false);
+    }
   };
 
   return (
@@ -185,40 +168,46 @@ export function CustomBouquetBuilderPage({
           </div>
 
           <div className="grid md:grid-cols-3 gap-6">
-            {sizeOptions.map((size) => (
+            {sizeOptions.map((option) => (
               <motion.button
-                key={size.id}
+                key={option.id}
                 onClick={() => {
-                  setSelectedSize(size.id);
+                  setSelectedSize(option.code);
                   setSelectedFlowers([]);
                 }}
                 whileHover={{ y: -4 }}
                 whileTap={{ scale: 0.98 }}
                 className={`relative bg-white rounded-2xl p-6 border-2 transition-all text-left ${
-                  selectedSize === size.id
+                  selectedSize === option.code
                     ? "border-[#FF69B4] shadow-lg"
                     : "border-gray-200 hover:border-pink-200"
                 }`}
               >
-                {selectedSize === size.id && (
+                {selectedSize === option.code && (
                   <div className="absolute top-4 right-4 w-6 h-6 bg-[#FF69B4] rounded-full flex items-center justify-center">
                     <Check className="w-4 h-4 text-white" />
                   </div>
                 )}
                 
-                <div className="text-4xl mb-3">{size.emoji}</div>
-                <h3 className="text-xl mb-2">{size.name}</h3>
-                <p className="text-sm text-gray-600 mb-3">{size.description}</p>
+                <div className="text-4xl mb-3">{option.emoji}</div>
+                <h3 className="text-xl mb-2">{option.name}</h3>
+                <p className="text-sm text-gray-600 mb-3">{option.description}</p>
                 <div className="inline-block px-3 py-1 bg-gray-100 rounded-full text-sm mb-3">
-                  {size.maxFlowers} {size.maxFlowers === 1 ? 'stem' : 'stems'}
+                  {option.maxStems} {option.maxStems === 1 ? 'stem' : 'stems'}
                 </div>
                 <div className="text-2xl text-[#FF69B4]">
-                  ₱{size.price}
-                  <span className="text-sm text-gray-500 ml-1">Base price</span>
+                  ₱{option.basePrice + option.wrappingFee}
+                  <span className="text-sm text-gray-500 ml-1">Starting price</span>
                 </div>
               </motion.button>
             ))}
           </div>
+
+          {sizeOptions.length === 0 && (
+            <div className="text-center py-12 text-gray-500">
+              No bouquet sizes available right now.
+            </div>
+          )}
         </motion.section>
 
         {/* Choose Bouquet Color Theme */}
@@ -345,6 +334,9 @@ export function CustomBouquetBuilderPage({
                     </div>
                     <div className="p-3">
                       <p className="text-sm text-center truncate">{flower.name}</p>
+                      {flower.surcharge > 0 && (
+                        <p className="text-xs text-center text-gray-500">+₱{flower.surcharge}/stem</p>
+                      )}
                     </div>
                   </motion.div>
                 );
@@ -366,16 +358,33 @@ export function CustomBouquetBuilderPage({
             animate={{ opacity: 1, y: 0 }}
             className="sticky bottom-6 bg-white rounded-2xl p-6 shadow-xl border-2 border-[#FF69B4]"
           >
-            <div className="flex items-center justify-between">
-              <div>
+            <div className="flex items-center justify-between gap-6">
+              <div className="flex-1">
                 <p className="text-sm text-gray-600">Your custom bouquet</p>
-                <p className="text-2xl text-[#FF69B4]">₱{basePrice.toFixed(2)}</p>
+                {quote && (
+                  <div className="text-sm text-gray-600 mt-1 space-y-0.5 max-w-xs">
+                    <div className="flex justify-between">
+                      <span>{size?.name} base</span>
+                      <span>₱{quote.basePrice.toFixed(2)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Stems ({totalFlowers})</span>
+                      <span>₱{quote.stemsPrice.toFixed(2)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span>Wrapping</span>
+                      <span>₱{quote.wrappingFee.toFixed(2)}</span>
+                    </div>
+                  </div>
+                )}
+                <p className="text-2xl text-[#FF69B4] mt-1">₱{(quote?.price ?? 0).toFixed(2)}</p>
               </div>
               <Button
                 onClick={handleAddToCart}
+                disabled={saving}
                 className="bg-[#FF69B4] hover:bg-[#FF1493] text-white px-8 py-6 rounded-xl text-lg"
               >
-                Add to Cart
+                {saving ? "Saving..." : "Add to Cart"}
               </Button>
             </div>
           </motion.div>
@@ -1,53 +1,161 @@
 import { useState } from "react";
+import { quoteDelivery, type DeliveryQuote } from "../services/deliveryZoneService";
 import { motion } from "motion/react";
-import { X, Phone, AlertCircle } from "lucide-react";
+import { X, Phone, AlertCircle, Gift } from "lucide-react";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
 import { Textarea } from "./ui/textarea";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { DeliverySchedulePicker, type ScheduleSelection } from "./DeliverySchedulePicker";
+import { GIFT_MESSAGE_MAX_LENGTH } from "../services/orderService";
 
 interface DeliveryInformationModalProps {
   onClose: () => void;
-  onContinue: (deliveryInfo: DeliveryInfo) => void;
+  /** The quote is set for home delivery once the address matched a delivery zone */
+  onContinue: (deliveryInfo: DeliveryInfo, quote?: Extract<DeliveryQuote, { served: true }>) => void;
   deliveryOption: "delivery" | "pickup";
+  /** Subtotal of the selected items, checked against the zone's minimum order */
+  subtotal: number;
+  /** Prefills the sender from the customer's profile */
+  customerName?: string;
+  customerPhone?: string;
 }
 
 export interface DeliveryInfo {
-  fullName?: string;
+  senderName?: string;
+  senderPhone?: string;
+  recipientName?: string;
+  /** Number at the delivery address */
+  recipientPhone?: string;
   address?: string;
   city?: string;
   zipCode?: string;
-  phoneNumber?: string;
   specialInstructions?: string;
-  pickupTime?: string;
+  cardMessage?: string;
+  anonymousSender?: boolean;
+  surpriseDelivery?: boolean;
+  /** "YYYY-MM-DD" */
+  scheduledDate?: string;
+  timeSlotId?: string;
+  timeSlotLabel?: string;
 }
 
-export function DeliveryInformationModal({ onClose, onContinue, deliveryOption }: DeliveryInformationModalProps) {
+export function DeliveryInformationModal({
+  onClose,
+  onContinue,
+  deliveryOption,
+  subtotal,
+  customerName,
+  customerPhone,
+}: DeliveryInformationModalProps) {
   const [formData, setFormData] = useState<DeliveryInfo>({
-    fullName: "",
+    senderName: customerName ?? "",
+    senderPhone: customerPhone ?? "",
+    recipientName: "",
+    recipientPhone: "",
     address: "",
     city: "",
     zipCode: "",
-    phoneNumber: "",
     specialInstructions: "",
-    pickupTime: "",
+    cardMessage: "",
+    anonymousSender: false,
+    surpriseDelivery: false,
   });
+  const [schedule, setSchedule] = useState<ScheduleSelection | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [checkingZone, setCheckingZone] = useState(false);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    // Validate pickup time for pickup option
-    if (deliveryOption === "pickup" && !formData.pickupTime) {
+    if (!schedule) {
+      setFormError(`Please choose a ${deliveryOption} date and time slot.`);
       return;
     }
-    
-    onContinue(formData);
+    const info: DeliveryInfo = {
+      ...formData,
+      scheduledDate: schedule.date,
+      timeSlotId: schedule.slotId,
+      timeSlotLabel: schedule.slotLabel,
+    };
+
+    if (deliveryOption === "pickup") {
+      onContinue(info);
+      return;
+    }
+
+    // Check the address against our delivery zones before confirming
+    setCheckingZone(true);
+    setFormError(null);
+    try {
+      const quote = await quoteDelivery(formData.city ?? "", formData.zipCode, subtotal);
+      if (!quote.served) {
+        setFormError(`Sorry, we don't deliver to ${formData.city || "this address"} yet. You can choose store pickup instead.`);
+        return;
+      }
+      if (!quote.meetsMinOrder) {
+        setFormError(`Orders for delivery to ${quote.zoneName} must be at least ₱${quote.minOrder.toFixed(2)}.`);
+        return;
+      }
+      onContinue(info, quote);
+    } catch {
+      setFormError("We couldn't check your delivery area. Please check your connection and try again.");
+    } finally {
+      setCheckingZone(false);
+    }
   };
 
-  const handleChange = (field: keyof DeliveryInfo, value: string) => {
+  const handleChange = (field: keyof DeliveryInfo, value: string | boolean) => {
     setFormData((prev) => ({ ...prev, [field]: value }));
+    if (field === "city" || field === "zipCode") setFormError(null);
+  };
+
+  const digitsOnly = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!/[0-9]/.test(e.key) && e.key !== 'Backspace' && e.key !== 'Delete' && e.key !== 'Tab' && e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') {
+      e.preventDefault();
+    }
   };
 
+  const giftCardFields = (
+    <div className="border border-pink-100 rounded-lg p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <Gift className="w-4 h-4 text-[#FF69B4]" />
+        <h4 className="text-sm">Gift Card (optional)</h4>
+      </div>
+      <div>
+        <Textarea
+          value={formData.cardMessage}
+          onChange={(e) => handleChange("cardMessage", e.target.value.slice(0, GIFT_MESSAGE_MAX_LENGTH))}
+          placeholder="Write a message for the card"
+          className="w-full resize-none"
+          rows={3}
+        />
+        <p className="text-xs text-gray-500 text-right mt-1">
+          {formData.cardMessage?.length ?? 0}/{GIFT_MESSAGE_MAX_LENGTH}
+        </p>
+      </div>
+      <label className="flex items-start gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={formData.anonymousSender}
+          onChange={(e) => handleChange("anonymousSender", e.target.checked)}
+          className="w-4 h-4 mt-0.5"
+        />
+        <span>Send anonymously <span className="text-gray-500">(your name won't appear on the card)</span></span>
+      </label>
+      {deliveryOption === "delivery" && (
+        <label className="flex items-start gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={formData.surpriseDelivery}
+            onChange={(e) => handleChange("surpriseDelivery", e.target.checked)}
+            className="w-4 h-4 mt-0.5"
+          />
+          <span>Surprise delivery <span className="text-gray-500">(we'll call you instead of the recipient if needed)</span></span>
+        </label>
+      )}
+    </div>
+  );
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
       <motion.div
@@ -100,29 +208,16 @@ export function DeliveryInformationModal({ onClose, onContinue, deliveryOption }
               </div>
             </div>
 
-            {/* Pickup Time Dropdown */}
+            {/* Pickup Date & Time */}
             <div>
               <label className="block text-sm mb-2">
-                Preferred Pickup Time <span className="text-red-500">*</span>
+                Pickup Date & Time <span className="text-red-500">*</span>
               </label>
-              <Select
-                value={formData.pickupTime}
-                onValueChange={(value) => handleChange("pickupTime", value)}
-              >
-                <SelectTrigger className="w-full">
-                  <SelectValue placeholder="Select pickup time" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="asap">ASAP (30-45 minutes)</SelectItem>
-                  <SelectItem value="1-2hours">1-2 hours</SelectItem>
-                  <SelectItem value="2-4hours">2-4 hours</SelectItem>
-                  <SelectItem value="tomorrow-morning">Tomorrow morning (9-12 PM)</SelectItem>
-                  <SelectItem value="tomorrow-afternoon">Tomorrow afternoon (12-5 PM)</SelectItem>
-                  <SelectItem value="tomorrow-evening">Tomorrow evening (5-8 PM)</SelectItem>
-                </SelectContent>
-              </Select>
+              <DeliverySchedulePicker deliveryOption="pickup" value={schedule} onChange={setSchedule} />
             </div>
 
+            {giftCardFields}
+
             {/* Pickup Instructions */}
             <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
               <div className="flex gap-2">
@@ -142,7 +237,7 @@ export function DeliveryInformationModal({ onClose, onContinue, deliveryOption }
             {/* Submit Button */}
             <Button
               type="submit"
-              disabled={!formData.pickupTime}
+              disabled={!schedule}
               className="w-full bg-[#FF69B4] hover:bg-[#FF1493] text-white py-6 rounded-lg disabled:bg-gray-300 disabled:cursor-not-allowed"
             >
               Continue
@@ -151,16 +246,47 @@ export function DeliveryInformationModal({ onClose, onContinue, deliveryOption }
         ) : (
           /* Delivery Form */
           <form onSubmit={handleSubmit} className="p-6 space-y-4">
-          {/* Full Name */}
+          {/* Sender */}
+          <h4 className="text-sm text-gray-600">From</h4>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm mb-2">
+                Your Name <span className="text-red-500">*</span>
+              </label>
+              <Input
+                required
+                value={formData.senderName}
+                onChange={(e) => handleChange("senderName", e.target.value)}
+                placeholder="Your full name"
+                className="w-full"
+              />
+            </div>
+            <div>
+              <label className="block text-sm mb-2">
+                Your Phone <span className="text-red-500">*</span>
+              </label>
+              <Input
+                required
+                value={formData.senderPhone}
+                onChange={(e) => handleChange("senderPhone", e.target.value.replace(/\D/g, ''))}
+                onKeyDown={digitsOnly}
+                placeholder="Your phone number"
+                className="w-full"
+              />
+            </div>
+          </div>
+
+          {/* Recipient */}
+          <h4 className="text-sm text-gray-600 pt-2">To</h4>
           <div>
             <label className="block text-sm mb-2">
-              Full Name <span className="text-red-500">*</span>
+              Recipient Name <span className="text-red-500">*</span>
             </label>
             <Input
               required
-              value={formData.fullName}
-              onChange={(e) => handleChange("fullName", e.target.value)}
-              placeholder="Enter your full name"
+              value={formData.recipientName}
+              onChange={(e) => handleChange("recipientName", e.target.value)}
+              placeholder="Who are the flowers for?"
               className="w-full"
             />
           </div>
@@ -202,38 +328,49 @@ export function DeliveryInformationModal({ onClose, onContinue, deliveryOption }
                 const value = e.target.value.replace(/\D/g, '');
                 handleChange("zipCode", value);
               }}
-              onKeyDown={(e) => {
-                if (!/[0-9]/.test(e.key) && e.key !== 'Backspace' && e.key !== 'Delete' && e.key !== 'Tab' && e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') {
-                  e.preventDefault();
-                }
-              }}
+              onKeyDown={digitsOnly}
               placeholder="Enter ZIP code"
               className="w-full"
             />
           </div>
 
-          {/* Phone Number */}
+          {/* Recipient Phone */}
           <div>
             <label className="block text-sm mb-2">
-              Phone Number <span className="text-red-500">*</span>
+              Recipient Phone <span className="text-red-500">*</span>
             </label>
             <Input
               required
-              value={formData.phoneNumber}
+              value={formData.recipientPhone}
               onChange={(e) => {
                 const value = e.target.value.replace(/\D/g, '');
-                handleChange("phoneNumber", value);
-              }}
-              onKeyDown={(e) => {
-                if (!/[0-9]/.test(e.key) && e.key !== 'Backspace' && e.key !== 'Delete' && e.key !== 'Tab' && e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') {
-                  e.preventDefault();
-                }
+                handleChange("recipientPhone", value);
               }}
-              placeholder="Enter phone number"
+              onKeyDown={digitsOnly}
+              placeholder="Phone number at the delivery address"
               className="w-full"
             />
           </div>
 
+          {/* Delivery Date & Time */}
+          <div>
+            <label className="block text-sm mb-2">
+              Delivery Date & Time <span className="text-red-500">*</span>
+            </label>
+            <DeliverySchedulePicker
+              deliveryOption="delivery"
+              city={formData.city}
+              zipCode={formData.zipCode}
+              value={schedule}
+              onChange={(selection) => {
+                setSchedule(selection);
+                setFormError(null);
+              }}
+            />
+          </div>
+
+          {giftCardFields}
+
           {/* Special Instructions */}
           <div>
             <label className="block text-sm mb-2">Special Instructions</label>
@@ -246,12 +383,20 @@ export function DeliveryInformationModal({ onClose, onContinue, deliveryOption }
             />
           </div>
 
+            {formError && (
+              <div className="flex gap-2 bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 text-sm">
+                <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                <span>{formError}</span>
+              </div>
+            )}
+
             {/* Submit Button */}
             <Button
               type="submit"
+              disabled={checkingZone}
               className="w-full bg-[#FF69B4] hover:bg-[#FF1493] text-white py-6 rounded-lg mt-6"
             >
-              Continue
+              {checkingZone ? "Checking delivery area..." : "Continue"}
             </Button>
           </form>
         )}
@@ -0,0 +1,147 @@
+import { useEffect, useState } from "react";
+import { Calendar } from "./ui/calendar";
+import {
+  fetchScheduleRules,
+  fetchAvailableSlots,
+  formatSlotTime,
+  toDateKey,
+  DEFAULT_SCHEDULE_RULES,
+  type AvailableSlot,
+  type ScheduleRules,
+} from "../services/scheduleService";
+
+export interface ScheduleSelection {
+  /** "YYYY-MM-DD" */
+  date: string;
+  slotId: string;
+  slotLabel: string;
+}
+
+interface DeliverySchedulePickerProps {
+  deliveryOption: "delivery" | "pickup";
+  /** Delivery address, for the zone's same-day cutoff */
+  city?: string;
+  zipCode?: string;
+  value: ScheduleSelection | null;
+  onChange: (selection: ScheduleSelection | null) => void;
+}
+
+export function DeliverySchedulePicker({ deliveryOption, city, zipCode, value, onChange }: DeliverySchedulePickerProps) {
+  const [rules, setRules] = useState<ScheduleRules>(DEFAULT_SCHEDULE_RULES);
+  const [selectedDate, setSelectedDate] = useState<Date | undefined>(() => {
+    if (!value) return undefined;
+    const [year, month, day] = value.date.split("-").map(Number);
+    return new Date(year, month - 1, day);
+  });
+  const [slots, setSlots] = useState<AvailableSlot[]>([]);
+  const [loadingSlots, setLoadingSlots] = useState(false);
+  const [slotsError, setSlotsError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchScheduleRules().then(setRules);
+  }, []);
+
+  // Reload whenever the date or anything affecting same-day delivery changes
+  useEffect(() => {
+    if (!selectedDate) {
+      setSlots([]);
+      return;
+    }
+
+    let cancelled = false;
+    setLoadingSlots(true);
+    setSlotsError(null);
+    fetchAvailableSlots(toDateKey(selectedDate), deliveryOption, city, zipCode)
+      .then((result) => {
+        if (cancelled) return;
+        setSlots(result);
+        // Drop a chosen slot that is no longer bookable
+        if (value && !result.some((slot) => slot.id === value.slotId && slot.available)) {
+          onChange(null);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setSlotsError("Couldn't load time slots. Please check your connection.");
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingSlots(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedDate, deliveryOption, city, zipCode]);
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const lastDay = new Date(today);
+  lastDay.setDate(lastDay.getDate() + rules.maxDaysAhead);
+  const blackoutKeys = new Set(rules.blackoutDates.map((b) => b.date));
+  const selectedBlackout = selectedDate
+    ? rules.blackoutDates.find((b) => b.date === toDateKey(selectedDate))
+    : undefined;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-center border border-gray-200 rounded-lg">
+        <Calendar
+          mode="single"
+          selected={selectedDate}
+          onSelect={(date) => {
+            setSelectedDate(date);
+            if (value && (!date || toDateKey(date) !== value.date)) onChange(null);
+          }}
+          disabled={[{ before: today }, { after: lastDay }, (date) => blackoutKeys.has(toDateKey(date))]}
+        />
+      </div>
+
+      {selectedBlackout && (
+        <p className="text-sm text-red-600">We're closed on this day{selectedBlackout.reason ? `: ${selectedBlackout.reason}` : ""}.</p>
+      )}
+
+      {selectedDate && (
+        <div>
+          <p className="text-sm mb-2">Time slot</p>
+          {loadingSlots ? (
+            <p className="text-sm text-gray-500">Loading time slots...</p>
+          ) : slotsError ? (
+            <p className="text-sm text-red-600">{slotsError}</p>
+          ) : slots.length === 0 ? (
+            <p className="text-sm text-gray-500">No {deliveryOption} slots on this day. Please choose another date.</p>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {slots.map((slot) => {
+                const isSelected = value?.slotId === slot.id && value.date === toDateKey(selectedDate);
+                return (
+                  <button
+                    key={slot.id}
+                    type="button"
+                    disabled={!slot.available}
+                    title={slot.reason ?? undefined}
+                    onClick={() => onChange({ date: toDateKey(selectedDate), slotId: slot.id, slotLabel: slot.label })}
+                    className={`text-left border rounded-lg px-3 py-2 text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                      isSelected ? "border-[#FF69B4] bg-pink-50" : "border-gray-200 hover:border-gray-300"
+                    }`}
+                  >
+                    <span className="block">{slot.label}</span>
+                    <span className="block text-xs text-gray-500">
+                      {formatSlotTime(slot.startTime)} - {formatSlotTime(slot.endTime)}
+                    </span>
+                    <span className="block text-xs text-gray-500">
+                      {!slot.available
+                        ? slot.reason
+                        : slot.remaining !== null && slot.remaining <= 3
+                          ? `Only ${slot.remaining} left`
+                          : ""}
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,8 @@
-import { ShoppingCart, User } from "lucide-react";
+import { useEffect, useState } from "react";
+import { ShoppingCart, User, LayoutDashboard, Search } from "lucide-react";
 import { Button } from "./ui/button";
+import { SearchPalette } from "./SearchPalette";
+import type { Product } from "../data/products";
 
 interface HeaderProps {
   currentPage: string;
@@ -8,10 +11,34 @@ interface HeaderProps {
   onLogin: () => void;
   onUserClick: () => void;
   onCartClick: () => void;
+  /** Product search; the palette is hidden when not provided */
+  onSearch?: (query: string) => void;
+  onProductSelect?: (product: Product) => void;
   cartItemCount: number;
+  /** Hidden for roles that can't place orders (e.g. drivers) */
+  showCart?: boolean;
+  /** Link to the admin dashboard or driver portal, shown to those roles only */
+  dashboardLabel?: string;
+  onDashboardClick?: () => void;
 }
 
-export function Header({ currentPage, onNavigate, isLoggedIn, onLogin, onUserClick, onCartClick, cartItemCount }: HeaderProps) {
+export function Header({ currentPage, onNavigate, isLoggedIn, onLogin, onUserClick, onCartClick, onSearch, onProductSelect, cartItemCount, showCart = true, dashboardLabel, onDashboardClick }: HeaderProps) {
+  const [searchOpen, setSearchOpen] = useState(false);
+  const searchEnabled = Boolean(onSearch && onProductSelect);
+
+  // Ctrl+K / Cmd+K opens search from anywhere
+  useEffect(() => {
+    if (!searchEnabled) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setSearchOpen((prev) => !prev);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [searchEnabled]);
+
   const navItems = [
     { name: "HOME", id: "home" },
     { name: "PRODUCTS", id: "products" },
@@ -56,19 +83,40 @@ export function Header({ currentPage, onNavigate, isLoggedIn, onLogin, onUserCli
 
             {/* Right section - Far Right */}
             <div className="flex items-center gap-6 flex-shrink-0">
+              {searchEnabled && (
+                <button
+                  onClick={() => setSearchOpen(true)}
+                  className="flex items-center gap-2 w-56 px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-500 hover:border-[#FF69B4] transition-colors"
+                >
+                  <Search className="w-4 h-4" />
+                  <span className="flex-1 text-left">Search flowers...</span>
+                  <kbd className="text-xs text-gray-400">Ctrl K</kbd>
+                </button>
+              )}
               {isLoggedIn && (
                 <>
+                  {dashboardLabel && onDashboardClick && (
+                    <button
+                      onClick={onDashboardClick}
+                      className="flex items-center gap-1 text-sm font-medium tracking-wide text-gray-700 hover:text-[#FF69B4] transition-colors"
+                    >
+                      <LayoutDashboard className="w-4 h-4" />
+                      {dashboardLabel}
+                    </button>
+                  )}
                   <button onClick={onUserClick} className="relative hover:text-[#FF69B4] transition-colors">
                     <User className="w-5 h-5 text-gray-700 hover:text-[#FF69B4]" />
                   </button>
-                  <button onClick={onCartClick} className="relative hover:text-[#FF69B4] transition-colors">
-                    <ShoppingCart className="w-5 h-5 text-gray-700 hover:text-[#FF69B4]" />
-                    {cartItemCount > 0 && (
-                      <span className="absolute -top-2 -right-2 bg-[#FF69B4] text-white text-xs rounded-full w-5 h-5 flex items-center justify-center">
-                        {cartItemCount}
-                      </span>
-                    )}
-                  </button>
+                  {showCart && (
+                    <button onClick={onCartClick} className="relative hover:text-[#FF69B4] transition-colors">
+                      <ShoppingCart className="w-5 h-5 text-gray-700 hover:text-[#FF69B4]" />
+                      {cartItemCount > 0 && (
+                        <span className="absolute -top-2 -right-2 bg-[#FF69B4] text-white text-xs rounded-full w-5 h-5 flex items-center justify-center">
+                          {cartItemCount}
+                        </span>
+                      )}
+                    </button>
+                  )}
                 </>
               )}
               {!isLoggedIn && (
@@ -83,6 +131,14 @@ export function Header({ currentPage, onNavigate, isLoggedIn, onLogin, onUserCli
           </div>
         </div>
       </header>
+      {onSearch && onProductSelect && (
+        <SearchPalette
+          open={searchOpen}
+          onOpenChange={setSearchOpen}
+          onSearch={onSearch}
+          onProductSelect={onProductSelect}
+        />
+      )}
     </>
   );
 }
@@ -0,0 +1,32 @@
+interface HighlightedTextProps {
+  text: string;
+  /** Search query; each word of two or more letters is highlighted wherever it appears */
+  query?: string | null;
+  className?: string;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export function HighlightedText({ text, query, className }: HighlightedTextProps) {
+  const words = (query ?? "")
+    .split(/\s+/)
+    .filter((word) => word.length >= 2)
+    .map(escapeRegExp);
+  if (words.length === 0) return <span className={className}>{text}</span>;
+
+  // Splitting on a capturing group keeps the matches at the odd indexes
+  const parts = text.split(new RegExp(`(${words.join("|")})`, "gi"));
+  return (
+    <span className={className}>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-pink-100 text-inherit rounded-sm">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </span>
+  );
+}
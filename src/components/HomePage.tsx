@@ -4,7 +4,7 @@ import { Button } from "./ui/button";
 import { ImageWithFallback } from "./figma/ImageWithFallback";
 import { ProductDetailModal } from "./ProductDetailModal";
 import { motion } from "motion/react";
-import supabase from "../services/supabaseClient";
+import { fetchProductPage, fetchCategories, type CatalogCategory } from "../services/catalogService";
 import type { Category, Product } from "../data/products";
 
 interface HomePageProps {
@@ -18,58 +18,31 @@ interface HomePageProps {
 }
 
 export function HomePage({ onNavigate, onProductClick, selectedProduct, onCloseProductDetail, onAddToCart, isLoggedIn, onShowLoginRequired }: HomePageProps) {
-  const [allProducts, setAllProducts] = useState<Product[]>([]);
-  const [allCategories, setAllCategories] = useState<{ id: string; name: string }[]>([]);
+  const [todaysSpecial, setTodaysSpecial] = useState<Product[]>([]);
+  const [bestSellers, setBestSellers] = useState<Product[]>([]);
+  const [allCategories, setAllCategories] = useState<CatalogCategory[]>([]);
   const [selectedOccasion, setSelectedOccasion] = useState<Category | null>(null);
 
   useEffect(() => { fetchProducts(); /* eslint-disable-next-line */ }, []);
 
   async function fetchProducts() {
     try {
-      const { data: prodData, error: prodErr } = await supabase.from('products').select('*');
-      if (prodErr) {
-        console.error('Error loading products', prodErr);
-        setAllProducts([]);
-        return;
-      }
-      const prods = (prodData ?? []) as any[];
-
-      const { data: catsData } = await supabase.from('categories').select('*');
-      const cats = (catsData ?? []) as { id: string; name: string }[];
-      const catMap: Record<string, string> = {};
-      cats.forEach((c) => (catMap[c.id] = c.name));
-
-      const prodIds = prods.map((p) => p.id);
-      let pcData: any[] = [];
-      if (prodIds.length) {
-        const { data: pc } = await supabase.from('product_categories').select('*').in('product_id', prodIds);
-        pcData = pc ?? [];
-      }
-
-      const mapped: Product[] = prods.map((p) => {
-        const catsForP = pcData.filter((r) => r.product_id === p.id).map((r) => catMap[r.category_id]).filter(Boolean) as Category[];
-        return {
-          id: p.id,
-          name: p.name,
-          price: p.price,
-          image: p.image,
-          categories: catsForP,
-          badge: p.badge ?? undefined,
-        } as Product;
-      });
-
-      setAllProducts(mapped);
-      setAllCategories(cats);
+      const [specials, bestsellers, categories] = await Promise.all([
+        fetchProductPage({ badge: "Special", pageSize: 8 }),
+        fetchProductPage({ badge: "Bestseller", sort: "popular", pageSize: 8 }),
+        fetchCategories(),
+      ]);
+      setTodaysSpecial(specials.products);
+      setBestSellers(bestsellers.products);
+      setAllCategories(categories);
     } catch (err) {
       console.error(err);
-      setAllProducts([]);
+      setTodaysSpecial([]);
+      setBestSellers([]);
       setAllCategories([]);
     }
   }
 
-  const todaysSpecial = allProducts.filter((p) => p.badge === "Special");
-  const bestSellers = allProducts.filter((p) => p.badge === "Bestseller");
-
   const handleOccasionChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
     const value = event.target.value;
     if (value && value !== "Select An Occasion") {
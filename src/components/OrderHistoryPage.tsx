@@ -1,9 +1,30 @@
 import { motion } from "motion/react";
-import { Package, MapPin, Calendar, ArrowLeft } from "lucide-react";
+import { Package, MapPin, Calendar, ArrowLeft, Search, ChevronDown, ChevronUp, Clock, FileText, XCircle, Edit2, CreditCard, Gift } from "lucide-react";
 import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Textarea } from "./ui/textarea";
+import { toast } from "sonner";
 import { ImageWithFallback } from "./figma/ImageWithFallback";
 import { useState, useEffect } from "react";
 import supabase from "../services/supabaseClient";
+import {
+  matchesOrderNumber,
+  fetchOrderChangePolicy,
+  canCustomerChangeOrder,
+  cancelOrder,
+  modifyOrder,
+  DEFAULT_ORDER_CHANGE_POLICY,
+  type OrderChangePolicy,
+  type OrderChanges
+} from "../services/orderService";
+import { mapCustomBouquet, customBouquetName, describeCustomBouquet } from "../services/customBouquetService";
+import { needsCardPayment, needsPaymentProof, PAYMENT_STATUS_LABELS, type PaymentStatus } from "../services/paymentService";
+import { formatScheduleDate } from "../services/scheduleService";
+import { OrderStatusTimeline, getOrderStatusColor } from "./OrderStatusTimeline";
+import { CardPaymentModal } from "./CardPaymentModal";
+import { PaymentProofModal } from "./PaymentProofModal";
+import { DeliverySchedulePicker, type ScheduleSelection } from "./DeliverySchedulePicker";
 
 type DatabaseOrder = {
   id: string;
@@ -32,13 +53,36 @@ interface Order {
     image: string;
     quantity: number;
     price: number;
+    /** Size, color and stems of a custom bouquet line, or a product's variant and add-ons */
+    recipe?: string;
   }[];
   total: number;
   deliveryAddress: string;
+  deliveryCity: string;
+  deliveryZipCode: string;
+  deliveryOption: "delivery" | "pickup";
+  createdAt: string | null;
+  pickupTime: string | null;
+  scheduledDate: string | null;
+  timeSlotLabel: string | null;
+  recipientName: string | null;
+  cardMessage: string | null;
+  anonymousSender: boolean;
+  specialInstructions: string;
+  cancelledBy: string | null;
+  cancellationReason: string | null;
+  payment: string;
+  paymentStatus: PaymentStatus;
+  refundedAmount: number;
+  /** Admin's note on the latest proof of payment, when it was rejected */
+  proofRejectionNote: string | null;
 }
 
 interface OrderHistoryPageProps {
   onBack: () => void;
+  /** From the /orders/:orderNumber route */
+  orderNumber?: string;
+  onSelectOrder?: (orderNumber: string | null) => void;
 }
 
 type SupabaseProduct = {
@@ -49,7 +93,10 @@ type SupabaseProduct = {
 type SupabaseOrderItem = {
   quantity: number;
   price: number;
-  products: SupabaseProduct;
+  variant_name: string | null;
+  addons: { name: string }[] | null;
+  products: SupabaseProduct | null;
+  custom_bouquets: any | null;
 };
 
 type SupabaseOrder = {
@@ -58,13 +105,55 @@ type SupabaseOrder = {
   date: string;
   status: string;
   delivery_address: string | null;
+  delivery_city: string | null;
+  delivery_zip_code: string | null;
+  delivery_option: "delivery" | "pickup" | null;
+  created_at: string | null;
+  pickup_time: string | null;
+  scheduled_date: string | null;
+  time_slot_label: string | null;
+  recipient_name: string | null;
+  card_message: string | null;
+  anonymous_sender: boolean | null;
+  special_instructions: string | null;
+  cancelled_by: string | null;
+  cancellation_reason: string | null;
   total_amount: number;
+  payment: string | null;
+  payment_status: PaymentStatus | null;
+  refunded_amount: number | null;
+  payment_proofs: { status: string; review_note: string | null; created_at: string }[] | null;
   order_items: SupabaseOrderItem[];
 };
 
-export function OrderHistoryPage({ onBack }: OrderHistoryPageProps) {
+function latestProofRejection(proofs: SupabaseOrder["payment_proofs"]): string | null {
+  const latest = [...(proofs ?? [])].sort((a, b) => b.created_at.localeCompare(a.created_at))[0];
+  return latest?.status === "rejected" ? latest.review_note : null;
+}
+
+export function OrderHistoryPage({ onBack, orderNumber, onSelectOrder }: OrderHistoryPageProps) {
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
+  const [orderNumberQuery, setOrderNumberQuery] = useState(orderNumber ?? "");
+  const [trackedOrderIds, setTrackedOrderIds] = useState<Set<string>>(new Set());
+  const [changePolicy, setChangePolicy] = useState<OrderChangePolicy>(DEFAULT_ORDER_CHANGE_POLICY);
+  const [editingOrderId, setEditingOrderId] = useState<string | null>(null);
+  const [editForm, setEditForm] = useState<Omit<OrderChanges, "scheduledDate" | "timeSlotId">>({ deliveryAddress: "", city: "", zipCode: "", specialInstructions: "" });
+  // A new date and slot; null keeps the order's current one
+  const [editSchedule, setEditSchedule] = useState<ScheduleSelection | null>(null);
+  const [cancellingOrderId, setCancellingOrderId] = useState<string | null>(null);
+  const [cancelReason, setCancelReason] = useState("");
+  const [savingOrderId, setSavingOrderId] = useState<string | null>(null);
+  const [payingOrder, setPayingOrder] = useState<Order | null>(null);
+
+  useEffect(() => {
+    fetchOrderChangePolicy().then(setChangePolicy);
+  }, []);
+
+  // Follow back/forward navigation between /orders and /orders/:orderNumber
+  useEffect(() => {
+    setOrderNumberQuery(orderNumber ?? "");
+  }, [orderNumber]);
 
   useEffect(() => {
     async function fetchOrders() {
@@ -82,13 +171,46 @@ export function OrderHistoryPage({ onBack }: OrderHistoryPageProps) {
             date,
             status,
             delivery_address,
+            delivery_city,
+            delivery_zip_code,
+            delivery_option,
+            created_at,
+            pickup_time,
+            scheduled_date,
+            time_slot_label,
+            recipient_name,
+            card_message,
+            anonymous_sender,
+            special_instructions,
+            cancelled_by,
+            cancellation_reason,
             total_amount,
+            payment,
+            payment_status,
+            refunded_amount,
+            payment_proofs (
+              status,
+              review_note,
+              created_at
+            ),
             order_items (
               quantity,
               price,
+              variant_name,
+              addons,
               products (
                 name,
                 image_url
+              ),
+              custom_bouquets (
+                id,
+                size,
+                color_id,
+                color_name,
+                color_hex,
+                flowers,
+                image,
+                price
               )
             )
           `)
@@ -109,14 +231,47 @@ export function OrderHistoryPage({ onBack }: OrderHistoryPageProps) {
             day: 'numeric'
           }),
           status: order.status,
-          items: order.order_items?.map(item => ({
-            name: item.products?.name ?? 'Unknown Product',
-            image: item.products?.image_url ?? '',
-            quantity: item.quantity ?? 0,
-            price: item.price ?? 0
-          })) ?? [],
+          items: order.order_items?.map(item => {
+            if (item.custom_bouquets) {
+              const bouquet = mapCustomBouquet(item.custom_bouquets);
+              return {
+                name: customBouquetName(bouquet),
+                image: bouquet.image ?? '',
+                quantity: item.quantity ?? 0,
+                price: item.price ?? 0,
+                recipe: describeCustomBouquet(bouquet)
+              };
+            }
+            const options = [item.variant_name, (item.addons ?? []).map(addOn => addOn.name).join(', ')]
+              .filter(Boolean)
+              .join(' · ');
+            return {
+              name: item.products?.name ?? 'Unknown Product',
+              image: item.products?.image_url ?? '',
+              quantity: item.quantity ?? 0,
+              price: item.price ?? 0,
+              recipe: options || undefined
+            };
+          }) ?? [],
           total: order.total_amount,
-          deliveryAddress: order.delivery_address || ''
+          deliveryAddress: order.delivery_address || '',
+          deliveryCity: order.delivery_city || '',
+          deliveryZipCode: order.delivery_zip_code || '',
+          deliveryOption: order.delivery_option ?? 'delivery',
+          createdAt: order.created_at,
+          pickupTime: order.pickup_time,
+          scheduledDate: order.scheduled_date,
+          timeSlotLabel: order.time_slot_label,
+          recipientName: order.recipient_name,
+          cardMessage: order.card_message,
+          anonymousSender: order.anonymous_sender ?? false,
+          specialInstructions: order.special_instructions || '',
+          cancelledBy: order.cancelled_by,
+          cancellationReason: order.cancellation_reason,
+          payment: order.payment ?? 'Cash',
+          paymentStatus: order.payment_status ?? 'unpaid',
+          refundedAmount: order.refunded_amount ?? 0,
+          proofRejectionNote: latestProofRejection(order.payment_proofs)
         }));
 
         setOrders(transformedOrders);
@@ -157,17 +312,95 @@ export function OrderHistoryPage({ onBack }: OrderHistoryPageProps) {
     };
   }, []);
 
-  const getStatusColor = (status: Order["status"]) => {
-    switch (status) {
-      case "Delivered":
-        return "bg-green-100 text-green-800";
-      case "Processing":
-        return "bg-yellow-100 text-yellow-800";
-      case "Shipped":
-        return "bg-blue-100 text-blue-800";
-      default:
-        return "bg-gray-100 text-gray-800";
+  const visibleOrders = orders.filter((order) => matchesOrderNumber(order.orderNumber, orderNumberQuery));
+
+  // Deep links to /orders/:orderNumber open that order's timeline
+  useEffect(() => {
+    const linked = orders.find((order) => orderNumber && order.orderNumber === orderNumber);
+    if (linked) {
+      setTrackedOrderIds((prev) => new Set(prev).add(linked.id));
     }
+  }, [orders, orderNumber]);
+
+  const startEditing = (order: Order) => {
+    setCancellingOrderId(null);
+    setEditingOrderId(order.id);
+    setEditForm({
+      deliveryAddress: order.deliveryAddress,
+      city: order.deliveryCity,
+      zipCode: order.deliveryZipCode,
+      specialInstructions: order.specialInstructions,
+    });
+    setEditSchedule(null);
+  };
+
+  const handleSaveChanges = async (order: Order) => {
+    if (order.deliveryOption === "delivery" && !editForm.deliveryAddress.trim()) {
+      toast.error("Please enter a delivery address");
+      return;
+    }
+    if (order.deliveryOption === "delivery" && !editForm.city.trim() && !editForm.zipCode.trim()) {
+      toast.error("Please enter the city or ZIP code of the delivery address");
+      return;
+    }
+
+    setSavingOrderId(order.id);
+    try {
+      const updated = await modifyOrder(order.id, {
+        ...editForm,
+        scheduledDate: editSchedule?.date ?? null,
+        timeSlotId: editSchedule?.slotId ?? null,
+      });
+      setOrders((prev) => prev.map((o) => o.id === order.id ? {
+        ...o,
+        deliveryAddress: updated.delivery_address || '',
+        deliveryCity: updated.delivery_city || '',
+        deliveryZipCode: updated.delivery_zip_code || '',
+        total: updated.total_amount ?? o.total,
+        pickupTime: updated.pickup_time,
+        scheduledDate: updated.scheduled_date,
+        timeSlotLabel: updated.time_slot_label,
+        specialInstructions: editForm.specialInstructions.trim(),
+      } : o));
+      setEditingOrderId(null);
+      toast.success(`Order ${order.orderNumber} updated`);
+    } catch (err: any) {
+      toast.error(err?.message || "Failed to update order");
+    } finally {
+      setSavingOrderId(null);
+    }
+  };
+
+  const handleCancelOrder = async (order: Order) => {
+    setSavingOrderId(order.id);
+    try {
+      await cancelOrder(order.id, cancelReason);
+      setOrders((prev) => prev.map((o) => o.id === order.id ? {
+        ...o,
+        status: "Cancelled",
+        cancelledBy: "customer",
+        cancellationReason: cancelReason.trim() || null,
+      } : o));
+      setCancellingOrderId(null);
+      setCancelReason("");
+      toast.success(`Order ${order.orderNumber} cancelled`);
+    } catch (err: any) {
+      toast.error(err?.message || "Failed to cancel order");
+    } finally {
+      setSavingOrderId(null);
+    }
+  };
+
+  const toggleTracking = (orderId: string) => {
+    setTrackedOrderIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(orderId)) {
+        next.delete(orderId);
+      } else {
+        next.add(orderId);
+      }
+      return next;
+    });
   };
 
   return (
@@ -195,6 +428,20 @@ export function OrderHistoryPage({ onBack }: OrderHistoryPageProps) {
           </div>
         </div>
 
+        {/* Order number lookup */}
+        {orders.length > 0 && (
+          <div className="relative max-w-md">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+            <Input
+              type="text"
+              placeholder="Find an order by number (e.g. 261019-JFS-00042)"
+              value={orderNumberQuery}
+              onChange={(e) => setOrderNumberQuery(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+        )}
+
         {orders.length === 0 ? (
           <div className="bg-white border border-gray-200 rounded-lg p-12 text-center">
             <Package className="w-12 h-12 text-gray-300 mx-auto mb-4" />
@@ -203,9 +450,14 @@ export function OrderHistoryPage({ onBack }: OrderHistoryPageProps) {
               Start shopping to see your orders here
             </p>
           </div>
+        ) : visibleOrders.length === 0 ? (
+          <div className="bg-white border border-gray-200 rounded-lg p-12 text-center">
+            <Search className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">No order matches "{orderNumberQuery}"</p>
+          </div>
         ) : (
           <div className="space-y-6">
-            {orders.map((order) => (
+            {visibleOrders.map((order) => (
               <motion.div
                 key={order.id}
                 initial={{ opacity: 0, y: 20 }}
@@ -217,15 +469,20 @@ export function OrderHistoryPage({ onBack }: OrderHistoryPageProps) {
                   <div className="flex items-center justify-between">
                     <div className="flex items-center gap-6">
                       <div>
-                        <p className="text-sm text-gray-500">Order ID</p>
-                        <p>{order.id}</p>
+                        <p className="text-sm text-gray-500">Order Number</p>
+                        <button
+                          onClick={() => onSelectOrder?.(order.orderNumber ?? null)}
+                          className="hover:text-[#FF69B4] transition-colors"
+                        >
+                          {order.orderNumber}
+                        </button>
                       </div>
                       <div className="flex items-center gap-2 text-gray-600">
                         <Calendar className="w-4 h-4" />
                         <span className="text-sm">{order.date}</span>
                       </div>
                     </div>
-                    <span className={`px-3 py-1 rounded-full text-sm ${getStatusColor(order.status)}`}>
+                    <span className={`px-3 py-1 rounded-full text-sm ${getOrderStatusColor(order.status)}`}>
                       {order.status}
                     </span>
                   </div>
@@ -245,6 +502,7 @@ export function OrderHistoryPage({ onBack }: OrderHistoryPageProps) {
                         </div>
                         <div className="flex-1">
                           <p className="mb-1">{item.name}</p>
+                          {item.recipe && <p className="text-xs text-gray-500 mb-1">{item.recipe}</p>}
                           <p className="text-sm text-gray-600">Quantity: {item.quantity}</p>
                         </div>
                         <p className="text-[#FF69B4]">₱{item.price.toFixed(2)}</p>
@@ -253,27 +511,265 @@ export function OrderHistoryPage({ onBack }: OrderHistoryPageProps) {
                   </div>
 
                   {/* Delivery Address */}
-                  <div className="border-t border-gray-200 pt-4 mb-4">
-                    <div className="flex items-start gap-2 text-gray-600">
-                      <MapPin className="w-4 h-4 mt-1" />
-                      <div>
-                        <p className="text-sm">Delivery Address</p>
-                        <p className="text-sm">{order.deliveryAddress}</p>
+                  <div className="border-t border-gray-200 pt-4 mb-4 space-y-3">
+                    {order.deliveryOption === "delivery" ? (
+                      <div className="flex items-start gap-2 text-gray-600">
+                        <MapPin className="w-4 h-4 mt-1" />
+                        <div>
+                          <p className="text-sm">Delivery Address</p>
+                          {order.recipientName && <p className="text-sm">For {order.recipientName}</p>}
+                          <p className="text-sm">{order.deliveryAddress}</p>
+                          {order.scheduledDate && (
+                            <p className="text-sm">
+                              {formatScheduleDate(order.scheduledDate)}, {order.timeSlotLabel}
+                            </p>
+                          )}
+                        </div>
                       </div>
-                    </div>
+                    ) : (
+                      <div className="flex items-start gap-2 text-gray-600">
+                        <Clock className="w-4 h-4 mt-1" />
+                        <div>
+                          <p className="text-sm">Store Pickup</p>
+                          <p className="text-sm">
+                            {order.scheduledDate
+                              ? `${formatScheduleDate(order.scheduledDate)}, ${order.timeSlotLabel}`
+                              : order.pickupTime ? new Date(order.pickupTime).toLocaleString() : "Pickup time not set"}
+                          </p>
+                        </div>
+                      </div>
+                    )}
+                    {(order.cardMessage || order.anonymousSender) && (
+                      <div className="flex items-start gap-2 text-gray-600">
+                        <Gift className="w-4 h-4 mt-1" />
+                        <div>
+                          <p className="text-sm">Gift Card{order.anonymousSender && " (sent anonymously)"}</p>
+                          {order.cardMessage && <p className="text-sm italic whitespace-pre-line">"{order.cardMessage}"</p>}
+                        </div>
+                      </div>
+                    )}
+                    {order.specialInstructions && (
+                      <div className="flex items-start gap-2 text-gray-600">
+                        <FileText className="w-4 h-4 mt-1" />
+                        <div>
+                          <p className="text-sm">Special Instructions</p>
+                          <p className="text-sm">{order.specialInstructions}</p>
+                        </div>
+                      </div>
+                    )}
+                    {order.status === "Cancelled" && (
+                      <div className="flex items-start gap-2 text-red-600">
+                        <XCircle className="w-4 h-4 mt-1" />
+                        <p className="text-sm">
+                          {order.cancelledBy === "customer" ? "You cancelled this order" : "Cancelled by the shop"}
+                          {order.cancellationReason && `: ${order.cancellationReason}`}
+                        </p>
+                      </div>
+                    )}
                   </div>
 
+                  {/* Edit form */}
+                  {editingOrderId === order.id && (
+                    <div className="border-t border-gray-200 pt-4 mb-4 space-y-4">
+                      {order.deliveryOption === "delivery" && (
+                        <div className="space-y-2">
+                          <Label htmlFor={`address-${order.id}`}>Delivery Address</Label>
+                          <Input
+                            id={`address-${order.id}`}
+                            value={editForm.deliveryAddress}
+                            onChange={(e) => setEditForm({ ...editForm, deliveryAddress: e.target.value })}
+                          />
+                          <div className="grid grid-cols-2 gap-2">
+                            <div className="space-y-2">
+                              <Label htmlFor={`city-${order.id}`}>City</Label>
+                              <Input
+                                id={`city-${order.id}`}
+                                value={editForm.city}
+                                onChange={(e) => setEditForm({ ...editForm, city: e.target.value })}
+                              />
+                            </div>
+                            <div className="space-y-2">
+                              <Label htmlFor={`zip-${order.id}`}>ZIP Code</Label>
+                              <Input
+                                id={`zip-${order.id}`}
+                                value={editForm.zipCode}
+                                onChange={(e) => setEditForm({ ...editForm, zipCode: e.target.value })}
+                              />
+                            </div>
+                          </div>
+                          <p className="text-xs text-gray-500">The delivery fee is updated if the new address is in another zone.</p>
+                        </div>
+                      )}
+                      <div className="space-y-2">
+                        <Label>{order.deliveryOption === "delivery" ? "Delivery Date & Time" : "Pickup Date & Time"}</Label>
+                        <DeliverySchedulePicker
+                          deliveryOption={order.deliveryOption}
+                          city={order.deliveryOption === "delivery" ? editForm.city : undefined}
+                          zipCode={order.deliveryOption === "delivery" ? editForm.zipCode : undefined}
+                          value={editSchedule}
+                          onChange={setEditSchedule}
+                        />
+                        {order.scheduledDate && (
+                          <p className="text-xs text-gray-500">
+                            Leave unselected to keep {formatScheduleDate(order.scheduledDate)}, {order.timeSlotLabel}.
+                          </p>
+                        )}
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor={`instructions-${order.id}`}>Special Instructions</Label>
+                        <Textarea
+                          id={`instructions-${order.id}`}
+                          value={editForm.specialInstructions}
+                          onChange={(e) => setEditForm({ ...editForm, specialInstructions: e.target.value })}
+                          placeholder="Gate code, landmarks, preferred delivery time..."
+                        />
+                      </div>
+                      <div className="flex gap-2 justify-end">
+                        <Button variant="outline" onClick={() => setEditingOrderId(null)} disabled={savingOrderId === order.id}>
+                          Discard
+                        </Button>
+                        <Button
+                          onClick={() => handleSaveChanges(order)}
+                          disabled={savingOrderId === order.id}
+                          className="bg-[#FF69B4] hover:bg-[#FF1493] text-white"
+                        >
+                          {savingOrderId === order.id ? "Saving..." : "Save Changes"}
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Cancel confirmation */}
+                  {cancellingOrderId === order.id && (
+                    <div className="border-t border-gray-200 pt-4 mb-4 space-y-3">
+                      <Label htmlFor={`cancel-reason-${order.id}`}>Reason for cancelling (optional)</Label>
+                      <Textarea
+                        id={`cancel-reason-${order.id}`}
+                        value={cancelReason}
+                        onChange={(e) => setCancelReason(e.target.value)}
+                      />
+                      <div className="flex gap-2 justify-end">
+                        <Button variant="outline" onClick={() => setCancellingOrderId(null)} disabled={savingOrderId === order.id}>
+                          Keep Order
+                        </Button>
+                        <Button
+                          onClick={() => handleCancelOrder(order)}
+                          disabled={savingOrderId === order.id}
+                          className="bg-red-500 hover:bg-red-600 text-white"
+                        >
+                          {savingOrderId === order.id ? "Cancelling..." : "Cancel Order"}
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Customer actions while the shop hasn't started on the order */}
+                  {canCustomerChangeOrder(order, changePolicy) && editingOrderId !== order.id && cancellingOrderId !== order.id && (
+                    <div className="flex gap-2 justify-end mb-4">
+                      <Button variant="outline" size="sm" onClick={() => startEditing(order)}>
+                        <Edit2 className="w-4 h-4 mr-2" />
+                        Edit Details
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          setEditingOrderId(null);
+                          setCancelReason("");
+                          setCancellingOrderId(order.id);
+                        }}
+                        className="border-red-300 text-red-600 hover:bg-red-50"
+                      >
+                        <XCircle className="w-4 h-4 mr-2" />
+                        Cancel Order
+                      </Button>
+                    </div>
+                  )}
+
                   {/* Order Total */}
                   <div className="border-t border-gray-200 pt-4 flex justify-between items-center">
                     <span className="text-gray-600">Order Total</span>
                     <span className="text-xl text-[#FF69B4]">₱{order.total.toFixed(2)}</span>
                   </div>
+
+                  {/* Payment */}
+                  <div className="flex justify-between items-center mt-2 text-sm">
+                    <span className="flex items-center gap-2 text-gray-600">
+                      <CreditCard className="w-4 h-4" />
+                      {order.payment}
+                      {order.payment !== "Cash" && ` · ${PAYMENT_STATUS_LABELS[order.paymentStatus]}`}
+                      {order.refundedAmount > 0 && ` (₱${order.refundedAmount.toFixed(2)} refunded)`}
+                    </span>
+                    {needsCardPayment(order) && (
+                      <Button
+                        size="sm"
+                        onClick={() => setPayingOrder(order)}
+                        className="bg-[#FF69B4] hover:bg-[#FF1493] text-white"
+                      >
+                        {order.paymentStatus === "failed" ? "Retry Payment" : "Pay Now"}
+                      </Button>
+                    )}
+                    {needsPaymentProof(order) && (
+                      <Button
+                        size="sm"
+                        onClick={() => setPayingOrder(order)}
+                        className="bg-[#FF69B4] hover:bg-[#FF1493] text-white"
+                      >
+                        {order.paymentStatus === "failed" ? "Upload New Proof" : "Upload Proof"}
+                      </Button>
+                    )}
+                  </div>
+                  {order.paymentStatus === "failed" && order.proofRejectionNote && (
+                    <p className="text-xs text-red-600 mt-1">Payment not accepted: {order.proofRejectionNote}</p>
+                  )}
+
+                  {/* Status Timeline */}
+                  <div className="border-t border-gray-200 pt-4 mt-4">
+                    <button
+                      onClick={() => toggleTracking(order.id)}
+                      className="flex items-center gap-1 text-sm text-gray-600 hover:text-[#FF69B4] transition-colors"
+                    >
+                      {trackedOrderIds.has(order.id) ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                      Track order
+                    </button>
+                    {trackedOrderIds.has(order.id) && (
+                      <div className="mt-4">
+                        <OrderStatusTimeline orderId={order.id} status={order.status} />
+                      </div>
+                    )}
+                  </div>
                 </div>
               </motion.div>
             ))}
           </div>
         )}
       </motion.div>
+
+      {payingOrder && (payingOrder.payment === "Card" ? (
+        <CardPaymentModal
+          orderId={payingOrder.id}
+          orderNumber={payingOrder.orderNumber ?? null}
+          amount={payingOrder.total}
+          onClose={() => setPayingOrder(null)}
+          onPaid={() => {
+            setOrders((prev) => prev.map((o) => (o.id === payingOrder.id ? { ...o, paymentStatus: "paid" } : o)));
+            setPayingOrder(null);
+          }}
+        />
+      ) : (
+        <PaymentProofModal
+          orderId={payingOrder.id}
+          orderNumber={payingOrder.orderNumber ?? null}
+          amount={payingOrder.total}
+          payment={payingOrder.payment}
+          rejectionNote={payingOrder.proofRejectionNote}
+          onClose={() => setPayingOrder(null)}
+          onSubmitted={() => {
+            setOrders((prev) => prev.map((o) => (o.id === payingOrder.id ? { ...o, paymentStatus: "verifying" } : o)));
+            setPayingOrder(null);
+          }}
+        />
+      ))}
     </div>
   );
 }
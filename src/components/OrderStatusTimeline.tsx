@@ -0,0 +1,109 @@
+import { useState, useEffect } from "react";
+import { Clock } from "lucide-react";
+import { fetchOrderStatusHistory, type OrderStatusChange } from "../services/orderService";
+
+interface OrderStatusTimelineProps {
+  orderId: string;
+  /** Re-fetch when the order's current status changes */
+  status?: string;
+  /** Admins see who made each change; customers see the role only */
+  showActorNames?: boolean;
+}
+
+const ACTOR_LABELS: Record<string, string> = {
+  admin: "Jean's Flowers",
+  driver: "Driver",
+  customer: "Customer",
+};
+
+export function getOrderStatusColor(status: string): string {
+  switch (status) {
+    case "Pending":
+      return "bg-yellow-100 text-yellow-800";
+    case "Confirmed":
+      return "bg-blue-100 text-blue-800";
+    case "Preparing":
+      return "bg-orange-100 text-orange-800";
+    case "Ready":
+      return "bg-purple-100 text-purple-800";
+    case "Out for Delivery":
+      return "bg-indigo-100 text-indigo-800";
+    case "Picked Up":
+    case "Delivered":
+      return "bg-green-100 text-green-800";
+    case "Cancelled":
+      return "bg-red-100 text-red-800";
+    case "Refunded":
+      return "bg-gray-200 text-gray-800";
+    default:
+      return "bg-gray-100 text-gray-800";
+  }
+}
+
+export function OrderStatusTimeline({ orderId, status, showActorNames = false }: OrderStatusTimelineProps) {
+  const [history, setHistory] = useState<OrderStatusChange[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const entries = await fetchOrderStatusHistory(orderId);
+        if (!cancelled) setHistory(entries);
+      } catch (err: any) {
+        if (!cancelled) setError(err?.message ?? String(err));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [orderId, status]);
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading status history...</p>;
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-600">Failed to load status history: {error}</p>;
+  }
+
+  if (history.length === 0) {
+    return <p className="text-sm text-gray-500">No status changes recorded yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+      {history.map((entry) => {
+        const actor = showActorNames && entry.changedByName
+          ? entry.changedByName
+          : entry.actorRole
+            ? ACTOR_LABELS[entry.actorRole] ?? entry.actorRole
+            : null;
+
+        return (
+          <li key={entry.id} className="ml-4">
+            <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-[#FF69B4] border-2 border-white" />
+            <div className="flex flex-wrap items-center gap-2">
+              <span className={`px-2 py-0.5 rounded-full text-xs ${getOrderStatusColor(entry.toStatus)}`}>
+                {entry.toStatus}
+              </span>
+              <span className="flex items-center gap-1 text-xs text-gray-500">
+                <Clock className="w-3 h-3" />
+                {new Date(entry.createdAt).toLocaleString()}
+              </span>
+              {actor && <span className="text-xs text-gray-500">by {actor}</span>}
+            </div>
+            {entry.note && <p className="text-sm text-gray-600 mt-1">{entry.note}</p>}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,183 @@
+import { useEffect, useState } from "react";
+import { motion } from "motion/react";
+import { X, Upload, AlertCircle, ImageIcon } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { toast } from "sonner";
+import { fetchPaymentInstructions, submitPaymentProof, type PaymentInstructions } from "../services/paymentService";
+
+const MAX_PROOF_SIZE_MB = 5;
+
+interface PaymentProofModalProps {
+  orderId: string;
+  orderNumber: string | null;
+  amount: number;
+  /** "E-Wallet" or "Bank Transfer" */
+  payment: string;
+  /** Admin's note when the previous proof was rejected */
+  rejectionNote?: string | null;
+  onClose: () => void;
+  onSubmitted: () => void;
+}
+
+export function PaymentProofModal({
+  orderId,
+  orderNumber,
+  amount,
+  payment,
+  rejectionNote,
+  onClose,
+  onSubmitted,
+}: PaymentProofModalProps) {
+  const [instructions, setInstructions] = useState<PaymentInstructions | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [referenceNumber, setReferenceNumber] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetchPaymentInstructions().then(setInstructions);
+  }, []);
+
+  useEffect(() => {
+    if (!file) {
+      setPreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  const handleFileChange = (selected: File | undefined) => {
+    if (!selected) return;
+    if (!selected.type.startsWith("image/")) {
+      toast.error("Please choose an image of your receipt.");
+      return;
+    }
+    if (selected.size > MAX_PROOF_SIZE_MB * 1024 * 1024) {
+      toast.error(`The image must be smaller than ${MAX_PROOF_SIZE_MB} MB.`);
+      return;
+    }
+    setFile(selected);
+  };
+
+  const handleSubmit = async () => {
+    if (!file) return;
+    setSubmitting(true);
+    try {
+      await submitPaymentProof(orderId, file, referenceNumber);
+      toast.success("Proof of payment sent! We'll confirm your order once it's verified.");
+      onSubmitted();
+    } catch (err: any) {
+      toast.error(err?.message || "Failed to upload your proof of payment. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const accountDetails = payment === "Bank Transfer" ? instructions?.bankTransfer : instructions?.ewallet;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.9 }}
+        className="bg-white rounded-2xl shadow-2xl max-w-md w-full mx-4 max-h-[90vh] overflow-y-auto"
+      >
+        {/* Header */}
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between rounded-t-2xl">
+          <h2 className="text-2xl text-[#FF69B4]" style={{ fontFamily: "'Playfair Display', serif" }}>
+            {payment} Payment
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          <div className="flex justify-between items-center bg-gray-50 border border-gray-200 rounded-lg p-4">
+            <div>
+              <p className="text-sm text-gray-600">Order</p>
+              <p>{orderNumber || orderId}</p>
+            </div>
+            <div className="text-right">
+              <p className="text-sm text-gray-600">Amount to send</p>
+              <p className="text-xl text-[#FF69B4]">₱{amount.toFixed(2)}</p>
+            </div>
+          </div>
+
+          {rejectionNote && (
+            <div className="flex gap-2 bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 text-sm">
+              <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              <span>Your previous proof was not accepted: {rejectionNote}</span>
+            </div>
+          )}
+
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 text-sm text-gray-700">
+            {accountDetails || "Loading account details..."}
+          </div>
+
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="proof-file">Screenshot of your receipt</Label>
+              <label
+                htmlFor="proof-file"
+                className="mt-1 flex flex-col items-center justify-center gap-2 border-2 border-dashed border-gray-300 rounded-lg p-4 cursor-pointer hover:border-[#FF69B4] transition-colors"
+              >
+                {previewUrl ? (
+                  <img src={previewUrl} alt="Proof of payment" className="max-h-48 rounded" />
+                ) : (
+                  <>
+                    <ImageIcon className="w-8 h-8 text-gray-400" />
+                    <span className="text-sm text-gray-500">Choose an image (max {MAX_PROOF_SIZE_MB} MB)</span>
+                  </>
+                )}
+              </label>
+              <input
+                id="proof-file"
+                type="file"
+                accept="image/*"
+                className="hidden"
+                onChange={(e) => handleFileChange(e.target.files?.[0])}
+              />
+            </div>
+            <div>
+              <Label htmlFor="proof-reference">Reference number (optional)</Label>
+              <Input
+                id="proof-reference"
+                value={referenceNumber}
+                onChange={(e) => setReferenceNumber(e.target.value)}
+                placeholder="e.g. 1234 567 890123"
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            <Button
+              onClick={onClose}
+              variant="outline"
+              className="flex-1 border-gray-300 text-gray-700 hover:bg-gray-50 py-6"
+            >
+              Upload Later
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={!file || submitting}
+              className="flex-1 bg-[#FF69B4] hover:bg-[#FF1493] text-white py-6"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              {submitting ? "Uploading..." : "Submit Proof"}
+            </Button>
+          </div>
+
+          <p className="text-xs text-gray-500 text-center">
+            You can also upload your proof of payment later from your order history.
+          </p>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
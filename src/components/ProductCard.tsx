@@ -1,12 +1,17 @@
 import { ImageWithFallback } from "./figma/ImageWithFallback";
 import { motion } from "motion/react";
+import { HighlightedText } from "./HighlightedText";
 import type { Product } from "../data/products";
 
 interface ProductCardProps extends Product {
   onClick?: () => void;
+  /** Search query to highlight in the name */
+  highlight?: string | null;
 }
 
-export function ProductCard({ name, price, image, badge, onClick }: ProductCardProps) {
+export function ProductCard({ name, price, image, badge, availableQuantity, onClick, highlight }: ProductCardProps) {
+  const soldOut = availableQuantity === 0;
+
   return (
     <motion.div
       whileHover={{ y: -5 }}
@@ -22,7 +27,7 @@ export function ProductCard({ name, price, image, badge, onClick }: ProductCardP
           <ImageWithFallback
             src={image}
             alt={name}
-            className="w-full h-full object-cover"
+            className={`w-full h-full object-cover ${soldOut ? "grayscale opacity-70" : ""}`}
           />
         </motion.div>
         {badge && (
@@ -35,6 +40,11 @@ export function ProductCard({ name, price, image, badge, onClick }: ProductCardP
             {badge}
           </motion.div>
         )}
+        {soldOut && (
+          <div className="absolute top-3 right-3 bg-gray-800 text-white px-3 py-1 rounded-full text-sm">
+            Sold Out
+          </div>
+        )}
         {/* Hover overlay */}
         <motion.div
           initial={{ opacity: 0 }}
@@ -55,8 +65,15 @@ export function ProductCard({ name, price, image, badge, onClick }: ProductCardP
         </motion.div>
       </div>
       <div className="p-4">
-        <h3 className="mb-2">{name}</h3>
-        <span className="text-[#FF69B4]">₱{price.toFixed(2)}</span>
+        <h3 className="mb-2">
+          <HighlightedText text={name} query={highlight} />
+        </h3>
+        <div className="flex items-center justify-between">
+          <span className="text-[#FF69B4]">₱{price.toFixed(2)}</span>
+          {!soldOut && availableQuantity != null && availableQuantity <= 5 && (
+            <span className="text-xs text-amber-700">Only {availableQuantity} left</span>
+          )}
+        </div>
       </div>
     </motion.div>
   );
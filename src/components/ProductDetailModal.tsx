@@ -1,10 +1,13 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { motion, AnimatePresence } from "motion/react";
 import { X, ShoppingCart, Heart } from "lucide-react";
 import { ImageWithFallback } from "./figma/ImageWithFallback";
 import { Button } from "./ui/button";
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious, type CarouselApi } from "./ui/carousel";
 import { toast } from "sonner";
-import type { Product } from "../data/products";
+import type { Product, ProductAddOn } from "../data/products";
+import { isSoldOut } from "../services/productInventoryService";
+import { configureProduct, fetchProductAddOns } from "../services/catalogService";
 
 interface ProductDetailModalProps {
   product: Product | null;
@@ -16,10 +19,61 @@ interface ProductDetailModalProps {
 
 export function ProductDetailModal({ product, onClose, onAddToCart, isLoggedIn = false, onShowLoginRequired }: ProductDetailModalProps) {
   const [quantity, setQuantity] = useState(1);
+  const [variantId, setVariantId] = useState<string | null>(null);
+  const [addOnIds, setAddOnIds] = useState<string[]>([]);
+  const [addOns, setAddOns] = useState<ProductAddOn[]>([]);
+  const [carouselApi, setCarouselApi] = useState<CarouselApi>();
+  const [currentImage, setCurrentImage] = useState(0);
+
+  // Start each product with its first variant and no add-ons
+  useEffect(() => {
+    setQuantity(1);
+    setVariantId(product?.variants?.[0]?.id ?? null);
+    setAddOnIds([]);
+    setCurrentImage(0);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [product?.id]);
+
+  useEffect(() => {
+    if (!product) return;
+    fetchProductAddOns()
+      .then((list) => setAddOns(list.filter((addOn) => addOn.active)))
+      .catch(() => setAddOns([]));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [product?.id]);
+
+  useEffect(() => {
+    if (!carouselApi) return;
+    const onSelect = () => setCurrentImage(carouselApi.selectedScrollSnap());
+    onSelect();
+    carouselApi.on("select", onSelect);
+    return () => {
+      carouselApi.off("select", onSelect);
+    };
+  }, [carouselApi]);
 
   if (!product) return null;
 
+  const soldOut = isSoldOut(product);
+  const maxQuantity = product.availableQuantity ?? Infinity;
+  const images = [product.image, ...(product.gallery ?? [])].filter((image): image is string => Boolean(image));
+  const variants = product.variants ?? [];
+  const selectedVariant = variants.find((variant) => variant.id === variantId) ?? null;
+  const configured = configureProduct(
+    product,
+    selectedVariant,
+    addOns.filter((addOn) => addOnIds.includes(addOn.id))
+  );
+
+  const toggleAddOn = (addOnId: string) => {
+    setAddOnIds((prev) => (prev.includes(addOnId) ? prev.filter((id) => id !== addOnId) : [...prev, addOnId]));
+  };
+
   const handleIncrement = () => {
+    if (quantity >= maxQuantity) {
+      toast.error(`Only ${maxQuantity} of ${product.name} left`);
+      return;
+    }
     setQuantity(prev => prev + 1);
   };
 
@@ -58,34 +112,58 @@ export function ProductDetailModal({ product, onClose, onAddToCart, isLoggedIn =
           <div className="grid md:grid-cols-2 gap-8 p-8">
             {/* Image Section */}
             <div className="relative">
-              <div className="relative aspect-square rounded-lg overflow-hidden">
-                <ImageWithFallback
-                  src={product.image}
-                  alt={product.name}
-                  className="w-full h-full object-cover"
-                />
-                {product.badge && (
-                  <div className="absolute top-4 left-4 bg-[#FF69B4] text-white px-4 py-2 rounded-full">
-                    {product.badge}
-                  </div>
+              <Carousel setApi={setCarouselApi} opts={{ loop: images.length > 1 }}>
+                <CarouselContent>
+                  {(images.length > 0 ? images : [""]).map((image, index) => (
+                    <CarouselItem key={index}>
+                      <div className="relative aspect-square rounded-lg overflow-hidden">
+                        <ImageWithFallback
+                          src={image}
+                          alt={index === 0 ? product.name : `${product.name} view ${index + 1}`}
+                          className="w-full h-full object-cover"
+                        />
+                      </div>
+                    </CarouselItem>
+                  ))}
+                </CarouselContent>
+                {images.length > 1 && (
+                  <>
+                    <CarouselPrevious className="left-3 bg-white/90" />
+                    <CarouselNext className="right-3 bg-white/90" />
+                  </>
                 )}
-              </div>
+              </Carousel>
+              {product.badge && (
+                <div className="absolute top-4 left-4 bg-[#FF69B4] text-white px-4 py-2 rounded-full">
+                  {product.badge}
+                </div>
+              )}
+              {soldOut && (
+                <div className="absolute top-4 right-4 bg-gray-800 text-white px-4 py-2 rounded-full">
+                  Sold Out
+                </div>
+              )}
 
-              {/* Additional product images would go here */}
-              <div className="grid grid-cols-4 gap-2 mt-4">
-                {[1, 2, 3, 4].map((i) => (
-                  <div
-                    key={i}
-                    className="aspect-square rounded-lg overflow-hidden border-2 border-transparent hover:border-[#FF69B4] cursor-pointer transition-colors"
-                  >
-                    <ImageWithFallback
-                      src={product.image}
-                      alt={`${product.name} view ${i}`}
-                      className="w-full h-full object-cover"
-                    />
-                  </div>
-                ))}
-              </div>
+              {images.length > 1 && (
+                <div className="grid grid-cols-4 gap-2 mt-4">
+                  {images.map((image, index) => (
+                    <button
+                      key={index}
+                      type="button"
+                      onClick={() => carouselApi?.scrollTo(index)}
+                      className={`aspect-square rounded-lg overflow-hidden border-2 transition-colors ${
+                        index === currentImage ? "border-[#FF69B4]" : "border-transparent hover:border-[#FF69B4]"
+                      }`}
+                    >
+                      <ImageWithFallback
+                        src={image}
+                        alt={`${product.name} view ${index + 1}`}
+                        className="w-full h-full object-cover"
+                      />
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
 
             {/* Details Section */}
@@ -113,21 +191,93 @@ export function ProductDetailModal({ product, onClose, onAddToCart, isLoggedIn =
                 {/* Price */}
                 <div className="mb-6">
                   <span className="text-3xl text-[#FF69B4]">
-                    ₱{product.price.toFixed(2)}
+                    ₱{configured.price.toFixed(2)}
                   </span>
+                  {configured.price !== product.price && (
+                    <span className="ml-2 text-sm text-gray-500">
+                      with your choices (from ₱{product.price.toFixed(2)})
+                    </span>
+                  )}
                 </div>
 
                 {/* Description */}
                 <div className="mb-6">
                   <h3 className="mb-2">Description</h3>
-                  <p className="text-gray-600">
-                    A beautiful handcrafted bouquet perfect for any occasion. Each arrangement
-                    is carefully designed by our expert florists using the freshest flowers
-                    available. This stunning creation combines elegance with vibrant colors to
-                    express your feelings perfectly.
+                  <p className="text-gray-600 whitespace-pre-line">
+                    {product.description ||
+                      "A beautiful handcrafted bouquet perfect for any occasion. Each arrangement is carefully designed by our expert florists using the freshest flowers available."}
                   </p>
                 </div>
 
+                {product.careInstructions && (
+                  <div className="mb-6">
+                    <h3 className="mb-2">Care Instructions</h3>
+                    <p className="text-gray-600 whitespace-pre-line">{product.careInstructions}</p>
+                  </div>
+                )}
+
+                {/* Variants */}
+                {variants.length > 0 && (
+                  <div className="mb-6">
+                    <h3 className="mb-2">Options</h3>
+                    <div className="flex flex-wrap gap-2">
+                      {variants.map((variant) => (
+                        <button
+                          key={variant.id}
+                          type="button"
+                          onClick={() => setVariantId(variant.id)}
+                          className={`px-4 py-2 rounded-lg border text-sm transition-colors ${
+                            variant.id === variantId
+                              ? "border-[#FF69B4] bg-pink-50 text-[#FF69B4]"
+                              : "border-gray-300 hover:border-[#FF69B4]"
+                          }`}
+                        >
+                          {variant.name}
+                          {variant.priceDelta !== 0 && (
+                            <span className="ml-1 text-gray-500">
+                              {variant.priceDelta > 0 ? "+" : "-"}₱{Math.abs(variant.priceDelta).toFixed(2)}
+                            </span>
+                          )}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Add-ons */}
+                {addOns.length > 0 && (
+                  <div className="mb-6">
+                    <h3 className="mb-2">Add-ons</h3>
+                    <div className="space-y-2">
+                      {addOns.map((addOn) => (
+                        <label
+                          key={addOn.id}
+                          className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                            addOnIds.includes(addOn.id) ? "border-[#FF69B4] bg-pink-50" : "border-gray-200 hover:border-[#FF69B4]"
+                          }`}
+                        >
+                          <input
+                            type="checkbox"
+                            checked={addOnIds.includes(addOn.id)}
+                            onChange={() => toggleAddOn(addOn.id)}
+                            className="w-4 h-4"
+                          />
+                          {addOn.image && (
+                            <ImageWithFallback src={addOn.image} alt={addOn.name} className="w-10 h-10 rounded object-cover" />
+                          )}
+                          <span className="flex-1">
+                            <span className="block text-sm">{addOn.name}</span>
+                            {addOn.description && (
+                              <span className="block text-xs text-gray-500">{addOn.description}</span>
+                            )}
+                          </span>
+                          <span className="text-sm text-gray-600">+₱{addOn.price.toFixed(2)}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Features */}
                 <div className="mb-6">
                   <h3 className="mb-2">Features</h3>
@@ -169,6 +319,9 @@ export function ProductDetailModal({ product, onClose, onAddToCart, isLoggedIn =
                       +
                     </button>
                   </div>
+                  {!soldOut && product.availableQuantity != null && product.availableQuantity <= 5 && (
+                    <p className="text-sm text-amber-700 mt-2">Only {product.availableQuantity} left</p>
+                  )}
                 </div>
               </div>
 
@@ -183,18 +336,20 @@ export function ProductDetailModal({ product, onClose, onAddToCart, isLoggedIn =
                       onClose();
                       return;
                     }
+                    if (soldOut) return;
                     if (onAddToCart) {
-                      onAddToCart(product, quantity);
+                      onAddToCart(configured, quantity);
                       toast.success(`${quantity} ${product.name} added to cart!`, {
                         duration: 2000,
                       });
                       onClose();
                     }
                   }}
+                  disabled={soldOut}
                   className="flex-1 bg-[#FF69B4] hover:bg-[#FF1493] text-white py-6"
                 >
                   <ShoppingCart className="w-5 h-5 mr-2" />
-                  Add to Cart
+                  {soldOut ? "Sold Out" : "Add to Cart"}
                 </Button>
                 <Button
                   variant="outline"
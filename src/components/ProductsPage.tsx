@@ -2,14 +2,26 @@ import { useState, useEffect } from "react";
 import { ProductCard } from "./ProductCard";
 import { ProductDetailModal } from "./ProductDetailModal";
 import { motion } from "motion/react";
-import { X } from "lucide-react";
+import { Search, X } from "lucide-react";
 import { Button } from "./ui/button";
-import supabase from "../services/supabaseClient";
+import {
+  fetchProductPage,
+  fetchCategories,
+  fetchProductBadges,
+  fetchSearchSuggestions,
+  PRODUCT_SORT_LABELS,
+  type CatalogCategory,
+  type ProductPage,
+  type ProductSort,
+} from "../services/catalogService";
 import type { Category, Product } from "../data/products";
 
 interface ProductsPageProps {
   selectedCategory?: Category | null;
   onClearCategory?: () => void;
+  /** From /products?q= */
+  searchQuery?: string | null;
+  onSearch?: (query: string) => void;
   onNavigate: (page: string, category?: Category) => void;
   onProductClick: (product: Product) => void;
   selectedProduct: Product | null;
@@ -22,6 +34,8 @@ interface ProductsPageProps {
 export function ProductsPage({ 
   selectedCategory, 
   onClearCategory, 
+  searchQuery,
+  onSearch,
   onNavigate,
   onProductClick,
   selectedProduct,
@@ -30,58 +44,114 @@ export function ProductsPage({
   isLoggedIn,
   onShowLoginRequired
 }: ProductsPageProps) {
-  const [allProducts, setAllProducts] = useState<Product[]>([]);
-  const [allCategories, setAllCategories] = useState<{ id: string; name: string }[]>([]);
+  const [productPage, setProductPage] = useState<ProductPage | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [allCategories, setAllCategories] = useState<CatalogCategory[]>([]);
+  const [badges, setBadges] = useState<string[]>([]);
   const [quickFinderOccasion, setQuickFinderOccasion] = useState<Category | null>(null);
+  const [minPrice, setMinPrice] = useState("");
+  const [maxPrice, setMaxPrice] = useState("");
+  const [badge, setBadge] = useState("");
+  /** null for the default: best match while searching, otherwise newest */
+  const [sort, setSort] = useState<ProductSort | null>(null);
+  const [page, setPage] = useState(1);
+  const [searchText, setSearchText] = useState(searchQuery ?? "");
+  const [suggestions, setSuggestions] = useState<string[]>([]);
 
   useEffect(() => {
-    fetchProducts();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
+    fetchCategories().then(setAllCategories).catch(() => setAllCategories([]));
+    fetchProductBadges().then(setBadges).catch(() => setBadges([]));
   }, []);
 
-  async function fetchProducts() {
-    // load products
-    const { data: prodData, error: prodErr } = await supabase.from('products').select('*');
-    if (prodErr) {
-      console.error('Error loading products', prodErr);
-      setAllProducts([]);
-      return;
-    }
+  // Searches started from the header replace what is in the box
+  useEffect(() => {
+    setSearchText(searchQuery ?? "");
+  }, [searchQuery]);
 
-    const prods = (prodData ?? []) as any[];
+  // Put the box's text in the URL once typing pauses
+  useEffect(() => {
+    if (searchText.trim() === (searchQuery ?? "")) return;
+    const timer = window.setTimeout(() => onSearch?.(searchText), 400);
+    return () => window.clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchText]);
 
-    // load categories and mappings
-    const { data: catsData } = await supabase.from('categories').select('*');
-    const cats = (catsData ?? []) as { id: string; name: string }[];
-    const catMap: Record<string, string> = {};
-    cats.forEach((c) => (catMap[c.id] = c.name));
+  // Any filter change starts again from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [selectedCategory, searchQuery, minPrice, maxPrice, badge, sort]);
 
-    const prodIds = prods.map((p) => p.id);
-    let pcData: any[] = [];
-    if (prodIds.length) {
-      const { data: pc } = await supabase.from('product_categories').select('*').in('product_id', prodIds);
-      pcData = pc ?? [];
-    }
+  useEffect(() => {
+    let cancelled = false;
+    // Wait for typing in the price fields to settle
+    const timer = window.setTimeout(() => {
+      setLoading(true);
+      fetchProductPage({
+        search: searchQuery,
+        category: selectedCategory,
+        minPrice: minPrice ? Number(minPrice) : null,
+        maxPrice: maxPrice ? Number(maxPrice) : null,
+        badge: badge || null,
+        sort: sort ?? undefined,
+        page,
+      })
+        .then((result) => {
+          if (!cancelled) setProductPage(result);
+        })
+        .catch((err) => {
+          console.error('Error loading products', err);
+          if (!cancelled) setProductPage(null);
+        })
+        .finally(() => {
+          if (!cancelled) setLoading(false);
+        });
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [selectedCategory, searchQuery, minPrice, maxPrice, badge, sort, page]);
+
+  // Offer "did you mean" when a search finds nothing
+  useEffect(() => {
+    setSuggestions([]);
+    if (!searchQuery || !productPage || productPage.total > 0) return;
+    let cancelled = false;
+    fetchSearchSuggestions(searchQuery)
+      .then((terms) => {
+        if (!cancelled) setSuggestions(terms);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [searchQuery, productPage]);
 
-    const mapped: Product[] = prods.map((p) => {
-      const catsForP = pcData.filter((r) => r.product_id === p.id).map((r) => catMap[r.category_id]).filter(Boolean) as Category[];
-      return {
-        id: p.id,
-        name: p.name,
-        price: p.price,
-        image: p.image,
-        categories: catsForP,
-        badge: p.badge ?? undefined,
-      } as Product;
-    });
-
-    setAllProducts(mapped);
-    setAllCategories(cats);
-  }
-
-  const filteredProducts = selectedCategory
-    ? allProducts.filter((p) => p.categories.includes(selectedCategory))
-    : allProducts;
+  const products = productPage?.products ?? [];
+  const total = productPage?.total ?? 0;
+  const pageCount = productPage?.pageCount ?? 1;
+  const hasFilters = Boolean(searchQuery || selectedCategory || minPrice || maxPrice || badge);
+  const sortOptions = (Object.keys(PRODUCT_SORT_LABELS) as ProductSort[]).filter(
+    (value) => value !== "relevance" || searchQuery
+  );
+
+  const clearFilters = () => {
+    setMinPrice("");
+    setMaxPrice("");
+    setBadge("");
+    setSearchText("");
+    onNavigate("products");
+  };
+
+  const applySuggestion = (term: string) => {
+    setSearchText(term);
+    onSearch?.(term);
+  };
+
+  // Up to five page numbers around the current page
+  const firstPageNumber = Math.max(1, Math.min(page - 2, pageCount - 4));
+  const pageNumbers = Array.from({ length: Math.min(5, pageCount) }, (_, i) => firstPageNumber + i);
 
   const handleOccasionChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
     const value = event.target.value;
@@ -182,58 +252,159 @@ export function ProductsPage({
             </motion.div>
           )}
 
-          {/* Product Count */}
-          <div className="mb-8">
-            <p className="text-gray-600">{filteredProducts.length} products found</p>
+          {/* Filters */}
+          <div className="mb-8 flex flex-wrap items-end gap-4">
+            <div className="flex-1 min-w-[16rem] max-w-md">
+              <label className="block text-sm text-gray-600 mb-1">Search</label>
+              <div className="relative">
+                <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+                <input
+                  type="search"
+                  value={searchText}
+                  onChange={(e) => setSearchText(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") onSearch?.(searchText);
+                  }}
+                  placeholder="Roses, sunflowers, birthday..."
+                  className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-md bg-white"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm text-gray-600 mb-1">Price (₱)</label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min={0}
+                  value={minPrice}
+                  onChange={(e) => setMinPrice(e.target.value)}
+                  placeholder="Min"
+                  className="w-24 px-3 py-2 border border-gray-300 rounded-md bg-white"
+                />
+                <span className="text-gray-400">-</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={maxPrice}
+                  onChange={(e) => setMaxPrice(e.target.value)}
+                  placeholder="Max"
+                  className="w-24 px-3 py-2 border border-gray-300 rounded-md bg-white"
+                />
+              </div>
+            </div>
+            {badges.length > 0 && (
+              <div>
+                <label className="block text-sm text-gray-600 mb-1">Collection</label>
+                <select
+                  value={badge}
+                  onChange={(e) => setBadge(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-md bg-white"
+                >
+                  <option value="">All</option>
+                  {badges.map((b) => (
+                    <option key={b} value={b}>{b}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div>
+              <label className="block text-sm text-gray-600 mb-1">Sort by</label>
+              <select
+                value={sort ?? (searchQuery ? "relevance" : "newest")}
+                onChange={(e) => setSort(e.target.value as ProductSort)}
+                className="px-3 py-2 border border-gray-300 rounded-md bg-white"
+              >
+                {sortOptions.map((value) => (
+                  <option key={value} value={value}>{PRODUCT_SORT_LABELS[value]}</option>
+                ))}
+              </select>
+            </div>
+            <p className="text-gray-600 ml-auto">
+              {loading && !productPage ? "Loading products..." : `${total} ${total === 1 ? "product" : "products"} found`}
+            </p>
           </div>
 
           {/* Products Grid */}
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-            {filteredProducts.map((product, index) => (
+          <div className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 transition-opacity ${loading ? "opacity-60" : ""}`}>
+            {products.map((product, index) => (
               <motion.div
                 key={product.id}
                 initial={{ opacity: 0, y: 30 }}
                 animate={{ opacity: 1, y: 0 }}
                 transition={{ duration: 0.5, delay: index * 0.05 }}
               >
-                <ProductCard {...product} onClick={() => onProductClick(product)} />
+                <ProductCard {...product} highlight={searchQuery} onClick={() => onProductClick(product)} />
               </motion.div>
             ))}
           </div>
 
           {/* No products message */}
-          {filteredProducts.length === 0 && (
+          {productPage && products.length === 0 && (
             <motion.div
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
               className="text-center py-20"
             >
-              <p className="text-gray-500 text-xl mb-4">No products found in this category</p>
-              <button
-                onClick={onClearCategory}
-                className="text-[#FF69B4] hover:underline"
-              >
-                View all products
-              </button>
+              <p className="text-gray-500 text-xl mb-4">
+                {searchQuery
+                  ? `No products found for "${searchQuery}"`
+                  : hasFilters
+                    ? "No products match these filters"
+                    : "No products yet"}
+              </p>
+              {suggestions.length > 0 && (
+                <p className="text-gray-600 mb-4">
+                  Did you mean{" "}
+                  {suggestions.map((term, index) => (
+                    <span key={term}>
+                      {index > 0 && (index === suggestions.length - 1 ? " or " : ", ")}
+                      <button onClick={() => applySuggestion(term)} className="text-[#FF69B4] hover:underline">
+                        {term}
+                      </button>
+                    </span>
+                  ))}
+                  ?
+                </p>
+              )}
+              {hasFilters && (
+                <button
+                  onClick={clearFilters}
+                  className="text-[#FF69B4] hover:underline"
+                >
+                  View all products
+                </button>
+              )}
             </motion.div>
           )}
 
           {/* Pagination */}
-          {filteredProducts.length > 0 && (
+          {pageCount > 1 && (
             <div className="flex items-center justify-center gap-2 mt-12">
-              <button className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-50 transition-colors">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page === 1}
+                className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
                 Previous
               </button>
-              <button className="px-4 py-2 bg-[#FF69B4] text-white rounded">
-                1
-              </button>
-              <button className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-50 transition-colors">
-                2
-              </button>
-              <button className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-50 transition-colors">
-                3
-              </button>
-              <button className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-50 transition-colors">
+              {pageNumbers.map((number) => (
+                <button
+                  key={number}
+                  onClick={() => setPage(number)}
+                  className={
+                    number === page
+                      ? "px-4 py-2 bg-[#FF69B4] text-white rounded"
+                      : "px-4 py-2 border border-gray-300 rounded hover:bg-gray-50 transition-colors"
+                  }
+                >
+                  {number}
+                </button>
+              ))}
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page >= pageCount}
+                className="px-4 py-2 border border-gray-300 rounded hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
                 Next
               </button>
             </div>
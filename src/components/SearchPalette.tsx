@@ -0,0 +1,148 @@
+import { useEffect, useState } from "react";
+import { Search } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Command, CommandGroup, CommandInput, CommandItem, CommandList } from "./ui/command";
+import { ImageWithFallback } from "./figma/ImageWithFallback";
+import { HighlightedText } from "./HighlightedText";
+import { fetchSearchSuggestions, searchProducts } from "../services/catalogService";
+import type { Product } from "../data/products";
+
+interface SearchPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Show every result on the products page */
+  onSearch: (query: string) => void;
+  onProductSelect: (product: Product) => void;
+}
+
+/**
+ * Header search as a command palette. Results come from search_products, so cmdk's own
+ * filtering is turned off.
+ */
+export function SearchPalette({ open, onOpenChange, onSearch, onProductSelect }: SearchPaletteProps) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<Product[]>([]);
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) setQuery("");
+  }, [open]);
+
+  // Search once typing pauses
+  useEffect(() => {
+    const search = query.trim();
+    if (!search) {
+      setResults([]);
+      setSuggestions([]);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    const timer = window.setTimeout(async () => {
+      try {
+        const products = await searchProducts(search, 6);
+        const terms = products.length === 0 ? await fetchSearchSuggestions(search) : [];
+        if (cancelled) return;
+        setResults(products);
+        setSuggestions(terms);
+      } catch {
+        if (!cancelled) {
+          setResults([]);
+          setSuggestions([]);
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [query]);
+
+  const close = () => onOpenChange(false);
+  const search = query.trim();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogHeader className="sr-only">
+        <DialogTitle>Search products</DialogTitle>
+        <DialogDescription>Search flowers, occasions and bouquets</DialogDescription>
+      </DialogHeader>
+      <DialogContent className="overflow-hidden p-0">
+        <Command shouldFilter={false} className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:text-xs [&_[cmdk-group-heading]]:text-gray-500 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-2">
+          <CommandInput
+            value={query}
+            onValueChange={setQuery}
+            placeholder="Search roses, sunflowers, birthday..."
+          />
+          <CommandList>
+            {search && !loading && results.length === 0 && (
+              <div className="py-6 text-center text-sm text-gray-500">
+                No products found for "{search}"
+              </div>
+            )}
+
+            {suggestions.length > 0 && (
+              <CommandGroup heading="Did you mean">
+                {suggestions.map((term) => (
+                  <CommandItem key={term} value={`suggestion:${term}`} onSelect={() => setQuery(term)}>
+                    <Search className="w-4 h-4 text-gray-400" />
+                    {term}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {results.length > 0 && (
+              <CommandGroup heading="Products">
+                {results.map((product) => (
+                  <CommandItem
+                    key={product.id}
+                    value={product.id}
+                    onSelect={() => {
+                      close();
+                      onProductSelect(product);
+                    }}
+                  >
+                    <ImageWithFallback
+                      src={product.image}
+                      alt={product.name}
+                      className="w-10 h-10 rounded object-cover flex-shrink-0"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <HighlightedText text={product.name} query={search} className="block truncate" />
+                      {product.categories.length > 0 && (
+                        <span className="block text-xs text-gray-500 truncate">{product.categories.join(", ")}</span>
+                      )}
+                    </div>
+                    <span className="text-[#FF69B4] text-sm">₱{product.price.toFixed(2)}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {search && (
+              <CommandGroup>
+                <CommandItem
+                  value="see-all"
+                  onSelect={() => {
+                    close();
+                    onSearch(search);
+                  }}
+                >
+                  <Search className="w-4 h-4 text-gray-400" />
+                  See all results for "{search}"
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
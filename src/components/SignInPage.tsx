@@ -9,7 +9,7 @@ import { toast } from "sonner";
 
 interface SignInPageProps {
   onNavigate: (page: string) => void;
-  onLogin: (asAdmin?: boolean, userData?: { fullName: string; email: string; phone: string }, userId?: string) => void;
+  onLogin: () => void;
 }
 
 export function SignInPage({ onNavigate, onLogin }: SignInPageProps) {
@@ -21,7 +21,7 @@ export function SignInPage({ onNavigate, onLogin }: SignInPageProps) {
     e.preventDefault();
     (async () => {
       try {
-        const { user, profile, error } = await signInWithEmail(email, password);
+        const { user, error } = await signInWithEmail(email, password);
         if (error) {
           toast.error(error.message || 'Sign in failed');
           return;
@@ -31,12 +31,8 @@ export function SignInPage({ onNavigate, onLogin }: SignInPageProps) {
           return;
         }
 
-        const asAdmin = profile?.role === 'admin';
-        onLogin(asAdmin, {
-          fullName: profile?.full_name ?? email.split('@')[0],
-          email: profile?.email ?? email,
-          phone: profile?.phone ?? '0000000000'
-        }, user.id);
+        // Role and profile are loaded from the session by AuthProvider
+        onLogin();
         toast.success('Signed in successfully');
       } catch (err: any) {
         toast.error(err?.message || 'Sign in failed');
@@ -76,9 +72,6 @@ export function SignInPage({ onNavigate, onLogin }: SignInPageProps) {
                 required
                 className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:border-[#FF69B4] focus:ring-2 focus:ring-[#FF69B4]/20"
               />
-              <p className="text-xs text-gray-500">
-                Tip: Use <span className="text-[#FF69B4]">admin@jeans.com</span> to access admin dashboard
-              </p>
             </div>
 
             {/* Password Field */}
@@ -0,0 +1,310 @@
+import { useEffect, useState } from "react";
+import { motion } from "motion/react";
+import { Plus, Edit2, Trash2, Gift } from "lucide-react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { ImageWithFallback } from "../figma/ImageWithFallback";
+import {
+  fetchProductAddOns,
+  saveProductAddOn,
+  deleteProductAddOn,
+  type CatalogAddOn
+} from "../../services/catalogService";
+import { toast } from "sonner";
+
+const emptyForm = {
+  name: "",
+  description: "",
+  image: "",
+  price: "",
+  sortOrder: "",
+  active: true
+};
+
+export function AdminAddOns() {
+  const [addOns, setAddOns] = useState<CatalogAddOn[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [editingAddOn, setEditingAddOn] = useState<CatalogAddOn | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const loadAddOns = () =>
+    fetchProductAddOns()
+      .then(setAddOns)
+      .catch((err) => toast.error(err?.message || 'Failed to load add-ons'))
+      .finally(() => setLoading(false));
+
+  useEffect(() => {
+    loadAddOns();
+  }, []);
+
+  const handleSaveAddOn = () => {
+    const price = parseInt(formData.price || "0", 10);
+    const sortOrder = parseInt(formData.sortOrder || "0", 10);
+
+    if (!formData.name.trim()) {
+      toast.error('Add-on name is required');
+      return;
+    }
+    if (!(price >= 0)) {
+      toast.error('Price cannot be negative');
+      return;
+    }
+
+    (async () => {
+      try {
+        await saveProductAddOn({
+          name: formData.name.trim(),
+          description: formData.description.trim() || null,
+          image: formData.image.trim() || null,
+          price,
+          active: formData.active,
+          sortOrder
+        }, editingAddOn?.id);
+        toast.success(editingAddOn ? 'Add-on updated' : 'Add-on added');
+        setEditingAddOn(null);
+        await loadAddOns();
+      } catch (err: any) {
+        toast.error(err?.message || 'Failed to save add-on');
+      } finally {
+        setFormData(emptyForm);
+        setShowAddForm(false);
+      }
+    })();
+  };
+
+  const handleEditAddOn = (addOn: CatalogAddOn) => {
+    setEditingAddOn(addOn);
+    setFormData({
+      name: addOn.name,
+      description: addOn.description ?? "",
+      image: addOn.image ?? "",
+      price: String(addOn.price),
+      sortOrder: String(addOn.sortOrder),
+      active: addOn.active
+    });
+    setShowAddForm(true);
+  };
+
+  const handleDeleteAddOn = (id: string) => {
+    (async () => {
+      try {
+        await deleteProductAddOn(id);
+        setAddOns(addOns.filter(addOn => addOn.id !== id));
+        toast.success('Add-on deleted');
+      } catch (err: any) {
+        toast.error(err?.message || 'Failed to delete add-on');
+      }
+    })();
+  };
+
+  const handleToggleActive = (addOn: CatalogAddOn) => {
+    (async () => {
+      try {
+        const { id, name, description, image, price, sortOrder } = addOn;
+        const active = !addOn.active;
+        await saveProductAddOn({ name, description: description ?? null, image: image ?? null, price, sortOrder, active }, id);
+        setAddOns(addOns.map(a => a.id === id ? { ...a, active } : a));
+        toast.success(active ? 'Add-on is now offered' : 'Add-on is no longer offered');
+      } catch (err: any) {
+        toast.error(err?.message || 'Failed to toggle add-on');
+      }
+    })();
+  };
+
+  return (
+    <div className="p-8">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl mb-1" style={{ fontFamily: "'Playfair Display', serif" }}>
+            Add-ons
+          </h1>
+          <p className="text-gray-600">Extras customers can add to any product, such as chocolates, balloons and cards</p>
+        </div>
+        <Button
+          onClick={() => {
+            setShowAddForm(true);
+            setEditingAddOn(null);
+            setFormData(emptyForm);
+          }}
+          className="bg-[#FF69B4] hover:bg-[#FF1493] text-white"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Add-on
+        </Button>
+      </div>
+
+      {/* Add/Edit Form */}
+      {showAddForm && (
+        <motion.div
+          initial={{ opacity: 0, height: 0 }}
+          animate={{ opacity: 1, height: "auto" }}
+          exit={{ opacity: 0, height: 0 }}
+          className="bg-white border border-gray-200 rounded-lg p-6 mb-6"
+        >
+          <h3 className="text-xl mb-4" style={{ fontFamily: "'Playfair Display', serif" }}>
+            {editingAddOn ? "Edit Add-on" : "Add New Add-on"}
+          </h3>
+
+          <div className="grid md:grid-cols-4 gap-4">
+            <div className="md:col-span-2">
+              <Label htmlFor="addOnName">Name</Label>
+              <Input
+                id="addOnName"
+                type="text"
+                placeholder="e.g., Box of Chocolates"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="addOnPrice">Price (₱)</Label>
+              <Input
+                id="addOnPrice"
+                type="number"
+                min={0}
+                placeholder="350"
+                value={formData.price}
+                onChange={(e) => setFormData({ ...formData, price: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="addOnSortOrder">Sort Order</Label>
+              <Input
+                id="addOnSortOrder"
+                type="number"
+                placeholder="0"
+                value={formData.sortOrder}
+                onChange={(e) => setFormData({ ...formData, sortOrder: e.target.value })}
+              />
+            </div>
+
+            <div className="md:col-span-2">
+              <Label htmlFor="addOnDescription">Description</Label>
+              <Input
+                id="addOnDescription"
+                type="text"
+                placeholder="e.g., Assorted chocolates, 12 pieces"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              />
+            </div>
+
+            <div className="md:col-span-2">
+              <Label htmlFor="addOnImage">Image URL</Label>
+              <Input
+                id="addOnImage"
+                type="text"
+                placeholder="https://..."
+                value={formData.image}
+                onChange={(e) => setFormData({ ...formData, image: e.target.value })}
+              />
+            </div>
+
+            <div className="flex items-end pb-2">
+              <Label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={formData.active}
+                  onChange={(e) => setFormData({ ...formData, active: e.target.checked })}
+                  className="w-4 h-4"
+                />
+                Offer to customers
+              </Label>
+            </div>
+          </div>
+
+          <div className="flex gap-3 mt-4">
+            <Button
+              onClick={handleSaveAddOn}
+              className="bg-[#FF69B4] hover:bg-[#FF1493] text-white"
+            >
+              {editingAddOn ? "Update Add-on" : "Save Add-on"}
+            </Button>
+            <Button
+              onClick={() => {
+                setShowAddForm(false);
+                setEditingAddOn(null);
+                setFormData(emptyForm);
+              }}
+              variant="outline"
+            >
+              Cancel
+            </Button>
+          </div>
+        </motion.div>
+      )}
+
+      {/* Add-ons Grid */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {addOns.map((addOn, index) => (
+          <motion.div
+            key={addOn.id}
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: index * 0.05 }}
+            className={`bg-white rounded-lg border border-gray-200 overflow-hidden hover:shadow-lg transition-shadow ${
+              addOn.active ? "" : "opacity-60"
+            }`}
+          >
+            <div className="p-4">
+              <div className="flex items-start justify-between mb-2">
+                <div className="flex items-center gap-3">
+                  {addOn.image ? (
+                    <ImageWithFallback src={addOn.image} alt={addOn.name} className="w-10 h-10 rounded object-cover" />
+                  ) : (
+                    <Gift className="w-6 h-6 text-[#FF69B4]" />
+                  )}
+                  <h3>{addOn.name}</h3>
+                </div>
+                <span className="px-2 py-1 bg-gray-100 rounded-full text-xs">₱{addOn.price}</span>
+              </div>
+
+              <p className="text-sm text-gray-600 mb-4">{addOn.description || "—"}</p>
+
+              <div className="flex gap-2 mb-3">
+                <button
+                  onClick={() => handleToggleActive(addOn)}
+                  className={`flex-1 px-3 py-2 rounded-md text-sm transition-colors ${
+                    addOn.active
+                      ? "bg-green-50 text-green-700 hover:bg-green-100"
+                      : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                  }`}
+                >
+                  {addOn.active ? "Active" : "Inactive"}
+                </button>
+              </div>
+
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleEditAddOn(addOn)}
+                  className="flex-1 px-3 py-2 bg-gray-100 hover:bg-gray-200 rounded-md text-sm flex items-center justify-center gap-2 transition-colors"
+                >
+                  <Edit2 className="w-4 h-4" />
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDeleteAddOn(addOn.id)}
+                  className="flex-1 px-3 py-2 bg-red-50 hover:bg-red-100 text-red-600 rounded-md text-sm flex items-center justify-center gap-2 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Delete
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        ))}
+      </div>
+
+      {!loading && addOns.length === 0 && (
+        <div className="text-center py-12 text-gray-500">
+          No add-ons yet. Products are sold without extras until you add one.
+        </div>
+      )}
+    </div>
+  );
+}
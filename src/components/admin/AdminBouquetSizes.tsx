@@ -0,0 +1,396 @@
+import { useState } from "react";
+import { motion } from "motion/react";
+import { Plus, Edit2, Trash2 } from "lucide-react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import supabase from "../../services/supabaseClient";
+import { mapBouquetSize } from "../../services/customBouquetService";
+import { toast } from "sonner";
+import type { BouquetSize } from "../../data/bouquetData";
+
+interface AdminBouquetSizesProps {
+  sizes: BouquetSize[];
+  onUpdateSizes: (sizes: BouquetSize[]) => void;
+}
+
+const emptyForm = {
+  code: "",
+  name: "",
+  description: "",
+  emoji: "",
+  maxStems: "",
+  basePrice: "",
+  wrappingFee: "",
+  sortOrder: "",
+  active: true
+};
+
+const sortSizes = (sizes: BouquetSize[]) => [...sizes].sort((a, b) => a.sortOrder - b.sortOrder);
+
+export function AdminBouquetSizes({ sizes, onUpdateSizes }: AdminBouquetSizesProps) {
+
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [editingSize, setEditingSize] = useState<BouquetSize | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const handleSaveSize = () => {
+    const maxStems = parseInt(formData.maxStems, 10);
+    const basePrice = parseInt(formData.basePrice || "0", 10);
+    const wrappingFee = parseInt(formData.wrappingFee || "0", 10);
+    const sortOrder = parseInt(formData.sortOrder || "0", 10);
+
+    if (!formData.code || !formData.name) {
+      toast.error('Code and name are required');
+      return;
+    }
+    if (!(maxStems > 0)) {
+      toast.error('Max stems must be at least 1');
+      return;
+    }
+    if (basePrice < 0 || wrappingFee < 0) {
+      toast.error('Prices cannot be negative');
+      return;
+    }
+
+    const row = {
+      name: formData.name,
+      description: formData.description,
+      emoji: formData.emoji,
+      max_stems: maxStems,
+      base_price: basePrice,
+      wrapping_fee: wrappingFee,
+      sort_order: sortOrder,
+      active: formData.active
+    };
+
+    (async () => {
+      try {
+        if (editingSize) {
+          // The code is what saved bouquets refer to, so it is not editable
+          const { data, error } = await supabase
+            .from('bouquet_sizes')
+            .update(row)
+            .eq('id', editingSize.id)
+            .select()
+            .single();
+          if (error) throw error;
+
+          onUpdateSizes(sortSizes(sizes.map(size => size.id === editingSize.id ? mapBouquetSize(data) : size)));
+          setEditingSize(null);
+          toast.success('Size updated');
+        } else {
+          const { data, error } = await supabase
+            .from('bouquet_sizes')
+            .insert({ ...row, code: formData.code.trim().toLowerCase() })
+            .select()
+            .single();
+          if (error) throw error;
+
+          onUpdateSizes(sortSizes([...sizes, mapBouquetSize(data)]));
+          toast.success('Size added');
+        }
+      } catch (err: any) {
+        console.error('Failed to save size', err);
+        toast.error(err?.message || 'Failed to save size');
+      } finally {
+        setFormData(emptyForm);
+        setShowAddForm(false);
+      }
+    })();
+  };
+
+  const handleEditSize = (size: BouquetSize) => {
+    setEditingSize(size);
+    setFormData({
+      code: size.code,
+      name: size.name,
+      description: size.description,
+      emoji: size.emoji,
+      maxStems: String(size.maxStems),
+      basePrice: String(size.basePrice),
+      wrappingFee: String(size.wrappingFee),
+      sortOrder: String(size.sortOrder),
+      active: size.active
+    });
+    setShowAddForm(true);
+  };
+
+  const handleDeleteSize = (id: string) => {
+    (async () => {
+      try {
+        const { error } = await supabase.from('bouquet_sizes').delete().eq('id', id);
+        if (error) throw error;
+        onUpdateSizes(sizes.filter(size => size.id !== id));
+        toast.success('Size deleted');
+      } catch (err: any) {
+        console.error('Failed to delete size', err);
+        toast.error(err?.message || 'Failed to delete size');
+      }
+    })();
+  };
+
+  const handleToggleActive = (id: string) => {
+    (async () => {
+      try {
+        const s = sizes.find((x) => x.id === id);
+        if (!s) return;
+        const newActive = !s.active;
+        const { error } = await supabase.from('bouquet_sizes').update({ active: newActive }).eq('id', id);
+        if (error) throw error;
+        onUpdateSizes(sizes.map(size => size.id === id ? { ...size, active: newActive } : size));
+        toast.success('Availability updated');
+      } catch (err: any) {
+        console.error('Failed to toggle size', err);
+        toast.error(err?.message || 'Failed to toggle size');
+      }
+    })();
+  };
+
+  return (
+    <div className="p-8">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl mb-1" style={{ fontFamily: "'Playfair Display', serif" }}>
+            Bouquet Sizes
+          </h1>
+          <p className="text-gray-600">Manage stem limits and pricing for custom bouquets</p>
+        </div>
+        <Button
+          onClick={() => {
+            setShowAddForm(true);
+            setEditingSize(null);
+            setFormData(emptyForm);
+          }}
+          className="bg-[#FF69B4] hover:bg-[#FF1493] text-white"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Size
+        </Button>
+      </div>
+
+      {/* Add/Edit Form */}
+      {showAddForm && (
+        <motion.div
+          initial={{ opacity: 0, height: 0 }}
+          animate={{ opacity: 1, height: "auto" }}
+          exit={{ opacity: 0, height: 0 }}
+          className="bg-white border border-gray-200 rounded-lg p-6 mb-6"
+        >
+          <h3 className="text-xl mb-4" style={{ fontFamily: "'Playfair Display', serif" }}>
+            {editingSize ? "Edit Size" : "Add New Size"}
+          </h3>
+
+          <div className="grid md:grid-cols-4 gap-4">
+            <div>
+              <Label htmlFor="sizeCode">Code</Label>
+              <Input
+                id="sizeCode"
+                type="text"
+                placeholder="e.g., extra-large"
+                value={formData.code}
+                disabled={!!editingSize}
+                onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="sizeName">Name</Label>
+              <Input
+                id="sizeName"
+                type="text"
+                placeholder="e.g., Extra Large"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="sizeEmoji">Emoji</Label>
+              <Input
+                id="sizeEmoji"
+                type="text"
+                placeholder="💐"
+                value={formData.emoji}
+                onChange={(e) => setFormData({ ...formData, emoji: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="sizeSortOrder">Sort Order</Label>
+              <Input
+                id="sizeSortOrder"
+                type="number"
+                placeholder="0"
+                value={formData.sortOrder}
+                onChange={(e) => setFormData({ ...formData, sortOrder: e.target.value })}
+              />
+            </div>
+
+            <div className="md:col-span-4">
+              <Label htmlFor="sizeDescription">Description</Label>
+              <Input
+                id="sizeDescription"
+                type="text"
+                placeholder="e.g., Stunning display with 12 stems"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="sizeMaxStems">Max Stems</Label>
+              <Input
+                id="sizeMaxStems"
+                type="number"
+                min={1}
+                placeholder="12"
+                value={formData.maxStems}
+                onChange={(e) => setFormData({ ...formData, maxStems: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="sizeBasePrice">Base Price (₱)</Label>
+              <Input
+                id="sizeBasePrice"
+                type="number"
+                min={0}
+                placeholder="1050"
+                value={formData.basePrice}
+                onChange={(e) => setFormData({ ...formData, basePrice: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="sizeWrappingFee">Wrapping Fee (₱)</Label>
+              <Input
+                id="sizeWrappingFee"
+                type="number"
+                min={0}
+                placeholder="150"
+                value={formData.wrappingFee}
+                onChange={(e) => setFormData({ ...formData, wrappingFee: e.target.value })}
+              />
+            </div>
+
+            <div className="flex items-end pb-2">
+              <Label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={formData.active}
+                  onChange={(e) => setFormData({ ...formData, active: e.target.checked })}
+                  className="w-4 h-4"
+                />
+                Offered in the bouquet builder
+              </Label>
+            </div>
+          </div>
+
+          <div className="flex gap-3 mt-4">
+            <Button
+              onClick={handleSaveSize}
+              className="bg-[#FF69B4] hover:bg-[#FF1493] text-white"
+            >
+              {editingSize ? "Update Size" : "Save Size"}
+            </Button>
+            <Button
+              onClick={() => {
+                setShowAddForm(false);
+                setEditingSize(null);
+                setFormData(emptyForm);
+              }}
+              variant="outline"
+            >
+              Cancel
+            </Button>
+          </div>
+        </motion.div>
+      )}
+
+      {/* Sizes Grid */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {sizes.map((size, index) => (
+          <motion.div
+            key={size.id}
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: index * 0.05 }}
+            className={`bg-white rounded-lg border border-gray-200 overflow-hidden hover:shadow-lg transition-shadow ${
+              size.active ? "" : "opacity-60"
+            }`}
+          >
+            <div className="p-4">
+              <div className="flex items-start justify-between mb-2">
+                <div className="flex items-center gap-3">
+                  <span className="text-3xl">{size.emoji}</span>
+                  <div>
+                    <h3>{size.name}</h3>
+                    <p className="text-xs text-gray-500">{size.code}</p>
+                  </div>
+                </div>
+                <span className="px-2 py-1 bg-gray-100 rounded-full text-xs">
+                  {size.maxStems} {size.maxStems === 1 ? 'stem' : 'stems'}
+                </span>
+              </div>
+
+              <p className="text-sm text-gray-600 mb-3">{size.description}</p>
+
+              <div className="text-sm space-y-1 mb-4">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Base price</span>
+                  <span>₱{size.basePrice}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Wrapping</span>
+                  <span>₱{size.wrappingFee}</span>
+                </div>
+                <div className="flex justify-between text-[#FF69B4]">
+                  <span>Starts at</span>
+                  <span>₱{size.basePrice + size.wrappingFee}</span>
+                </div>
+              </div>
+
+              <div className="flex gap-2 mb-3">
+                <button
+                  onClick={() => handleToggleActive(size.id)}
+                  className={`flex-1 px-3 py-2 rounded-md text-sm transition-colors ${
+                    size.active
+                      ? "bg-green-50 text-green-700 hover:bg-green-100"
+                      : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                  }`}
+                >
+                  {size.active ? "Active" : "Inactive"}
+                </button>
+              </div>
+
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleEditSize(size)}
+                  className="flex-1 px-3 py-2 bg-gray-100 hover:bg-gray-200 rounded-md text-sm flex items-center justify-center gap-2 transition-colors"
+                >
+                  <Edit2 className="w-4 h-4" />
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDeleteSize(size.id)}
+                  className="flex-1 px-3 py-2 bg-red-50 hover:bg-red-100 text-red-600 rounded-md text-sm flex items-center justify-center gap-2 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Delete
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        ))}
+      </div>
+
+      {sizes.length === 0 && (
+        <div className="text-center py-12 text-gray-500">
+          No bouquet sizes yet
+        </div>
+      )}
+    </div>
+  );
+}
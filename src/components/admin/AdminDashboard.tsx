@@ -1,16 +1,29 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import { toast, Toaster } from "sonner";
 import { AdminLayout } from "./AdminLayout";
 import { AdminReports } from "./AdminReports";
 import { AdminOrders } from "./AdminOrders";
 import { AdminProducts } from "./AdminProducts";
 import { AdminOccasions } from "./AdminOccasions";
 import { AdminBouquetColors } from "./AdminBouquetColors";
+import { AdminBouquetSizes } from "./AdminBouquetSizes";
+import { AdminDeliveryZones } from "./AdminDeliveryZones";
+import { AdminAddOns } from "./AdminAddOns";
+import { AdminDeliverySchedule } from "./AdminDeliverySchedule";
 import { AdminFlowerTypes } from "./AdminFlowerTypes";
 import { AdminDrivers } from "./AdminDrivers";
 import type { Order } from "../../App";
-import type { BouquetColor, FlowerType } from "../../data/bouquetData";
+import type { BouquetColor, BouquetSize, FlowerType } from "../../data/bouquetData";
+import { can, type Role } from "../../permissions";
+import { subscribeToOrderChanges } from "../../services/orderService";
+import { playNewOrderChime } from "../../services/orderAlertService";
 
 interface AdminDashboardProps {
+  role: Role | null;
+  currentSection: string;
+  onSectionChange: (section: string) => void;
+  focusedOrderId?: string;
+  onFocusOrder: (orderId: string | null) => void;
   onLogout: () => void;
   orders: Order[];
   onUpdateOrders: (orders: Order[]) => void;
@@ -18,27 +31,87 @@ interface AdminDashboardProps {
   onUpdateBouquetColors: (colors: BouquetColor[]) => void;
   flowerTypes: FlowerType[];
   onUpdateFlowerTypes: (flowers: FlowerType[]) => void;
+  bouquetSizes: BouquetSize[];
+  onUpdateBouquetSizes: (sizes: BouquetSize[]) => void;
 }
 
-export function AdminDashboard({ onLogout, orders, onUpdateOrders, bouquetColors, onUpdateBouquetColors, flowerTypes, onUpdateFlowerTypes }: AdminDashboardProps) {
-  const [currentSection, setCurrentSection] = useState("reports");
+export function AdminDashboard({ role, currentSection, onSectionChange, focusedOrderId, onFocusOrder, onLogout, orders, onUpdateOrders, bouquetColors, onUpdateBouquetColors, flowerTypes, onUpdateFlowerTypes, bouquetSizes, onUpdateBouquetSizes }: AdminDashboardProps) {
+  // New orders seen since the admin last opened the orders section
+  const [unreadOrders, setUnreadOrders] = useState(0);
+  // Orders that arrived while the dashboard was open, highlighted until accepted
+  const [newOrderIds, setNewOrderIds] = useState<Set<string>>(new Set());
+  // Bumped after realtime changes so the orders section refetches
+  const [ordersVersion, setOrdersVersion] = useState(0);
+  const sectionRef = useRef(currentSection);
+  sectionRef.current = currentSection;
+  const onSectionChangeRef = useRef(onSectionChange);
+  onSectionChangeRef.current = onSectionChange;
+
+  useEffect(() => {
+    if (!can(role, "orders", "view")) return;
+
+    let refreshTimer: number | undefined;
+    const unsubscribe = subscribeToOrderChanges((event) => {
+      if (event.eventType === "INSERT") {
+        const order = event.row;
+        setNewOrderIds((prev) => new Set(prev).add(order.id));
+        if (sectionRef.current !== "orders") setUnreadOrders((count) => count + 1);
+        playNewOrderChime();
+        toast.info(`New order ${order.order_number ?? ""}`.trim(), {
+          description: `₱${Number(order.total_amount ?? 0).toFixed(2)} · ${order.delivery_option === "pickup" ? "Pickup" : "Delivery"}`,
+          duration: 8000,
+          action: { label: "View", onClick: () => onSectionChangeRef.current("orders") },
+        });
+      }
+
+      // Refetch once for a burst of changes; this also loads the items of new orders
+      window.clearTimeout(refreshTimer);
+      refreshTimer = window.setTimeout(() => setOrdersVersion((version) => version + 1), 500);
+    });
+
+    return () => {
+      window.clearTimeout(refreshTimer);
+      unsubscribe();
+    };
+  }, [role]);
+
+  useEffect(() => {
+    if (currentSection === "orders") setUnreadOrders(0);
+  }, [currentSection]);
+
+  // Show the count in the browser tab so staff notice from another tab
+  useEffect(() => {
+    const baseTitle = document.title.replace(/^\(\d+\) /, "");
+    document.title = unreadOrders > 0 ? `(${unreadOrders}) ${baseTitle}` : baseTitle;
+    return () => {
+      document.title = baseTitle;
+    };
+  }, [unreadOrders]);
 
   const renderSection = () => {
     switch (currentSection) {
       case "reports":
         return <AdminReports orders={orders} />;
       case "orders":
-        return <AdminOrders orders={orders} onUpdateOrders={onUpdateOrders} />;
+        return <AdminOrders orders={orders} onUpdateOrders={onUpdateOrders} focusedOrderId={focusedOrderId} onFocusOrder={onFocusOrder} refreshToken={ordersVersion} newOrderIds={newOrderIds} />;
       case "products":
         return <AdminProducts />;
+      case "add-ons":
+        return <AdminAddOns />;
       case "bouquet-colors":
         return <AdminBouquetColors colors={bouquetColors} onUpdateColors={onUpdateBouquetColors} />;
+      case "bouquet-sizes":
+        return <AdminBouquetSizes sizes={bouquetSizes} onUpdateSizes={onUpdateBouquetSizes} />;
       case "categories":
         return <AdminOccasions />;
       case "flower-types":
         return <AdminFlowerTypes flowers={flowerTypes} onUpdateFlowers={onUpdateFlowerTypes} />;
       case "drivers":
         return <AdminDrivers />;
+      case "delivery-zones":
+        return <AdminDeliveryZones />;
+      case "delivery-schedule":
+        return <AdminDeliverySchedule />;
       default:
         return <AdminReports orders={orders} />;
     }
@@ -46,11 +119,14 @@ export function AdminDashboard({ onLogout, orders, onUpdateOrders, bouquetColors
 
   return (
     <AdminLayout
+      role={role}
       currentSection={currentSection}
-      onSectionChange={setCurrentSection}
+      onSectionChange={onSectionChange}
       onLogout={onLogout}
+      badges={{ orders: unreadOrders }}
     >
       {renderSection()}
+      <Toaster />
     </AdminLayout>
   );
 }
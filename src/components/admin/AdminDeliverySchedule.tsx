@@ -0,0 +1,561 @@
+import { useEffect, useState } from "react";
+import { motion } from "motion/react";
+import { Plus, Edit2, Trash2, Clock, CalendarX } from "lucide-react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import supabase from "../../services/supabaseClient";
+import {
+  fetchTimeSlots,
+  fetchScheduleRules,
+  mapTimeSlot,
+  formatSlotTime,
+  formatScheduleDate,
+  updateScheduleSettings,
+  addBlackoutDate,
+  removeBlackoutDate,
+  type TimeSlot,
+  type SlotAppliesTo,
+  type ScheduleRules,
+} from "../../services/scheduleService";
+import { toast } from "sonner";
+
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const APPLIES_TO_LABELS: Record<SlotAppliesTo, string> = {
+  both: "Delivery & Pickup",
+  delivery: "Delivery only",
+  pickup: "Pickup only",
+};
+
+const emptyForm = {
+  label: "",
+  startTime: "",
+  endTime: "",
+  appliesTo: "both" as SlotAppliesTo,
+  capacity: "",
+  weekdays: [0, 1, 2, 3, 4, 5, 6],
+  sortOrder: "",
+  active: true
+};
+
+const sortSlots = (slots: TimeSlot[]) =>
+  [...slots].sort((a, b) => a.sortOrder - b.sortOrder || a.startTime.localeCompare(b.startTime));
+
+const formatWeekdays = (weekdays: number[]) =>
+  weekdays.length === 7 ? "Every day" : [...weekdays].sort().map((day) => WEEKDAY_LABELS[day]).join(", ");
+
+export function AdminDeliverySchedule() {
+  const [slots, setSlots] = useState<TimeSlot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [editingSlot, setEditingSlot] = useState<TimeSlot | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [rules, setRules] = useState<ScheduleRules | null>(null);
+  const [leadHours, setLeadHours] = useState("");
+  const [maxDaysAhead, setMaxDaysAhead] = useState("");
+  const [blackoutDate, setBlackoutDate] = useState("");
+  const [blackoutReason, setBlackoutReason] = useState("");
+
+  const loadRules = async () => {
+    const loaded = await fetchScheduleRules();
+    setRules(loaded);
+    setLeadHours(String(loaded.minLeadMinutes / 60));
+    setMaxDaysAhead(String(loaded.maxDaysAhead));
+  };
+
+  useEffect(() => {
+    fetchTimeSlots()
+      .then(setSlots)
+      .catch((err) => toast.error(err?.message || 'Failed to load time slots'))
+      .finally(() => setLoading(false));
+    loadRules();
+  }, []);
+
+  const handleSaveSlot = () => {
+    const capacity = formData.capacity ? parseInt(formData.capacity, 10) : null;
+    const sortOrder = parseInt(formData.sortOrder || "0", 10);
+
+    if (!formData.label.trim()) {
+      toast.error('Slot name is required');
+      return;
+    }
+    if (!formData.startTime || !formData.endTime || formData.endTime <= formData.startTime) {
+      toast.error('The slot must end after it starts');
+      return;
+    }
+    if (capacity !== null && capacity < 1) {
+      toast.error('Capacity must be at least 1, or empty for no limit');
+      return;
+    }
+    if (formData.weekdays.length === 0) {
+      toast.error('Pick at least one day of the week');
+      return;
+    }
+
+    const row = {
+      label: formData.label.trim(),
+      start_time: formData.startTime,
+      end_time: formData.endTime,
+      applies_to: formData.appliesTo,
+      capacity,
+      weekdays: [...formData.weekdays].sort(),
+      sort_order: sortOrder,
+      active: formData.active,
+      updated_at: new Date().toISOString()
+    };
+
+    (async () => {
+      try {
+        if (editingSlot) {
+          const { data, error } = await supabase
+            .from('time_slots')
+            .update(row)
+            .eq('id', editingSlot.id)
+            .select()
+            .single();
+          if (error) throw error;
+
+          setSlots(sortSlots(slots.map(slot => slot.id === editingSlot.id ? mapTimeSlot(data) : slot)));
+          setEditingSlot(null);
+          toast.success('Time slot updated');
+        } else {
+          const { data, error } = await supabase
+            .from('time_slots')
+            .insert(row)
+            .select()
+            .single();
+          if (error) throw error;
+
+          setSlots(sortSlots([...slots, mapTimeSlot(data)]));
+          toast.success('Time slot added');
+        }
+      } catch (err: any) {
+        console.error('Failed to save time slot', err);
+        toast.error(err?.message || 'Failed to save time slot');
+      } finally {
+        setFormData(emptyForm);
+        setShowAddForm(false);
+      }
+    })();
+  };
+
+  const handleEditSlot = (slot: TimeSlot) => {
+    setEditingSlot(slot);
+    setFormData({
+      label: slot.label,
+      startTime: slot.startTime.slice(0, 5),
+      endTime: slot.endTime.slice(0, 5),
+      appliesTo: slot.appliesTo,
+      capacity: slot.capacity === null ? "" : String(slot.capacity),
+      weekdays: slot.weekdays,
+      sortOrder: String(slot.sortOrder),
+      active: slot.active
+    });
+    setShowAddForm(true);
+  };
+
+  const handleDeleteSlot = (id: string) => {
+    (async () => {
+      try {
+        const { error } = await supabase.from('time_slots').delete().eq('id', id);
+        if (error) throw error;
+        setSlots(slots.filter(slot => slot.id !== id));
+        toast.success('Time slot deleted');
+      } catch (err: any) {
+        console.error('Failed to delete time slot', err);
+        toast.error(err?.message || 'Failed to delete time slot');
+      }
+    })();
+  };
+
+  const handleToggleActive = (id: string) => {
+    (async () => {
+      try {
+        const s = slots.find((x) => x.id === id);
+        if (!s) return;
+        const newActive = !s.active;
+        const { error } = await supabase.from('time_slots').update({ active: newActive }).eq('id', id);
+        if (error) throw error;
+        setSlots(slots.map(slot => slot.id === id ? { ...slot, active: newActive } : slot));
+        toast.success(newActive ? 'Time slot is now offered' : 'Time slot is no longer offered');
+      } catch (err: any) {
+        console.error('Failed to toggle time slot', err);
+        toast.error(err?.message || 'Failed to toggle time slot');
+      }
+    })();
+  };
+
+  const toggleWeekday = (day: number) => {
+    setFormData({
+      ...formData,
+      weekdays: formData.weekdays.includes(day)
+        ? formData.weekdays.filter((d) => d !== day)
+        : [...formData.weekdays, day]
+    });
+  };
+
+  const handleSaveRules = async () => {
+    const minLeadMinutes = Math.round(parseFloat(leadHours || "0") * 60);
+    const days = parseInt(maxDaysAhead || "0", 10);
+    if (minLeadMinutes < 0 || days < 1) {
+      toast.error('Lead time cannot be negative and customers must be able to book at least 1 day ahead');
+      return;
+    }
+    try {
+      await updateScheduleSettings(minLeadMinutes, days);
+      setRules(rules ? { ...rules, minLeadMinutes, maxDaysAhead: days } : rules);
+      toast.success('Booking rules saved');
+    } catch (err: any) {
+      toast.error(err?.message || 'Failed to save booking rules');
+    }
+  };
+
+  const handleAddBlackout = async () => {
+    if (!blackoutDate) {
+      toast.error('Choose a date to close');
+      return;
+    }
+    try {
+      await addBlackoutDate(blackoutDate, blackoutReason);
+      setBlackoutDate("");
+      setBlackoutReason("");
+      await loadRules();
+      toast.success('Date closed for orders');
+    } catch (err: any) {
+      toast.error(err?.message || 'Failed to close date');
+    }
+  };
+
+  const handleRemoveBlackout = async (dateKey: string) => {
+    try {
+      await removeBlackoutDate(dateKey);
+      await loadRules();
+      toast.success('Date reopened');
+    } catch (err: any) {
+      toast.error(err?.message || 'Failed to reopen date');
+    }
+  };
+
+  return (
+    <div className="p-8">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl mb-1" style={{ fontFamily: "'Playfair Display', serif" }}>
+            Delivery Schedule
+          </h1>
+          <p className="text-gray-600">Time slots customers can book, closed days and how far ahead orders are taken</p>
+        </div>
+        <Button
+          onClick={() => {
+            setShowAddForm(true);
+            setEditingSlot(null);
+            setFormData(emptyForm);
+          }}
+          className="bg-[#FF69B4] hover:bg-[#FF1493] text-white"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Time Slot
+        </Button>
+      </div>
+
+      {/* Booking Rules & Closed Days */}
+      <div className="grid lg:grid-cols-2 gap-4 mb-6">
+        <div className="bg-white border border-gray-200 rounded-lg p-6">
+          <h3 className="text-xl mb-4" style={{ fontFamily: "'Playfair Display', serif" }}>
+            Booking Rules
+          </h3>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="leadHours">Minimum Lead Time (hours)</Label>
+              <Input
+                id="leadHours"
+                type="number"
+                min={0}
+                step={0.5}
+                value={leadHours}
+                onChange={(e) => setLeadHours(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="maxDaysAhead">Book Up To (days ahead)</Label>
+              <Input
+                id="maxDaysAhead"
+                type="number"
+                min={1}
+                value={maxDaysAhead}
+                onChange={(e) => setMaxDaysAhead(e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            A slot can't be booked once it starts sooner than the lead time. Same-day delivery also follows each zone's cutoff.
+          </p>
+          <Button onClick={handleSaveRules} className="mt-4 bg-[#FF69B4] hover:bg-[#FF1493] text-white">
+            Save Rules
+          </Button>
+        </div>
+
+        <div className="bg-white border border-gray-200 rounded-lg p-6">
+          <h3 className="text-xl mb-4" style={{ fontFamily: "'Playfair Display', serif" }}>
+            Closed Days
+          </h3>
+          <div className="flex flex-wrap gap-2 mb-4">
+            <Input
+              type="date"
+              value={blackoutDate}
+              onChange={(e) => setBlackoutDate(e.target.value)}
+              className="w-auto"
+            />
+            <Input
+              type="text"
+              placeholder="Reason (optional), e.g. Holiday"
+              value={blackoutReason}
+              onChange={(e) => setBlackoutReason(e.target.value)}
+              className="flex-1 min-w-[10rem]"
+            />
+            <Button onClick={handleAddBlackout} variant="outline">
+              <CalendarX className="w-4 h-4 mr-2" />
+              Close Day
+            </Button>
+          </div>
+          {rules && rules.blackoutDates.length > 0 ? (
+            <ul className="divide-y divide-gray-100 text-sm">
+              {rules.blackoutDates.map((blackout) => (
+                <li key={blackout.date} className="flex items-center justify-between py-2">
+                  <span>
+                    {formatScheduleDate(blackout.date)}
+                    {blackout.reason && <span className="text-gray-500"> · {blackout.reason}</span>}
+                  </span>
+                  <button
+                    onClick={() => handleRemoveBlackout(blackout.date)}
+                    className="text-red-600 hover:text-red-700 text-xs"
+                  >
+                    Reopen
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-500">No upcoming closed days.</p>
+          )}
+        </div>
+      </div>
+
+      {/* Add/Edit Form */}
+      {showAddForm && (
+        <motion.div
+          initial={{ opacity: 0, height: 0 }}
+          animate={{ opacity: 1, height: "auto" }}
+          exit={{ opacity: 0, height: 0 }}
+          className="bg-white border border-gray-200 rounded-lg p-6 mb-6"
+        >
+          <h3 className="text-xl mb-4" style={{ fontFamily: "'Playfair Display', serif" }}>
+            {editingSlot ? "Edit Time Slot" : "Add New Time Slot"}
+          </h3>
+
+          <div className="grid md:grid-cols-4 gap-4">
+            <div className="md:col-span-3">
+              <Label htmlFor="slotLabel">Name</Label>
+              <Input
+                id="slotLabel"
+                type="text"
+                placeholder="e.g., Morning"
+                value={formData.label}
+                onChange={(e) => setFormData({ ...formData, label: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="slotSortOrder">Sort Order</Label>
+              <Input
+                id="slotSortOrder"
+                type="number"
+                placeholder="0"
+                value={formData.sortOrder}
+                onChange={(e) => setFormData({ ...formData, sortOrder: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="slotStart">Starts</Label>
+              <Input
+                id="slotStart"
+                type="time"
+                value={formData.startTime}
+                onChange={(e) => setFormData({ ...formData, startTime: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="slotEnd">Ends</Label>
+              <Input
+                id="slotEnd"
+                type="time"
+                value={formData.endTime}
+                onChange={(e) => setFormData({ ...formData, endTime: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="slotCapacity">Orders Per Day</Label>
+              <Input
+                id="slotCapacity"
+                type="number"
+                min={1}
+                placeholder="No limit"
+                value={formData.capacity}
+                onChange={(e) => setFormData({ ...formData, capacity: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="slotAppliesTo">Offered For</Label>
+              <select
+                id="slotAppliesTo"
+                value={formData.appliesTo}
+                onChange={(e) => setFormData({ ...formData, appliesTo: e.target.value as SlotAppliesTo })}
+                className="w-full h-9 px-3 border border-gray-300 rounded-md bg-white text-sm"
+              >
+                {(Object.keys(APPLIES_TO_LABELS) as SlotAppliesTo[]).map((value) => (
+                  <option key={value} value={value}>{APPLIES_TO_LABELS[value]}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="md:col-span-3">
+              <Label>Days</Label>
+              <div className="flex flex-wrap gap-2 mt-1">
+                {WEEKDAY_LABELS.map((dayLabel, day) => (
+                  <button
+                    key={dayLabel}
+                    type="button"
+                    onClick={() => toggleWeekday(day)}
+                    className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                      formData.weekdays.includes(day)
+                        ? "border-[#FF69B4] bg-pink-50 text-[#FF1493]"
+                        : "border-gray-200 text-gray-500 hover:border-gray-300"
+                    }`}
+                  >
+                    {dayLabel}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-end pb-2">
+              <Label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={formData.active}
+                  onChange={(e) => setFormData({ ...formData, active: e.target.checked })}
+                  className="w-4 h-4"
+                />
+                Offer this slot
+              </Label>
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Times are in the shop's timezone. Cancelled orders free up their place in the slot.
+          </p>
+
+          <div className="flex gap-3 mt-4">
+            <Button
+              onClick={handleSaveSlot}
+              className="bg-[#FF69B4] hover:bg-[#FF1493] text-white"
+            >
+              {editingSlot ? "Update Time Slot" : "Save Time Slot"}
+            </Button>
+            <Button
+              onClick={() => {
+                setShowAddForm(false);
+                setEditingSlot(null);
+                setFormData(emptyForm);
+              }}
+              variant="outline"
+            >
+              Cancel
+            </Button>
+          </div>
+        </motion.div>
+      )}
+
+      {/* Slots Grid */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {slots.map((slot, index) => (
+          <motion.div
+            key={slot.id}
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: index * 0.05 }}
+            className={`bg-white rounded-lg border border-gray-200 overflow-hidden hover:shadow-lg transition-shadow ${
+              slot.active ? "" : "opacity-60"
+            }`}
+          >
+            <div className="p-4">
+              <div className="flex items-start justify-between mb-2">
+                <div className="flex items-center gap-3">
+                  <Clock className="w-6 h-6 text-[#FF69B4]" />
+                  <h3>{slot.label}</h3>
+                </div>
+                <span className="px-2 py-1 bg-gray-100 rounded-full text-xs">{APPLIES_TO_LABELS[slot.appliesTo]}</span>
+              </div>
+
+              <div className="text-sm space-y-1 mb-4">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Time</span>
+                  <span>{formatSlotTime(slot.startTime)} - {formatSlotTime(slot.endTime)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Orders per day</span>
+                  <span>{slot.capacity ?? "No limit"}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Days</span>
+                  <span>{formatWeekdays(slot.weekdays)}</span>
+                </div>
+              </div>
+
+              <div className="flex gap-2 mb-3">
+                <button
+                  onClick={() => handleToggleActive(slot.id)}
+                  className={`flex-1 px-3 py-2 rounded-md text-sm transition-colors ${
+                    slot.active
+                      ? "bg-green-50 text-green-700 hover:bg-green-100"
+                      : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                  }`}
+                >
+                  {slot.active ? "Active" : "Inactive"}
+                </button>
+              </div>
+
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleEditSlot(slot)}
+                  className="flex-1 px-3 py-2 bg-gray-100 hover:bg-gray-200 rounded-md text-sm flex items-center justify-center gap-2 transition-colors"
+                >
+                  <Edit2 className="w-4 h-4" />
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDeleteSlot(slot.id)}
+                  className="flex-1 px-3 py-2 bg-red-50 hover:bg-red-100 text-red-600 rounded-md text-sm flex items-center justify-center gap-2 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Delete
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        ))}
+      </div>
+
+      {!loading && slots.length === 0 && (
+        <div className="text-center py-12 text-gray-500">
+          No time slots yet. Customers need at least one active slot to choose a delivery or pickup time at checkout.
+        </div>
+      )}
+    </div>
+  );
+}
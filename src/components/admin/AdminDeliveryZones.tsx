@@ -0,0 +1,387 @@
+import { useEffect, useState } from "react";
+import { motion } from "motion/react";
+import { Plus, Edit2, Trash2, MapPin } from "lucide-react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import supabase from "../../services/supabaseClient";
+import { fetchDeliveryZones, mapDeliveryZone, formatCutoff, type DeliveryZone } from "../../services/deliveryZoneService";
+import { toast } from "sonner";
+
+const emptyForm = {
+  name: "",
+  cities: "",
+  zipCodes: "",
+  fee: "",
+  minOrder: "",
+  sameDayCutoff: "",
+  sortOrder: "",
+  active: true
+};
+
+/** Comma- or newline-separated list to a clean array */
+const splitList = (value: string) =>
+  Array.from(new Set(value.split(/[,\n]/).map((item) => item.trim()).filter(Boolean)));
+
+const sortZones = (zones: DeliveryZone[]) =>
+  [...zones].sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
+
+export function AdminDeliveryZones() {
+  const [zones, setZones] = useState<DeliveryZone[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [editingZone, setEditingZone] = useState<DeliveryZone | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    fetchDeliveryZones()
+      .then(setZones)
+      .catch((err) => toast.error(err?.message || 'Failed to load delivery zones'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleSaveZone = () => {
+    const fee = parseInt(formData.fee || "0", 10);
+    const minOrder = parseInt(formData.minOrder || "0", 10);
+    const sortOrder = parseInt(formData.sortOrder || "0", 10);
+    const cities = splitList(formData.cities);
+    const zipCodes = splitList(formData.zipCodes);
+
+    if (!formData.name.trim()) {
+      toast.error('Zone name is required');
+      return;
+    }
+    if (cities.length === 0 && zipCodes.length === 0) {
+      toast.error('Add at least one city or ZIP code');
+      return;
+    }
+    if (fee < 0 || minOrder < 0) {
+      toast.error('Fees cannot be negative');
+      return;
+    }
+
+    const row = {
+      name: formData.name.trim(),
+      cities,
+      zip_codes: zipCodes,
+      fee,
+      min_order: minOrder,
+      same_day_cutoff: formData.sameDayCutoff || null,
+      sort_order: sortOrder,
+      active: formData.active,
+      updated_at: new Date().toISOString()
+    };
+
+    (async () => {
+      try {
+        if (editingZone) {
+          const { data, error } = await supabase
+            .from('delivery_zones')
+            .update(row)
+            .eq('id', editingZone.id)
+            .select()
+            .single();
+          if (error) throw error;
+
+          setZones(sortZones(zones.map(zone => zone.id === editingZone.id ? mapDeliveryZone(data) : zone)));
+          setEditingZone(null);
+          toast.success('Zone updated');
+        } else {
+          const { data, error } = await supabase
+            .from('delivery_zones')
+            .insert(row)
+            .select()
+            .single();
+          if (error) throw error;
+
+          setZones(sortZones([...zones, mapDeliveryZone(data)]));
+          toast.success('Zone added');
+        }
+      } catch (err: any) {
+        console.error('Failed to save zone', err);
+        toast.error(err?.message || 'Failed to save zone');
+      } finally {
+        setFormData(emptyForm);
+        setShowAddForm(false);
+      }
+    })();
+  };
+
+  const handleEditZone = (zone: DeliveryZone) => {
+    setEditingZone(zone);
+    setFormData({
+      name: zone.name,
+      cities: zone.cities.join(", "),
+      zipCodes: zone.zipCodes.join(", "),
+      fee: String(zone.fee),
+      minOrder: String(zone.minOrder),
+      sameDayCutoff: zone.sameDayCutoff?.slice(0, 5) ?? "",
+      sortOrder: String(zone.sortOrder),
+      active: zone.active
+    });
+    setShowAddForm(true);
+  };
+
+  const handleDeleteZone = (id: string) => {
+    (async () => {
+      try {
+        const { error } = await supabase.from('delivery_zones').delete().eq('id', id);
+        if (error) throw error;
+        setZones(zones.filter(zone => zone.id !== id));
+        toast.success('Zone deleted');
+      } catch (err: any) {
+        console.error('Failed to delete zone', err);
+        toast.error(err?.message || 'Failed to delete zone');
+      }
+    })();
+  };
+
+  const handleToggleActive = (id: string) => {
+    (async () => {
+      try {
+        const z = zones.find((x) => x.id === id);
+        if (!z) return;
+        const newActive = !z.active;
+        const { error } = await supabase.from('delivery_zones').update({ active: newActive }).eq('id', id);
+        if (error) throw error;
+        setZones(zones.map(zone => zone.id === id ? { ...zone, active: newActive } : zone));
+        toast.success(newActive ? 'Zone is now served' : 'Zone is no longer served');
+      } catch (err: any) {
+        console.error('Failed to toggle zone', err);
+        toast.error(err?.message || 'Failed to toggle zone');
+      }
+    })();
+  };
+
+  return (
+    <div className="p-8">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl mb-1" style={{ fontFamily: "'Playfair Display', serif" }}>
+            Delivery Zones
+          </h1>
+          <p className="text-gray-600">Areas we deliver to, with their fees, minimum orders and same-day cutoffs</p>
+        </div>
+        <Button
+          onClick={() => {
+            setShowAddForm(true);
+            setEditingZone(null);
+            setFormData(emptyForm);
+          }}
+          className="bg-[#FF69B4] hover:bg-[#FF1493] text-white"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Zone
+        </Button>
+      </div>
+
+      {/* Add/Edit Form */}
+      {showAddForm && (
+        <motion.div
+          initial={{ opacity: 0, height: 0 }}
+          animate={{ opacity: 1, height: "auto" }}
+          exit={{ opacity: 0, height: 0 }}
+          className="bg-white border border-gray-200 rounded-lg p-6 mb-6"
+        >
+          <h3 className="text-xl mb-4" style={{ fontFamily: "'Playfair Display', serif" }}>
+            {editingZone ? "Edit Zone" : "Add New Zone"}
+          </h3>
+
+          <div className="grid md:grid-cols-4 gap-4">
+            <div className="md:col-span-3">
+              <Label htmlFor="zoneName">Name</Label>
+              <Input
+                id="zoneName"
+                type="text"
+                placeholder="e.g., Metro North"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="zoneSortOrder">Sort Order</Label>
+              <Input
+                id="zoneSortOrder"
+                type="number"
+                placeholder="0"
+                value={formData.sortOrder}
+                onChange={(e) => setFormData({ ...formData, sortOrder: e.target.value })}
+              />
+            </div>
+
+            <div className="md:col-span-2">
+              <Label htmlFor="zoneCities">Cities</Label>
+              <Input
+                id="zoneCities"
+                type="text"
+                placeholder="e.g., Quezon City, Caloocan"
+                value={formData.cities}
+                onChange={(e) => setFormData({ ...formData, cities: e.target.value })}
+              />
+            </div>
+
+            <div className="md:col-span-2">
+              <Label htmlFor="zoneZipCodes">ZIP Codes</Label>
+              <Input
+                id="zoneZipCodes"
+                type="text"
+                placeholder="e.g., 1100, 1101, 1400"
+                value={formData.zipCodes}
+                onChange={(e) => setFormData({ ...formData, zipCodes: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="zoneFee">Delivery Fee (₱)</Label>
+              <Input
+                id="zoneFee"
+                type="number"
+                min={0}
+                placeholder="59"
+                value={formData.fee}
+                onChange={(e) => setFormData({ ...formData, fee: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="zoneMinOrder">Minimum Order (₱)</Label>
+              <Input
+                id="zoneMinOrder"
+                type="number"
+                min={0}
+                placeholder="0"
+                value={formData.minOrder}
+                onChange={(e) => setFormData({ ...formData, minOrder: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="zoneCutoff">Same-Day Cutoff</Label>
+              <Input
+                id="zoneCutoff"
+                type="time"
+                value={formData.sameDayCutoff}
+                onChange={(e) => setFormData({ ...formData, sameDayCutoff: e.target.value })}
+              />
+            </div>
+
+            <div className="flex items-end pb-2">
+              <Label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={formData.active}
+                  onChange={(e) => setFormData({ ...formData, active: e.target.checked })}
+                  className="w-4 h-4"
+                />
+                We deliver here
+              </Label>
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Separate cities and ZIP codes with commas. A ZIP code match takes priority over a city match.
+            Leave the cutoff empty if this zone only gets next-day delivery.
+          </p>
+
+          <div className="flex gap-3 mt-4">
+            <Button
+              onClick={handleSaveZone}
+              className="bg-[#FF69B4] hover:bg-[#FF1493] text-white"
+            >
+              {editingZone ? "Update Zone" : "Save Zone"}
+            </Button>
+            <Button
+              onClick={() => {
+                setShowAddForm(false);
+                setEditingZone(null);
+                setFormData(emptyForm);
+              }}
+              variant="outline"
+            >
+              Cancel
+            </Button>
+          </div>
+        </motion.div>
+      )}
+
+      {/* Zones Grid */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {zones.map((zone, index) => (
+          <motion.div
+            key={zone.id}
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: index * 0.05 }}
+            className={`bg-white rounded-lg border border-gray-200 overflow-hidden hover:shadow-lg transition-shadow ${
+              zone.active ? "" : "opacity-60"
+            }`}
+          >
+            <div className="p-4">
+              <div className="flex items-start justify-between mb-2">
+                <div className="flex items-center gap-3">
+                  <MapPin className="w-6 h-6 text-[#FF69B4]" />
+                  <h3>{zone.name}</h3>
+                </div>
+                <span className="px-2 py-1 bg-gray-100 rounded-full text-xs">₱{zone.fee}</span>
+              </div>
+
+              <div className="text-sm space-y-1 mb-4">
+                <p className="text-gray-600">
+                  <span className="text-gray-500">Cities:</span> {zone.cities.join(", ") || "—"}
+                </p>
+                <p className="text-gray-600">
+                  <span className="text-gray-500">ZIP codes:</span> {zone.zipCodes.join(", ") || "—"}
+                </p>
+                <div className="flex justify-between pt-1">
+                  <span className="text-gray-600">Minimum order</span>
+                  <span>{zone.minOrder > 0 ? `₱${zone.minOrder}` : "None"}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Same-day cutoff</span>
+                  <span>{zone.sameDayCutoff ? formatCutoff(zone.sameDayCutoff) : "Next day only"}</span>
+                </div>
+              </div>
+
+              <div className="flex gap-2 mb-3">
+                <button
+                  onClick={() => handleToggleActive(zone.id)}
+                  className={`flex-1 px-3 py-2 rounded-md text-sm transition-colors ${
+                    zone.active
+                      ? "bg-green-50 text-green-700 hover:bg-green-100"
+                      : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                  }`}
+                >
+                  {zone.active ? "Active" : "Inactive"}
+                </button>
+              </div>
+
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleEditZone(zone)}
+                  className="flex-1 px-3 py-2 bg-gray-100 hover:bg-gray-200 rounded-md text-sm flex items-center justify-center gap-2 transition-colors"
+                >
+                  <Edit2 className="w-4 h-4" />
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDeleteZone(zone.id)}
+                  className="flex-1 px-3 py-2 bg-red-50 hover:bg-red-100 text-red-600 rounded-md text-sm flex items-center justify-center gap-2 transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Delete
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        ))}
+      </div>
+
+      {!loading && zones.length === 0 && (
+        <div className="text-center py-12 text-gray-500">
+          No delivery zones yet. Customers can only choose store pickup until you add one.
+        </div>
+      )}
+    </div>
+  );
+}
@@ -133,18 +133,17 @@ export function AdminDrivers() {
 
   const handleToggleAvailability = async (driver: Driver) => {
     try {
-      const newAvailability = !driver.isAvailable;
-      await updateDriver(driver.id, { isAvailable: newAvailability });
+      const updated = await updateDriver(driver.id, { offDuty: !driver.offDuty });
 
-      // Update local state
+      // Update local state; is_available also depends on the driver's open deliveries
       setDrivers(
         drivers.map((d) =>
-          d.id === driver.id ? { ...d, isAvailable: newAvailability } : d
+          d.id === driver.id ? updated ?? { ...d, offDuty: !driver.offDuty } : d
         )
       );
 
       toast.success(
-        `Driver ${newAvailability ? "is now available" : "is no longer available"}`
+        `Driver ${driver.offDuty ? "is back on duty" : "is now off duty"}`
       );
     } catch (err: any) {
       console.error("Error updating driver availability:", err);
@@ -470,11 +469,11 @@ export function AdminDrivers() {
                 <button
                   onClick={() => handleToggleAvailability(driver)}
                   className="p-2 hover:bg-blue-50 rounded-lg transition-colors"
-                  title={driver.isAvailable ? "Mark unavailable" : "Mark available"}
+                  title={driver.offDuty ? "Mark on duty" : "Mark off duty"}
                 >
                   <CheckCircle
                     className={`w-5 h-5 ${
-                      driver.isAvailable ? "text-blue-600" : "text-gray-400"
+                      driver.offDuty ? "text-gray-400" : "text-blue-600"
                     }`}
                   />
                 </button>
@@ -1,11 +1,12 @@
 import { useState } from "react";
 import { motion } from "motion/react";
-import { Plus, Edit2, Trash2, Search } from "lucide-react";
+import { Plus, Edit2, Trash2, Search, PackagePlus, AlertTriangle } from "lucide-react";
 import { Button } from "../ui/button";
 import { Input } from "../ui/input";
 import { Label } from "../ui/label";
 import { ImageWithFallback } from "../figma/ImageWithFallback";
 import supabase from "../../services/supabaseClient";
+import { FLOWER_TYPE_COLUMNS, adjustFlowerStock, isLowStock, mapFlowerType } from "../../services/flowerStockService";
 import { toast } from "sonner";
 import type { FlowerType } from "../../data/bouquetData";
 
@@ -23,44 +24,70 @@ export function AdminFlowerTypes({ flowers, onUpdateFlowers }: AdminFlowerTypesP
     name: "",
     image: "",
     category: "",
+    surcharge: "",
+    reorderThreshold: "",
+    unitCost: "",
     available: true
   });
+  const [showLowStockOnly, setShowLowStockOnly] = useState(false);
+  const [restockingId, setRestockingId] = useState<string | null>(null);
+  const [restockQuantity, setRestockQuantity] = useState("");
 
-  const filteredFlowers = flowers.filter((flower) =>
+  const lowStockFlowers = flowers.filter(isLowStock);
+
+  const filteredFlowers = (showLowStockOnly ? lowStockFlowers : flowers).filter((flower) =>
     flower.name.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
   const handleSaveFlower = () => {
+    const surcharge = parseInt(formData.surcharge || "0", 10);
+    const reorderThreshold = parseInt(formData.reorderThreshold || "0", 10);
+    const unitCost = parseFloat(formData.unitCost || "0");
+    if (!(surcharge >= 0) || !(reorderThreshold >= 0) || !(unitCost >= 0)) {
+      toast.error('Surcharge, reorder threshold and unit cost must be zero or more');
+      return;
+    }
+    const row = {
+      name: formData.name,
+      image: formData.image,
+      category: formData.category,
+      surcharge,
+      reorder_threshold: reorderThreshold,
+      unit_cost: unitCost,
+      available: formData.available
+    };
     if (formData.name && formData.image) {
       (async () => {
         try {
           if (editingFlower) {
-            const { error } = await supabase
+            // Availability may be overridden by the stock level, so use the saved row
+            const { data, error } = await supabase
               .from('flower_types')
-              .update({ name: formData.name, image: formData.image, category: formData.category, available: formData.available })
-              .eq('id', editingFlower.id);
+              .update(row)
+              .eq('id', editingFlower.id)
+              .select(FLOWER_TYPE_COLUMNS)
+              .single();
             if (error) throw error;
 
-            onUpdateFlowers(flowers.map(flower => flower.id === editingFlower.id ? { ...flower, ...formData } : flower));
+            onUpdateFlowers(flowers.map(flower => flower.id === editingFlower.id ? mapFlowerType(data) : flower));
             setEditingFlower(null);
             toast.success('Flower updated');
           } else {
             const { data, error } = await supabase
               .from('flower_types')
-              .insert({ name: formData.name, image: formData.image, category: formData.category, available: formData.available })
-              .select()
+              .insert(row)
+              .select(FLOWER_TYPE_COLUMNS)
               .single();
             if (error) throw error;
 
-            const newFlower: FlowerType = { id: data.id, name: data.name, image: data.image, category: data.category ?? '', available: data.available ?? true };
-            onUpdateFlowers([...flowers, newFlower]);
+            onUpdateFlowers([...flowers, mapFlowerType(data)]);
             toast.success('Flower added');
           }
         } catch (err: any) {
           console.error('Failed to save flower', err);
           toast.error(err?.message || 'Failed to save flower');
         } finally {
-          setFormData({ name: '', image: '', category: '', available: true });
+          setFormData({ name: '', image: '', category: '', surcharge: '', reorderThreshold: '', unitCost: '', available: true });
           setShowAddForm(false);
         }
       })();
@@ -73,6 +100,9 @@ export function AdminFlowerTypes({ flowers, onUpdateFlowers }: AdminFlowerTypesP
       name: flower.name,
       image: flower.image,
       category: (flower as any).category ?? "",
+      surcharge: String(flower.surcharge ?? 0),
+      reorderThreshold: String(flower.reorderThreshold ?? 0),
+      unitCost: String(flower.unitCost ?? 0),
       available: flower.available
     });
     setShowAddForm(true);
@@ -98,10 +128,20 @@ export function AdminFlowerTypes({ flowers, onUpdateFlowers }: AdminFlowerTypesP
         const f = flowers.find((x) => x.id === id);
         if (!f) return;
         const newAvailable = !f.available;
-        const { error } = await supabase.from('flower_types').update({ available: newAvailable }).eq('id', id);
+        const { data, error } = await supabase
+          .from('flower_types')
+          .update({ available: newAvailable })
+          .eq('id', id)
+          .select(FLOWER_TYPE_COLUMNS)
+          .single();
         if (error) throw error;
-        onUpdateFlowers(flowers.map(flower => flower.id === id ? { ...flower, available: newAvailable } : flower));
-        toast.success('Availability updated');
+        const updated = mapFlowerType(data);
+        onUpdateFlowers(flowers.map(flower => flower.id === id ? updated : flower));
+        if (newAvailable && !updated.available) {
+          toast.error(`Not enough ${updated.name} in stock. It will be available again once restocked.`);
+        } else {
+          toast.success('Availability updated');
+        }
       } catch (err: any) {
         console.error('Failed to toggle availability', err);
         toast.error(err?.message || 'Failed to toggle availability');
@@ -109,6 +149,25 @@ export function AdminFlowerTypes({ flowers, onUpdateFlowers }: AdminFlowerTypesP
     })();
   };
 
+  const handleRestock = (id: string) => {
+    const quantity = parseInt(restockQuantity, 10);
+    if (!(quantity > 0)) {
+      toast.error('Enter how many stems arrived');
+      return;
+    }
+    (async () => {
+      try {
+        const updated = await adjustFlowerStock(id, quantity, 'restock');
+        onUpdateFlowers(flowers.map(flower => flower.id === id ? updated : flower));
+        toast.success(`Added ${quantity} stems of ${updated.name}`);
+        setRestockingId(null);
+        setRestockQuantity("");
+      } catch (err: any) {
+        toast.error(err?.message || 'Failed to restock flower');
+      }
+    })();
+  };
+
   return (
     <div className="p-8">
       {/* Header */}
@@ -123,7 +182,7 @@ export function AdminFlowerTypes({ flowers, onUpdateFlowers }: AdminFlowerTypesP
           onClick={() => {
             setShowAddForm(true);
             setEditingFlower(null);
-        setFormData({ name: "", image: "", category: "", available: true });
+        setFormData({ name: "", image: "", category: "", surcharge: "", reorderThreshold: "", unitCost: "", available: true });
           }}
           className="bg-[#FF69B4] hover:bg-[#FF1493] text-white"
         >
@@ -132,6 +191,21 @@ export function AdminFlowerTypes({ flowers, onUpdateFlowers }: AdminFlowerTypesP
         </Button>
       </div>
 
+      {/* Low Stock Alert */}
+      {(lowStockFlowers.length > 0 || showLowStockOnly) && (
+        <div className="flex items-center justify-between bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6">
+          <div className="flex items-center gap-3 text-amber-800">
+            <AlertTriangle className="w-5 h-5" />
+            <span>
+              {lowStockFlowers.length} {lowStockFlowers.length === 1 ? 'flower is' : 'flowers are'} at or below the reorder threshold
+            </span>
+          </div>
+          <Button variant="outline" onClick={() => setShowLowStockOnly(!showLowStockOnly)}>
+            {showLowStockOnly ? 'Show All Flowers' : 'Show Low Stock'}
+          </Button>
+        </div>
+      )}
+
       {/* Search */}
       <div className="mb-6">
         <div className="relative max-w-md">
@@ -181,6 +255,45 @@ export function AdminFlowerTypes({ flowers, onUpdateFlowers }: AdminFlowerTypesP
               />
             </div>
 
+            <div className="grid md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="surcharge">Surcharge per Stem (₱)</Label>
+                <Input
+                  id="surcharge"
+                  type="number"
+                  min={0}
+                  placeholder="0"
+                  value={formData.surcharge}
+                  onChange={(e) => setFormData({ ...formData, surcharge: e.target.value })}
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="reorderThreshold">Reorder Threshold (stems)</Label>
+                <Input
+                  id="reorderThreshold"
+                  type="number"
+                  min={0}
+                  placeholder="0"
+                  value={formData.reorderThreshold}
+                  onChange={(e) => setFormData({ ...formData, reorderThreshold: e.target.value })}
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="unitCost">Unit Cost (₱)</Label>
+                <Input
+                  id="unitCost"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  placeholder="0.00"
+                  value={formData.unitCost}
+                  onChange={(e) => setFormData({ ...formData, unitCost: e.target.value })}
+                />
+              </div>
+            </div>
+
             <div>
               <Label className="flex items-center gap-2">
                 <input
@@ -205,7 +318,7 @@ export function AdminFlowerTypes({ flowers, onUpdateFlowers }: AdminFlowerTypesP
               onClick={() => {
                 setShowAddForm(false);
                 setEditingFlower(null);
-                setFormData({ name: "", image: "", category: "", available: true });
+                setFormData({ name: "", image: "", category: "", surcharge: "", reorderThreshold: "", unitCost: "", available: true });
               }}
               variant="outline"
             >
@@ -234,14 +347,55 @@ export function AdminFlowerTypes({ flowers, onUpdateFlowers }: AdminFlowerTypesP
               {!flower.available && (
                 <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
                   <span className="bg-red-500 text-white px-3 py-1 rounded-full text-sm">
-                    Unavailable
+                    {flower.soldOut ? "Out of Stock" : "Unavailable"}
                   </span>
                 </div>
               )}
             </div>
             
             <div className="p-4">
-              <h3 className="mb-3">{flower.name}</h3>
+              <div className="flex items-center justify-between mb-3">
+                <h3>{flower.name}</h3>
+                <span className="text-sm text-gray-600">
+                  {flower.surcharge > 0 ? `+₱${flower.surcharge}/stem` : "No surcharge"}
+                </span>
+              </div>
+
+              <div className="flex items-center justify-between text-sm mb-3">
+                <span className={isLowStock(flower) ? "text-amber-700" : "text-gray-600"}>
+                  {flower.stockOnHand === null
+                    ? "Stock not tracked"
+                    : `${flower.stockOnHand} in stock · reorder at ${flower.reorderThreshold}`}
+                </span>
+                <button
+                  onClick={() => {
+                    setRestockingId(restockingId === flower.id ? null : flower.id);
+                    setRestockQuantity("");
+                  }}
+                  className="text-[#FF69B4] hover:text-[#FF1493] flex items-center gap-1"
+                >
+                  <PackagePlus className="w-4 h-4" />
+                  Restock
+                </button>
+              </div>
+
+              {restockingId === flower.id && (
+                <div className="flex gap-2 mb-3">
+                  <Input
+                    type="number"
+                    min={1}
+                    placeholder="Stems received"
+                    value={restockQuantity}
+                    onChange={(e) => setRestockQuantity(e.target.value)}
+                  />
+                  <Button
+                    onClick={() => handleRestock(flower.id)}
+                    className="bg-[#FF69B4] hover:bg-[#FF1493] text-white"
+                  >
+                    Add
+                  </Button>
+                </div>
+              )}
               
               <div className="flex gap-2 mb-3">
                 <button
@@ -279,7 +433,7 @@ export function AdminFlowerTypes({ flowers, onUpdateFlowers }: AdminFlowerTypesP
 
       {filteredFlowers.length === 0 && (
         <div className="text-center py-12 text-gray-500">
-          No flowers found
+          {showLowStockOnly ? "No flowers are low on stock" : "No flowers found"}
         </div>
       )}
     </div>
@@ -1,29 +1,41 @@
 import { useState } from "react";
-import { LayoutDashboard, ShoppingBag, Package, Calendar, Truck, LogOut, ChevronDown, ChevronRight } from "lucide-react";
+import { LayoutDashboard, ShoppingBag, Package, Calendar, Truck, MapPin, Clock, LogOut, ChevronDown, ChevronRight } from "lucide-react";
 import { motion, AnimatePresence } from "motion/react";
+import { can, type Role } from "../../permissions";
+import { ADMIN_SECTION_RESOURCES } from "../../routes";
 
 interface AdminLayoutProps {
   children: React.ReactNode;
+  role: Role | null;
   currentSection: string;
   onSectionChange: (section: string) => void;
   onLogout: () => void;
+  /** Unread counts shown next to sidebar items, keyed by section id */
+  badges?: Record<string, number>;
 }
 
-export function AdminLayout({ children, currentSection, onSectionChange, onLogout }: AdminLayoutProps) {
+export function AdminLayout({ children, role, currentSection, onSectionChange, onLogout, badges }: AdminLayoutProps) {
   const [categoriesExpanded, setCategoriesExpanded] = useState(false);
 
+  // Only show sections this role can manage
+  const canManage = (sectionId: string) => can(role, ADMIN_SECTION_RESOURCES[sectionId], "manage");
+
   const navItems = [
     { id: "reports", label: "Reports", icon: LayoutDashboard },
     { id: "orders", label: "Orders", icon: ShoppingBag },
     { id: "products", label: "Products", icon: Package },
     { id: "drivers", label: "Drivers", icon: Truck },
-  ];
+    { id: "delivery-zones", label: "Delivery Zones", icon: MapPin },
+    { id: "delivery-schedule", label: "Delivery Schedule", icon: Clock },
+  ].filter((item) => canManage(item.id));
 
   const categoryItems = [
+    { id: "add-ons", label: "Add-ons" },
     { id: "bouquet-colors", label: "Bouquet Color" },
+    { id: "bouquet-sizes", label: "Bouquet Size" },
     { id: "categories", label: "Categories" },
     { id: "flower-types", label: "Flower Type" },
-  ];
+  ].filter((item) => canManage(item.id));
 
   return (
     <div className="flex h-screen bg-gray-100 overflow-hidden">
@@ -58,12 +70,21 @@ export function AdminLayout({ children, currentSection, onSectionChange, onLogou
                 }`}
               >
                 <Icon className="w-5 h-5" />
-                <span>{item.label}</span>
+                <span className="flex-1 text-left">{item.label}</span>
+                {!!badges?.[item.id] && (
+                  <span
+                    className="min-w-[1.5rem] px-1.5 py-0.5 rounded-full bg-white text-[#FF1493] text-xs"
+                    aria-label={`${badges[item.id]} new`}
+                  >
+                    {badges[item.id]}
+                  </span>
+                )}
               </motion.button>
             );
           })}
 
           {/* Categories with Collapsible Sub-items */}
+          {categoryItems.length > 0 && (
           <div className="mb-2">
             <motion.button
               onClick={() => setCategoriesExpanded(!categoriesExpanded)}
@@ -116,6 +137,7 @@ export function AdminLayout({ children, currentSection, onSectionChange, onLogou
               )}
             </AnimatePresence>
           </div>
+          )}
         </nav>
 
         {/* Logout - Fixed at bottom */}
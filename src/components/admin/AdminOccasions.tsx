@@ -5,22 +5,19 @@ import { Button } from "../ui/button";
 import { Input } from "../ui/input";
 import { Label } from "../ui/label";
 import { Textarea } from "../ui/textarea";
-import supabase from "../../services/supabaseClient";
-
-interface CategoryInfo {
-  id: string;
-  name: string;
-  description?: string | null;
-  image?: string | null;
-}
+import {
+  fetchCategories as fetchCatalogCategories,
+  saveCategory,
+  deleteCategory,
+  type CatalogCategory,
+} from "../../services/catalogService";
 
 export function AdminOccasions() {
-  const [occasions, setOccasions] = useState<CategoryInfo[]>([]);
-  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [occasions, setOccasions] = useState<CatalogCategory[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [editingOccasion, setEditingOccasion] = useState<CategoryInfo | null>(null);
+  const [editingOccasion, setEditingOccasion] = useState<CatalogCategory | null>(null);
   const [formData, setFormData] = useState({
     name: "",
     description: "",
@@ -33,38 +30,17 @@ export function AdminOccasions() {
     setLoading(true);
     setError(null);
     try {
-      const { data: catsData, error: catsErr } = await supabase.from('categories').select('*').order('name');
-      if (catsErr) throw catsErr;
-      const cats = (catsData ?? []) as CategoryInfo[];
-
-      // fetch product -> category mappings to calculate counts
-      const catIds = cats.map(c => c.id);
-      let pc: any[] = [];
-      if (catIds.length) {
-        const { data: pcData, error: pcErr } = await supabase.from('product_categories').select('category_id,product_id').in('category_id', catIds);
-        if (pcErr) {
-          console.warn('Failed to load product_categories', pcErr.message || pcErr);
-        } else {
-          pc = pcData ?? [];
-        }
-      }
-
-      const countsMap: Record<string, number> = {};
-      pc.forEach((r) => { countsMap[r.category_id] = (countsMap[r.category_id] || 0) + 1; });
-
-      setOccasions(cats);
-      setCounts(countsMap);
+      setOccasions(await fetchCatalogCategories());
     } catch (err: any) {
       console.error(err);
       setError(err?.message ?? String(err));
       setOccasions([]);
-      setCounts({});
     } finally {
       setLoading(false);
     }
   }
 
-  const handleOpenModal = (occasion?: CategoryInfo) => {
+  const handleOpenModal = (occasion?: CatalogCategory) => {
     if (occasion) {
       setEditingOccasion(occasion);
       setFormData({
@@ -94,19 +70,10 @@ export function AdminOccasions() {
       setLoading(true);
       setError(null);
       try {
-        if (editingOccasion) {
-          // update
-          const { error: upErr } = await supabase.from('categories').update({
-            name: formData.name,
-            description: formData.description,
-            image: formData.image || null,
-          }).eq('id', editingOccasion.id);
-          if (upErr) throw upErr;
-        } else {
-          // insert
-          const { data: ins, error: insErr } = await supabase.from('categories').insert([{ name: formData.name, description: formData.description, image: formData.image || null }]).select().limit(1).single();
-          if (insErr) throw insErr;
-        }
+        await saveCategory(
+          { name: formData.name, description: formData.description, image: formData.image || null },
+          editingOccasion?.id
+        );
         await fetchCategories();
         handleCloseModal();
       } catch (err: any) {
@@ -124,10 +91,7 @@ export function AdminOccasions() {
       setLoading(true);
       setError(null);
       try {
-        // remove product mappings first
-        await supabase.from('product_categories').delete().eq('category_id', id);
-        // delete category
-        await supabase.from('categories').delete().eq('id', id);
+        await deleteCategory(id);
         await fetchCategories();
       } catch (err: any) {
         console.error(err);
@@ -160,7 +124,7 @@ export function AdminOccasions() {
   {/* Categories Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
         {occasions.map((occasion, index) => {
-          const productCount = counts[occasion.id] || 0;
+          const productCount = occasion.productCount;
 
           return (
             <motion.div
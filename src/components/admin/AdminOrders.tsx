@@ -1,20 +1,38 @@
 import { useState, useEffect } from "react";
 import supabase from "../../services/supabaseClient";
 import { motion } from "motion/react";
-import { Search, Trash2, Check } from "lucide-react";
+import { Search, Trash2, Check, RotateCcw, Printer, Gift, Truck, Bell, BellOff, LayoutList, Columns3 } from "lucide-react";
 import { Button } from "../ui/button";
 import { Input } from "../ui/input";
-import { toast, Toaster } from "sonner";
+import { toast } from "sonner";
 import { fetchDrivers, assignDriverToOrder, type Driver } from "../../services/driverService";
+import { fetchOrders, matchesOrderNumber, getNextOrderStatuses, updateOrderStatus, type OrderStatus } from "../../services/orderService";
+import { fetchOrderPayments, refundPayment, awaitsPaymentBeforePreparing, PAYMENT_STATUS_LABELS } from "../../services/paymentService";
+import { PaymentVerificationQueue } from "./PaymentVerificationQueue";
+import { formatScheduleDate, toDateKey } from "../../services/scheduleService";
+import { PrintableOrders, type PrintJob } from "./PrintableOrders";
+import { OrderBoard } from "./OrderBoard";
+import { isOrderSoundEnabled, setOrderSoundEnabled } from "../../services/orderAlertService";
+import { OrderStatusTimeline, getOrderStatusColor } from "../OrderStatusTimeline";
+import { describeCustomBouquet } from "../../services/customBouquetService";
+import { describeProductOptions } from "../../services/catalogService";
 import type { Order } from "../../App";
 
 interface AdminOrdersProps {
   orders: Order[];
   onUpdateOrders: (orders: Order[]) => void;
+  /** Set by the /admin/orders/:id route to show a single order */
+  focusedOrderId?: string;
+  onFocusOrder?: (orderId: string | null) => void;
+  /** Changes whenever realtime reports an order change; triggers a refetch */
+  refreshToken?: number;
+  /** Orders that arrived while the dashboard was open, highlighted until accepted */
+  newOrderIds?: Set<string>;
 }
 
-export function AdminOrders({ orders, onUpdateOrders }: AdminOrdersProps) {
+export function AdminOrders({ orders, onUpdateOrders, focusedOrderId, onFocusOrder, refreshToken, newOrderIds }: AdminOrdersProps) {
   const [searchQuery, setSearchQuery] = useState("");
+  const [sortBy, setSortBy] = useState<"scheduled" | "newest">("scheduled");
   const [entriesPerPage, setEntriesPerPage] = useState(100);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -23,28 +41,95 @@ export function AdminOrders({ orders, onUpdateOrders }: AdminOrdersProps) {
   const [drivers, setDrivers] = useState<Driver[]>([]);
   const [driversLoading, setDriversLoading] = useState(true);
   const [assigningDriverTo, setAssigningDriverTo] = useState<string | null>(null);
+  const [refundOrder, setRefundOrder] = useState<Order | null>(null);
+  const [refundAmount, setRefundAmount] = useState("");
+  const [refundReason, setRefundReason] = useState("");
+  const [refunding, setRefunding] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [manifestDate, setManifestDate] = useState(() => toDateKey(new Date()));
+  const [printJob, setPrintJob] = useState<PrintJob | null>(null);
+  const [view, setView] = useState<"table" | "board">("table");
+  const [soundOn, setSoundOn] = useState(isOrderSoundEnabled);
 
   const filteredOrders = orders.filter((order) =>
+    focusedOrderId ? order.id === focusedOrderId :
+    matchesOrderNumber(order.orderId, searchQuery) ||
     Object.values(order).some((value) => {
       if (typeof value === 'string') {
         return value.toLowerCase().includes(searchQuery.toLowerCase());
       }
       return false;
     })
-  );
+  ).sort((a, b) => {
+    // Soonest slot first; unscheduled orders after, newest first
+    if (sortBy === "scheduled" && (a.scheduledFor || b.scheduledFor)) {
+      if (!a.scheduledFor) return 1;
+      if (!b.scheduledFor) return -1;
+      return a.scheduledFor.localeCompare(b.scheduledFor);
+    }
+    return b.date.localeCompare(a.date);
+  });
+
+  const selectedOrders = filteredOrders.filter((order) => selectedIds.has(order.id));
+  const allVisibleSelected = filteredOrders.length > 0 && filteredOrders.every((order) => selectedIds.has(order.id));
+
+  const toggleSelected = (orderId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(orderId)) next.delete(orderId);
+      else next.add(orderId);
+      return next;
+    });
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allVisibleSelected ? new Set() : new Set(filteredOrders.map((order) => order.id)));
+  };
+
+  const driverDisplayName = (order: Order) =>
+    order.driver === "Unassigned"
+      ? "Unassigned"
+      : drivers.find((d) => d.profileId === order.driver || d.name === order.driver)?.name ?? order.driver;
+
+  const handlePrintGiftCards = () => {
+    const withMessage = selectedOrders.filter((order) => order.cardMessage);
+    if (withMessage.length === 0) {
+      toast.error('None of the selected orders have a card message');
+      return;
+    }
+    setPrintJob({ kind: "gift-cards", orders: withMessage });
+  };
+
+  const handlePrintManifest = () => {
+    const stops = orders
+      .filter((order) =>
+        order.deliveryOption === "delivery" &&
+        order.scheduledDate === manifestDate &&
+        !["Cancelled", "Refunded"].includes(order.status)
+      )
+      .sort((a, b) => (a.scheduledFor ?? "").localeCompare(b.scheduledFor ?? ""));
+    if (stops.length === 0) {
+      toast.error(`No deliveries scheduled for ${formatScheduleDate(manifestDate)}`);
+      return;
+    }
+    setPrintJob({ kind: "manifest", orders: stops, date: manifestDate });
+  };
+
+  const handleUpdateStatus = async (orderId: string, newStatus: OrderStatus) => {
+    // Cancellations and refunds need a reason on the timeline
+    let note: string | undefined;
+    if (newStatus === "Cancelled" || newStatus === "Refunded") {
+      const reason = window.prompt(`Reason for marking this order ${newStatus.toLowerCase()}:`);
+      if (reason === null) return;
+      note = reason;
+    }
 
-  const handleUpdateStatus = async (orderId: string, newStatus: "Pending" | "Confirmed" | "Preparing" | "Ready" | "Delivered") => {
     try {
       // Show loading toast
       const toastId = toast.loading('Updating order status...');
       
-      // First update in Supabase (don't send updated_at from client)
-      const { error } = await supabase
-        .from('orders')
-        .update({ status: newStatus })
-        .eq('id', orderId);
-
-      if (error) throw error;
+      // The database rejects transitions the state machine doesn't allow
+      await updateOrderStatus(orderId, newStatus, note);
 
       // If successful, update local state
       onUpdateOrders(orders.map(order => 
@@ -69,13 +154,7 @@ export function AdminOrders({ orders, onUpdateOrders }: AdminOrdersProps) {
     try {
       const toastId = toast.loading('Accepting order...');
       
-      // Update status to Confirmed directly
-      const { error } = await supabase
-        .from('orders')
-        .update({ status: 'Confirmed' })
-        .eq('id', orderId);
-
-      if (error) throw error;
+      await updateOrderStatus(orderId, 'Confirmed');
 
       // Update local state
       onUpdateOrders(orders.map(order => 
@@ -96,30 +175,35 @@ export function AdminOrders({ orders, onUpdateOrders }: AdminOrdersProps) {
 
   const handleAssignDriver = async (orderId: string, driverId: string) => {
     try {
-      // Don't submit empty selection
-      if (!driverId) {
+      const order = orders.find(o => o.id === orderId);
+
+      // Empty selection on an unassigned order is a no-op; on an assigned order it unassigns
+      if (!driverId && (!order || order.driver === 'Unassigned')) {
         return;
       }
 
-      const toastId = toast.loading('Assigning driver...');
+      const toastId = toast.loading(driverId ? 'Assigning driver...' : 'Unassigning driver...');
 
       // Find the driver to get their profileId (which is what the foreign key expects)
-      const selectedDriver = drivers.find(d => d.id === driverId);
-      if (!selectedDriver) {
+      const selectedDriver = driverId ? drivers.find(d => d.id === driverId) : null;
+      if (driverId && !selectedDriver) {
         throw new Error('Driver not found');
       }
 
       // Use the service function
-      const { error } = await assignDriverToOrder(orderId, selectedDriver.profileId);
+      const { error } = await assignDriverToOrder(orderId, selectedDriver?.profileId ?? null);
 
       if (error) throw error;
 
       // If successful, update local state
       onUpdateOrders(orders.map(order => 
-        order.id === orderId ? { ...order, driver: selectedDriver.name } : order
+        order.id === orderId ? { ...order, driver: selectedDriver?.name ?? 'Unassigned' } : order
       ));
 
-      toast.success('Driver assigned successfully', {
+      // Assignment changes driver availability
+      loadDrivers();
+
+      toast.success(selectedDriver ? 'Driver assigned successfully' : 'Driver unassigned', {
         id: toastId,
         duration: 2000,
       });
@@ -198,50 +282,47 @@ export function AdminOrders({ orders, onUpdateOrders }: AdminOrdersProps) {
     }
   };
 
+  const openRefundDialog = (order: Order) => {
+    setRefundOrder(order);
+    setRefundAmount(String(order.totalAmount - (order.refundedAmount ?? 0)));
+    setRefundReason("");
+  };
+
+  const handleRefund = async () => {
+    if (!refundOrder) return;
+    const amount = Number(refundAmount);
+    const remaining = refundOrder.totalAmount - (refundOrder.refundedAmount ?? 0);
+    if (!Number.isInteger(amount) || amount <= 0 || amount > remaining) {
+      toast.error(`Enter a whole amount between ₱1 and ₱${remaining}`);
+      return;
+    }
+
+    setRefunding(true);
+    try {
+      const payments = await fetchOrderPayments(refundOrder.id);
+      const payment = payments.find((p) => p.status === "succeeded" && p.amount > p.refundedAmount);
+      if (!payment) throw new Error("No completed card payment found for this order");
+
+      await refundPayment(payment.id, amount, refundReason);
+      toast.success(`Refunded ₱${amount.toFixed(2)} for order ${refundOrder.orderId}`);
+      setRefundOrder(null);
+      await fetchOrdersFromDb();
+    } catch (err: any) {
+      toast.error(err?.message || 'Failed to issue refund', { duration: 5000 });
+    } finally {
+      setRefunding(false);
+    }
+  };
+
   // Fetch orders from Supabase and map to app Order shape
   const fetchOrdersFromDb = async () => {
     setLoading(true);
     setError(null);
     try {
-      // Get orders with order_items and basic profile info
-      const { data: ordersData, error: ordersErr } = await supabase
-        .from("orders")
-        .select(`*, order_items(*) , profiles:user_id(full_name)`) 
-        .order("created_at", { ascending: false });
-
-      if (ordersErr) throw ordersErr;
-
-      // Collect all product ids from items to fetch product details
-      const allProductIds = new Set<string>();
-      (ordersData || []).forEach((o: any) => {
-        (o.order_items || []).forEach((it: any) => allProductIds.add(it.product_id));
-      });
-
-      let productsMap: Record<string, any> = {};
-      if (allProductIds.size > 0) {
-        const ids = Array.from(allProductIds);
-        const { data: products } = await supabase.from("products").select("id,name,price,image").in("id", ids);
-        (products || []).forEach((p: any) => { productsMap[p.id] = p; });
-      }
-
-      // Map to local Order shape
-      const mapped = (ordersData || []).map((o: any) => ({
-        id: o.id,
-        name: o.profiles?.full_name ?? "",
-        orderId: o.order_number ?? o.id,
-        items: (o.order_items || []).map((it: any) => ({ product: productsMap[it.product_id] ?? { id: it.product_id, name: 'Unknown', price: it.price || 0, image: '' }, quantity: it.quantity })),
-        totalAmount: o.total_amount ?? 0,
-        phone: o.phone ?? "",
-        date: o.date ?? (o.created_at ? o.created_at.split('T')[0] : ""),
-        status: o.status ?? 'Pending',
-        payment: o.payment ?? 'Cash',
-        driver: o.driver_id ?? 'Unassigned',
-        deliveryAddress: o.delivery_address ?? '',
-        deliveryOption: o.delivery_option ?? 'delivery'
-      }));
+      const mapped = await fetchOrders();
 
       // Merge DB orders with any existing local/fallback orders so admins don't lose visibility
-      const dbIds = new Set(mapped.map((o: any) => o.id));
+      const dbIds = new Set(mapped.map((o) => o.id));
       const merged = [
         // prefer DB-provided orders first
         ...mapped,
@@ -278,6 +359,11 @@ export function AdminOrders({ orders, onUpdateOrders }: AdminOrdersProps) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  useEffect(() => {
+    if (refreshToken) fetchOrdersFromDb();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [refreshToken]);
+
 
   return (
     <div className="p-8">
@@ -290,12 +376,68 @@ export function AdminOrders({ orders, onUpdateOrders }: AdminOrdersProps) {
           <p className="text-gray-600">Manage and track all orders</p>
         </div>
         <div className="flex gap-3">
+          <Button
+            variant="outline"
+            onClick={() => {
+              setOrderSoundEnabled(!soundOn);
+              setSoundOn(!soundOn);
+            }}
+            title={soundOn ? "Mute new-order sound" : "Play a sound for new orders"}
+          >
+            {soundOn ? <Bell className="w-4 h-4" /> : <BellOff className="w-4 h-4" />}
+          </Button>
+          <div className="flex rounded-md border border-gray-300 overflow-hidden">
+            <button
+              onClick={() => setView("table")}
+              className={`px-3 py-2 text-sm flex items-center gap-1 ${view === "table" ? "bg-[#FF69B4] text-white" : "bg-white hover:bg-gray-50"}`}
+            >
+              <LayoutList className="w-4 h-4" />
+              Table
+            </button>
+            <button
+              onClick={() => setView("board")}
+              className={`px-3 py-2 text-sm flex items-center gap-1 ${view === "board" ? "bg-[#FF69B4] text-white" : "bg-white hover:bg-gray-50"}`}
+            >
+              <Columns3 className="w-4 h-4" />
+              Board
+            </button>
+          </div>
           <Button className="bg-[#FF69B4] hover:bg-[#FF1493] text-white">
             View All Orders
           </Button>
         </div>
       </div>
 
+      {/* Deep-linked order */}
+      {focusedOrderId && (
+        <div className="bg-pink-50 border border-pink-100 rounded-lg px-4 py-3 mb-6 flex items-center justify-between">
+          <span className="text-sm text-gray-700">
+            Showing order {orders.find(o => o.id === focusedOrderId)?.orderId ?? focusedOrderId}
+          </span>
+          <button
+            onClick={() => onFocusOrder?.(null)}
+            className="text-sm text-[#FF69B4] hover:text-[#FF1493]"
+          >
+            Show all orders
+          </button>
+        </div>
+      )}
+
+      {/* Status timeline for the deep-linked order */}
+      {focusedOrderId && (
+        <div className="bg-white p-6 rounded-lg border border-gray-200 mb-6">
+          <h2 className="text-lg mb-4">Status History</h2>
+          <OrderStatusTimeline
+            orderId={focusedOrderId}
+            status={orders.find(o => o.id === focusedOrderId)?.status}
+            showActorNames
+          />
+        </div>
+      )}
+
+      {/* Proofs of e-wallet and bank-transfer payments waiting for review */}
+      <PaymentVerificationQueue onReviewed={fetchOrdersFromDb} />
+
       {/* Controls */}
       <div className="bg-white p-6 rounded-lg border border-gray-200 mb-6">
         <div className="flex items-center justify-between gap-4">
@@ -314,20 +456,70 @@ export function AdminOrders({ orders, onUpdateOrders }: AdminOrdersProps) {
             <span className="text-gray-600">entries</span>
           </div>
 
+          <div className="flex items-center gap-2">
+            <span className="text-gray-600">Sort by</span>
+            <select
+              value={sortBy}
+              onChange={(e) => setSortBy(e.target.value as "scheduled" | "newest")}
+              className="px-3 py-2 border border-gray-300 rounded-md bg-white"
+            >
+              <option value="scheduled">Delivery / pickup time</option>
+              <option value="newest">Newest orders</option>
+            </select>
+          </div>
+
           <div className="relative flex-1 max-w-md">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
             <Input
               type="text"
-              placeholder="Search..."
+              placeholder="Search by order number, name, phone..."
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               className="pl-10 w-full"
             />
           </div>
         </div>
+
+        {/* Printing */}
+        <div className="flex flex-wrap items-center gap-2 mt-4 pt-4 border-t border-gray-100">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={selectedOrders.length === 0}
+            onClick={() => setPrintJob({ kind: "tickets", orders: selectedOrders })}
+          >
+            <Printer className="w-4 h-4 mr-1" />
+            Print Tickets{selectedOrders.length > 0 && ` (${selectedOrders.length})`}
+          </Button>
+          <Button variant="outline" size="sm" disabled={selectedOrders.length === 0} onClick={handlePrintGiftCards}>
+            <Gift className="w-4 h-4 mr-1" />
+            Print Gift Cards
+          </Button>
+          <div className="flex items-center gap-2 ml-auto">
+            <span className="text-sm text-gray-600">Driver manifest for</span>
+            <Input
+              type="date"
+              value={manifestDate}
+              onChange={(e) => setManifestDate(e.target.value)}
+              className="w-auto"
+            />
+            <Button variant="outline" size="sm" disabled={!manifestDate} onClick={handlePrintManifest}>
+              <Truck className="w-4 h-4 mr-1" />
+              Print Manifest
+            </Button>
+          </div>
+        </div>
       </div>
 
-      {/* Orders Table */}
+      {/* Orders Board / Table */}
+      {view === "board" ? (
+        <OrderBoard
+          orders={filteredOrders}
+          newOrderIds={newOrderIds}
+          onMove={(order, status) => handleUpdateStatus(order.id, status)}
+          onOpen={(orderId) => onFocusOrder?.(orderId)}
+        />
+      ) : (
       <motion.div
         initial={{ opacity: 0, y: 20 }}
         animate={{ opacity: 1, y: 0 }}
@@ -337,6 +529,15 @@ export function AdminOrders({ orders, onUpdateOrders }: AdminOrdersProps) {
           <table className="w-full min-w-max">
             <thead className="bg-gray-50 border-b border-gray-200 sticky top-0">
               <tr>
+                <th className="px-3 sm:px-4 py-3 text-left">
+                  <input
+                    type="checkbox"
+                    checked={allVisibleSelected}
+                    onChange={toggleSelectAll}
+                    aria-label="Select all orders"
+                    className="w-4 h-4"
+                  />
+                </th>
                 <th className="px-3 sm:px-4 py-3 text-left text-xs sm:text-sm text-gray-600 whitespace-nowrap">#</th>
                 <th className="px-3 sm:px-4 py-3 text-left text-xs sm:text-sm text-gray-600 whitespace-nowrap">Name</th>
                 <th className="px-3 sm:px-4 py-3 text-left text-xs sm:text-sm text-gray-600 whitespace-nowrap">Order Id</th>
@@ -344,6 +545,7 @@ export function AdminOrders({ orders, onUpdateOrders }: AdminOrdersProps) {
                 <th className="px-3 sm:px-4 py-3 text-left text-xs sm:text-sm text-gray-600 whitespace-nowrap">Amount</th>
                 <th className="px-3 sm:px-4 py-3 text-left text-xs sm:text-sm text-gray-600 whitespace-nowrap">Phone</th>
                 <th className="px-3 sm:px-4 py-3 text-left text-xs sm:text-sm text-gray-600 whitespace-nowrap">Order Date</th>
+                <th className="px-3 sm:px-4 py-3 text-left text-xs sm:text-sm text-gray-600 whitespace-nowrap">Scheduled</th>
                 <th className="px-3 sm:px-4 py-3 text-left text-xs sm:text-sm text-gray-600 whitespace-nowrap">Status</th>
                 <th className="px-3 sm:px-4 py-3 text-left text-xs sm:text-sm text-gray-600 whitespace-nowrap">Payment</th>
                 <th className="px-3 sm:px-4 py-3 text-left text-xs sm:text-sm text-gray-600 whitespace-nowrap">Driver</th>
@@ -358,59 +560,162 @@ export function AdminOrders({ orders, onUpdateOrders }: AdminOrdersProps) {
                     initial={{ opacity: 0 }}
                     animate={{ opacity: 1 }}
                     transition={{ delay: index * 0.05 }}
-                    className="border-b border-gray-100 hover:bg-gray-50 transition-colors"
+                    className={`border-b border-gray-100 transition-colors ${
+                      order.cancelledBy === "customer"
+                        ? "bg-red-50/60 hover:bg-red-50"
+                        : newOrderIds?.has(order.id) && order.status === "Pending"
+                          ? "bg-pink-50 hover:bg-pink-100"
+                          : "hover:bg-gray-50"
+                    }`}
                   >
+                    <td className="px-3 sm:px-4 py-3">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(order.id)}
+                        onChange={() => toggleSelected(order.id)}
+                        aria-label={`Select order ${order.orderId}`}
+                        className="w-4 h-4"
+                      />
+                    </td>
                     <td className="px-3 sm:px-4 py-3 text-xs sm:text-sm whitespace-nowrap">{index + 1}</td>
-                    <td className="px-3 sm:px-4 py-3 text-xs sm:text-sm whitespace-nowrap max-w-xs truncate">{order.name}</td>
-                    <td className="px-3 sm:px-4 py-3 text-xs sm:text-sm whitespace-nowrap">{order.orderId}</td>
+                    <td className="px-3 sm:px-4 py-3 text-xs sm:text-sm whitespace-nowrap max-w-xs truncate">
+                      {order.name}
+                      {order.senderName && order.senderName !== order.name && (
+                        <span className="block text-xs text-gray-500">From {order.senderName}</span>
+                      )}
+                      {order.recipientName && (
+                        <span className="block text-xs text-gray-500">To {order.recipientName}</span>
+                      )}
+                      {(order.anonymousSender || order.surpriseDelivery) && (
+                        <span className="flex gap-1 mt-1">
+                          {order.anonymousSender && (
+                            <span className="px-1.5 py-0.5 rounded bg-purple-100 text-purple-700 text-[10px]">Anonymous</span>
+                          )}
+                          {order.surpriseDelivery && (
+                            <span
+                              className="px-1.5 py-0.5 rounded bg-amber-100 text-amber-700 text-[10px]"
+                              title={order.senderPhone ? `Call the sender at ${order.senderPhone}, not the recipient` : undefined}
+                            >
+                              Surprise
+                            </span>
+                          )}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 sm:px-4 py-3 text-xs sm:text-sm whitespace-nowrap">
+                      <button
+                        onClick={() => onFocusOrder?.(order.id)}
+                        className="text-[#FF69B4] hover:text-[#FF1493] hover:underline"
+                      >
+                        {order.orderId}
+                      </button>
+                      {newOrderIds?.has(order.id) && order.status === "Pending" && (
+                        <span className="ml-2 px-1.5 py-0.5 rounded bg-[#FF69B4] text-white text-[10px]">New</span>
+                      )}
+                    </td>
                     <td className="px-3 sm:px-4 py-3 text-xs sm:text-sm max-w-sm">
                       <div className="max-h-12 overflow-y-auto text-ellipsis">
-                        {order.items.map(item => item.product.name).join(", ")}
+                        {order.items.map((item, itemIndex) => (
+                          <div key={itemIndex}>
+                            {item.product.name}
+                            {item.product.customBouquet && (
+                              <span className="block text-xs text-gray-500">
+                                {item.product.customBouquet.size} · {describeCustomBouquet(item.product.customBouquet)}
+                              </span>
+                            )}
+                            {describeProductOptions(item.product) && (
+                              <span className="block text-xs text-gray-500">{describeProductOptions(item.product)}</span>
+                            )}
+                          </div>
+                        ))}
                       </div>
+                      {order.cardMessage && (
+                        <p className="text-xs text-gray-600 italic mt-1 whitespace-pre-line">Card: "{order.cardMessage}"</p>
+                      )}
+                      {order.specialInstructions && (
+                        <p className="text-xs text-gray-500 mt-1">Note: {order.specialInstructions}</p>
+                      )}
                     </td>
                     <td className="px-3 sm:px-4 py-3 text-xs sm:text-sm whitespace-nowrap font-medium">₱{order.totalAmount.toFixed(2)}</td>
                     <td className="px-3 sm:px-4 py-3 text-xs sm:text-sm whitespace-nowrap">{order.phone}</td>
                     <td className="px-3 sm:px-4 py-3 text-xs sm:text-sm whitespace-nowrap">{order.date}</td>
+                    <td className="px-3 sm:px-4 py-3 text-xs sm:text-sm whitespace-nowrap">
+                      {order.scheduledDate ? (
+                        <>
+                          {formatScheduleDate(order.scheduledDate)}
+                          <span className="block text-xs text-gray-500">
+                            {order.timeSlotLabel} · {order.deliveryOption === "pickup" ? "Pickup" : "Delivery"}
+                          </span>
+                        </>
+                      ) : (
+                        <span className="text-gray-400">—</span>
+                      )}
+                    </td>
                     <td className="px-3 sm:px-4 py-3 whitespace-nowrap">
                       <select
                         value={order.status}
-                        onChange={(e) => handleUpdateStatus(order.id, e.target.value as any)}
-                        className={`px-2 sm:px-3 py-1 rounded-full text-xs border-0 cursor-pointer whitespace-nowrap ${
-                          order.status === "Delivered"
-                            ? "bg-green-100 text-green-800"
-                            : order.status === "Ready"
-                            ? "bg-blue-100 text-blue-800"
-                            : order.status === "Preparing"
-                            ? "bg-purple-100 text-purple-800"
-                            : order.status === "Confirmed"
-                            ? "bg-teal-100 text-teal-800"
-                            : "bg-yellow-100 text-yellow-800"
-                        }`}
+                        onChange={(e) => handleUpdateStatus(order.id, e.target.value as OrderStatus)}
+                        disabled={getNextOrderStatuses(order.status, order.deliveryOption).length === 0}
+                        className={`px-2 sm:px-3 py-1 rounded-full text-xs border-0 cursor-pointer whitespace-nowrap disabled:cursor-default ${getOrderStatusColor(order.status)}`}
                       >
-                        <option value="Pending">Pending</option>
-                        <option value="Confirmed">Confirmed</option>
-                        <option value="Preparing">Preparing</option>
-                        <option value="Ready">Ready</option>
-                        <option value="Delivered">Delivered</option>
+                        <option value={order.status}>{order.status}</option>
+                        {getNextOrderStatuses(order.status, order.deliveryOption).map((status) => (
+                          <option
+                            key={status}
+                            value={status}
+                            disabled={status === "Preparing" && awaitsPaymentBeforePreparing(order)}
+                          >
+                            {status}{status === "Preparing" && awaitsPaymentBeforePreparing(order) ? " (awaiting payment)" : ""}
+                          </option>
+                        ))}
                       </select>
+                      {order.cancelledBy === "customer" && (
+                        <span
+                          title={order.cancellationReason || "No reason given"}
+                          className="block mt-1 text-[10px] uppercase tracking-wide text-red-600 font-medium"
+                        >
+                          Cancelled by customer
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 sm:px-4 py-3 text-xs sm:text-sm whitespace-nowrap">
+                      {order.payment}
+                      {order.payment !== "Cash" && order.paymentStatus && (
+                        <span className={`block text-[10px] uppercase tracking-wide font-medium ${
+                          order.paymentStatus === "paid" ? "text-green-600"
+                            : order.paymentStatus === "failed" ? "text-red-600"
+                            : order.paymentStatus === "verifying" ? "text-amber-600"
+                            : "text-gray-500"
+                        }`}>
+                          {PAYMENT_STATUS_LABELS[order.paymentStatus]}
+                        </span>
+                      )}
+                      {order.payment === "Card" && (order.paymentStatus === "paid" || order.paymentStatus === "partially_refunded") && (
+                        <button
+                          onClick={() => openRefundDialog(order)}
+                          className="mt-1 text-xs text-[#FF69B4] hover:text-[#FF1493] flex items-center gap-1"
+                        >
+                          <RotateCcw size={12} />
+                          Refund
+                        </button>
+                      )}
                     </td>
-                    <td className="px-3 sm:px-4 py-3 text-xs sm:text-sm whitespace-nowrap">{order.payment}</td>
                     <td className="px-3 sm:px-4 py-3 text-xs sm:text-sm whitespace-nowrap">
                       {order.status === "Confirmed" || order.driver !== "Unassigned" ? (
                         <select
                           value={
                             order.driver === "Unassigned" 
                               ? "" 
-                              : drivers.find(d => d.name === order.driver)?.id || ""
+                              : drivers.find(d => d.profileId === order.driver || d.name === order.driver)?.id || ""
                           }
                           onChange={(e) => handleAssignDriver(order.id, e.target.value)}
                           disabled={driversLoading}
                           className="px-2 sm:px-3 py-1 rounded-md text-xs border border-gray-300 cursor-pointer hover:border-gray-400 disabled:opacity-50 disabled:cursor-not-allowed"
                         >
-                          <option value="">Select a driver...</option>
+                          <option value="">{order.driver === "Unassigned" ? "Select a driver..." : "Unassign driver"}</option>
                           {drivers.map((driver) => (
                             <option key={driver.id} value={driver.id}>
-                              {driver.name}
+                              {driver.name}{driver.isAvailable ? "" : " (busy)"}
                             </option>
                           ))}
                         </select>
@@ -444,7 +749,7 @@ export function AdminOrders({ orders, onUpdateOrders }: AdminOrdersProps) {
                 ))
               ) : (
                 <tr>
-                  <td colSpan={11} className="px-3 sm:px-6 py-12 text-center text-gray-500">
+                  <td colSpan={13} className="px-3 sm:px-6 py-12 text-center text-gray-500">
                     No orders available
                   </td>
                 </tr>
@@ -468,9 +773,52 @@ export function AdminOrders({ orders, onUpdateOrders }: AdminOrdersProps) {
           </div>
         </div>
       </motion.div>
-      
-      {/* Toast Notifications */}
-      <Toaster />
+      )}
+
+      {/* Refund Modal */}
+      {refundOrder && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+          <div className="bg-white rounded-lg shadow-lg p-6 max-w-sm w-full mx-4">
+            <h2 className="text-lg font-semibold mb-2">Refund Payment</h2>
+            <p className="text-gray-600 mb-4 text-sm">
+              Order {refundOrder.orderId} · paid ₱{refundOrder.totalAmount.toFixed(2)}
+              {(refundOrder.refundedAmount ?? 0) > 0 && `, ₱${(refundOrder.refundedAmount ?? 0).toFixed(2)} already refunded`}
+            </p>
+            <div className="space-y-3 mb-6">
+              <div>
+                <label className="block text-sm text-gray-600 mb-1">Amount (₱)</label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={refundOrder.totalAmount - (refundOrder.refundedAmount ?? 0)}
+                  value={refundAmount}
+                  onChange={(e) => setRefundAmount(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-gray-600 mb-1">Reason (optional)</label>
+                <Input value={refundReason} onChange={(e) => setRefundReason(e.target.value)} />
+              </div>
+            </div>
+            <div className="flex gap-3 justify-end">
+              <button
+                onClick={() => setRefundOrder(null)}
+                disabled={refunding}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleRefund}
+                disabled={refunding}
+                className="px-4 py-2 bg-[#FF69B4] hover:bg-[#FF1493] text-white rounded-md text-sm disabled:opacity-50"
+              >
+                {refunding ? "Refunding..." : "Issue Refund"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
 
       {/* Delete Order Confirmation Modal */}
       {isDeleteDialogOpen && (
@@ -503,6 +851,10 @@ export function AdminOrders({ orders, onUpdateOrders }: AdminOrdersProps) {
           </div>
         </div>
       )}
+
+      {printJob && (
+        <PrintableOrders job={printJob} driverName={driverDisplayName} onDone={() => setPrintJob(null)} />
+      )}
     </div>
   );
 }
@@ -1,42 +1,62 @@
 import { useState, useEffect } from "react";
 import { motion } from "motion/react";
-import { Plus, Edit, Trash2, X } from "lucide-react";
+import { Plus, Edit, Trash2, X, PackagePlus, Search } from "lucide-react";
 import { Button } from "../ui/button";
 import { Input } from "../ui/input";
 import { Label } from "../ui/label";
 import { Textarea } from "../ui/textarea";
-import { type Product as ProductType, type Category } from "../../data/products";
+import type { Category } from "../../data/products";
 import supabase from "../../services/supabaseClient";
-
-interface CategoryInfo {
-  id: string;
-  name: string;
-}
-
-type ProductRow = {
-  id: string;
-  name: string;
-  price: number;
-  image?: string;
-  badge?: string | null;
-};
+import {
+  fetchProducts as fetchCatalogProducts,
+  fetchCategories,
+  fetchSearchSuggestions,
+  searchProducts,
+  saveProduct,
+  deleteProduct,
+  type CatalogCategory,
+  type CatalogProduct,
+  type ProductInput,
+} from "../../services/catalogService";
+import {
+  adjustProductStock,
+  fetchProductComponents,
+  saveProductComponents,
+  type ProductComponent,
+} from "../../services/productInventoryService";
+import { toast } from "sonner";
+import { HighlightedText } from "../HighlightedText";
 
 export function AdminProducts() {
-  const [products, setProducts] = useState<ProductType[]>([]);
-  const [categories, setCategories] = useState<CategoryInfo[]>([]);
+  const [products, setProducts] = useState<CatalogProduct[]>([]);
+  const [flowerTypes, setFlowerTypes] = useState<{ id: string; name: string }[]>([]);
+  const [components, setComponents] = useState<ProductComponent[]>([]);
+  const [variants, setVariants] = useState<ProductInput["variants"]>([]);
+  const [restockingId, setRestockingId] = useState<string | null>(null);
+  const [restockQuantity, setRestockQuantity] = useState("");
+  const [categories, setCategories] = useState<CatalogCategory[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [editingProduct, setEditingProduct] = useState<ProductType | null>(null);
+  const [editingProduct, setEditingProduct] = useState<CatalogProduct | null>(null);
   const [formData, setFormData] = useState({
     name: "",
     price: "",
     image: "",
     categories: [] as Category[],
     badge: "",
+    description: "",
+    careInstructions: "",
+    gallery: "",
+    dailyCapacity: "",
   });
+  const [lookup, setLookup] = useState("");
+  /** Ids of the products matching the lookup, best match first; null when not searching */
+  const [lookupIds, setLookupIds] = useState<string[] | null>(null);
+  const [lookupSuggestions, setLookupSuggestions] = useState<string[]>([]);
 
-  const handleOpenModal = (product?: ProductType) => {
+  const handleOpenModal = (product?: CatalogProduct) => {
+    setComponents([]);
     if (product) {
       setEditingProduct(product);
       setFormData({
@@ -45,7 +65,15 @@ export function AdminProducts() {
         image: product.image,
         categories: product.categories,
         badge: product.badge || "",
+        description: product.description || "",
+        careInstructions: product.careInstructions || "",
+        gallery: (product.gallery ?? []).join("\n"),
+        dailyCapacity: product.dailyCapacity?.toString() ?? "",
       });
+      setVariants((product.variants ?? []).map(({ id, name, priceDelta }) => ({ id, name, priceDelta })));
+      fetchProductComponents(product.id)
+        .then(setComponents)
+        .catch(() => toast.error('Failed to load the bill of materials'));
     } else {
       setEditingProduct(null);
       setFormData({
@@ -54,7 +82,12 @@ export function AdminProducts() {
         image: "",
         categories: [],
         badge: "",
+        description: "",
+        careInstructions: "",
+        gallery: "",
+        dailyCapacity: "",
       });
+      setVariants([]);
     }
     setIsModalOpen(true);
   };
@@ -68,45 +101,13 @@ export function AdminProducts() {
     setLoading(true);
     setError(null);
     try {
-      const { data: prodData, error: prodErr } = await supabase.from('products').select('*');
-      if (prodErr) {
-        setError(prodErr.message);
-        setProducts([]);
-        return;
-      }
-
-      const prods = (prodData ?? []) as ProductRow[];
-      // fetch categories and product_categories
-      const { data: catsData } = await supabase.from('categories').select('*');
-      const cats = (catsData ?? []) as CategoryInfo[];
-      const catMap: Record<string, string> = {};
-      cats.forEach((c) => { catMap[c.id] = c.name; });
+      const [mapped, cats] = await Promise.all([fetchCatalogProducts(), fetchCategories()]);
 
-      const prodIds = prods.map(p => p.id);
-      let pcData: any[] = [];
-      if (prodIds.length) {
-        const { data: pc, error: pcErr } = await supabase.from('product_categories').select('*').in('product_id', prodIds);
-        if (pcErr) {
-          console.warn('No product categories', pcErr);
-        } else {
-          pcData = pc ?? [];
-        }
-      }
-
-      const mapped: ProductType[] = prods.map(p => {
-        const catsForP = pcData.filter((r) => r.product_id === p.id).map(r => catMap[r.category_id]).filter(Boolean) as Category[];
-        return {
-          id: p.id,
-          name: p.name,
-          price: p.price,
-          image: p.image,
-          categories: catsForP,
-          badge: p.badge ?? undefined,
-        } as ProductType;
-      });
+      const { data: flowersData } = await supabase.from('flower_types').select('id, name').order('name', { ascending: true });
+      setFlowerTypes(flowersData ?? []);
 
       setProducts(mapped);
-      setCategories(cats.map(c => ({ id: c.id, name: c.name })));
+      setCategories(cats);
     } catch (err: any) {
       console.error(err);
       setError(err?.message ?? String(err));
@@ -117,42 +118,38 @@ export function AdminProducts() {
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    const dailyCapacity = formData.dailyCapacity ? Math.round(Number(formData.dailyCapacity)) : null;
+    if (dailyCapacity !== null && !(dailyCapacity > 0)) {
+      toast.error('Daily capacity must be at least 1, or left empty for no limit');
+      return;
+    }
+    const variantNames = variants.map(v => v.name.trim().toLowerCase());
+    if (variantNames.some(name => !name)) {
+      toast.error('Every option needs a name');
+      return;
+    }
+    if (new Set(variantNames).size !== variantNames.length) {
+      toast.error('Option names must be different');
+      return;
+    }
     (async () => {
       setLoading(true);
       setError(null);
       try {
-        if (editingProduct) {
-          // Update product row
-          await supabase.from('products').update({
-            name: formData.name,
-            price: Math.round(Number(formData.price)),
-            image: formData.image,
-            badge: formData.badge || null
-          }).eq('id', editingProduct.id);
-
-          // update categories mapping: delete old then insert new
-          await supabase.from('product_categories').delete().eq('product_id', editingProduct.id);
-          const categoryIds = categories.filter(c => formData.categories.includes(c.name as Category)).map(c => c.id);
-          if (categoryIds.length) {
-            const inserts = categoryIds.map(cid => ({ product_id: editingProduct.id, category_id: cid }));
-            await supabase.from('product_categories').insert(inserts);
-          }
-        } else {
-          // Insert new product
-          const { data: inserted, error: insertErr } = await supabase.from('products').insert([{
-            name: formData.name,
-            price: Math.round(Number(formData.price)),
-            image: formData.image,
-            badge: formData.badge || null
-          }]).select().limit(1).single();
-          if (insertErr) throw insertErr;
-          const newId = inserted.id as string;
-          const categoryIds = categories.filter(c => formData.categories.includes(c.name as Category)).map(c => c.id);
-          if (categoryIds.length) {
-            const inserts = categoryIds.map(cid => ({ product_id: newId, category_id: cid }));
-            await supabase.from('product_categories').insert(inserts);
-          }
-        }
+        const categoryIds = categories.filter(c => formData.categories.includes(c.name)).map(c => c.id);
+        const productId = await saveProduct({
+          name: formData.name,
+          price: Math.round(Number(formData.price)),
+          image: formData.image,
+          gallery: formData.gallery.split("\n").map(url => url.trim()).filter(Boolean),
+          badge: formData.badge || null,
+          description: formData.description.trim() || null,
+          careInstructions: formData.careInstructions.trim() || null,
+          dailyCapacity,
+          categoryIds,
+          variants: variants.map(v => ({ ...v, name: v.name.trim(), priceDelta: Math.round(v.priceDelta) })),
+        }, editingProduct?.id);
+        await saveProductComponents(productId, components);
         await fetchProducts();
       } catch (err: any) {
         console.error(err);
@@ -170,8 +167,7 @@ export function AdminProducts() {
       setLoading(true);
       setError(null);
       try {
-        await supabase.from('product_categories').delete().eq('product_id', id);
-        await supabase.from('products').delete().eq('id', id);
+        await deleteProduct(id);
         await fetchProducts();
       } catch (err: any) {
         console.error(err);
@@ -182,6 +178,33 @@ export function AdminProducts() {
     })();
   };
 
+  const handleRestock = (id: string) => {
+    const quantity = parseInt(restockQuantity, 10);
+    if (!(quantity > 0)) {
+      toast.error('Enter how many units to add');
+      return;
+    }
+    (async () => {
+      try {
+        const stock = await adjustProductStock(id, quantity, 'restock');
+        setProducts(prev => prev.map(p => p.id === id ? { ...p, ...stock } : p));
+        toast.success(`Added ${quantity} to stock`);
+        setRestockingId(null);
+        setRestockQuantity("");
+      } catch (err: any) {
+        toast.error(err?.message || 'Failed to restock product');
+      }
+    })();
+  };
+
+  const updateComponent = (index: number, changes: Partial<ProductComponent>) => {
+    setComponents(prev => prev.map((c, i) => i === index ? { ...c, ...changes } : c));
+  };
+
+  const updateVariant = (index: number, changes: Partial<ProductInput["variants"][number]>) => {
+    setVariants(prev => prev.map((v, i) => i === index ? { ...v, ...changes } : v));
+  };
+
   const toggleCategory = (category: Category) => {
     setFormData({
       ...formData,
@@ -193,6 +216,36 @@ export function AdminProducts() {
 
   useEffect(() => { fetchProducts(); /* eslint-disable-next-line */ }, []);
 
+  // Same search as the storefront, so typos and flower names find products here too
+  useEffect(() => {
+    const query = lookup.trim();
+    if (!query) {
+      setLookupIds(null);
+      setLookupSuggestions([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = window.setTimeout(async () => {
+      try {
+        const matches = await searchProducts(query, 100);
+        const terms = matches.length === 0 ? await fetchSearchSuggestions(query) : [];
+        if (cancelled) return;
+        setLookupIds(matches.map((p) => p.id));
+        setLookupSuggestions(terms);
+      } catch {
+        if (!cancelled) toast.error('Product search failed');
+      }
+    }, 300);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [lookup]);
+
+  const visibleProducts = lookupIds
+    ? lookupIds.map((id) => products.find((p) => p.id === id)).filter((p): p is CatalogProduct => Boolean(p))
+    : products;
+
   return (
     <div className="p-8">
       {/* Header */}
@@ -212,9 +265,41 @@ export function AdminProducts() {
         </Button>
       </div>
 
+      {/* Lookup */}
+      <div className="mb-6">
+        <div className="relative max-w-md">
+          <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <Input
+            value={lookup}
+            onChange={(e) => setLookup(e.target.value)}
+            placeholder="Find a product by name, flower or category"
+            className="pl-9"
+          />
+        </div>
+        {lookupIds && lookupIds.length === 0 && (
+          <p className="text-sm text-gray-600 mt-2">
+            No products match "{lookup.trim()}".
+            {lookupSuggestions.length > 0 && (
+              <>
+                {" "}Did you mean{" "}
+                {lookupSuggestions.map((term, index) => (
+                  <span key={term}>
+                    {index > 0 && ", "}
+                    <button onClick={() => setLookup(term)} className="text-[#FF69B4] hover:underline">
+                      {term}
+                    </button>
+                  </span>
+                ))}
+                ?
+              </>
+            )}
+          </p>
+        )}
+      </div>
+
       {/* Products Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-        {products.map((product, index) => (
+        {visibleProducts.map((product, index) => (
           <motion.div
             key={product.id}
             initial={{ opacity: 0, y: 20 }}
@@ -233,10 +318,52 @@ export function AdminProducts() {
                   {product.badge}
                 </div>
               )}
+              {product.availableQuantity === 0 && (
+                <div className="absolute top-2 right-2 bg-gray-800 text-white px-3 py-1 rounded-full text-sm">
+                  Sold Out
+                </div>
+              )}
             </div>
             <div className="p-4">
-              <h3 className="mb-2">{product.name}</h3>
+              <h3 className="mb-2">
+                <HighlightedText text={product.name} query={lookup} />
+              </h3>
               <p className="text-[#FF69B4] mb-3">₱ {Number(product.price).toFixed(2)}</p>
+              <div className="flex items-center justify-between text-sm text-gray-600 mb-3">
+                <span>
+                  {product.stockOnHand === null ? "No stock count" : `${product.stockOnHand} in stock`}
+                  {product.dailyCapacity !== null && ` · ${product.dailyCapacity}/day`}
+                  {product.availableQuantity != null && ` · ${product.availableQuantity} available`}
+                </span>
+                <button
+                  onClick={() => {
+                    setRestockingId(restockingId === product.id ? null : product.id);
+                    setRestockQuantity("");
+                  }}
+                  className="text-[#FF69B4] hover:text-[#FF1493] flex items-center gap-1"
+                >
+                  <PackagePlus className="w-4 h-4" />
+                  Restock
+                </button>
+              </div>
+              {restockingId === product.id && (
+                <div className="flex gap-2 mb-3">
+                  <Input
+                    type="number"
+                    min={1}
+                    placeholder="Units to add"
+                    value={restockQuantity}
+                    onChange={(e) => setRestockQuantity(e.target.value)}
+                  />
+                  <Button
+                    onClick={() => handleRestock(product.id)}
+                    size="sm"
+                    className="bg-[#FF69B4] hover:bg-[#FF1493] text-white"
+                  >
+                    Add
+                  </Button>
+                </div>
+              )}
               <div className="flex flex-wrap gap-1 mb-4">
                 {product.categories.slice(0, 2).map((cat) => (
                   <span key={cat} className="px-2 py-1 bg-gray-100 text-gray-600 text-xs rounded">
@@ -311,6 +438,28 @@ export function AdminProducts() {
                 />
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="product-description">Description (Optional)</Label>
+                <Textarea
+                  id="product-description"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  placeholder="What's in the bouquet, and who it's for"
+                  rows={3}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="product-care">Care Instructions (Optional)</Label>
+                <Textarea
+                  id="product-care"
+                  value={formData.careInstructions}
+                  onChange={(e) => setFormData({ ...formData, careInstructions: e.target.value })}
+                  placeholder="e.g., Trim the stems and change the water every two days"
+                  rows={2}
+                />
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="product-price">Price (₱)</Label>
                 <Input
@@ -340,6 +489,57 @@ export function AdminProducts() {
                 />
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="product-gallery">More Images (Optional)</Label>
+                <Textarea
+                  id="product-gallery"
+                  value={formData.gallery}
+                  onChange={(e) => setFormData({ ...formData, gallery: e.target.value })}
+                  placeholder="One image URL per line, shown after the main image"
+                  rows={2}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Options (Optional)</Label>
+                <p className="text-xs text-gray-500">
+                  Choices such as stem count or with a vase. The price change is added to the product price; the first option is preselected.
+                </p>
+                {variants.map((variant, index) => (
+                  <div key={variant.id ?? `new-${index}`} className="flex gap-2">
+                    <Input
+                      value={variant.name}
+                      onChange={(e) => updateVariant(index, { name: e.target.value })}
+                      placeholder="e.g., 24 stems"
+                      className="flex-1"
+                    />
+                    <Input
+                      type="number"
+                      value={variant.priceDelta}
+                      onChange={(e) => updateVariant(index, { priceDelta: Number(e.target.value) })}
+                      title="Price change (₱)"
+                      className="w-28"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setVariants(prev => prev.filter((_, i) => i !== index))}
+                      className="text-gray-400 hover:text-red-500"
+                    >
+                      <X className="w-5 h-5" />
+                    </button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setVariants(prev => [...prev, { name: "", priceDelta: 0 }])}
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add Option
+                </Button>
+              </div>
+
               <div className="space-y-2">
                 <Label>Categories</Label>
                 <div className="grid grid-cols-2 gap-2">
@@ -350,8 +550,8 @@ export function AdminProducts() {
                     >
                       <input
                         type="checkbox"
-                        checked={formData.categories.includes(cat.name as Category)}
-                        onChange={() => toggleCategory(cat.name as Category)}
+                        checked={formData.categories.includes(cat.name)}
+                        onChange={() => toggleCategory(cat.name)}
                         className="w-4 h-4 text-[#FF69B4] border-gray-300 rounded focus:ring-[#FF69B4]"
                       />
                       <span className="text-sm">{cat.name}</span>
@@ -360,6 +560,66 @@ export function AdminProducts() {
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="product-daily-capacity">Daily Capacity (Optional)</Label>
+                <Input
+                  id="product-daily-capacity"
+                  type="number"
+                  min={1}
+                  value={formData.dailyCapacity}
+                  onChange={(e) => setFormData({ ...formData, dailyCapacity: e.target.value })}
+                  placeholder="Leave empty for no daily limit"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Bill of Materials (Optional)</Label>
+                <p className="text-xs text-gray-500">
+                  Stems used per bouquet. Ordering reserves them from flower stock, and the product sells out when they run short.
+                </p>
+                {components.map((component, index) => (
+                  <div key={index} className="flex gap-2">
+                    <select
+                      value={component.flowerTypeId}
+                      onChange={(e) => updateComponent(index, { flowerTypeId: e.target.value })}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md bg-white"
+                    >
+                      {flowerTypes.map((flower) => (
+                        <option key={flower.id} value={flower.id}>{flower.name}</option>
+                      ))}
+                    </select>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={component.stems}
+                      onChange={(e) => updateComponent(index, { stems: Number(e.target.value) })}
+                      className="w-24"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setComponents(prev => prev.filter((_, i) => i !== index))}
+                      className="text-gray-400 hover:text-red-500"
+                    >
+                      <X className="w-5 h-5" />
+                    </button>
+                  </div>
+                ))}
+                {flowerTypes.length > 0 && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setComponents(prev => [
+                      ...prev,
+                      { flowerTypeId: flowerTypes.find(f => !prev.some(c => c.flowerTypeId === f.id))?.id ?? flowerTypes[0].id, stems: 1 }
+                    ])}
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add Flower
+                  </Button>
+                )}
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="product-badge">Badge (Optional)</Label>
                 <select
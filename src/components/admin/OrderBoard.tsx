@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { ORDER_STATUSES, getNextOrderStatuses, type OrderStatus } from "../../services/orderService";
+import { awaitsPaymentBeforePreparing, PAYMENT_STATUS_LABELS } from "../../services/paymentService";
+import { formatScheduleDate } from "../../services/scheduleService";
+import { getOrderStatusColor } from "../OrderStatusTimeline";
+import type { Order } from "../../App";
+
+interface OrderBoardProps {
+  orders: Order[];
+  /** Orders that arrived while the dashboard was open */
+  newOrderIds?: Set<string>;
+  onMove: (order: Order, status: OrderStatus) => void;
+  onOpen: (orderId: string) => void;
+}
+
+/** Whether the state machine (and the payment rule) lets the order move to this column */
+const canMoveTo = (order: Order, status: OrderStatus) =>
+  getNextOrderStatuses(order.status, order.deliveryOption).includes(status) &&
+  !(status === "Preparing" && awaitsPaymentBeforePreparing(order));
+
+export function OrderBoard({ orders, newOrderIds, onMove, onOpen }: OrderBoardProps) {
+  const [dragging, setDragging] = useState<Order | null>(null);
+  const [hoverStatus, setHoverStatus] = useState<OrderStatus | null>(null);
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-4">
+      {ORDER_STATUSES.map((status) => {
+        const columnOrders = orders.filter((order) => order.status === status);
+        const isTarget = dragging !== null && canMoveTo(dragging, status);
+
+        return (
+          <div
+            key={status}
+            onDragOver={(e) => {
+              if (!isTarget) return;
+              e.preventDefault();
+              setHoverStatus(status);
+            }}
+            onDragLeave={() => setHoverStatus((prev) => (prev === status ? null : prev))}
+            onDrop={(e) => {
+              e.preventDefault();
+              if (dragging && isTarget) onMove(dragging, status);
+              setDragging(null);
+              setHoverStatus(null);
+            }}
+            className={`w-64 flex-shrink-0 rounded-lg border transition-colors ${
+              hoverStatus === status
+                ? "border-[#FF69B4] bg-pink-50"
+                : isTarget
+                  ? "border-dashed border-[#FF69B4] bg-white"
+                  : "border-gray-200 bg-gray-50"
+            } ${dragging && !isTarget && dragging.status !== status ? "opacity-50" : ""}`}
+          >
+            <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+              <span className={`px-2 py-0.5 rounded-full text-xs ${getOrderStatusColor(status)}`}>{status}</span>
+              <span className="text-xs text-gray-500">{columnOrders.length}</span>
+            </div>
+
+            <div className="p-2 space-y-2 min-h-[8rem] max-h-[70vh] overflow-y-auto">
+              {columnOrders.map((order) => (
+                <div
+                  key={order.id}
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = "move";
+                    e.dataTransfer.setData("text/plain", order.id);
+                    setDragging(order);
+                  }}
+                  onDragEnd={() => {
+                    setDragging(null);
+                    setHoverStatus(null);
+                  }}
+                  onClick={() => onOpen(order.id)}
+                  className={`bg-white rounded-md border p-3 text-sm cursor-grab active:cursor-grabbing hover:shadow ${
+                    newOrderIds?.has(order.id) && order.status === "Pending" ? "border-[#FF69B4]" : "border-gray-200"
+                  }`}
+                >
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="font-medium">{order.orderId}</span>
+                    <span className="text-[#FF69B4]">₱{order.totalAmount.toFixed(2)}</span>
+                  </div>
+                  <p className="text-xs text-gray-600 truncate">{order.recipientName || order.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {order.deliveryOption === "pickup" ? "Pickup" : "Delivery"}
+                    {order.scheduledDate && ` · ${formatScheduleDate(order.scheduledDate)}, ${order.timeSlotLabel ?? ""}`}
+                  </p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {order.items.map((item) => `${item.quantity}× ${item.product.name}`).join(", ")}
+                  </p>
+                  {order.payment !== "Cash" && order.paymentStatus && order.paymentStatus !== "paid" && (
+                    <p className="text-xs text-amber-700 mt-1">
+                      {order.payment}: {PAYMENT_STATUS_LABELS[order.paymentStatus]}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
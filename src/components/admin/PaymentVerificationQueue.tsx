@@ -0,0 +1,158 @@
+import { useEffect, useState } from "react";
+import { ShieldCheck, Check, X, ExternalLink } from "lucide-react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { toast } from "sonner";
+import {
+  fetchPendingPaymentProofs,
+  getPaymentProofUrl,
+  reviewPaymentProof,
+  type PaymentProof,
+} from "../../services/paymentService";
+
+interface PaymentVerificationQueueProps {
+  /** Called after a proof is approved or rejected so the orders list can refresh */
+  onReviewed: () => void;
+}
+
+export function PaymentVerificationQueue({ onReviewed }: PaymentVerificationQueueProps) {
+  const [proofs, setProofs] = useState<PaymentProof[]>([]);
+  const [imageUrls, setImageUrls] = useState<Record<string, string>>({});
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [rejectNote, setRejectNote] = useState("");
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  const loadProofs = async () => {
+    try {
+      const pending = await fetchPendingPaymentProofs();
+      setProofs(pending);
+
+      const urls: Record<string, string> = {};
+      await Promise.all(
+        pending.map(async (proof) => {
+          try {
+            urls[proof.id] = await getPaymentProofUrl(proof.filePath);
+          } catch {
+            // The card still shows; the admin can reload to retry the image
+          }
+        })
+      );
+      setImageUrls(urls);
+    } catch (err) {
+      console.error("Failed to load payment proofs", err);
+    }
+  };
+
+  useEffect(() => {
+    loadProofs();
+  }, []);
+
+  const handleReview = async (proof: PaymentProof, approve: boolean) => {
+    if (!approve && !rejectNote.trim()) {
+      toast.error("Please tell the customer why the payment was rejected.");
+      return;
+    }
+
+    setReviewingId(proof.id);
+    try {
+      await reviewPaymentProof(proof.id, approve, approve ? undefined : rejectNote);
+      toast.success(approve ? `Payment for ${proof.orderNumber} approved` : `Payment for ${proof.orderNumber} rejected`);
+      setProofs((prev) => prev.filter((p) => p.id !== proof.id));
+      setRejectingId(null);
+      setRejectNote("");
+      onReviewed();
+    } catch (err: any) {
+      toast.error(err?.message || "Failed to review payment", { duration: 5000 });
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  if (proofs.length === 0) return null;
+
+  return (
+    <div className="bg-white p-6 rounded-lg border border-amber-200 mb-6">
+      <div className="flex items-center gap-2 mb-4">
+        <ShieldCheck className="w-5 h-5 text-amber-600" />
+        <h2 className="text-lg">Payments to Verify ({proofs.length})</h2>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+        {proofs.map((proof) => (
+          <div key={proof.id} className="border border-gray-200 rounded-lg p-4 space-y-3">
+            <div className="flex justify-between text-sm">
+              <div>
+                <p className="font-medium">{proof.orderNumber}</p>
+                <p className="text-gray-500">{proof.customerName}</p>
+              </div>
+              <div className="text-right">
+                <p className="text-[#FF69B4]">₱{proof.amount.toFixed(2)}</p>
+                <p className="text-gray-500">{proof.payment}</p>
+              </div>
+            </div>
+            {imageUrls[proof.id] ? (
+              <a href={imageUrls[proof.id]} target="_blank" rel="noreferrer" className="block relative group">
+                <img src={imageUrls[proof.id]} alt={`Proof for ${proof.orderNumber}`} className="w-full h-40 object-contain bg-gray-50 rounded" />
+                <ExternalLink className="w-4 h-4 absolute top-2 right-2 text-gray-500 opacity-0 group-hover:opacity-100" />
+              </a>
+            ) : (
+              <div className="w-full h-40 bg-gray-50 rounded flex items-center justify-center text-xs text-gray-400">
+                Image unavailable
+              </div>
+            )}
+            <p className="text-xs text-gray-600">
+              Reference: {proof.referenceNumber || "none given"} · {new Date(proof.createdAt).toLocaleString()}
+            </p>
+
+            {rejectingId === proof.id ? (
+              <div className="space-y-2">
+                <Input
+                  value={rejectNote}
+                  onChange={(e) => setRejectNote(e.target.value)}
+                  placeholder="Reason, e.g. amount does not match"
+                />
+                <div className="flex gap-2 justify-end">
+                  <Button variant="outline" size="sm" onClick={() => setRejectingId(null)} disabled={reviewingId === proof.id}>
+                    Back
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => handleReview(proof, false)}
+                    disabled={reviewingId === proof.id}
+                    className="bg-red-500 hover:bg-red-600 text-white"
+                  >
+                    Reject Payment
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex gap-2 justify-end">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    setRejectNote("");
+                    setRejectingId(proof.id);
+                  }}
+                  disabled={reviewingId === proof.id}
+                  className="border-red-300 text-red-600 hover:bg-red-50"
+                >
+                  <X className="w-4 h-4 mr-1" />
+                  Reject
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => handleReview(proof, true)}
+                  disabled={reviewingId === proof.id}
+                  className="bg-green-600 hover:bg-green-700 text-white"
+                >
+                  <Check className="w-4 h-4 mr-1" />
+                  Approve
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import { useEffect } from "react";
+import { createPortal } from "react-dom";
+import { describeCustomBouquet } from "../../services/customBouquetService";
+import { describeProductOptions } from "../../services/catalogService";
+import { formatScheduleDate } from "../../services/scheduleService";
+import type { Order } from "../../App";
+
+export type PrintKind = "tickets" | "gift-cards" | "manifest";
+
+export interface PrintJob {
+  kind: PrintKind;
+  orders: Order[];
+  /** "YYYY-MM-DD"; the day a manifest covers */
+  date?: string;
+}
+
+interface PrintableOrdersProps {
+  job: PrintJob;
+  /** Resolves the order's driver (profile id or name) to a display name */
+  driverName: (order: Order) => string;
+  onDone: () => void;
+}
+
+// The app's stylesheet is a prebuilt Tailwind bundle without print variants, so print
+// layout lives here. Everything except the sheets is hidden while printing.
+const PRINT_STYLES = `
+  .print-sheets { display: none; }
+  @media print {
+    @page { margin: 12mm; }
+    body > *:not(.print-sheets) { display: none !important; }
+    .print-sheets { display: block; color: #000; font-size: 11pt; font-family: system-ui, sans-serif; }
+    .print-page { break-after: page; }
+    .print-page:last-child { break-after: auto; }
+    .print-sheets h1 { font-size: 18pt; margin: 0 0 4pt; }
+    .print-sheets h2 { font-size: 13pt; margin: 12pt 0 4pt; }
+    .print-muted { color: #555; }
+    .print-row { display: flex; justify-content: space-between; gap: 12pt; }
+    .print-box { border: 1px solid #000; padding: 6pt 8pt; margin-top: 8pt; }
+    .print-flag { border: 1px solid #000; padding: 0 4pt; margin-left: 4pt; font-size: 9pt; text-transform: uppercase; }
+    .print-table { width: 100%; border-collapse: collapse; margin-top: 4pt; }
+    .print-table th, .print-table td { border: 1px solid #999; padding: 3pt 5pt; text-align: left; vertical-align: top; }
+    .print-table td.print-amount, .print-table th.print-amount { text-align: right; white-space: nowrap; }
+    .print-items li { margin-bottom: 4pt; }
+    .print-card { height: 120mm; display: flex; flex-direction: column; justify-content: center; text-align: center; padding: 0 16mm; }
+    .print-card-message { font-family: 'Playfair Display', Georgia, serif; font-size: 18pt; font-style: italic; white-space: pre-line; }
+    .print-card-from { margin-top: 16pt; font-size: 13pt; }
+  }
+`;
+
+const isCashToCollect = (order: Order) => order.payment === "Cash" && order.paymentStatus !== "paid";
+
+const scheduleText = (order: Order) =>
+  order.scheduledDate ? `${formatScheduleDate(order.scheduledDate)}, ${order.timeSlotLabel ?? ""}` : "Not scheduled";
+
+function WorkshopTicket({ order }: { order: Order }) {
+  return (
+    <section className="print-page">
+      <div className="print-row">
+        <h1>{order.orderId}</h1>
+        <strong>{order.deliveryOption === "pickup" ? "PICKUP" : "DELIVERY"}</strong>
+      </div>
+      <div className="print-row print-muted">
+        <span>Ready for: {scheduleText(order)}</span>
+        <span>Ordered {order.date}</span>
+      </div>
+
+      <h2>Items</h2>
+      <ul className="print-items">
+        {order.items.map((item, index) => (
+          <li key={index}>
+            <strong>{item.quantity}×</strong> {item.product.name}
+            {item.product.customBouquet && (
+              <div className="print-muted">
+                Recipe: {item.product.customBouquet.size} · {describeCustomBouquet(item.product.customBouquet)}
+              </div>
+            )}
+            {describeProductOptions(item.product) && (
+              <div className="print-muted">With: {describeProductOptions(item.product)}</div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {order.specialInstructions && (
+        <div className="print-box">
+          <strong>Special instructions:</strong> {order.specialInstructions}
+        </div>
+      )}
+
+      <h2>
+        {order.deliveryOption === "pickup" ? "Pickup" : "Deliver to"}
+        {order.anonymousSender && <span className="print-flag">Anonymous</span>}
+        {order.surpriseDelivery && <span className="print-flag">Surprise</span>}
+        {order.cardMessage && <span className="print-flag">Gift card</span>}
+      </h2>
+      <div>{order.recipientName || order.name}</div>
+      {order.deliveryOption === "delivery" && <div>{order.deliveryAddress}</div>}
+      <div>{order.phone}</div>
+      {order.senderName && <div className="print-muted">From: {order.senderName}</div>}
+    </section>
+  );
+}
+
+function GiftCard({ order }: { order: Order }) {
+  return (
+    <section className="print-page print-card">
+      {order.recipientName && <div className="print-card-from">For {order.recipientName}</div>}
+      <p className="print-card-message">{order.cardMessage}</p>
+      {!order.anonymousSender && order.senderName && <div className="print-card-from">With love, {order.senderName}</div>}
+    </section>
+  );
+}
+
+function DriverManifest({ orders, date, driverName }: { orders: Order[]; date: string; driverName: (order: Order) => string }) {
+  const groups = new Map<string, Order[]>();
+  orders.forEach((order) => {
+    const name = driverName(order);
+    groups.set(name, [...(groups.get(name) ?? []), order]);
+  });
+
+  return (
+    <>
+      {[...groups.entries()].map(([name, driverOrders]) => {
+        const cashTotal = driverOrders.filter(isCashToCollect).reduce((sum, order) => sum + order.totalAmount, 0);
+        return (
+          <section key={name} className="print-page">
+            <div className="print-row">
+              <h1>Delivery Manifest · {name}</h1>
+              <span>{formatScheduleDate(date)}</span>
+            </div>
+            <div className="print-muted">
+              {driverOrders.length} {driverOrders.length === 1 ? "stop" : "stops"} · Cash to collect: ₱{cashTotal.toFixed(2)}
+            </div>
+            <table className="print-table">
+              <thead>
+                <tr>
+                  <th>Slot</th>
+                  <th>Order</th>
+                  <th>Recipient</th>
+                  <th>Address</th>
+                  <th>Phone</th>
+                  <th className="print-amount">Collect</th>
+                  <th>Signature</th>
+                </tr>
+              </thead>
+              <tbody>
+                {driverOrders.map((order) => (
+                  <tr key={order.id}>
+                    <td>{order.timeSlotLabel ?? "—"}</td>
+                    <td>{order.orderId}</td>
+                    <td>
+                      {order.recipientName || order.name}
+                      {order.surpriseDelivery && (
+                        <div className="print-muted">Surprise: call sender {order.senderPhone ?? ""}</div>
+                      )}
+                    </td>
+                    <td>
+                      {order.deliveryAddress}
+                      {order.specialInstructions && <div className="print-muted">{order.specialInstructions}</div>}
+                    </td>
+                    <td>{order.phone}</td>
+                    <td className="print-amount">{isCashToCollect(order) ? `₱${order.totalAmount.toFixed(2)}` : "Paid"}</td>
+                    <td></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        );
+      })}
+    </>
+  );
+}
+
+/**
+ * Print-only sheets for the selected orders. Opens the browser's print dialog on mount and
+ * calls onDone once it closes.
+ */
+export function PrintableOrders({ job, driverName, onDone }: PrintableOrdersProps) {
+  useEffect(() => {
+    window.addEventListener("afterprint", onDone);
+    // Let the portal render before the dialog snapshots the page
+    const timer = window.setTimeout(() => window.print(), 100);
+    return () => {
+      window.clearTimeout(timer);
+      window.removeEventListener("afterprint", onDone);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [job]);
+
+  return createPortal(
+    <div className="print-sheets">
+      <style>{PRINT_STYLES}</style>
+      {job.kind === "tickets" && job.orders.map((order) => <WorkshopTicket key={order.id} order={order} />)}
+      {job.kind === "gift-cards" && job.orders.map((order) => <GiftCard key={order.id} order={order} />)}
+      {job.kind === "manifest" && job.date && (
+        <DriverManifest orders={job.orders} date={job.date} driverName={driverName} />
+      )}
+    </div>,
+    document.body
+  );
+}
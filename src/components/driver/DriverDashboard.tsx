@@ -0,0 +1,323 @@
+import { useState, useEffect } from "react";
+import { motion } from "motion/react";
+import { Truck, LogOut, Store, MapPin, Phone, FileText, Package, RefreshCw, User, Gift } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "../ui/button";
+import { Switch } from "../ui/switch";
+import { fetchDriverByProfileId, updateDriver, type Driver } from "../../services/driverService";
+import {
+  fetchDriverDeliveries,
+  updateDeliveryStatus,
+  subscribeToDriverDeliveries,
+  DELIVERY_STATUS_LABELS,
+  NEXT_DELIVERY_STATUS,
+  type DriverDelivery,
+  type DeliveryStatus,
+} from "../../services/deliveryService";
+
+interface DriverDashboardProps {
+  /** profiles.id of the signed-in driver */
+  driverId: string;
+  driverName: string;
+  onLogout: () => void;
+  onNavigateToShop: () => void;
+}
+
+const STATUS_STYLES: Record<DeliveryStatus, string> = {
+  assigned: "bg-blue-100 text-blue-700",
+  picked_up: "bg-yellow-100 text-yellow-700",
+  in_transit: "bg-purple-100 text-purple-700",
+  delivered: "bg-green-100 text-green-700",
+};
+
+const ACTION_LABELS: Record<DeliveryStatus, string> = {
+  assigned: "",
+  picked_up: "Mark Picked Up",
+  in_transit: "Start Delivery",
+  delivered: "Mark Delivered",
+};
+
+export function DriverDashboard({ driverId, driverName, onLogout, onNavigateToShop }: DriverDashboardProps) {
+  const [driver, setDriver] = useState<Driver | null>(null);
+  const [deliveries, setDeliveries] = useState<DriverDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<"active" | "completed">("active");
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [togglingAvailability, setTogglingAvailability] = useState(false);
+
+  useEffect(() => {
+    loadDashboard();
+
+    const subscription = subscribeToDriverDeliveries(driverId, setDeliveries);
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [driverId]);
+
+  async function loadDashboard() {
+    setLoading(true);
+    setError(null);
+    try {
+      const [driverData, deliveriesData] = await Promise.all([
+        fetchDriverByProfileId(driverId),
+        fetchDriverDeliveries(driverId),
+      ]);
+      setDriver(driverData);
+      setDeliveries(deliveriesData);
+    } catch (err: any) {
+      console.error("Error loading driver dashboard:", err);
+      setError(err?.message ?? String(err));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const handleToggleAvailability = async (onDuty: boolean) => {
+    if (!driver) return;
+    setTogglingAvailability(true);
+    try {
+      const updated = await updateDriver(driver.id, { offDuty: !onDuty });
+      setDriver(updated ?? { ...driver, offDuty: !onDuty });
+      toast.success(onDuty ? "You are now available for deliveries" : "You are now off duty");
+    } catch (err: any) {
+      console.error("Error updating availability:", err);
+      toast.error("Failed to update availability");
+    } finally {
+      setTogglingAvailability(false);
+    }
+  };
+
+  const handleAdvanceStatus = async (delivery: DriverDelivery) => {
+    const nextStatus = NEXT_DELIVERY_STATUS[delivery.status];
+    if (!nextStatus) return;
+
+    if (nextStatus === "delivered" && !window.confirm(`Mark order ${delivery.orderNumber} as delivered?`)) {
+      return;
+    }
+
+    setUpdatingId(delivery.id);
+    try {
+      const updated = await updateDeliveryStatus(delivery.id, nextStatus);
+      setDeliveries((prev) => prev.map((d) => (d.id === updated.id ? updated : d)));
+      toast.success(`Order ${delivery.orderNumber} is now ${DELIVERY_STATUS_LABELS[nextStatus].toLowerCase()}`);
+    } catch (err: any) {
+      console.error("Error updating delivery:", err);
+      toast.error(err?.message || "Failed to update delivery");
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const activeDeliveries = deliveries.filter((d) => d.status !== "delivered");
+  const completedDeliveries = deliveries.filter((d) => d.status === "delivered");
+  const visibleDeliveries = activeTab === "active" ? activeDeliveries : completedDeliveries;
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <header className="bg-[#3d4f5f] text-white">
+        <div className="max-w-5xl mx-auto px-6 py-4 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl" style={{ fontFamily: "'Playfair Display', serif" }}>
+              Jean's Flowers
+            </h1>
+            <p className="text-sm text-white/60 mt-1">Driver Portal</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onNavigateToShop}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg text-white/80 hover:bg-white/10 hover:text-white transition-colors"
+            >
+              <Store className="w-4 h-4" />
+              <span>Shop</span>
+            </button>
+            <button
+              onClick={onLogout}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg text-white/80 hover:bg-white/10 hover:text-white transition-colors"
+            >
+              <LogOut className="w-4 h-4" />
+              <span>Logout</span>
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-6 py-8 space-y-6">
+        {/* Driver summary and availability */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-white rounded-lg p-6 border border-gray-200 flex items-center gap-6"
+        >
+          <div className="w-16 h-16 bg-[#FF69B4] rounded-full flex items-center justify-center">
+            <Truck className="w-8 h-8 text-white" />
+          </div>
+          <div className="flex-1">
+            <h2 className="text-2xl mb-1" style={{ fontFamily: "'Playfair Display', serif" }}>
+              Welcome, {driverName}
+            </h2>
+            <p className="text-gray-600 text-sm">
+              {activeDeliveries.length} active {activeDeliveries.length === 1 ? "delivery" : "deliveries"}
+              {driver && ` · ${driver.vehicleNumber}`}
+            </p>
+          </div>
+          {driver && (
+            <label className="flex items-center gap-3">
+              <span className={`text-sm font-medium ${driver.offDuty ? "text-gray-500" : "text-green-600"}`}>
+                {driver.offDuty ? "Off duty" : "Available"}
+              </span>
+              <Switch
+                checked={!driver.offDuty}
+                disabled={togglingAvailability}
+                onCheckedChange={handleToggleAvailability}
+              />
+            </label>
+          )}
+        </motion.div>
+
+        {!loading && !error && !driver && (
+          <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-lg p-4 text-sm">
+            Your account has no driver record yet. Ask an admin to finish setting up your driver profile.
+          </div>
+        )}
+
+        {/* Tabs */}
+        <div className="flex items-center justify-between">
+          <div className="flex gap-2">
+            {(["active", "completed"] as const).map((tab) => (
+              <button
+                key={tab}
+                onClick={() => setActiveTab(tab)}
+                className={`px-4 py-2 rounded-lg text-sm transition-colors ${
+                  activeTab === tab ? "bg-[#FF69B4] text-white" : "bg-white text-gray-700 hover:bg-pink-50"
+                }`}
+              >
+                {tab === "active" ? `Active (${activeDeliveries.length})` : `Completed (${completedDeliveries.length})`}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={loadDashboard}
+            className="flex items-center gap-2 text-sm text-gray-600 hover:text-[#FF69B4] transition-colors"
+          >
+            <RefreshCw className="w-4 h-4" />
+            Refresh
+          </button>
+        </div>
+
+        {/* Deliveries */}
+        {loading ? (
+          <div className="flex items-center justify-center h-40">
+            <p className="text-gray-500">Loading deliveries...</p>
+          </div>
+        ) : error ? (
+          <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-4 text-sm">
+            Failed to load deliveries: {error}
+          </div>
+        ) : visibleDeliveries.length === 0 ? (
+          <div className="bg-white rounded-lg border border-gray-200 p-12 text-center">
+            <Package className="w-12 h-12 mx-auto text-gray-300 mb-3" />
+            <p className="text-gray-500">
+              {activeTab === "active" ? "No deliveries assigned to you right now." : "No completed deliveries yet."}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {visibleDeliveries.map((delivery) => {
+              const nextStatus = NEXT_DELIVERY_STATUS[delivery.status];
+              return (
+                <motion.div
+                  key={delivery.id}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="bg-white rounded-lg border border-gray-200 p-6"
+                >
+                  <div className="flex items-start justify-between mb-4">
+                    <div>
+                      <p className="text-sm text-gray-500">Order Number</p>
+                      <p className="font-medium">{delivery.orderNumber}</p>
+                    </div>
+                    <span className={`px-3 py-1 rounded-full text-xs ${STATUS_STYLES[delivery.status]}`}>
+                      {DELIVERY_STATUS_LABELS[delivery.status]}
+                    </span>
+                  </div>
+
+                  <div className="grid gap-3 md:grid-cols-2 mb-4">
+                    {delivery.surpriseDelivery && (
+                      <div className="flex items-start gap-2 text-sm md:col-span-2 bg-amber-50 border border-amber-200 text-amber-800 rounded-md p-2">
+                        <Gift className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                        <span>
+                          Surprise delivery: don't call the recipient ahead.
+                          {delivery.senderPhone && (
+                            <> If you need help, call the sender at <a href={`tel:${delivery.senderPhone}`} className="underline">{delivery.senderPhone}</a>.</>
+                          )}
+                        </span>
+                      </div>
+                    )}
+                    {(delivery.recipientName || delivery.senderName) && (
+                      <div className="flex items-start gap-2 text-sm md:col-span-2">
+                        <User className="w-4 h-4 text-[#FF69B4] mt-0.5 flex-shrink-0" />
+                        <span>
+                          {delivery.recipientName && <>For <span className="font-medium">{delivery.recipientName}</span></>}
+                          {delivery.recipientName && delivery.senderName && " · "}
+                          {delivery.senderName && <span className="text-gray-500">From {delivery.senderName}</span>}
+                        </span>
+                      </div>
+                    )}
+                    <div className="flex items-start gap-2 text-sm">
+                      <MapPin className="w-4 h-4 text-[#FF69B4] mt-0.5 flex-shrink-0" />
+                      <span>{delivery.deliveryAddress || "No address provided"}</span>
+                    </div>
+                    <div className="flex items-start gap-2 text-sm">
+                      <Phone className="w-4 h-4 text-[#FF69B4] mt-0.5 flex-shrink-0" />
+                      {delivery.phone ? (
+                        <a href={`tel:${delivery.phone}`} className="hover:text-[#FF69B4]">
+                          {delivery.phone}
+                        </a>
+                      ) : (
+                        <span className="text-gray-500">No phone provided</span>
+                      )}
+                    </div>
+                    {delivery.notes && (
+                      <div className="flex items-start gap-2 text-sm md:col-span-2">
+                        <FileText className="w-4 h-4 text-[#FF69B4] mt-0.5 flex-shrink-0" />
+                        <span>
+                          <span className="text-gray-500">Special instructions: </span>
+                          {delivery.notes}
+                        </span>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="border-t border-gray-100 pt-4 flex items-end justify-between gap-4">
+                    <div className="text-sm text-gray-600">
+                      {delivery.items.map((item, index) => (
+                        <p key={index}>
+                          {item.quantity}× {item.name}
+                        </p>
+                      ))}
+                      {delivery.deliveredAt && (
+                        <p className="text-xs text-gray-400 mt-2">
+                          Delivered {new Date(delivery.deliveredAt).toLocaleString()}
+                        </p>
+                      )}
+                    </div>
+                    {nextStatus && (
+                      <Button
+                        onClick={() => handleAdvanceStatus(delivery)}
+                        disabled={updatingId === delivery.id}
+                        className="bg-[#FF69B4] hover:bg-[#FF1493] text-white"
+                      >
+                        {updatingId === delivery.id ? "Updating..." : ACTION_LABELS[nextStatus]}
+                      </Button>
+                    )}
+                  </div>
+                </motion.div>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+// src/context/AuthContext.tsx
+// Single source of truth for the signed-in user.
+// Restores the Supabase session on page load (getSession) and follows sign in / sign out /
+// token refresh through onAuthStateChange, loading the matching profiles row each time.
+
+import { createContext, useContext, useEffect, useRef, useState } from "react";
+import type { Session, User } from "@supabase/supabase-js";
+import supabase from "../services/supabaseClient";
+import { fetchProfile, type Profile } from "../services/auth";
+
+interface AuthContextValue {
+  session: Session | null;
+  user: User | null;
+  profile: Profile | null;
+  /** True until the initial session and its profile have been resolved */
+  loading: boolean;
+  refreshProfile: () => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [session, setSession] = useState<Session | null>(null);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const currentUserId = useRef<string | null>(null);
+
+  const loadProfile = async (nextSession: Session | null) => {
+    if (!nextSession?.user) {
+      setProfile(null);
+      return;
+    }
+    try {
+      setProfile(await fetchProfile(nextSession.user.id));
+    } catch (err) {
+      console.error("Failed to load profile:", err);
+      setProfile(null);
+    }
+  };
+
+  useEffect(() => {
+    let mounted = true;
+
+    (async () => {
+      const { data: { session: initialSession } } = await supabase.auth.getSession();
+      if (!mounted) return;
+      currentUserId.current = initialSession?.user?.id ?? null;
+      setSession(initialSession);
+      await loadProfile(initialSession);
+      if (mounted) setLoading(false);
+    })();
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, nextSession) => {
+      if (!mounted || event === "INITIAL_SESSION") return;
+      setSession(nextSession);
+      // Token refreshes and tab refocus keep the same user; only reload the profile when the user changes
+      const nextUserId = nextSession?.user?.id ?? null;
+      if (nextUserId !== currentUserId.current) {
+        currentUserId.current = nextUserId;
+        setLoading(true);
+        // Defer out of the auth callback so supabase-js isn't re-entered while it holds its lock
+        setTimeout(async () => {
+          await loadProfile(nextSession);
+          if (mounted) setLoading(false);
+        }, 0);
+      }
+    });
+
+    return () => {
+      mounted = false;
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  const refreshProfile = async () => {
+    await loadProfile(session);
+  };
+
+  const signOut = async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) console.error("Error signing out:", error);
+    currentUserId.current = null;
+    setSession(null);
+    setProfile(null);
+  };
+
+  return (
+    <AuthContext.Provider
+      value={{ session, user: session?.user ?? null, profile, loading, refreshProfile, signOut }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -11,8 +11,53 @@ export interface FlowerType {
   image: string;
   category: string;
   available: boolean;
+  /** Added to the bouquet price for every stem of this flower */
+  surcharge: number;
+  /** Stems in stock; null while the shop is not counting this flower */
+  stockOnHand: number | null;
+  reorderThreshold: number;
+  unitCost: number;
+  /** Switched off automatically for lack of stock; comes back on when restocked */
+  soldOut: boolean;
+}
+
+/** A bouquet_sizes row: stem limit and price parts for one size in the builder */
+export interface BouquetSize {
+  id: string;
+  /** Stable key stored on custom bouquets, e.g. "medium" */
+  code: string;
+  name: string;
+  description: string;
+  emoji: string;
+  maxStems: number;
+  basePrice: number;
+  wrappingFee: number;
+  sortOrder: number;
+  active: boolean;
 }
 
 // NOTE: mock data removed. Keep these exported names so components compile.
 export const initialBouquetColors: BouquetColor[] = [];
 export const initialFlowerTypes: FlowerType[] = [];
+export const initialBouquetSizes: BouquetSize[] = [];
+
+/** Price parts of a custom bouquet: base + stems + wrapping = price */
+export interface BouquetPriceBreakdown {
+  basePrice: number;
+  stemsPrice: number;
+  wrappingFee: number;
+  price: number;
+}
+
+/** A saved custom_bouquets row: the recipe of a bouquet built in the bouquet builder */
+export interface CustomBouquetConfig extends BouquetPriceBreakdown {
+  id: string;
+  /** bouquet_sizes code */
+  size: string;
+  sizeName: string;
+  colorId: string | null;
+  colorName: string;
+  colorHex?: string;
+  flowers: { flowerTypeId: string; name: string; count: number; surcharge: number }[];
+  image?: string;
+}
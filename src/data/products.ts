@@ -1,12 +1,46 @@
-export type Category = "Birthday Flowers" | "Anniversary" | "Graduation" | "Sympathy" | "Wedding" | "Get Well Soon" | "Thank You" | "Just Because";
+import type { CustomBouquetConfig } from "./bouquetData";
+import type { Tables } from "../services/database.types";
+
+/** A categories.name; categories are managed by admins, so any name the table holds */
+export type Category = Tables<"categories">["name"];
+
+/** A product option such as "24 stems" or "With vase"; priceDelta is added to the price */
+export interface ProductVariant {
+  id: string;
+  name: string;
+  priceDelta: number;
+}
+
+/** An extra sold with any product, e.g. chocolates or a balloon */
+export interface ProductAddOn {
+  id: string;
+  name: string;
+  description?: string;
+  image?: string;
+  price: number;
+}
 
 export interface Product {
   id: string;
   name: string;
+  /** Unit price; includes the selected variant and add-ons once chosen */
   price: number;
   image?: string;
+  /** More images after image, for the product carousel */
+  gallery?: string[];
   categories: Category[];
   badge?: string;
+  description?: string;
+  careInstructions?: string;
+  /** Options to choose from; empty or undefined when the product has none */
+  variants?: ProductVariant[];
+  /** Set on cart and order lines */
+  selectedVariant?: ProductVariant | null;
+  selectedAddOns?: ProductAddOn[];
+  /** Units that can still be ordered; null when unlimited, undefined when not loaded */
+  availableQuantity?: number | null;
+  /** Set for custom bouquets; the product id is then the custom_bouquets id */
+  customBouquet?: CustomBouquetConfig;
 }
 
 export interface CategoryInfo {
@@ -1,7 +1,11 @@
 
 import { createRoot } from "react-dom/client";
 import App from "./App";
+import { AuthProvider } from "./context/AuthContext";
 import "./index.css";
 
-createRoot(document.getElementById("root")!).render(<App />);
-  
\ No newline at end of file
+createRoot(document.getElementById("root")!).render(
+  <AuthProvider>
+    <App />
+  </AuthProvider>
+);
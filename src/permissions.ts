@@ -0,0 +1,65 @@
+// src/permissions.ts
+// Role model and permission matrix.
+// The role always comes from profiles.role (loaded by AuthProvider); the UI never decides
+// it. Row-level security in the database remains the real enforcement — these checks
+// only decide what the UI offers.
+
+export type Role = "customer" | "admin" | "driver";
+
+export type Resource = "orders" | "products" | "drivers" | "deliveries" | "reports";
+
+/** "manage" is back-office access: the admin screens for that resource */
+export type Action = "view" | "create" | "update" | "delete" | "manage";
+
+export interface Permission {
+  resource: Resource;
+  action: Action;
+}
+
+const ALL: Action[] = ["view", "create", "update", "delete", "manage"];
+
+export const PERMISSIONS: Record<Role, Partial<Record<Resource, Action[]>>> = {
+  admin: {
+    orders: ALL,
+    products: ALL,
+    drivers: ALL,
+    deliveries: ["view", "manage"],
+    reports: ["view", "manage"],
+  },
+  driver: {
+    // Limited by RLS to orders/deliveries assigned to this driver, and their own drivers row
+    orders: ["view"],
+    products: ["view"],
+    drivers: ["view", "update"],
+    deliveries: ["view", "update"],
+  },
+  customer: {
+    // Limited by RLS to the customer's own orders
+    orders: ["view", "create"],
+    products: ["view"],
+  },
+};
+
+export const ROLES: Role[] = ["customer", "admin", "driver"];
+
+/** Normalise a profiles.role value. Legacy 'user' rows and unknown values are customers. */
+export function toRole(value: string | null | undefined): Role {
+  return ROLES.includes(value as Role) ? (value as Role) : "customer";
+}
+
+export function can(role: Role | null, resource: Resource, action: Action): boolean {
+  if (!role) return false;
+  return PERMISSIONS[role][resource]?.includes(action) ?? false;
+}
+
+/** Where each role lands after signing in */
+export function landingPageFor(role: Role): "home" | "admin" | "driver" {
+  switch (role) {
+    case "admin":
+      return "admin";
+    case "driver":
+      return "driver";
+    default:
+      return "home";
+  }
+}
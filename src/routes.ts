@@ -0,0 +1,229 @@
+// src/routes.ts
+// URL routing for the storefront and admin dashboard.
+// Maps browser paths to the page ids App renders, and keeps them in sync with the
+// History API so refresh, back/forward and deep links all work.
+
+import { useEffect, useState } from "react";
+import { can, type Permission, type Role } from "./permissions";
+
+export type PageId =
+  | "home"
+  | "products"
+  | "categories"
+  | "about"
+  | "custom-bouquet"
+  | "auth"
+  | "signin"
+  | "createaccount"
+  | "user"
+  | "orders"
+  | "cart"
+  | "admin"
+  | "driver";
+
+export interface AppRoute {
+  page: PageId;
+  /** /products?category=Wedding */
+  category?: string;
+  /** /products?q=red+roses */
+  search?: string;
+  /** /products/:id */
+  productId?: string;
+  /** /orders/:orderNumber */
+  orderNumber?: string;
+  /** /admin/:section */
+  adminSection?: string;
+  /** /admin/orders/:id */
+  adminOrderId?: string;
+  /** Where to continue after signing in, e.g. /signin?next=/admin/orders */
+  next?: string;
+}
+
+/**
+ * Who may open a page: anyone, any signed-in user, or users whose role grants a permission.
+ * Guarded pages redirect to sign in (or the role's landing page) instead of rendering.
+ */
+export type RouteAccess = "public" | "signed-in" | Permission;
+
+const PAGE_PATHS: Record<PageId, string> = {
+  home: "/",
+  products: "/products",
+  categories: "/categories",
+  about: "/about",
+  "custom-bouquet": "/custom-bouquet",
+  auth: "/auth",
+  signin: "/signin",
+  createaccount: "/create-account",
+  user: "/account",
+  orders: "/orders",
+  cart: "/cart",
+  admin: "/admin",
+  driver: "/driver",
+};
+
+const PAGE_ACCESS: Record<PageId, RouteAccess> = {
+  home: "public",
+  products: "public",
+  categories: "public",
+  about: "public",
+  "custom-bouquet": "public",
+  auth: "public",
+  signin: "public",
+  createaccount: "public",
+  user: "signed-in",
+  orders: { resource: "orders", action: "create" },
+  cart: { resource: "orders", action: "create" },
+  // Refined per section by ADMIN_SECTION_RESOURCES
+  admin: { resource: "reports", action: "manage" },
+  driver: { resource: "deliveries", action: "update" },
+};
+
+/** Resource each admin section manages; the section is shown to roles that can manage it */
+export const ADMIN_SECTION_RESOURCES: Record<string, Permission["resource"]> = {
+  reports: "reports",
+  orders: "orders",
+  products: "products",
+  drivers: "drivers",
+  "delivery-zones": "deliveries",
+  "delivery-schedule": "deliveries",
+  "add-ons": "products",
+  "bouquet-colors": "products",
+  "bouquet-sizes": "products",
+  categories: "products",
+  "flower-types": "products",
+};
+
+export const ADMIN_SECTIONS = Object.keys(ADMIN_SECTION_RESOURCES);
+
+export function getRouteAccess(route: AppRoute): RouteAccess {
+  if (route.page === "admin") {
+    return { resource: ADMIN_SECTION_RESOURCES[route.adminSection ?? "reports"], action: "manage" };
+  }
+  return PAGE_ACCESS[route.page];
+}
+
+/** role is null for guests */
+export function canAccessRoute(route: AppRoute, role: Role | null): boolean {
+  const access = getRouteAccess(route);
+  if (access === "public") return true;
+  if (access === "signed-in") return role !== null;
+  return can(role, access.resource, access.action);
+}
+
+// A malformed escape such as "%E0" makes decodeURIComponent throw; keep the raw segment
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+export function parseLocation(pathname: string, search: string): AppRoute {
+  const segments = pathname.split("/").filter(Boolean).map(decodeSegment);
+  const query = new URLSearchParams(search);
+  const next = query.get("next") ?? undefined;
+
+  const [first, second, third] = segments;
+  if (!first) return { page: "home" };
+
+  switch (first) {
+    case "products":
+      return {
+        page: "products",
+        category: query.get("category") ?? undefined,
+        search: query.get("q") ?? undefined,
+        productId: second,
+      };
+    case "orders":
+      return { page: "orders", orderNumber: second };
+    case "admin": {
+      const adminSection = second && ADMIN_SECTIONS.includes(second) ? second : "reports";
+      return {
+        page: "admin",
+        adminSection,
+        adminOrderId: adminSection === "orders" ? third : undefined,
+      };
+    }
+    case "signin":
+      return { page: "signin", next };
+    case "auth":
+      return { page: "auth", next };
+    case "create-account":
+      return { page: "createaccount", next };
+    default: {
+      const page = (Object.keys(PAGE_PATHS) as PageId[]).find((id) => PAGE_PATHS[id] === `/${first}`);
+      return { page: page ?? "home" };
+    }
+  }
+}
+
+/** Parse an in-app path such as "/admin/orders?x=1" (used for the ?next= redirect) */
+export function parsePath(path: string): AppRoute {
+  const url = new URL(path, window.location.origin);
+  return parseLocation(url.pathname, url.search);
+}
+
+export function buildPath(route: AppRoute): string {
+  const query = new URLSearchParams();
+  let path = PAGE_PATHS[route.page];
+
+  switch (route.page) {
+    case "products":
+      if (route.productId) path += `/${encodeURIComponent(route.productId)}`;
+      if (route.category) query.set("category", route.category);
+      if (route.search) query.set("q", route.search);
+      break;
+    case "orders":
+      if (route.orderNumber) path += `/${encodeURIComponent(route.orderNumber)}`;
+      break;
+    case "admin":
+      if (route.adminSection && route.adminSection !== "reports") {
+        path += `/${route.adminSection}`;
+        if (route.adminSection === "orders" && route.adminOrderId) {
+          path += `/${encodeURIComponent(route.adminOrderId)}`;
+        }
+      }
+      break;
+    case "auth":
+    case "signin":
+    case "createaccount":
+      if (route.next) query.set("next", route.next);
+      break;
+  }
+
+  const qs = query.toString();
+  return qs ? `${path}?${qs}` : path;
+}
+
+function currentRoute(): AppRoute {
+  return parseLocation(window.location.pathname, window.location.search);
+}
+
+/**
+ * Current route plus a navigate function backed by history.pushState.
+ * Re-renders on back/forward navigation.
+ */
+export function useRoute(): [AppRoute, (to: AppRoute, options?: { replace?: boolean }) => void] {
+  const [route, setRoute] = useState<AppRoute>(currentRoute);
+
+  useEffect(() => {
+    const handlePopState = () => setRoute(currentRoute());
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, []);
+
+  const navigate = (to: AppRoute, options?: { replace?: boolean }) => {
+    const path = buildPath(to);
+    if (path !== window.location.pathname + window.location.search) {
+      if (options?.replace) {
+        window.history.replaceState(null, "", path);
+      } else {
+        window.history.pushState(null, "", path);
+      }
+    }
+    setRoute(parseLocation(window.location.pathname, window.location.search));
+  };
+
+  return [route, navigate];
+}
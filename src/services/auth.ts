@@ -1,6 +1,27 @@
 // src/services/auth.ts
 import supabase from './supabaseClient';
 
+export interface Profile {
+  id: string;
+  full_name: string | null;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  role: string;
+}
+
+// Load the profiles row for a user; null when the row doesn't exist yet
+export async function fetchProfile(userId: string): Promise<Profile | null> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, full_name, email, phone, address, role')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data as Profile) ?? null;
+}
+
 export async function signInWithEmail(email: string, password: string) {
   const resp = await supabase.auth.signInWithPassword({ email, password });
   if (resp.error) return { error: resp.error, user: null };
@@ -27,14 +48,14 @@ export async function signUpWithEmail(email: string, password: string, fullName?
   const user = resp.data.user;
 
   if (user) {
-    // create or update profile row (default role = 'user', address starts empty)
+    // create or update profile row (role = 'customer', address starts empty)
     const { data: profile, error: upErr } = await supabase.from('profiles').upsert({
       id: user.id,
       full_name: fullName ?? null,
       email: email,
       phone: phone ?? null,
       address: "",
-      role: 'user'
+      role: 'customer'
     }).select().single();
 
     if (upErr) {
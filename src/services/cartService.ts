@@ -1,14 +1,50 @@
+import type { PostgrestClientOptions, PostgrestFilterBuilder } from '@supabase/postgrest-js';
 import supabase from './supabaseClient';
+import type { Database, Tables } from './database.types';
 
 export interface CartDatabaseItem {
   id?: string;
   user_id: string;
-  product_id: string;
+  /** Exactly one of product_id and custom_bouquet_id is set */
+  product_id: string | null;
+  custom_bouquet_id?: string | null;
+  /** Product lines only: the chosen variant and add-ons, add-on ids sorted */
+  variant_id?: string | null;
+  addon_ids?: string[];
   quantity: number;
   created_at?: string;
   updated_at?: string;
 }
 
+/** Whether a cart line refers to a product or a saved custom bouquet */
+export type CartLineKind = 'product' | 'custom';
+
+/** A product with another variant or other add-ons is a separate cart line */
+export interface CartLineOptions {
+  variantId?: string | null;
+  /** Sorted, so the same selection matches the same row */
+  addOnIds?: string[];
+}
+
+function lineColumn(kind: CartLineKind): 'product_id' | 'custom_bouquet_id' {
+  return kind === 'custom' ? 'custom_bouquet_id' : 'product_id';
+}
+
+/** An update or delete on carts, before it is narrowed to one line */
+type CartsFilter = PostgrestFilterBuilder<PostgrestClientOptions, Database['public'], Tables<'carts'>, unknown, 'carts', unknown, unknown>;
+
+// Narrow a carts query to one line. contains plus containedBy compares addon_ids as a set.
+function matchLine<Query extends CartsFilter>(query: Query, kind: CartLineKind, options: CartLineOptions): Query {
+  if (kind === 'custom') return query;
+  const addOnIds = options.addOnIds ?? [];
+  const byVariant = options.variantId ? query.eq('variant_id', options.variantId) : query.is('variant_id', null);
+  return byVariant.contains('addon_ids', addOnIds).containedBy('addon_ids', addOnIds);
+}
+
+function lineColumns(kind: CartLineKind, options: CartLineOptions) {
+  return kind === 'custom' ? {} : { variant_id: options.variantId ?? null, addon_ids: options.addOnIds ?? [] };
+}
+
 export async function fetchUserCart(userId: string): Promise<CartDatabaseItem[]> {
   try {
     const { data, error } = await supabase
@@ -27,11 +63,11 @@ export async function fetchUserCart(userId: string): Promise<CartDatabaseItem[]>
   }
 }
 
-export async function addToCart(userId: string, productId: string, quantity: number): Promise<CartDatabaseItem | null> {
+export async function addToCart(userId: string, productId: string, quantity: number, kind: CartLineKind = 'product', options: CartLineOptions = {}): Promise<CartDatabaseItem | null> {
   try {
     const { data, error } = await supabase
       .from('carts')
-      .upsert({ user_id: userId, product_id: productId, quantity })
+      .upsert({ user_id: userId, [lineColumn(kind)]: productId, ...lineColumns(kind, options), quantity })
       .select()
       .single();
 
@@ -46,19 +82,23 @@ export async function addToCart(userId: string, productId: string, quantity: num
   }
 }
 
-export async function updateCartQuantity(userId: string, productId: string, quantity: number): Promise<CartDatabaseItem | null> {
+export async function updateCartQuantity(userId: string, productId: string, quantity: number, kind: CartLineKind = 'product', options: CartLineOptions = {}): Promise<CartDatabaseItem | null> {
   try {
     if (quantity < 1) {
       // Remove item if quantity is 0 or less
-      await removeFromCart(userId, productId);
+      await removeFromCart(userId, productId, kind, options);
       return null;
     }
 
-    const { data, error } = await supabase
-      .from('carts')
-      .update({ quantity })
-      .eq('user_id', userId)
-      .eq('product_id', productId)
+    const { data, error } = await matchLine(
+      supabase
+        .from('carts')
+        .update({ quantity })
+        .eq('user_id', userId)
+        .eq(lineColumn(kind), productId),
+      kind,
+      options
+    )
       .select()
       .single();
 
@@ -73,13 +113,17 @@ export async function updateCartQuantity(userId: string, productId: string, quan
   }
 }
 
-export async function removeFromCart(userId: string, productId: string): Promise<void> {
+export async function removeFromCart(userId: string, productId: string, kind: CartLineKind = 'product', options: CartLineOptions = {}): Promise<void> {
   try {
-    const { error } = await supabase
-      .from('carts')
-      .delete()
-      .eq('user_id', userId)
-      .eq('product_id', productId);
+    const { error } = await matchLine(
+      supabase
+        .from('carts')
+        .delete()
+        .eq('user_id', userId)
+        .eq(lineColumn(kind), productId),
+      kind,
+      options
+    );
 
     if (error) {
       console.error('Error removing from cart:', error);
@@ -0,0 +1,566 @@
+// src/services/catalogService.ts
+// Frontend service for the catalog: products with their category names, the categories
+// (occasions) with product counts, product search, and the variants and add-ons customers
+// choose with a product. List reads are cached and shared across pages; admin writes
+// invalidate them.
+
+import supabase from "./supabaseClient";
+import { cachedQuery, invalidateQueries } from "./queryCache";
+import type { Tables } from "./database.types";
+import type { Category, Product, ProductAddOn, ProductVariant } from "../data/products";
+
+/** Product columns, the available_quantity computed column, the category names and the variants */
+const PRODUCT_SELECT =
+  "id, name, price, image, gallery, badge, description, care_instructions, created_at, stock_on_hand, daily_capacity, available_quantity, product_categories(categories(name)), product_variants(id, name, price_delta, sort_order)";
+
+const CATALOG_KEY = "catalog:";
+const PRODUCTS_KEY = `${CATALOG_KEY}products`;
+const CATEGORIES_KEY = `${CATALOG_KEY}categories`;
+const ADDONS_KEY = `${CATALOG_KEY}addons`;
+/** Search results are cached for less time than lists; each keystroke makes a new key */
+const SEARCH_STALE_MS = 30_000;
+
+export interface CatalogProduct extends Product {
+  /** null when the product has no stock count */
+  stockOnHand: number | null;
+  /** null when there is no daily limit */
+  dailyCapacity: number | null;
+}
+
+export interface CatalogAddOn extends ProductAddOn {
+  /** Inactive add-ons are hidden from customers */
+  active: boolean;
+  sortOrder: number;
+}
+
+export interface CatalogCategory {
+  id: string;
+  name: Category;
+  description: string | null;
+  image: string | null;
+  productCount: number;
+}
+
+export type ProductSort = "relevance" | "newest" | "price-asc" | "price-desc" | "popular";
+
+export const PRODUCT_SORT_LABELS: Record<ProductSort, string> = {
+  relevance: "Best Match",
+  newest: "Newest",
+  "price-asc": "Price: Low to High",
+  "price-desc": "Price: High to Low",
+  popular: "Most Popular",
+};
+
+export const DEFAULT_PAGE_SIZE = 12;
+
+export interface ProductFilters {
+  /** Search text; results are ranked by search_products */
+  search?: string | null;
+  category?: Category | null;
+  /** Inclusive, in pesos */
+  minPrice?: number | null;
+  maxPrice?: number | null;
+  badge?: string | null;
+  /** Defaults to relevance when searching and newest otherwise */
+  sort?: ProductSort;
+  /** 1-based */
+  page?: number;
+  pageSize?: number;
+}
+
+export interface ProductPage {
+  products: CatalogProduct[];
+  /** Products matching the filters across all pages */
+  total: number;
+  page: number;
+  pageSize: number;
+  pageCount: number;
+}
+
+export interface ProductInput {
+  name: string;
+  price: number;
+  image: string;
+  gallery: string[];
+  badge: string | null;
+  description: string | null;
+  careInstructions: string | null;
+  dailyCapacity: number | null;
+  categoryIds: string[];
+  /** In display order; variants without an id are created, missing ones are deleted */
+  variants: { id?: string; name: string; priceDelta: number }[];
+}
+
+export interface AddOnInput {
+  name: string;
+  description: string | null;
+  image: string | null;
+  price: number;
+  active: boolean;
+  sortOrder: number;
+}
+
+export interface CategoryInput {
+  name: string;
+  description: string;
+  image: string | null;
+}
+
+type ProductRow = Pick<
+  Tables<"products">,
+  | "id"
+  | "name"
+  | "price"
+  | "image"
+  | "gallery"
+  | "badge"
+  | "description"
+  | "care_instructions"
+  | "created_at"
+  | "stock_on_hand"
+  | "daily_capacity"
+  | "available_quantity"
+> & {
+  product_categories: { categories: { name: string } | null }[];
+  product_variants: Pick<Tables<"product_variants">, "id" | "name" | "price_delta" | "sort_order">[];
+};
+
+type CategoryRow = Tables<"categories"> & {
+  product_categories: { count: number }[];
+};
+
+export function mapProduct(row: ProductRow): CatalogProduct {
+  return {
+    id: row.id,
+    name: row.name,
+    price: row.price,
+    image: row.image ?? "",
+    gallery: row.gallery ?? [],
+    categories: row.product_categories
+      .map((pc) => pc.categories?.name)
+      .filter((name): name is Category => Boolean(name)),
+    badge: row.badge ?? undefined,
+    description: row.description ?? undefined,
+    careInstructions: row.care_instructions ?? undefined,
+    variants: [...row.product_variants]
+      .sort((a, b) => a.sort_order - b.sort_order || a.price_delta - b.price_delta)
+      .map((variant): ProductVariant => ({ id: variant.id, name: variant.name, priceDelta: variant.price_delta })),
+    availableQuantity: row.available_quantity ?? null,
+    stockOnHand: row.stock_on_hand ?? null,
+    dailyCapacity: row.daily_capacity ?? null,
+  };
+}
+
+export function mapCategory(row: CategoryRow): CatalogCategory {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? null,
+    image: row.image ?? null,
+    productCount: row.product_categories[0]?.count ?? 0,
+  };
+}
+
+export function mapProductAddOn(row: Tables<"product_addons">): CatalogAddOn {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? undefined,
+    image: row.image ?? undefined,
+    price: row.price,
+    active: row.active,
+    sortOrder: row.sort_order,
+  };
+}
+
+/**
+ * The product with a variant and add-ons chosen, priced as one unit. Add-ons are sorted by
+ * id so the same selection always makes the same cart line.
+ */
+export function configureProduct(
+  product: Product,
+  variant: ProductVariant | null,
+  addOns: ProductAddOn[]
+): Product {
+  const selectedAddOns = [...addOns].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  return {
+    ...product,
+    price:
+      product.price +
+      (variant?.priceDelta ?? 0) +
+      selectedAddOns.reduce((total, addOn) => total + addOn.price, 0),
+    selectedVariant: variant,
+    selectedAddOns,
+  };
+}
+
+/**
+ * Identifies a cart line: the product or custom bouquet id, plus the variant and add-ons,
+ * since each combination is bought separately
+ */
+export function cartLineKey(product: Product): string {
+  const variantId = product.selectedVariant?.id ?? "";
+  const addOnIds = (product.selectedAddOns ?? []).map((addOn) => addOn.id).join(",");
+  return variantId || addOnIds ? `${product.id}|${variantId}|${addOnIds}` : product.id;
+}
+
+/** "24 stems · Box of Chocolates, Balloon"; empty when nothing was chosen */
+export function describeProductOptions(product: Product): string {
+  return [
+    product.selectedVariant?.name,
+    (product.selectedAddOns ?? []).map((addOn) => addOn.name).join(", "),
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+/** Forget cached catalog reads, e.g. after stock or prices change */
+export function invalidateCatalog(): void {
+  invalidateQueries(CATALOG_KEY);
+}
+
+/**
+ * Fetch every product with its categories (cached)
+ */
+export function fetchProducts(): Promise<CatalogProduct[]> {
+  return cachedQuery(PRODUCTS_KEY, async () => {
+    try {
+      const { data, error } = await supabase.from("products").select(PRODUCT_SELECT);
+      if (error) throw error;
+      return (data || []).map(mapProduct);
+    } catch (error) {
+      console.error("Error fetching products:", error);
+      throw error;
+    }
+  });
+}
+
+/**
+ * Fetch one page of products matching the filters, with the total count (cached)
+ */
+export function fetchProductPage(filters: ProductFilters = {}): Promise<ProductPage> {
+  const page = Math.max(1, filters.page ?? 1);
+  const pageSize = filters.pageSize ?? DEFAULT_PAGE_SIZE;
+  const search = filters.search?.trim() || null;
+  const sort = filters.sort ?? (search ? "relevance" : "newest");
+  const key = `${PRODUCTS_KEY}:page:${JSON.stringify({ ...filters, search, page, pageSize, sort })}`;
+
+  return cachedQuery(key, async () => {
+    try {
+      let query = search
+        ? supabase.rpc("search_products", { p_query: search }, { count: "exact" }).select(PRODUCT_SELECT)
+        : supabase.from("products").select(PRODUCT_SELECT, { count: "exact" });
+      if (filters.category) query = query.contains("category_names", [filters.category]);
+      if (filters.minPrice != null) query = query.gte("price", filters.minPrice);
+      if (filters.maxPrice != null) query = query.lte("price", filters.maxPrice);
+      if (filters.badge) query = query.eq("badge", filters.badge);
+
+      if (sort === "price-asc") query = query.order("price", { ascending: true });
+      else if (sort === "price-desc") query = query.order("price", { ascending: false });
+      else if (sort === "popular") query = query.order("units_sold", { ascending: false });
+      // search_products returns rows best match first; anything else falls back to newest
+      // first, with the id keeping ties in a stable order between pages
+      if (!(search && sort === "relevance")) {
+        query = query.order("created_at", { ascending: false, nullsFirst: false }).order("id");
+      }
+
+      const from = (page - 1) * pageSize;
+      const { data, count, error } = await query.range(from, from + pageSize - 1);
+      if (error) throw error;
+
+      const total = count ?? 0;
+      return {
+        products: (data || []).map(mapProduct),
+        total,
+        page,
+        pageSize,
+        pageCount: Math.max(1, Math.ceil(total / pageSize)),
+      };
+    } catch (error) {
+      console.error("Error fetching product page:", error);
+      throw error;
+    }
+  });
+}
+
+/**
+ * Distinct badges in use, for the badge filter (cached)
+ */
+export function fetchProductBadges(): Promise<string[]> {
+  return cachedQuery(`${PRODUCTS_KEY}:badges`, async () => {
+    try {
+      const { data, error } = await supabase.from("products").select("badge").not("badge", "is", null);
+      if (error) throw error;
+      return Array.from(new Set((data || []).map((row) => row.badge as string))).sort();
+    } catch (error) {
+      console.error("Error fetching product badges:", error);
+      throw error;
+    }
+  });
+}
+
+/**
+ * Best matches for a search box or lookup (cached briefly)
+ */
+export function searchProducts(query: string, limit = 8): Promise<CatalogProduct[]> {
+  const search = query.trim();
+  if (!search) return Promise.resolve([]);
+  return cachedQuery(
+    `${PRODUCTS_KEY}:search:${limit}:${search.toLowerCase()}`,
+    async () => {
+      try {
+        const { data, error } = await supabase
+          .rpc("search_products", { p_query: search })
+          .select(PRODUCT_SELECT)
+          .limit(limit);
+        if (error) throw error;
+        return (data || []).map(mapProduct);
+      } catch (error) {
+        console.error("Error searching products:", error);
+        throw error;
+      }
+    },
+    SEARCH_STALE_MS
+  );
+}
+
+/**
+ * "Did you mean" terms for a query: product, category and flower names spelt similarly
+ */
+export function fetchSearchSuggestions(query: string, limit = 3): Promise<string[]> {
+  const search = query.trim();
+  if (!search) return Promise.resolve([]);
+  return cachedQuery(
+    `${CATALOG_KEY}suggestions:${limit}:${search.toLowerCase()}`,
+    async () => {
+      try {
+        const { data, error } = await supabase.rpc("search_suggestions", { p_query: search, p_limit: limit });
+        if (error) throw error;
+        return data || [];
+      } catch (error) {
+        console.error("Error fetching search suggestions:", error);
+        throw error;
+      }
+    },
+    SEARCH_STALE_MS
+  );
+}
+
+/**
+ * Fetch only the listed products, e.g. the ones in a cart
+ */
+export async function fetchProductsByIds(productIds: string[]): Promise<CatalogProduct[]> {
+  if (productIds.length === 0) return [];
+  try {
+    const { data, error } = await supabase.from("products").select(PRODUCT_SELECT).in("id", productIds);
+    if (error) throw error;
+    return (data || []).map(mapProduct);
+  } catch (error) {
+    console.error("Error fetching products by id:", error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch one product; null when it does not exist
+ */
+export async function fetchProduct(productId: string): Promise<CatalogProduct | null> {
+  try {
+    const { data, error } = await supabase.from("products").select(PRODUCT_SELECT).eq("id", productId).maybeSingle();
+    if (error) throw error;
+    return data ? mapProduct(data) : null;
+  } catch (error) {
+    console.error("Error fetching product:", error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch every category by name with its product count (cached)
+ */
+export function fetchCategories(): Promise<CatalogCategory[]> {
+  return cachedQuery(CATEGORIES_KEY, async () => {
+    try {
+      const { data, error } = await supabase
+        .from("categories")
+        .select("*, product_categories(count)")
+        .order("name");
+      if (error) throw error;
+      return (data || []).map(mapCategory);
+    } catch (error) {
+      console.error("Error fetching categories:", error);
+      throw error;
+    }
+  });
+}
+
+/**
+ * Create a product, or update it when an id is given, and replace its categories
+ * (admin only). Returns the product id.
+ */
+export async function saveProduct(input: ProductInput, productId?: string): Promise<string> {
+  try {
+    const row = {
+      name: input.name,
+      price: input.price,
+      image: input.image,
+      gallery: input.gallery,
+      badge: input.badge,
+      description: input.description,
+      care_instructions: input.careInstructions,
+      daily_capacity: input.dailyCapacity,
+    };
+
+    let id = productId;
+    if (id) {
+      const { error } = await supabase.from("products").update(row).eq("id", id);
+      if (error) throw error;
+    } else {
+      const { data, error } = await supabase.from("products").insert(row).select("id").single();
+      if (error) throw error;
+      id = data.id;
+    }
+
+    const { error: unlinkError } = await supabase.from("product_categories").delete().eq("product_id", id);
+    if (unlinkError) throw unlinkError;
+    if (input.categoryIds.length) {
+      const { error: linkError } = await supabase
+        .from("product_categories")
+        .insert(input.categoryIds.map((categoryId) => ({ product_id: id as string, category_id: categoryId })));
+      if (linkError) throw linkError;
+    }
+
+    await saveProductVariants(id, input.variants);
+
+    invalidateCatalog();
+    return id;
+  } catch (error) {
+    console.error("Error saving product:", error);
+    throw error;
+  }
+}
+
+// Replace a product's variants, keeping the ids of the ones that stay so cart lines survive
+async function saveProductVariants(productId: string, variants: ProductInput["variants"]): Promise<void> {
+  const keptIds = variants.map((variant) => variant.id).filter((id): id is string => Boolean(id));
+  let removed = supabase.from("product_variants").delete().eq("product_id", productId);
+  if (keptIds.length) removed = removed.not("id", "in", `(${keptIds.join(",")})`);
+  const { error: deleteError } = await removed;
+  if (deleteError) throw deleteError;
+
+  const rows = variants.map((variant, index) => ({
+    ...(variant.id ? { id: variant.id } : {}),
+    product_id: productId,
+    name: variant.name,
+    price_delta: variant.priceDelta,
+    sort_order: index,
+  }));
+  if (rows.length) {
+    const { error } = await supabase.from("product_variants").upsert(rows);
+    if (error) throw error;
+  }
+}
+
+/**
+ * Delete a product and its category links (admin only)
+ */
+export async function deleteProduct(productId: string): Promise<void> {
+  try {
+    const { error: unlinkError } = await supabase.from("product_categories").delete().eq("product_id", productId);
+    if (unlinkError) throw unlinkError;
+    const { error } = await supabase.from("products").delete().eq("id", productId);
+    if (error) throw error;
+    invalidateCatalog();
+  } catch (error) {
+    console.error("Error deleting product:", error);
+    throw error;
+  }
+}
+
+/**
+ * Create a category, or update it when an id is given (admin only)
+ */
+export async function saveCategory(input: CategoryInput, categoryId?: string): Promise<void> {
+  try {
+    const { error } = categoryId
+      ? await supabase.from("categories").update(input).eq("id", categoryId)
+      : await supabase.from("categories").insert(input);
+    if (error) throw error;
+    invalidateCatalog();
+  } catch (error) {
+    console.error("Error saving category:", error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a category and unlink its products (admin only)
+ */
+export async function deleteCategory(categoryId: string): Promise<void> {
+  try {
+    const { error: unlinkError } = await supabase.from("product_categories").delete().eq("category_id", categoryId);
+    if (unlinkError) throw unlinkError;
+    const { error } = await supabase.from("categories").delete().eq("id", categoryId);
+    if (error) throw error;
+    invalidateCatalog();
+  } catch (error) {
+    console.error("Error deleting category:", error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch every add-on, inactive ones included (cached). Customers should only be offered
+ * the active ones.
+ */
+export function fetchProductAddOns(): Promise<CatalogAddOn[]> {
+  return cachedQuery(ADDONS_KEY, async () => {
+    try {
+      const { data, error } = await supabase.from("product_addons").select("*").order("sort_order").order("name");
+      if (error) throw error;
+      return (data || []).map(mapProductAddOn);
+    } catch (error) {
+      console.error("Error fetching add-ons:", error);
+      throw error;
+    }
+  });
+}
+
+/**
+ * Create an add-on, or update it when an id is given (admin only)
+ */
+export async function saveProductAddOn(input: AddOnInput, addOnId?: string): Promise<void> {
+  try {
+    const row = {
+      name: input.name,
+      description: input.description,
+      image: input.image,
+      price: input.price,
+      active: input.active,
+      sort_order: input.sortOrder,
+    };
+    const { error } = addOnId
+      ? await supabase.from("product_addons").update(row).eq("id", addOnId)
+      : await supabase.from("product_addons").insert(row);
+    if (error) throw error;
+    invalidateCatalog();
+  } catch (error) {
+    console.error("Error saving add-on:", error);
+    throw error;
+  }
+}
+
+/**
+ * Delete an add-on (admin only). Cart lines keep its id until checkout rejects it, so
+ * deactivating is usually the better choice.
+ */
+export async function deleteProductAddOn(addOnId: string): Promise<void> {
+  try {
+    const { error } = await supabase.from("product_addons").delete().eq("id", addOnId);
+    if (error) throw error;
+    invalidateCatalog();
+  } catch (error) {
+    console.error("Error deleting add-on:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,223 @@
+// src/services/checkoutQueue.ts
+// Durable outbox for checkout attempts, stored in IndexedDB.
+// A checkout is queued before it is sent and only removed once the server confirms it,
+// so an order is never lost to a dropped connection or a closed tab.
+
+import { placeOrder, type PlaceOrderInput, type PlacedOrder } from "./orderService";
+import type { Product } from "../data/products";
+
+export type QueuedCheckoutStatus = "pending" | "failed";
+
+export interface QueuedCheckout {
+  /** Also used as the idempotency key sent to place_order */
+  id: string;
+  userId: string;
+  /** Snapshot of the cart lines being bought, kept for display and for the local order */
+  items: { product: Product; quantity: number }[];
+  input: PlaceOrderInput;
+  status: QueuedCheckoutStatus;
+  attempts: number;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CheckoutAttemptResult =
+  | { outcome: "placed"; order: PlacedOrder; checkout: QueuedCheckout }
+  | { outcome: "offline"; checkout: QueuedCheckout }
+  | { outcome: "failed"; checkout: QueuedCheckout; error: unknown };
+
+const DB_NAME = "jeans-flower-shop";
+const DB_VERSION = 1;
+const STORE = "checkout-outbox";
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        const store = db.createObjectStore(STORE, { keyPath: "id" });
+        store.createIndex("userId", "userId", { unique: false });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const request = run(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+function newCheckoutId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Errors where the request never reached the server and should be retried as-is.
+ * Anything else (validation, RLS, missing product) is a real failure.
+ */
+export function isNetworkError(err: any): boolean {
+  if (typeof navigator !== "undefined" && navigator.onLine === false) return true;
+  const message = String(err?.message ?? err ?? "");
+  return /Failed to fetch|NetworkError|Load failed|Network request failed/i.test(message);
+}
+
+/**
+ * List queued checkouts for a user, oldest first
+ */
+export async function listQueuedCheckouts(userId: string): Promise<QueuedCheckout[]> {
+  try {
+    const rows = await withStore<QueuedCheckout[]>("readonly", (store) =>
+      store.index("userId").getAll(userId)
+    );
+    return (rows || []).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  } catch (err) {
+    console.error("Failed to read checkout queue:", err);
+    return [];
+  }
+}
+
+async function saveQueuedCheckout(checkout: QueuedCheckout): Promise<void> {
+  await withStore("readwrite", (store) => store.put(checkout));
+}
+
+// Outbox bookkeeping after the server has answered. A failed IndexedDB write must not
+// change the outcome the server reported, so it is logged instead of thrown.
+async function updateOutbox(action: string, write: () => Promise<void>): Promise<void> {
+  try {
+    await write();
+  } catch (err) {
+    console.error(`Failed to ${action} in the checkout queue:`, err);
+  }
+}
+
+/**
+ * Remove a checkout from the outbox (after success, or when the customer discards it)
+ */
+export async function removeQueuedCheckout(id: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(id));
+}
+
+/**
+ * Queue a new checkout. It is persisted before any network call is made.
+ */
+export async function enqueueCheckout(
+  userId: string,
+  items: { product: Product; quantity: number }[],
+  details: Omit<PlaceOrderInput, "items" | "idempotencyKey">
+): Promise<QueuedCheckout> {
+  const now = new Date().toISOString();
+  const id = newCheckoutId();
+  const checkout: QueuedCheckout = {
+    id,
+    userId,
+    items,
+    input: {
+      ...details,
+      items: items.map((item) =>
+        item.product.customBouquet
+          ? { customBouquetId: item.product.id, quantity: item.quantity }
+          : {
+              productId: item.product.id,
+              variantId: item.product.selectedVariant?.id ?? null,
+              addOnIds: (item.product.selectedAddOns ?? []).map((addOn) => addOn.id),
+              quantity: item.quantity,
+            }
+      ),
+      idempotencyKey: id,
+    },
+    status: "pending",
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveQueuedCheckout(checkout);
+  return checkout;
+}
+
+/**
+ * Send one queued checkout to the server.
+ * Confirmed checkouts are removed from the outbox; network failures stay pending;
+ * server rejections are marked failed so the customer can retry or discard them.
+ */
+export async function submitQueuedCheckout(checkout: QueuedCheckout): Promise<CheckoutAttemptResult> {
+  const attempt: QueuedCheckout = {
+    ...checkout,
+    attempts: checkout.attempts + 1,
+    updatedAt: new Date().toISOString(),
+  };
+
+  let order: PlacedOrder;
+  try {
+    order = await placeOrder({ ...attempt.input, idempotencyKey: attempt.id });
+  } catch (error: any) {
+    if (isNetworkError(error)) {
+      const pending = { ...attempt, status: "pending" as const, lastError: undefined };
+      await updateOutbox("keep a pending checkout", () => saveQueuedCheckout(pending));
+      return { outcome: "offline", checkout: pending };
+    }
+
+    const failed = {
+      ...attempt,
+      status: "failed" as const,
+      lastError: error?.message || "The server rejected this order",
+    };
+    await updateOutbox("mark a checkout failed", () => saveQueuedCheckout(failed));
+    return { outcome: "failed", checkout: failed, error };
+  }
+
+  // The order exists now. If the entry cannot be removed, a later retry replays the same
+  // idempotency key and gets this order back instead of a duplicate.
+  await updateOutbox("remove a placed checkout", () => removeQueuedCheckout(attempt.id));
+  return { outcome: "placed", order, checkout: attempt };
+}
+
+// Flushes in progress per user, so the mount flush and an `online` event never send the
+// same checkout twice at once
+const activeFlushes = new Map<string, Promise<CheckoutAttemptResult[]>>();
+
+/**
+ * Retry every pending checkout for a user, in order.
+ * Stops at the first network failure since the rest would fail the same way.
+ * A call made while a flush is running waits for it and returns no results, since the
+ * running flush reports them.
+ */
+export function flushCheckoutQueue(userId: string): Promise<CheckoutAttemptResult[]> {
+  const active = activeFlushes.get(userId);
+  if (active) return active.then(() => []);
+
+  const flush = runFlush(userId).finally(() => activeFlushes.delete(userId));
+  activeFlushes.set(userId, flush);
+  return flush;
+}
+
+async function runFlush(userId: string): Promise<CheckoutAttemptResult[]> {
+  const results: CheckoutAttemptResult[] = [];
+  const queued = await listQueuedCheckouts(userId);
+  for (const checkout of queued) {
+    if (checkout.status !== "pending") continue;
+    const result = await submitQueuedCheckout(checkout);
+    results.push(result);
+    if (result.outcome === "offline") break;
+  }
+  return results;
+}
@@ -0,0 +1,132 @@
+// src/services/customBouquetService.ts
+// Frontend service for custom bouquets built in the bouquet builder.
+// Bouquets are validated and priced by the create_custom_bouquet database function and
+// carried through the cart and orders by their custom_bouquets id. Checkout prices them
+// again from the current bouquet_sizes and flower surcharges.
+
+import supabase from "./supabaseClient";
+import type { BouquetPriceBreakdown, BouquetSize, CustomBouquetConfig, FlowerType } from "../data/bouquetData";
+import type { Product } from "../data/products";
+
+export interface CreateCustomBouquetInput {
+  /** bouquet_sizes code */
+  size: string;
+  colorId: string;
+  flowers: { flowerTypeId: string; count: number }[];
+}
+
+export function mapBouquetSize(row: any): BouquetSize {
+  return {
+    id: row.id,
+    code: row.code,
+    name: row.name,
+    description: row.description ?? "",
+    emoji: row.emoji ?? "",
+    maxStems: row.max_stems,
+    basePrice: row.base_price ?? 0,
+    wrappingFee: row.wrapping_fee ?? 0,
+    sortOrder: row.sort_order ?? 0,
+    active: row.active ?? true,
+  };
+}
+
+/**
+ * Live price of a bouquet in the builder. Mirrors fn_quote_custom_bouquet, which sets
+ * the price actually charged.
+ */
+export function quoteCustomBouquet(
+  size: BouquetSize,
+  flowers: { flower: Pick<FlowerType, "surcharge">; count: number }[]
+): BouquetPriceBreakdown {
+  const stemsPrice = flowers.reduce((sum, f) => sum + (f.flower.surcharge || 0) * f.count, 0);
+  return {
+    basePrice: size.basePrice,
+    stemsPrice,
+    wrappingFee: size.wrappingFee,
+    price: size.basePrice + stemsPrice + size.wrappingFee,
+  };
+}
+
+export function mapCustomBouquet(row: any): CustomBouquetConfig {
+  return {
+    id: row.id,
+    size: row.size,
+    sizeName: row.size_name ?? "",
+    colorId: row.color_id ?? null,
+    colorName: row.color_name ?? "",
+    colorHex: row.color_hex ?? undefined,
+    flowers: (row.flowers || []).map((f: any) => ({
+      flowerTypeId: f.flower_type_id,
+      name: f.name,
+      count: f.count,
+      surcharge: f.surcharge ?? 0,
+    })),
+    basePrice: row.base_price ?? row.price ?? 0,
+    stemsPrice: row.stems_price ?? 0,
+    wrappingFee: row.wrapping_fee ?? 0,
+    price: row.price ?? 0,
+    image: row.image ?? undefined,
+  };
+}
+
+/**
+ * Save a bouquet from the builder. The server checks the stem limit and flower
+ * availability and sets the price.
+ */
+export async function createCustomBouquet(input: CreateCustomBouquetInput): Promise<CustomBouquetConfig> {
+  try {
+    const { data, error } = await supabase.rpc("create_custom_bouquet", {
+      p_size: input.size,
+      p_color_id: input.colorId,
+      p_flowers: input.flowers.map((f) => ({ flower_type_id: f.flowerTypeId, count: f.count })),
+    });
+
+    if (error) throw error;
+    return mapCustomBouquet(data);
+  } catch (error) {
+    console.error("Error creating custom bouquet:", error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch saved custom bouquets by id (used to restore them in the cart)
+ */
+export async function fetchCustomBouquets(ids: string[]): Promise<CustomBouquetConfig[]> {
+  if (ids.length === 0) return [];
+  try {
+    const { data, error } = await supabase
+      .from("custom_bouquets")
+      .select("id, size, size_name, color_id, color_name, color_hex, flowers, image, base_price, stems_price, wrapping_fee, price")
+      .in("id", ids);
+
+    if (error) throw error;
+    return (data || []).map(mapCustomBouquet);
+  } catch (error) {
+    console.error("Error fetching custom bouquets:", error);
+    throw error;
+  }
+}
+
+export function customBouquetName(bouquet: { size: string; sizeName?: string; size_name?: string }): string {
+  const sizeName = bouquet.sizeName || bouquet.size_name || bouquet.size.charAt(0).toUpperCase() + bouquet.size.slice(1);
+  return `Custom ${sizeName} Bouquet`;
+}
+
+/** One-line recipe, e.g. "Blush Pink · 3× Rose, 3× Tulip" */
+export function describeCustomBouquet(bouquet: CustomBouquetConfig): string {
+  const flowers = bouquet.flowers.map((f) => `${f.count}× ${f.name}`).join(", ");
+  return bouquet.colorName ? `${bouquet.colorName} · ${flowers}` : flowers;
+}
+
+/** Cart and order lines use Product, keyed by the custom bouquet id */
+export function customBouquetToProduct(bouquet: CustomBouquetConfig): Product {
+  return {
+    id: bouquet.id,
+    name: customBouquetName(bouquet),
+    price: bouquet.price,
+    image: bouquet.image ?? "",
+    categories: [],
+    customBouquet: bouquet,
+  };
+}
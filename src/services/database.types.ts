@@ -0,0 +1,1685 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      blackout_dates: {
+        Row: {
+          created_at: string | null
+          date: string
+          reason: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          date: string
+          reason?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          date?: string
+          reason?: string | null
+        }
+        Relationships: []
+      }
+      bouquet_colors: {
+        Row: {
+          description: string | null
+          hex_code: string | null
+          id: string
+          name: string
+        }
+        Insert: {
+          description?: string | null
+          hex_code?: string | null
+          id?: string
+          name: string
+        }
+        Update: {
+          description?: string | null
+          hex_code?: string | null
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      bouquet_sizes: {
+        Row: {
+          active: boolean
+          base_price: number
+          code: string
+          created_at: string | null
+          description: string | null
+          emoji: string | null
+          id: string
+          max_stems: number
+          name: string
+          sort_order: number
+          wrapping_fee: number
+        }
+        Insert: {
+          active?: boolean
+          base_price?: number
+          code: string
+          created_at?: string | null
+          description?: string | null
+          emoji?: string | null
+          id?: string
+          max_stems: number
+          name: string
+          sort_order?: number
+          wrapping_fee?: number
+        }
+        Update: {
+          active?: boolean
+          base_price?: number
+          code?: string
+          created_at?: string | null
+          description?: string | null
+          emoji?: string | null
+          id?: string
+          max_stems?: number
+          name?: string
+          sort_order?: number
+          wrapping_fee?: number
+        }
+        Relationships: []
+      }
+      carts: {
+        Row: {
+          addon_ids: string[]
+          created_at: string | null
+          custom_bouquet_id: string | null
+          id: string
+          product_id: string | null
+          quantity: number
+          updated_at: string | null
+          user_id: string | null
+          variant_id: string | null
+        }
+        Insert: {
+          addon_ids?: string[]
+          created_at?: string | null
+          custom_bouquet_id?: string | null
+          id?: string
+          product_id?: string | null
+          quantity?: number
+          updated_at?: string | null
+          user_id?: string | null
+          variant_id?: string | null
+        }
+        Update: {
+          addon_ids?: string[]
+          created_at?: string | null
+          custom_bouquet_id?: string | null
+          id?: string
+          product_id?: string | null
+          quantity?: number
+          updated_at?: string | null
+          user_id?: string | null
+          variant_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "carts_custom_bouquet_id_fkey"
+            columns: ["custom_bouquet_id"]
+            referencedRelation: "custom_bouquets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "carts_product_id_fkey"
+            columns: ["product_id"]
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "carts_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "carts_variant_id_fkey"
+            columns: ["variant_id"]
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      categories: {
+        Row: {
+          description: string | null
+          id: string
+          image: string | null
+          name: string
+        }
+        Insert: {
+          description?: string | null
+          id?: string
+          image?: string | null
+          name: string
+        }
+        Update: {
+          description?: string | null
+          id?: string
+          image?: string | null
+          name?: string
+        }
+        Relationships: []
+      }
+      custom_bouquets: {
+        Row: {
+          base_price: number | null
+          color_hex: string | null
+          color_id: string | null
+          color_name: string
+          created_at: string | null
+          flowers: NonNullable<Json>
+          id: string
+          image: string | null
+          price: number
+          size: string
+          size_name: string | null
+          stems_price: number
+          user_id: string
+          wrapping_fee: number
+        }
+        Insert: {
+          base_price?: number | null
+          color_hex?: string | null
+          color_id?: string | null
+          color_name: string
+          created_at?: string | null
+          flowers: NonNullable<Json>
+          id?: string
+          image?: string | null
+          price: number
+          size: string
+          size_name?: string | null
+          stems_price?: number
+          user_id: string
+          wrapping_fee?: number
+        }
+        Update: {
+          base_price?: number | null
+          color_hex?: string | null
+          color_id?: string | null
+          color_name?: string
+          created_at?: string | null
+          flowers?: NonNullable<Json>
+          id?: string
+          image?: string | null
+          price?: number
+          size?: string
+          size_name?: string | null
+          stems_price?: number
+          user_id?: string
+          wrapping_fee?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "custom_bouquets_color_id_fkey"
+            columns: ["color_id"]
+            referencedRelation: "bouquet_colors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "custom_bouquets_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      deliveries: {
+        Row: {
+          assigned_at: string | null
+          delivered_at: string | null
+          driver_id: string | null
+          id: string
+          in_transit_at: string | null
+          notes: string | null
+          order_id: string | null
+          picked_up_at: string | null
+          status: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          assigned_at?: string | null
+          delivered_at?: string | null
+          driver_id?: string | null
+          id?: string
+          in_transit_at?: string | null
+          notes?: string | null
+          order_id?: string | null
+          picked_up_at?: string | null
+          status?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          assigned_at?: string | null
+          delivered_at?: string | null
+          driver_id?: string | null
+          id?: string
+          in_transit_at?: string | null
+          notes?: string | null
+          order_id?: string | null
+          picked_up_at?: string | null
+          status?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deliveries_driver_id_fkey"
+            columns: ["driver_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deliveries_order_id_fkey"
+            columns: ["order_id"]
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      delivery_zones: {
+        Row: {
+          active: boolean
+          cities: string[]
+          created_at: string | null
+          fee: number
+          id: string
+          min_order: number
+          name: string
+          same_day_cutoff: string | null
+          sort_order: number
+          updated_at: string | null
+          zip_codes: string[]
+        }
+        Insert: {
+          active?: boolean
+          cities?: string[]
+          created_at?: string | null
+          fee?: number
+          id?: string
+          min_order?: number
+          name: string
+          same_day_cutoff?: string | null
+          sort_order?: number
+          updated_at?: string | null
+          zip_codes?: string[]
+        }
+        Update: {
+          active?: boolean
+          cities?: string[]
+          created_at?: string | null
+          fee?: number
+          id?: string
+          min_order?: number
+          name?: string
+          same_day_cutoff?: string | null
+          sort_order?: number
+          updated_at?: string | null
+          zip_codes?: string[]
+        }
+        Relationships: []
+      }
+      drivers: {
+        Row: {
+          created_at: string | null
+          deliveries: number | null
+          id: string
+          is_available: boolean | null
+          license_number: string | null
+          off_duty: boolean
+          profile_id: string | null
+          rating: number | null
+          status: string | null
+          updated_at: string | null
+          username: string | null
+          vehicle_number: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          deliveries?: number | null
+          id?: string
+          is_available?: boolean | null
+          license_number?: string | null
+          off_duty?: boolean
+          profile_id?: string | null
+          rating?: number | null
+          status?: string | null
+          updated_at?: string | null
+          username?: string | null
+          vehicle_number?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          deliveries?: number | null
+          id?: string
+          is_available?: boolean | null
+          license_number?: string | null
+          off_duty?: boolean
+          profile_id?: string | null
+          rating?: number | null
+          status?: string | null
+          updated_at?: string | null
+          username?: string | null
+          vehicle_number?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "drivers_profile_id_fkey"
+            columns: ["profile_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      flower_stock_movements: {
+        Row: {
+          change: number
+          created_at: string | null
+          created_by: string | null
+          flower_type_id: string
+          id: string
+          note: string | null
+          order_id: string | null
+          reason: string
+        }
+        Insert: {
+          change: number
+          created_at?: string | null
+          created_by?: string | null
+          flower_type_id: string
+          id?: string
+          note?: string | null
+          order_id?: string | null
+          reason: string
+        }
+        Update: {
+          change?: number
+          created_at?: string | null
+          created_by?: string | null
+          flower_type_id?: string
+          id?: string
+          note?: string | null
+          order_id?: string | null
+          reason?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "flower_stock_movements_created_by_fkey"
+            columns: ["created_by"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "flower_stock_movements_flower_type_id_fkey"
+            columns: ["flower_type_id"]
+            referencedRelation: "flower_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "flower_stock_movements_order_id_fkey"
+            columns: ["order_id"]
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      flower_types: {
+        Row: {
+          available: boolean | null
+          category: string | null
+          id: string
+          image: string | null
+          name: string
+          reorder_threshold: number
+          sold_out: boolean
+          stock_on_hand: number | null
+          surcharge: number
+          unit_cost: number
+        }
+        Insert: {
+          available?: boolean | null
+          category?: string | null
+          id?: string
+          image?: string | null
+          name: string
+          reorder_threshold?: number
+          sold_out?: boolean
+          stock_on_hand?: number | null
+          surcharge?: number
+          unit_cost?: number
+        }
+        Update: {
+          available?: boolean | null
+          category?: string | null
+          id?: string
+          image?: string | null
+          name?: string
+          reorder_threshold?: number
+          sold_out?: boolean
+          stock_on_hand?: number | null
+          surcharge?: number
+          unit_cost?: number
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          created_at: string | null
+          id: string
+          payload: Json | null
+          read: boolean | null
+          type: string | null
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          payload?: Json | null
+          read?: boolean | null
+          type?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          payload?: Json | null
+          read?: boolean | null
+          type?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_items: {
+        Row: {
+          addons: NonNullable<Json>
+          custom_bouquet_id: string | null
+          id: string
+          order_id: string | null
+          price: number
+          product_id: string | null
+          quantity: number
+          variant_id: string | null
+          variant_name: string | null
+        }
+        Insert: {
+          addons?: NonNullable<Json>
+          custom_bouquet_id?: string | null
+          id?: string
+          order_id?: string | null
+          price: number
+          product_id?: string | null
+          quantity: number
+          variant_id?: string | null
+          variant_name?: string | null
+        }
+        Update: {
+          addons?: NonNullable<Json>
+          custom_bouquet_id?: string | null
+          id?: string
+          order_id?: string | null
+          price?: number
+          product_id?: string | null
+          quantity?: number
+          variant_id?: string | null
+          variant_name?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_items_custom_bouquet_id_fkey"
+            columns: ["custom_bouquet_id"]
+            referencedRelation: "custom_bouquets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_order_id_fkey"
+            columns: ["order_id"]
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_product_id_fkey"
+            columns: ["product_id"]
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_variant_id_fkey"
+            columns: ["variant_id"]
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_status_history: {
+        Row: {
+          actor_role: string | null
+          changed_by: string | null
+          created_at: string
+          from_status: string | null
+          id: string
+          note: string | null
+          order_id: string
+          to_status: string
+        }
+        Insert: {
+          actor_role?: string | null
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          order_id: string
+          to_status: string
+        }
+        Update: {
+          actor_role?: string | null
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          order_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_status_history_changed_by_fkey"
+            columns: ["changed_by"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_status_history_order_id_fkey"
+            columns: ["order_id"]
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      orders: {
+        Row: {
+          anonymous_sender: boolean
+          branch_code: string
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
+          card_message: string | null
+          created_at: string | null
+          date: string | null
+          delivery_address: string | null
+          delivery_city: string | null
+          delivery_fee: number
+          delivery_option: string | null
+          delivery_zip_code: string | null
+          delivery_zone_id: string | null
+          driver_id: string | null
+          id: string
+          idempotency_key: string | null
+          modified_at: string | null
+          order_number: string | null
+          payment: string | null
+          payment_provider: string | null
+          payment_reference: string | null
+          payment_status: string
+          phone: string | null
+          pickup_time: string | null
+          recipient_name: string | null
+          refunded_amount: number
+          scheduled_date: string | null
+          scheduled_for: string | null
+          sender_name: string | null
+          sender_phone: string | null
+          special_instructions: string | null
+          status: string | null
+          surprise_delivery: boolean
+          time_slot_id: string | null
+          time_slot_label: string | null
+          total_amount: number | null
+          user_id: string | null
+          fn_order_changes_allowed: boolean | null
+        }
+        Insert: {
+          anonymous_sender?: boolean
+          branch_code?: string
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          card_message?: string | null
+          created_at?: string | null
+          date?: string | null
+          delivery_address?: string | null
+          delivery_city?: string | null
+          delivery_fee?: number
+          delivery_option?: string | null
+          delivery_zip_code?: string | null
+          delivery_zone_id?: string | null
+          driver_id?: string | null
+          id?: string
+          idempotency_key?: string | null
+          modified_at?: string | null
+          order_number?: string | null
+          payment?: string | null
+          payment_provider?: string | null
+          payment_reference?: string | null
+          payment_status?: string
+          phone?: string | null
+          pickup_time?: string | null
+          recipient_name?: string | null
+          refunded_amount?: number
+          scheduled_date?: string | null
+          scheduled_for?: string | null
+          sender_name?: string | null
+          sender_phone?: string | null
+          special_instructions?: string | null
+          status?: string | null
+          surprise_delivery?: boolean
+          time_slot_id?: string | null
+          time_slot_label?: string | null
+          total_amount?: number | null
+          user_id?: string | null
+        }
+        Update: {
+          anonymous_sender?: boolean
+          branch_code?: string
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          card_message?: string | null
+          created_at?: string | null
+          date?: string | null
+          delivery_address?: string | null
+          delivery_city?: string | null
+          delivery_fee?: number
+          delivery_option?: string | null
+          delivery_zip_code?: string | null
+          delivery_zone_id?: string | null
+          driver_id?: string | null
+          id?: string
+          idempotency_key?: string | null
+          modified_at?: string | null
+          order_number?: string | null
+          payment?: string | null
+          payment_provider?: string | null
+          payment_reference?: string | null
+          payment_status?: string
+          phone?: string | null
+          pickup_time?: string | null
+          recipient_name?: string | null
+          refunded_amount?: number
+          scheduled_date?: string | null
+          scheduled_for?: string | null
+          sender_name?: string | null
+          sender_phone?: string | null
+          special_instructions?: string | null
+          status?: string | null
+          surprise_delivery?: boolean
+          time_slot_id?: string | null
+          time_slot_label?: string | null
+          total_amount?: number | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "orders_delivery_zone_id_fkey"
+            columns: ["delivery_zone_id"]
+            referencedRelation: "delivery_zones"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_driver_id_fkey"
+            columns: ["driver_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_time_slot_id_fkey"
+            columns: ["time_slot_id"]
+            referencedRelation: "time_slots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_user_id_fkey"
+            columns: ["user_id"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_events: {
+        Row: {
+          event_id: string
+          id: string
+          payload: Json | null
+          provider: string
+          received_at: string | null
+          type: string
+        }
+        Insert: {
+          event_id: string
+          id?: string
+          payload?: Json | null
+          provider: string
+          received_at?: string | null
+          type: string
+        }
+        Update: {
+          event_id?: string
+          id?: string
+          payload?: Json | null
+          provider?: string
+          received_at?: string | null
+          type?: string
+        }
+        Relationships: []
+      }
+      payment_proofs: {
+        Row: {
+          created_at: string | null
+          file_path: string
+          id: string
+          order_id: string
+          reference_number: string | null
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+        }
+        Insert: {
+          created_at?: string | null
+          file_path: string
+          id?: string
+          order_id: string
+          reference_number?: string | null
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+        }
+        Update: {
+          created_at?: string | null
+          file_path?: string
+          id?: string
+          order_id?: string
+          reference_number?: string | null
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_proofs_order_id_fkey"
+            columns: ["order_id"]
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_proofs_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_refunds: {
+        Row: {
+          amount: number
+          created_at: string | null
+          created_by: string | null
+          id: string
+          payment_id: string
+          reason: string | null
+          reference: string | null
+          status: string
+          updated_at: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          payment_id: string
+          reason?: string | null
+          reference?: string | null
+          status?: string
+          updated_at?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          payment_id?: string
+          reason?: string | null
+          reference?: string | null
+          status?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_refunds_created_by_fkey"
+            columns: ["created_by"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_refunds_payment_id_fkey"
+            columns: ["payment_id"]
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          amount: number
+          created_at: string | null
+          currency: string
+          failure_reason: string | null
+          id: string
+          order_id: string
+          provider: string
+          reference: string
+          refunded_amount: number
+          status: string
+          updated_at: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          currency?: string
+          failure_reason?: string | null
+          id?: string
+          order_id: string
+          provider: string
+          reference: string
+          refunded_amount?: number
+          status?: string
+          updated_at?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          currency?: string
+          failure_reason?: string | null
+          id?: string
+          order_id?: string
+          provider?: string
+          reference?: string
+          refunded_amount?: number
+          status?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_order_id_fkey"
+            columns: ["order_id"]
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_addons: {
+        Row: {
+          active: boolean
+          created_at: string | null
+          description: string | null
+          id: string
+          image: string | null
+          name: string
+          price: number
+          sort_order: number
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          image?: string | null
+          name: string
+          price: number
+          sort_order?: number
+        }
+        Update: {
+          active?: boolean
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          image?: string | null
+          name?: string
+          price?: number
+          sort_order?: number
+        }
+        Relationships: []
+      }
+      product_categories: {
+        Row: {
+          category_id: string
+          product_id: string
+        }
+        Insert: {
+          category_id: string
+          product_id: string
+        }
+        Update: {
+          category_id?: string
+          product_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_categories_category_id_fkey"
+            columns: ["category_id"]
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_categories_product_id_fkey"
+            columns: ["product_id"]
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_components: {
+        Row: {
+          flower_type_id: string
+          product_id: string
+          stems: number
+        }
+        Insert: {
+          flower_type_id: string
+          product_id: string
+          stems: number
+        }
+        Update: {
+          flower_type_id?: string
+          product_id?: string
+          stems?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_components_flower_type_id_fkey"
+            columns: ["flower_type_id"]
+            referencedRelation: "flower_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_components_product_id_fkey"
+            columns: ["product_id"]
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_stock_movements: {
+        Row: {
+          change: number
+          created_at: string | null
+          created_by: string | null
+          id: string
+          note: string | null
+          order_id: string | null
+          product_id: string
+          reason: string
+        }
+        Insert: {
+          change: number
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          note?: string | null
+          order_id?: string | null
+          product_id: string
+          reason: string
+        }
+        Update: {
+          change?: number
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          note?: string | null
+          order_id?: string | null
+          product_id?: string
+          reason?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_stock_movements_created_by_fkey"
+            columns: ["created_by"]
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_stock_movements_order_id_fkey"
+            columns: ["order_id"]
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_stock_movements_product_id_fkey"
+            columns: ["product_id"]
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_variants: {
+        Row: {
+          created_at: string | null
+          id: string
+          name: string
+          price_delta: number
+          product_id: string
+          sort_order: number
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          name: string
+          price_delta?: number
+          product_id: string
+          sort_order?: number
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          name?: string
+          price_delta?: number
+          product_id?: string
+          sort_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_variants_product_id_fkey"
+            columns: ["product_id"]
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      products: {
+        Row: {
+          badge: string | null
+          care_instructions: string | null
+          created_at: string | null
+          daily_capacity: number | null
+          description: string | null
+          gallery: string[]
+          id: string
+          image: string | null
+          name: string
+          price: number
+          search_text: string
+          search_vector: unknown
+          stock_on_hand: number | null
+          available_quantity: number | null
+          category_names: string[] | null
+          units_sold: number | null
+        }
+        Insert: {
+          badge?: string | null
+          care_instructions?: string | null
+          created_at?: string | null
+          daily_capacity?: number | null
+          description?: string | null
+          gallery?: string[]
+          id?: string
+          image?: string | null
+          name: string
+          price: number
+          search_text?: string
+          search_vector?: never
+          stock_on_hand?: number | null
+        }
+        Update: {
+          badge?: string | null
+          care_instructions?: string | null
+          created_at?: string | null
+          daily_capacity?: number | null
+          description?: string | null
+          gallery?: string[]
+          id?: string
+          image?: string | null
+          name?: string
+          price?: number
+          search_text?: string
+          search_vector?: never
+          stock_on_hand?: number | null
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          address: string | null
+          email: string | null
+          full_name: string | null
+          id: string
+          phone: string | null
+          role: string
+        }
+        Insert: {
+          address?: string | null
+          email?: string | null
+          full_name?: string | null
+          id: string
+          phone?: string | null
+          role?: string
+        }
+        Update: {
+          address?: string | null
+          email?: string | null
+          full_name?: string | null
+          id?: string
+          phone?: string | null
+          role?: string
+        }
+        Relationships: []
+      }
+      shop_settings: {
+        Row: {
+          bank_transfer_instructions: string
+          ewallet_instructions: string
+          id: boolean
+          max_days_ahead: number
+          min_lead_minutes: number
+          order_change_window_minutes: number | null
+          order_changes_locked_from: string
+          timezone: string
+          updated_at: string | null
+        }
+        Insert: {
+          bank_transfer_instructions?: string
+          ewallet_instructions?: string
+          id?: boolean
+          max_days_ahead?: number
+          min_lead_minutes?: number
+          order_change_window_minutes?: number | null
+          order_changes_locked_from?: string
+          timezone?: string
+          updated_at?: string | null
+        }
+        Update: {
+          bank_transfer_instructions?: string
+          ewallet_instructions?: string
+          id?: boolean
+          max_days_ahead?: number
+          min_lead_minutes?: number
+          order_change_window_minutes?: number | null
+          order_changes_locked_from?: string
+          timezone?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      time_slots: {
+        Row: {
+          active: boolean
+          applies_to: string
+          capacity: number | null
+          created_at: string | null
+          end_time: string
+          id: string
+          label: string
+          sort_order: number
+          start_time: string
+          updated_at: string | null
+          weekdays: number[]
+        }
+        Insert: {
+          active?: boolean
+          applies_to?: string
+          capacity?: number | null
+          created_at?: string | null
+          end_time: string
+          id?: string
+          label: string
+          sort_order?: number
+          start_time: string
+          updated_at?: string | null
+          weekdays?: number[]
+        }
+        Update: {
+          active?: boolean
+          applies_to?: string
+          capacity?: number | null
+          created_at?: string | null
+          end_time?: string
+          id?: string
+          label?: string
+          sort_order?: number
+          start_time?: string
+          updated_at?: string | null
+          weekdays?: number[]
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      adjust_flower_stock: {
+        Args: {
+          p_change: number
+          p_flower_type_id: string
+          p_note?: string
+          p_reason?: string
+        }
+        Returns: Json
+      }
+      adjust_product_stock: {
+        Args: {
+          p_change: number
+          p_note?: string
+          p_product_id: string
+          p_reason?: string
+        }
+        Returns: Json
+      }
+      apply_payment_event: {
+        Args: {
+          p_event_id: string
+          p_payload?: Json
+          p_provider: string
+          p_reference: string
+          p_type: string
+        }
+        Returns: Json
+      }
+      assign_driver: {
+        Args: { p_driver_id: string; p_order_id: string }
+        Returns: Json
+      }
+      available_quantity: {
+        Args: { p: Database["public"]["Tables"]["products"]["Row"] }
+        Returns: number
+      }
+      available_time_slots: {
+        Args: {
+          p_city?: string
+          p_date: string
+          p_delivery_option?: string
+          p_zip_code?: string
+        }
+        Returns: Json
+      }
+      cancel_order: {
+        Args: { p_order_id: string; p_reason?: string }
+        Returns: Json
+      }
+      category_names: {
+        Args: { p: Database["public"]["Tables"]["products"]["Row"] }
+        Returns: string[]
+      }
+      create_custom_bouquet: {
+        Args: { p_color_id: string; p_flowers: Json; p_size: string }
+        Returns: Json
+      }
+      create_driver_account: {
+        Args: {
+          p_email: string
+          p_full_name: string
+          p_license_number?: string
+          p_password: string
+          p_phone: string
+          p_username: string
+          p_vehicle_number: string
+        }
+        Returns: Json
+      }
+      current_user_role: { Args: Record<PropertyKey, never>; Returns: string }
+      dearmor: { Args: { "": string }; Returns: string }
+      fips_mode: { Args: Record<PropertyKey, never>; Returns: boolean }
+      fn_adjust_flower_stock: {
+        Args: {
+          p_change: number
+          p_flower_type_id: string
+          p_note?: string
+          p_order_id?: string
+          p_reason: string
+        }
+        Returns: undefined
+      }
+      fn_adjust_product_stock: {
+        Args: {
+          p_change: number
+          p_note?: string
+          p_order_id?: string
+          p_product_id: string
+          p_reason: string
+        }
+        Returns: undefined
+      }
+      fn_apply_payment_refund: {
+        Args: { p_refund_id: string }
+        Returns: undefined
+      }
+      fn_generate_order_number: {
+        Args: { p_branch_code: string; p_date: string }
+        Returns: string
+      }
+      fn_jsonb_uuid_array: { Args: { p_value: Json }; Returns: string[] }
+      fn_match_delivery_zone: {
+        Args: { p_city: string; p_zip_code: string }
+        Returns: {
+          active: boolean
+          cities: string[]
+          created_at: string | null
+          fee: number
+          id: string
+          min_order: number
+          name: string
+          same_day_cutoff: string | null
+          sort_order: number
+          updated_at: string | null
+          zip_codes: string[]
+        }
+        SetofOptions: {
+          from: "*"
+          to: "delivery_zones"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      fn_min_bouquet_stems: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      fn_order_changes_allowed: {
+        Args: { p_order: Database["public"]["Tables"]["orders"]["Row"] }
+        Returns: boolean
+      }
+      fn_order_status_transitions: {
+        Args: { p_delivery_option: string; p_status: string }
+        Returns: string[]
+      }
+      fn_product_line_price: {
+        Args: {
+          p_addon_ids: string[]
+          p_product_id: string
+          p_variant_id: string
+        }
+        Returns: number
+      }
+      fn_product_search_text: {
+        Args: { p_description: string; p_product_id: string }
+        Returns: string
+      }
+      fn_product_sold_today: { Args: { p_product_id: string }; Returns: number }
+      fn_quote_custom_bouquet: {
+        Args: { p_flowers: Json; p_size: string }
+        Returns: Json
+      }
+      fn_refresh_driver_availability: {
+        Args: { p_driver_id: string }
+        Returns: undefined
+      }
+      fn_refresh_product_search: {
+        Args: { p_product_ids: string[] }
+        Returns: undefined
+      }
+      fn_shop_now: { Args: Record<PropertyKey, never>; Returns: string }
+      fn_time_slot_booked: {
+        Args: { p_date: string; p_slot_id: string }
+        Returns: number
+      }
+      fn_time_slot_unavailable_reason: {
+        Args: {
+          p_date: string
+          p_delivery_option: string
+          p_slot: Database["public"]["Tables"]["time_slots"]["Row"]
+          p_zone?: Database["public"]["Tables"]["delivery_zones"]["Row"]
+        }
+        Returns: string
+      }
+      gen_random_uuid: { Args: Record<PropertyKey, never>; Returns: string }
+      gen_salt: { Args: { "": string }; Returns: string }
+      modify_order: {
+        Args: {
+          p_city: string
+          p_delivery_address: string
+          p_order_id: string
+          p_scheduled_date: string
+          p_special_instructions: string
+          p_time_slot_id: string
+          p_zip_code: string
+        }
+        Returns: Json
+      }
+      pgp_armor_headers: {
+        Args: { "": string }
+        Returns: Record<string, unknown>[]
+      }
+      place_order: {
+        Args: {
+          p_city?: string
+          p_delivery_address?: string
+          p_delivery_option?: string
+          p_gift?: Json
+          p_idempotency_key?: string
+          p_items: Json
+          p_payment_method?: string
+          p_phone?: string
+          p_scheduled_date?: string
+          p_special_instructions?: string
+          p_time_slot_id?: string
+          p_zip_code?: string
+        }
+        Returns: Json
+      }
+      quote_delivery: {
+        Args: { p_city: string; p_subtotal?: number; p_zip_code?: string }
+        Returns: Json
+      }
+      record_payment_refund: {
+        Args: {
+          p_amount: number
+          p_created_by: string
+          p_payment_id: string
+          p_reason: string
+          p_reference: string
+          p_status: string
+        }
+        Returns: Json
+      }
+      review_payment_proof: {
+        Args: { p_approve: boolean; p_note?: string; p_proof_id: string }
+        Returns: Json
+      }
+      search_products: {
+        Args: { p_query: string }
+        Returns: {
+          badge: string | null
+          care_instructions: string | null
+          created_at: string | null
+          daily_capacity: number | null
+          description: string | null
+          gallery: string[]
+          id: string
+          image: string | null
+          name: string
+          price: number
+          search_text: string
+          search_vector: unknown
+          stock_on_hand: number | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "products"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      search_suggestions: {
+        Args: { p_limit?: number; p_query: string }
+        Returns: string[]
+      }
+      show_limit: { Args: Record<PropertyKey, never>; Returns: number }
+      show_trgm: { Args: { "": string }; Returns: string[] }
+      submit_payment_proof: {
+        Args: {
+          p_file_path: string
+          p_order_id: string
+          p_reference_number?: string
+        }
+        Returns: Json
+      }
+      units_sold: {
+        Args: { p: Database["public"]["Tables"]["products"]["Row"] }
+        Returns: number
+      }
+      update_order_status: {
+        Args: { p_note?: string; p_order_id: string; p_status: string }
+        Returns: Json
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type DatabaseWithoutInternals = Omit<Database, "__InternalSupabase">
+
+type DefaultSchema = DatabaseWithoutInternals[Extract<keyof Database, "public">]
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema["Tables"] & DefaultSchema["Views"])
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends (DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+        DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])
+    : never) = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+      DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])
+    ? (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends (DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never) = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends (DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never) = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
+
+export type Enums<
+  DefaultSchemaEnumNameOrOptions extends
+    | keyof DefaultSchema["Enums"]
+    | { schema: keyof DatabaseWithoutInternals },
+  EnumName extends (DefaultSchemaEnumNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"]
+    : never) = never,
+> = DefaultSchemaEnumNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"][EnumName]
+  : DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema["Enums"]
+    ? DefaultSchema["Enums"][DefaultSchemaEnumNameOrOptions]
+    : never
+
+export type CompositeTypes<
+  PublicCompositeTypeNameOrOptions extends
+    | keyof DefaultSchema["CompositeTypes"]
+    | { schema: keyof DatabaseWithoutInternals },
+  CompositeTypeName extends (PublicCompositeTypeNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"]
+    : never) = never,
+> = PublicCompositeTypeNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"][CompositeTypeName]
+  : PublicCompositeTypeNameOrOptions extends keyof DefaultSchema["CompositeTypes"]
+    ? DefaultSchema["CompositeTypes"][PublicCompositeTypeNameOrOptions]
+    : never
+
+export const Constants = {
+  public: {
+    Enums: {},
+  },
+} as const
+
@@ -0,0 +1,173 @@
+// src/services/deliveryService.ts
+// Frontend service for the driver portal: a driver's deliveries and their status updates.
+// Marking a delivery delivered fires fn_on_delivery_update, which completes the order.
+
+import supabase from "./supabaseClient";
+import { customBouquetName } from "./customBouquetService";
+
+export type DeliveryStatus = "assigned" | "picked_up" | "in_transit" | "delivered";
+
+export const DELIVERY_STATUS_LABELS: Record<DeliveryStatus, string> = {
+  assigned: "Assigned",
+  picked_up: "Picked Up",
+  in_transit: "In Transit",
+  delivered: "Delivered",
+};
+
+/** The step a driver can move a delivery to next; null once delivered */
+export const NEXT_DELIVERY_STATUS: Record<DeliveryStatus, DeliveryStatus | null> = {
+  assigned: "picked_up",
+  picked_up: "in_transit",
+  in_transit: "delivered",
+  delivered: null,
+};
+
+export interface DriverDelivery {
+  id: string;
+  orderId: string;
+  orderNumber: string;
+  status: DeliveryStatus;
+  deliveryAddress: string;
+  phone: string;
+  recipientName: string;
+  /** Shown as "Anonymous" when the sender asked to stay anonymous */
+  senderName: string;
+  /** Surprise deliveries: call the sender, not the recipient, before arriving */
+  surpriseDelivery: boolean;
+  senderPhone: string;
+  /** The customer's special instructions, or the shop's delivery notes */
+  notes: string;
+  totalAmount: number;
+  orderDate: string;
+  items: { name: string; quantity: number }[];
+  pickedUpAt?: string;
+  inTransitAt?: string;
+  deliveredAt?: string;
+  updatedAt?: string;
+}
+
+const DELIVERY_COLUMNS = `
+  id,
+  order_id,
+  status,
+  notes,
+  picked_up_at,
+  in_transit_at,
+  delivered_at,
+  updated_at,
+  orders(
+    order_number,
+    delivery_address,
+    phone,
+    recipient_name,
+    sender_name,
+    sender_phone,
+    anonymous_sender,
+    surprise_delivery,
+    special_instructions,
+    total_amount,
+    date,
+    order_items(
+      quantity,
+      products(name),
+      custom_bouquets(size, size_name)
+    )
+  )
+`;
+
+function mapDelivery(row: any): DriverDelivery {
+  const order = Array.isArray(row.orders) ? row.orders[0] : row.orders;
+  return {
+    id: row.id,
+    orderId: row.order_id,
+    orderNumber: order?.order_number || row.order_id,
+    status: row.status,
+    deliveryAddress: order?.delivery_address || "",
+    phone: order?.phone || "",
+    recipientName: order?.recipient_name || "",
+    senderName: order?.anonymous_sender ? "Anonymous" : order?.sender_name || "",
+    surpriseDelivery: order?.surprise_delivery ?? false,
+    senderPhone: order?.sender_phone || "",
+    notes: [order?.special_instructions, row.notes].filter(Boolean).join(" — "),
+    totalAmount: order?.total_amount ?? 0,
+    orderDate: order?.date || "",
+    items: (order?.order_items || []).map((item: any) => {
+      const product = Array.isArray(item.products) ? item.products[0] : item.products;
+      if (item.custom_bouquets) {
+        return { name: customBouquetName(item.custom_bouquets), quantity: item.quantity };
+      }
+      return { name: product?.name || "Item", quantity: item.quantity };
+    }),
+    pickedUpAt: row.picked_up_at ?? undefined,
+    inTransitAt: row.in_transit_at ?? undefined,
+    deliveredAt: row.delivered_at ?? undefined,
+    updatedAt: row.updated_at ?? undefined,
+  };
+}
+
+/**
+ * Fetch the deliveries assigned to a driver (by profile id), most recently updated first
+ */
+export async function fetchDriverDeliveries(driverProfileId: string): Promise<DriverDelivery[]> {
+  try {
+    const { data, error } = await supabase
+      .from("deliveries")
+      .select(DELIVERY_COLUMNS)
+      .eq("driver_id", driverProfileId)
+      .order("updated_at", { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(mapDelivery);
+  } catch (error) {
+    console.error("Error fetching driver deliveries:", error);
+    throw error;
+  }
+}
+
+/**
+ * Move a delivery to its next step. Timestamps are stamped by the database.
+ */
+export async function updateDeliveryStatus(deliveryId: string, status: DeliveryStatus): Promise<DriverDelivery> {
+  try {
+    const { data, error } = await supabase
+      .from("deliveries")
+      .update({ status })
+      .eq("id", deliveryId)
+      .select(DELIVERY_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return mapDelivery(data);
+  } catch (error) {
+    console.error("Error updating delivery status:", error);
+    throw error;
+  }
+}
+
+/**
+ * Subscribe to changes on a driver's deliveries (realtime)
+ */
+export function subscribeToDriverDeliveries(driverProfileId: string, callback: (deliveries: DriverDelivery[]) => void) {
+  const subscription = supabase
+    .channel(`driver-deliveries-${driverProfileId}`)
+    .on(
+      "postgres_changes",
+      {
+        event: "*",
+        schema: "public",
+        table: "deliveries",
+        filter: `driver_id=eq.${driverProfileId}`,
+      },
+      async () => {
+        try {
+          const deliveries = await fetchDriverDeliveries(driverProfileId);
+          callback(deliveries);
+        } catch (error) {
+          console.error("Error refreshing driver deliveries:", error);
+        }
+      }
+    )
+    .subscribe();
+
+  return subscription;
+}
@@ -0,0 +1,111 @@
+// src/services/deliveryZoneService.ts
+// Frontend service for delivery zones. The fee shown in the cart comes from quote_delivery,
+// the same zone match place_order charges with.
+
+import supabase from "./supabaseClient";
+
+export interface DeliveryZone {
+  id: string;
+  name: string;
+  cities: string[];
+  zipCodes: string[];
+  fee: number;
+  minOrder: number;
+  /** "HH:MM:SS" local shop time; null when the zone has no same-day delivery */
+  sameDayCutoff: string | null;
+  active: boolean;
+  sortOrder: number;
+}
+
+export type DeliveryQuote =
+  | { served: false }
+  | {
+      served: true;
+      zoneId: string;
+      zoneName: string;
+      fee: number;
+      minOrder: number;
+      meetsMinOrder: boolean;
+      sameDayCutoff: string | null;
+      sameDayAvailable: boolean;
+    };
+
+export function mapDeliveryZone(row: any): DeliveryZone {
+  return {
+    id: row.id,
+    name: row.name,
+    cities: row.cities ?? [],
+    zipCodes: row.zip_codes ?? [],
+    fee: row.fee ?? 0,
+    minOrder: row.min_order ?? 0,
+    sameDayCutoff: row.same_day_cutoff ?? null,
+    active: row.active ?? true,
+    sortOrder: row.sort_order ?? 0,
+  };
+}
+
+/** "14:00:00" as "2:00 PM" */
+export function formatCutoff(cutoff: string): string {
+  const [hours, minutes] = cutoff.split(":").map(Number);
+  const suffix = hours >= 12 ? "PM" : "AM";
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, "0")} ${suffix}`;
+}
+
+/**
+ * Fetch delivery zones ordered for display. Customers only need the active ones.
+ */
+export async function fetchDeliveryZones(activeOnly = false): Promise<DeliveryZone[]> {
+  try {
+    let query = supabase.from("delivery_zones").select("*").order("sort_order").order("name");
+    if (activeOnly) query = query.eq("active", true);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(mapDeliveryZone);
+  } catch (error) {
+    console.error("Error fetching delivery zones:", error);
+    throw error;
+  }
+}
+
+/** jsonb returned by quote_delivery */
+interface DeliveryQuoteRow {
+  served: boolean;
+  zone_id: string;
+  zone_name: string;
+  fee: number;
+  min_order: number;
+  meets_min_order: boolean;
+  same_day_cutoff: string | null;
+  same_day_available: boolean;
+}
+
+/**
+ * Match an address to a delivery zone and get its fee and rules
+ */
+export async function quoteDelivery(city: string, zipCode?: string | null, subtotal?: number): Promise<DeliveryQuote> {
+  try {
+    const { data, error } = await supabase.rpc("quote_delivery", {
+      p_city: city,
+      p_zip_code: zipCode || null,
+      p_subtotal: subtotal ?? null,
+    });
+
+    if (error) throw error;
+    const quote = data as unknown as DeliveryQuoteRow | null;
+    if (!quote?.served) return { served: false };
+    return {
+      served: true,
+      zoneId: quote.zone_id,
+      zoneName: quote.zone_name,
+      fee: quote.fee,
+      minOrder: quote.min_order,
+      meetsMinOrder: quote.meets_min_order,
+      sameDayCutoff: quote.same_day_cutoff ?? null,
+      sameDayAvailable: quote.same_day_available,
+    };
+  } catch (error) {
+    console.error("Error quoting delivery:", error);
+    throw error;
+  }
+}
@@ -13,7 +13,10 @@ export interface Driver {
   vehicleNumber: string;
   licenseNumber?: string;
   status: "active" | "inactive";
+  /** Free for a new delivery: on duty with no unfinished deliveries */
   isAvailable: boolean;
+  /** The driver's own opt-out, set from the driver portal or by an admin */
+  offDuty: boolean;
   deliveries: number;
   rating: number;
   createdAt: string;
@@ -103,6 +106,27 @@ export async function createDriver(input: CreateDriverInput) {
 }
 
 
+function mapDriver(driver: any): Driver {
+  const profile = Array.isArray(driver.profiles) ? driver.profiles[0] : driver.profiles;
+  return {
+    id: driver.id,
+    profileId: driver.profile_id,
+    name: profile?.full_name || "Unknown",
+    email: profile?.email || "",
+    username: driver.username,
+    phone: profile?.phone || "",
+    vehicleNumber: driver.vehicle_number,
+    licenseNumber: driver.license_number,
+    status: driver.status,
+    isAvailable: driver.is_available,
+    offDuty: driver.off_duty ?? false,
+    deliveries: driver.deliveries,
+    rating: driver.rating,
+    createdAt: driver.created_at,
+    updatedAt: driver.updated_at,
+  };
+}
+
 /**
  * Fetch all drivers with their profiles
  */
@@ -119,6 +143,7 @@ export async function fetchDrivers(): Promise<Driver[]> {
         license_number,
         status,
         is_available,
+        off_duty,
         deliveries,
         rating,
         created_at,
@@ -134,25 +159,7 @@ export async function fetchDrivers(): Promise<Driver[]> {
 
     if (error) throw error;
 
-    return (data as any[]).map((driver) => {
-      const profile = Array.isArray(driver.profiles) ? driver.profiles[0] : driver.profiles;
-      return {
-        id: driver.id,
-        profileId: driver.profile_id,
-        name: profile?.full_name || "Unknown",
-        email: profile?.email || "",
-        username: driver.username,
-        phone: profile?.phone || "",
-        vehicleNumber: driver.vehicle_number,
-        licenseNumber: driver.license_number,
-        status: driver.status,
-        isAvailable: driver.is_available,
-        deliveries: driver.deliveries,
-        rating: driver.rating,
-        createdAt: driver.created_at,
-        updatedAt: driver.updated_at,
-      };
-    });
+    return (data as any[]).map(mapDriver);
   } catch (error) {
     console.error("Error fetching drivers:", error);
     throw error;
@@ -160,13 +167,54 @@ export async function fetchDrivers(): Promise<Driver[]> {
 }
 
 /**
- * Update driver status and availability
+ * Fetch the driver record for a signed-in driver (null if the profile has none yet)
+ */
+export async function fetchDriverByProfileId(profileId: string): Promise<Driver | null> {
+  try {
+    const { data, error } = await supabase
+      .from("drivers")
+      .select(
+        `
+        id,
+        profile_id,
+        username,
+        vehicle_number,
+        license_number,
+        status,
+        is_available,
+        off_duty,
+        deliveries,
+        rating,
+        created_at,
+        updated_at,
+        profiles(
+          id,
+          full_name,
+          email,
+          phone
+        )
+      `
+      )
+      .eq("profile_id", profileId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? mapDriver(data) : null;
+  } catch (error) {
+    console.error("Error fetching driver:", error);
+    throw error;
+  }
+}
+
+/**
+ * Update driver status, vehicle details or duty. Going off or on duty also recomputes
+ * is_available in the database.
  */
 export async function updateDriver(
   driverId: string,
   updates: {
     status?: "active" | "inactive";
-    isAvailable?: boolean;
+    offDuty?: boolean;
     vehicleNumber?: string;
     licenseNumber?: string;
   }
@@ -174,7 +222,7 @@ export async function updateDriver(
   try {
     const updatePayload: any = {};
     if (updates.status !== undefined) updatePayload.status = updates.status;
-    if (updates.isAvailable !== undefined) updatePayload.is_available = updates.isAvailable;
+    if (updates.offDuty !== undefined) updatePayload.off_duty = updates.offDuty;
     if (updates.vehicleNumber !== undefined) updatePayload.vehicle_number = updates.vehicleNumber;
     if (updates.licenseNumber !== undefined) updatePayload.license_number = updates.licenseNumber;
     updatePayload.updated_at = new Date().toISOString();
@@ -191,6 +239,7 @@ export async function updateDriver(
         license_number,
         status,
         is_available,
+        off_duty,
         deliveries,
         rating,
         created_at,
@@ -208,23 +257,7 @@ export async function updateDriver(
     
     // Map response to Driver interface
     if (data) {
-      const profile = Array.isArray(data.profiles) ? data.profiles[0] : data.profiles;
-      return {
-        id: data.id,
-        profileId: data.profile_id,
-        name: profile?.full_name || "Unknown",
-        email: profile?.email || "",
-        username: data.username,
-        phone: profile?.phone || "",
-        vehicleNumber: data.vehicle_number,
-        licenseNumber: data.license_number,
-        status: data.status,
-        isAvailable: data.is_available,
-        deliveries: data.deliveries,
-        rating: data.rating,
-        createdAt: data.created_at,
-        updatedAt: data.updated_at,
-      };
+      return mapDriver(data);
     }
   } catch (error) {
     console.error("Error updating driver:", error);
@@ -300,18 +333,19 @@ export async function acceptOrder(orderId: string) {
 }
 
 /**
- * Assign driver to order
+ * Assign, reassign or unassign (driverId = null) the driver for an order.
+ * driverId is the driver's profile id. The assign_driver function also creates or moves
+ * the order's deliveries record and updates drivers.is_available.
  */
-export async function assignDriverToOrder(orderId: string, driverId: string) {
+export async function assignDriverToOrder(orderId: string, driverId: string | null) {
   try {
-    const { data, error } = await supabase
-      .from('orders')
-      .update({ driver_id: driverId })
-      .eq('id', orderId)
-      .select();
-    
+    const { data, error } = await supabase.rpc('assign_driver', {
+      p_order_id: orderId,
+      p_driver_id: driverId,
+    });
+
     if (error) throw error;
-    console.log('Driver assigned to order:', data);
+    console.log(driverId ? 'Driver assigned to order:' : 'Driver unassigned from order:', data);
     return { data, error };
   } catch (error) {
     console.error('Error assigning driver:', error);
@@ -0,0 +1,55 @@
+// src/services/flowerStockService.ts
+// Frontend service for flower stem inventory. Stock is reserved and released by database
+// triggers on orders; admins restock or correct it through adjust_flower_stock.
+
+import supabase from "./supabaseClient";
+import type { FlowerType } from "../data/bouquetData";
+
+export const FLOWER_TYPE_COLUMNS =
+  "id, name, image, category, available, surcharge, stock_on_hand, reorder_threshold, unit_cost, sold_out";
+
+export function mapFlowerType(row: any): FlowerType {
+  return {
+    id: row.id,
+    name: row.name,
+    image: row.image ?? "",
+    category: row.category ?? "",
+    available: row.available ?? true,
+    surcharge: row.surcharge ?? 0,
+    stockOnHand: row.stock_on_hand ?? null,
+    reorderThreshold: row.reorder_threshold ?? 0,
+    unitCost: Number(row.unit_cost ?? 0),
+    soldOut: row.sold_out ?? false,
+  };
+}
+
+/** Counted flowers at or below their reorder threshold */
+export function isLowStock(flower: FlowerType): boolean {
+  return flower.stockOnHand !== null && flower.stockOnHand <= flower.reorderThreshold;
+}
+
+/**
+ * Restock a flower (positive change) or correct its count after a stock take.
+ * Returns the updated flower.
+ */
+export async function adjustFlowerStock(
+  flowerTypeId: string,
+  change: number,
+  reason: "restock" | "adjustment" = "restock",
+  note?: string
+): Promise<FlowerType> {
+  try {
+    const { data, error } = await supabase.rpc("adjust_flower_stock", {
+      p_flower_type_id: flowerTypeId,
+      p_change: change,
+      p_reason: reason,
+      p_note: note ?? null,
+    });
+
+    if (error) throw error;
+    return mapFlowerType(data);
+  } catch (error) {
+    console.error("Error adjusting flower stock:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,55 @@
+// src/services/orderAlertService.ts
+// New-order alerts for the admin dashboard: a short chime, generated with the Web Audio API
+// so there is no sound file to ship, and the staff member's sound on/off preference.
+
+const SOUND_PREFERENCE_KEY = "admin-new-order-sound";
+
+let audioContext: AudioContext | null = null;
+
+/** Sound is on unless this browser turned it off */
+export function isOrderSoundEnabled(): boolean {
+  try {
+    return localStorage.getItem(SOUND_PREFERENCE_KEY) !== "off";
+  } catch {
+    return true;
+  }
+}
+
+export function setOrderSoundEnabled(enabled: boolean): void {
+  try {
+    localStorage.setItem(SOUND_PREFERENCE_KEY, enabled ? "on" : "off");
+  } catch {
+    // Private mode; the preference only lasts for this page
+  }
+}
+
+/**
+ * Play a two-note chime. Browsers only allow audio after the user has interacted with
+ * the page, which staff always have by the time they sign in.
+ */
+export function playNewOrderChime(): void {
+  if (!isOrderSoundEnabled()) return;
+  try {
+    const AudioContextClass = window.AudioContext ?? (window as any).webkitAudioContext;
+    if (!AudioContextClass) return;
+    audioContext ??= new AudioContextClass();
+    const context = audioContext;
+    void context.resume();
+
+    [880, 1175].forEach((frequency, index) => {
+      const start = context.currentTime + index * 0.18;
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.type = "sine";
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.0001, start);
+      gain.gain.exponentialRampToValueAtTime(0.3, start + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.35);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(start);
+      oscillator.stop(start + 0.4);
+    });
+  } catch (error) {
+    console.error("Error playing new order chime:", error);
+  }
+}
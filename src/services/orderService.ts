@@ -0,0 +1,486 @@
+// src/services/orderService.ts
+// Frontend service for placing and reading orders
+
+import supabase from "./supabaseClient";
+import { invalidateCatalog } from "./catalogService";
+import { customBouquetToProduct, mapCustomBouquet } from "./customBouquetService";
+import type { Tables } from "./database.types";
+import type { PaymentMethod, PaymentStatus } from "./paymentService";
+import type { Order } from "../App";
+import type { ProductAddOn } from "../data/products";
+
+export type OrderStatus =
+  | "Pending"
+  | "Confirmed"
+  | "Preparing"
+  | "Ready"
+  | "Out for Delivery"
+  | "Picked Up"
+  | "Delivered"
+  | "Cancelled"
+  | "Refunded";
+
+export const ORDER_STATUSES: OrderStatus[] = [
+  "Pending",
+  "Confirmed",
+  "Preparing",
+  "Ready",
+  "Out for Delivery",
+  "Picked Up",
+  "Delivered",
+  "Cancelled",
+  "Refunded",
+];
+
+export interface OrderStatusChange {
+  id: string;
+  fromStatus: OrderStatus | null;
+  toStatus: OrderStatus;
+  changedBy: string | null;
+  /** Only readable by admins; customers and drivers get null */
+  changedByName: string | null;
+  /** "customer" | "admin" | "driver"; null for system changes */
+  actorRole: string | null;
+  note: string | null;
+  createdAt: string;
+}
+
+/** Longest gift card message; matches the orders.card_message check */
+export const GIFT_MESSAGE_MAX_LENGTH = 200;
+
+export interface GiftDetails {
+  /** Defaults to the customer's profile name and phone */
+  senderName?: string | null;
+  senderPhone?: string | null;
+  recipientName?: string | null;
+  cardMessage?: string | null;
+  /** Keep the sender's name off the card */
+  anonymousSender?: boolean;
+  /** Call the sender, not the recipient, before delivering */
+  surpriseDelivery?: boolean;
+}
+
+export interface PlaceOrderInput {
+  /** Each line is either a product, with its variant and add-ons, or a saved custom bouquet */
+  items: {
+    productId?: string;
+    variantId?: string | null;
+    addOnIds?: string[];
+    customBouquetId?: string;
+    quantity: number;
+  }[];
+  deliveryOption: "delivery" | "pickup";
+  deliveryAddress?: string | null;
+  /** Matched to a delivery zone, which sets the delivery fee */
+  city?: string | null;
+  zipCode?: string | null;
+  phone?: string | null;
+  /** "YYYY-MM-DD"; required with timeSlotId whenever the shop offers time slots */
+  scheduledDate?: string | null;
+  timeSlotId?: string | null;
+  specialInstructions?: string | null;
+  gift?: GiftDetails | null;
+  /** Card orders are placed awaiting payment; defaults to cash */
+  paymentMethod?: PaymentMethod;
+  /** Replaying a key returns the order created by the first attempt instead of a duplicate */
+  idempotencyKey?: string | null;
+}
+
+export interface PlacedOrderItem {
+  id: string;
+  productId: string | null;
+  customBouquetId: string | null;
+  variantId: string | null;
+  variantName: string | null;
+  quantity: number;
+  /** Unit price, including the variant and add-ons */
+  price: number;
+}
+
+export interface PlacedOrder {
+  id: string;
+  orderNumber: string | null;
+  userId: string;
+  totalAmount: number;
+  deliveryFee: number;
+  phone: string;
+  date: string;
+  status: OrderStatus;
+  payment: string;
+  paymentStatus: PaymentStatus;
+  deliveryAddress: string;
+  deliveryOption: "delivery" | "pickup";
+  createdAt: string;
+  items: PlacedOrderItem[];
+}
+
+function mapPlacedOrder(row: any): PlacedOrder {
+  return {
+    id: row.id,
+    orderNumber: row.order_number ?? null,
+    userId: row.user_id,
+    totalAmount: row.total_amount ?? 0,
+    deliveryFee: row.delivery_fee ?? 0,
+    phone: row.phone ?? "",
+    date: row.date ?? (row.created_at ? row.created_at.split("T")[0] : ""),
+    status: row.status ?? "Pending",
+    payment: row.payment ?? "Cash",
+    paymentStatus: row.payment_status ?? "unpaid",
+    deliveryAddress: row.delivery_address ?? "",
+    deliveryOption: row.delivery_option ?? "delivery",
+    createdAt: row.created_at,
+    items: (row.order_items || []).map((it: any) => ({
+      id: it.id,
+      productId: it.product_id ?? null,
+      customBouquetId: it.custom_bouquet_id ?? null,
+      variantId: it.variant_id ?? null,
+      variantName: it.variant_name ?? null,
+      quantity: it.quantity,
+      price: it.price,
+    })),
+  };
+}
+
+/** Order columns with items, their product or custom bouquet, and the customer's name */
+const ORDER_SELECT =
+  "*, order_items(*, products(id, name, price, image), custom_bouquets(*)), profiles!user_id(full_name)";
+
+type OrderRow = Tables<"orders"> & {
+  order_items: (Tables<"order_items"> & {
+    products: Pick<Tables<"products">, "id" | "name" | "price" | "image"> | null;
+    custom_bouquets: Tables<"custom_bouquets"> | null;
+  })[];
+  profiles: { full_name: string | null } | null;
+};
+
+export function mapOrder(row: OrderRow): Order {
+  return {
+    id: row.id,
+    name: row.profiles?.full_name ?? "",
+    orderId: row.order_number ?? row.id,
+    items: row.order_items.map((item) => ({
+      product: item.custom_bouquets
+        ? customBouquetToProduct(mapCustomBouquet(item.custom_bouquets))
+        : {
+            ...(item.products
+              ? { ...item.products, image: item.products.image ?? "" }
+              : { id: item.product_id ?? item.id, name: "Unknown", image: "" }),
+            // What the line sold for, with its variant and add-ons
+            price: item.price,
+            categories: [],
+            selectedVariant: item.variant_name
+              ? { id: item.variant_id ?? "", name: item.variant_name, priceDelta: 0 }
+              : null,
+            selectedAddOns: Array.isArray(item.addons) ? (item.addons as unknown as ProductAddOn[]) : [],
+          },
+      quantity: item.quantity,
+    })),
+    totalAmount: row.total_amount ?? 0,
+    phone: row.phone ?? "",
+    date: row.date ?? (row.created_at ? row.created_at.split("T")[0] : ""),
+    status: (row.status ?? "Pending") as OrderStatus,
+    payment: (row.payment ?? "Cash") as Order["payment"],
+    paymentStatus: row.payment_status as PaymentStatus,
+    refundedAmount: row.refunded_amount,
+    driver: row.driver_id ?? "Unassigned",
+    deliveryAddress: row.delivery_address ?? "",
+    deliveryOption: row.delivery_option === "pickup" ? "pickup" : "delivery",
+    specialInstructions: row.special_instructions ?? "",
+    senderName: row.sender_name,
+    senderPhone: row.sender_phone,
+    recipientName: row.recipient_name,
+    cardMessage: row.card_message,
+    anonymousSender: row.anonymous_sender,
+    surpriseDelivery: row.surprise_delivery,
+    pickupTime: row.pickup_time,
+    scheduledDate: row.scheduled_date,
+    timeSlotLabel: row.time_slot_label,
+    scheduledFor: row.scheduled_for,
+    cancelledBy: row.cancelled_by,
+    cancellationReason: row.cancellation_reason,
+  };
+}
+
+/**
+ * Fetch orders with their items, newest first. RLS returns every order to admins and
+ * only their own to customers.
+ */
+export async function fetchOrders(): Promise<Order[]> {
+  try {
+    const { data, error } = await supabase.from("orders").select(ORDER_SELECT).order("created_at", { ascending: false });
+    if (error) throw error;
+    return (data || []).map(mapOrder);
+  } catch (error) {
+    console.error("Error fetching orders:", error);
+    throw error;
+  }
+}
+
+/**
+ * Place an order through the `place_order` database function.
+ * Prices, totals and the delivery zone fee are computed server-side; the order, its items
+ * and the removal of the purchased cart rows happen in a single transaction.
+ */
+export async function placeOrder(input: PlaceOrderInput): Promise<PlacedOrder> {
+  try {
+    const { data, error } = await supabase.rpc("place_order", {
+      p_items: input.items.map((item) =>
+        item.customBouquetId
+          ? { custom_bouquet_id: item.customBouquetId, quantity: item.quantity }
+          : {
+              product_id: item.productId,
+              variant_id: item.variantId ?? null,
+              addon_ids: item.addOnIds ?? [],
+              quantity: item.quantity,
+            }
+      ),
+      p_delivery_option: input.deliveryOption,
+      p_delivery_address: input.deliveryAddress ?? null,
+      p_phone: input.phone ?? null,
+      p_idempotency_key: input.idempotencyKey ?? null,
+      p_payment_method: input.paymentMethod ?? "cash",
+      p_city: input.city ?? null,
+      p_zip_code: input.zipCode ?? null,
+      p_scheduled_date: input.scheduledDate ?? null,
+      p_time_slot_id: input.timeSlotId ?? null,
+      p_special_instructions: input.specialInstructions ?? null,
+      p_gift: input.gift
+        ? {
+            sender_name: input.gift.senderName ?? null,
+            sender_phone: input.gift.senderPhone ?? null,
+            recipient_name: input.gift.recipientName ?? null,
+            card_message: input.gift.cardMessage ?? null,
+            anonymous_sender: input.gift.anonymousSender ?? false,
+            surprise_delivery: input.gift.surpriseDelivery ?? false,
+          }
+        : null,
+    });
+
+    if (error) throw error;
+    // The order reserved stock, so cached availability is out of date
+    invalidateCatalog();
+    return mapPlacedOrder(data);
+  } catch (error) {
+    console.error("Error placing order:", error);
+    throw error;
+  }
+}
+
+/**
+ * Case- and separator-insensitive match against an order number,
+ * so "261019jfs00042" and "JFS-00042" both find 261019-JFS-00042.
+ */
+export function matchesOrderNumber(orderNumber: string | null | undefined, query: string): boolean {
+  const normalize = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  const needle = normalize(query);
+  if (!needle) return true;
+  return normalize(orderNumber ?? "").includes(needle);
+}
+
+/**
+ * Statuses an order can move to next. Mirrors fn_order_status_transitions in the
+ * database, which is what actually enforces them.
+ */
+export function getNextOrderStatuses(status: OrderStatus, deliveryOption: "delivery" | "pickup"): OrderStatus[] {
+  switch (status) {
+    case "Pending":
+      return ["Confirmed", "Cancelled"];
+    case "Confirmed":
+      return ["Preparing", "Cancelled"];
+    case "Preparing":
+      return ["Ready", "Cancelled"];
+    case "Ready":
+      return deliveryOption === "pickup" ? ["Picked Up", "Cancelled"] : ["Out for Delivery", "Cancelled"];
+    case "Out for Delivery":
+      return ["Delivered"];
+    case "Picked Up":
+    case "Delivered":
+    case "Cancelled":
+      return ["Refunded"];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Move an order to a new status through the `update_order_status` database function.
+ * Invalid transitions are rejected by the database; the note is shown on the timeline.
+ */
+export async function updateOrderStatus(orderId: string, status: OrderStatus, note?: string): Promise<void> {
+  try {
+    const { error } = await supabase.rpc("update_order_status", {
+      p_order_id: orderId,
+      p_status: status,
+      p_note: note?.trim() || null,
+    });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error("Error updating order status:", error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch an order's status timeline, oldest first
+ */
+export async function fetchOrderStatusHistory(orderId: string): Promise<OrderStatusChange[]> {
+  try {
+    const { data, error } = await supabase
+      .from("order_status_history")
+      .select(`
+        id,
+        from_status,
+        to_status,
+        changed_by,
+        actor_role,
+        note,
+        created_at,
+        profiles(full_name)
+      `)
+      .eq("order_id", orderId)
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map((row: any) => {
+      const profile = Array.isArray(row.profiles) ? row.profiles[0] : row.profiles;
+      return {
+        id: row.id,
+        fromStatus: row.from_status,
+        toStatus: row.to_status,
+        changedBy: row.changed_by,
+        changedByName: profile?.full_name ?? null,
+        actorRole: row.actor_role ?? null,
+        note: row.note,
+        createdAt: row.created_at,
+      };
+    });
+  } catch (error) {
+    console.error("Error fetching order status history:", error);
+    throw error;
+  }
+}
+
+export interface OrderChangePolicy {
+  /** Customer changes are blocked from this status onwards */
+  lockedFrom: "Confirmed" | "Preparing";
+  /** Minutes after placing during which changes are allowed; null for no limit */
+  windowMinutes: number | null;
+}
+
+export const DEFAULT_ORDER_CHANGE_POLICY: OrderChangePolicy = { lockedFrom: "Preparing", windowMinutes: null };
+
+export interface OrderChanges {
+  deliveryAddress: string;
+  /** City and ZIP code the new address is matched to a delivery zone by */
+  city: string;
+  zipCode: string;
+  /** New "YYYY-MM-DD" date and time slot; both null to keep the current schedule */
+  scheduledDate: string | null;
+  timeSlotId: string | null;
+  specialInstructions: string;
+}
+
+/**
+ * Load the customer change cutoff from shop_settings
+ */
+export async function fetchOrderChangePolicy(): Promise<OrderChangePolicy> {
+  try {
+    const { data, error } = await supabase
+      .from("shop_settings")
+      .select("order_changes_locked_from, order_change_window_minutes")
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return DEFAULT_ORDER_CHANGE_POLICY;
+
+    return {
+      lockedFrom: data.order_changes_locked_from as OrderChangePolicy["lockedFrom"],
+      windowMinutes: data.order_change_window_minutes,
+    };
+  } catch (error) {
+    console.error("Error fetching order change policy:", error);
+    return DEFAULT_ORDER_CHANGE_POLICY;
+  }
+}
+
+/**
+ * Whether a customer may still cancel or modify an order. Mirrors fn_order_changes_allowed,
+ * which the database checks again in cancel_order and modify_order.
+ */
+export function canCustomerChangeOrder(
+  order: { status: string; createdAt?: string | null },
+  policy: OrderChangePolicy
+): boolean {
+  const editable = policy.lockedFrom === "Confirmed" ? ["Pending"] : ["Pending", "Confirmed"];
+  if (!editable.includes(order.status)) return false;
+  if (policy.windowMinutes === null || !order.createdAt) return true;
+  return new Date(order.createdAt).getTime() + policy.windowMinutes * 60 * 1000 > Date.now();
+}
+
+/**
+ * Cancel one of the signed-in customer's orders
+ */
+export async function cancelOrder(orderId: string, reason?: string): Promise<void> {
+  try {
+    const { error } = await supabase.rpc("cancel_order", {
+      p_order_id: orderId,
+      p_reason: reason?.trim() || null,
+    });
+
+    if (error) throw error;
+  } catch (error) {
+    console.error("Error cancelling order:", error);
+    throw error;
+  }
+}
+
+/**
+ * Change the delivery address, schedule and special instructions of a customer's order.
+ * A new address is matched to a delivery zone again, so the returned order carries the
+ * recomputed delivery fee and total.
+ */
+export async function modifyOrder(orderId: string, changes: OrderChanges): Promise<Tables<"orders">> {
+  try {
+    const { data, error } = await supabase.rpc("modify_order", {
+      p_order_id: orderId,
+      p_delivery_address: changes.deliveryAddress,
+      p_city: changes.city.trim() || null,
+      p_zip_code: changes.zipCode.trim() || null,
+      p_scheduled_date: changes.scheduledDate,
+      p_time_slot_id: changes.timeSlotId,
+      p_special_instructions: changes.specialInstructions,
+    });
+
+    if (error) throw error;
+    return data as Tables<"orders">;
+  } catch (error) {
+    console.error("Error modifying order:", error);
+    throw error;
+  }
+}
+
+export interface OrderChangeEvent {
+  eventType: "INSERT" | "UPDATE" | "DELETE";
+  /** The row after the change; empty for deletes */
+  row: Record<string, any>;
+}
+
+/**
+ * Listen to every change on orders, for the admin board. Items are not published, so
+ * refetch them after an event. RLS decides which rows reach the client. Returns a
+ * function that stops listening.
+ */
+export function subscribeToOrderChanges(onChange: (event: OrderChangeEvent) => void): () => void {
+  const channel = supabase
+    .channel("admin-orders")
+    .on("postgres_changes", { event: "*", schema: "public", table: "orders" }, (payload) =>
+      onChange({ eventType: payload.eventType, row: payload.new as Record<string, any> })
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
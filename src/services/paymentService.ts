@@ -0,0 +1,307 @@
+// src/services/paymentService.ts
+// Frontend service for payments. Card intents, test-card confirmations and refunds go
+// through the `payments` Edge Function; e-wallet and bank-transfer orders are paid with an
+// uploaded proof that an admin verifies.
+
+import supabase from "./supabaseClient";
+
+export type PaymentMethod = "cash" | "card" | "ewallet" | "bank_transfer";
+
+export type PaymentStatus = "unpaid" | "pending" | "verifying" | "paid" | "failed" | "partially_refunded" | "refunded";
+
+/** Stored as orders.payment */
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: "Cash",
+  card: "Card",
+  ewallet: "E-Wallet",
+  bank_transfer: "Bank Transfer",
+};
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  unpaid: "Unpaid",
+  pending: "Awaiting payment",
+  verifying: "Verifying payment",
+  paid: "Paid",
+  failed: "Payment failed",
+  partially_refunded: "Partially refunded",
+  refunded: "Refunded",
+};
+
+/** Card number the mock provider accepts; any other number is declined */
+export const MOCK_TEST_CARD = "4242 4242 4242 4242";
+
+export interface PaymentIntentResult {
+  paymentId: string;
+  provider: string;
+  reference: string;
+  amount: number;
+  status: string;
+  clientSecret: string | null;
+  /** Set when the gateway uses a hosted checkout page */
+  redirectUrl: string | null;
+}
+
+export interface OrderPayment {
+  id: string;
+  provider: string;
+  reference: string;
+  amount: number;
+  refundedAmount: number;
+  status: "requires_action" | "processing" | "succeeded" | "failed" | "cancelled";
+  failureReason: string | null;
+  createdAt: string;
+  refunds: { id: string; amount: number; reason: string | null; status: string; createdAt: string }[];
+}
+
+/** Whether a card order still needs the customer to pay */
+export function needsCardPayment(order: { payment?: string | null; paymentStatus?: string | null; status?: string }): boolean {
+  return (
+    order.payment === "Card" &&
+    order.status !== "Cancelled" &&
+    (order.paymentStatus === "pending" || order.paymentStatus === "failed")
+  );
+}
+
+/** Whether an e-wallet or bank-transfer order still needs a proof of payment */
+export function needsPaymentProof(order: { payment?: string | null; paymentStatus?: string | null; status?: string }): boolean {
+  return (
+    (order.payment === "E-Wallet" || order.payment === "Bank Transfer") &&
+    order.status !== "Cancelled" &&
+    (order.paymentStatus === "pending" || order.paymentStatus === "failed")
+  );
+}
+
+/**
+ * Upfront payments (card, e-wallet, bank transfer) must be paid before the shop starts
+ * preparing the order. Mirrors fn_require_payment_before_preparing.
+ */
+export function awaitsPaymentBeforePreparing(order: { payment?: string | null; paymentStatus?: string | null }): boolean {
+  return (order.payment ?? "Cash") !== "Cash" && order.paymentStatus !== "paid";
+}
+
+async function invokePayments<T>(body: Record<string, unknown>): Promise<T> {
+  const { data, error } = await supabase.functions.invoke("payments", { body });
+  if (error) {
+    // Non-2xx responses carry the function's own error message in the body
+    const response = (error as any).context as Response | undefined;
+    const message = await response?.json?.().then((b: any) => b?.error).catch(() => null);
+    throw new Error(message || error.message);
+  }
+  return data as T;
+}
+
+/**
+ * Start (or retry) the card payment of one of the signed-in customer's orders
+ */
+export async function createPaymentIntent(orderId: string): Promise<PaymentIntentResult> {
+  try {
+    return await invokePayments<PaymentIntentResult>({
+      action: "create-intent",
+      orderId,
+      returnUrl: `${window.location.origin}/orders`,
+    });
+  } catch (error) {
+    console.error("Error creating payment intent:", error);
+    throw error;
+  }
+}
+
+/**
+ * Pay a mock-provider intent with a test card number. Returns the resulting payment status.
+ */
+export async function confirmMockPayment(
+  paymentId: string,
+  cardNumber: string
+): Promise<{ status: string; failureReason: string | null }> {
+  try {
+    return await invokePayments({ action: "mock-confirm", paymentId, cardNumber: cardNumber.replace(/\D/g, "") });
+  } catch (error) {
+    console.error("Error confirming payment:", error);
+    throw error;
+  }
+}
+
+/**
+ * Refund part or all of a completed payment (admin only). Omit the amount for a full refund.
+ */
+export async function refundPayment(paymentId: string, amount?: number, reason?: string): Promise<void> {
+  try {
+    await invokePayments({ action: "refund", paymentId, amount: amount ?? null, reason: reason?.trim() || null });
+  } catch (error) {
+    console.error("Error refunding payment:", error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch an order's payment attempts and their refunds, newest first
+ */
+export async function fetchOrderPayments(orderId: string): Promise<OrderPayment[]> {
+  try {
+    const { data, error } = await supabase
+      .from("payments")
+      .select("id, provider, reference, amount, refunded_amount, status, failure_reason, created_at, payment_refunds(id, amount, reason, status, created_at)")
+      .eq("order_id", orderId)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      provider: row.provider,
+      reference: row.reference,
+      amount: row.amount,
+      refundedAmount: row.refunded_amount ?? 0,
+      status: row.status,
+      failureReason: row.failure_reason ?? null,
+      createdAt: row.created_at,
+      refunds: (row.payment_refunds || []).map((r: any) => ({
+        id: r.id,
+        amount: r.amount,
+        reason: r.reason ?? null,
+        status: r.status,
+        createdAt: r.created_at,
+      })),
+    }));
+  } catch (error) {
+    console.error("Error fetching order payments:", error);
+    throw error;
+  }
+}
+
+const PAYMENT_PROOF_BUCKET = "payment-proofs";
+
+export interface PaymentInstructions {
+  ewallet: string;
+  bankTransfer: string;
+}
+
+export interface PaymentProof {
+  id: string;
+  orderId: string;
+  orderNumber: string | null;
+  customerName: string | null;
+  payment: string;
+  amount: number;
+  filePath: string;
+  referenceNumber: string | null;
+  status: "submitted" | "approved" | "rejected";
+  reviewNote: string | null;
+  createdAt: string;
+}
+
+function mapPaymentProof(row: any): PaymentProof {
+  const order = Array.isArray(row.orders) ? row.orders[0] : row.orders;
+  const profile = Array.isArray(order?.profiles) ? order.profiles[0] : order?.profiles;
+  return {
+    id: row.id,
+    orderId: row.order_id,
+    orderNumber: order?.order_number ?? null,
+    customerName: profile?.full_name ?? null,
+    payment: order?.payment ?? "",
+    amount: order?.total_amount ?? 0,
+    filePath: row.file_path,
+    referenceNumber: row.reference_number ?? null,
+    status: row.status,
+    reviewNote: row.review_note ?? null,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Load the e-wallet and bank account details customers send their payment to
+ */
+export async function fetchPaymentInstructions(): Promise<PaymentInstructions> {
+  try {
+    const { data, error } = await supabase
+      .from("shop_settings")
+      .select("ewallet_instructions, bank_transfer_instructions")
+      .maybeSingle();
+
+    if (error) throw error;
+    return {
+      ewallet: data?.ewallet_instructions ?? "",
+      bankTransfer: data?.bank_transfer_instructions ?? "",
+    };
+  } catch (error) {
+    console.error("Error fetching payment instructions:", error);
+    return { ewallet: "", bankTransfer: "" };
+  }
+}
+
+/**
+ * Upload a proof-of-payment image for one of the signed-in customer's orders and submit
+ * it for verification
+ */
+export async function submitPaymentProof(orderId: string, file: File, referenceNumber?: string): Promise<void> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error("Please sign in to upload your payment");
+
+    const extension = file.name.split(".").pop()?.toLowerCase() || "jpg";
+    const filePath = `${user.id}/${orderId}/${Date.now()}.${extension}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(PAYMENT_PROOF_BUCKET)
+      .upload(filePath, file, { contentType: file.type, upsert: false });
+    if (uploadError) throw uploadError;
+
+    const { error } = await supabase.rpc("submit_payment_proof", {
+      p_order_id: orderId,
+      p_file_path: filePath,
+      p_reference_number: referenceNumber?.trim() || null,
+    });
+    if (error) throw error;
+  } catch (error) {
+    console.error("Error submitting payment proof:", error);
+    throw error;
+  }
+}
+
+/**
+ * Proofs waiting for an admin to verify them, oldest first
+ */
+export async function fetchPendingPaymentProofs(): Promise<PaymentProof[]> {
+  try {
+    const { data, error } = await supabase
+      .from("payment_proofs")
+      .select("*, orders(order_number, payment, total_amount, profiles:user_id(full_name))")
+      .eq("status", "submitted")
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(mapPaymentProof);
+  } catch (error) {
+    console.error("Error fetching payment proofs:", error);
+    throw error;
+  }
+}
+
+/**
+ * Short-lived link to view a proof image from the private bucket
+ */
+export async function getPaymentProofUrl(filePath: string): Promise<string> {
+  const { data, error } = await supabase.storage.from(PAYMENT_PROOF_BUCKET).createSignedUrl(filePath, 60 * 10);
+  if (error) {
+    console.error("Error creating payment proof link:", error);
+    throw error;
+  }
+  return data.signedUrl;
+}
+
+/**
+ * Approve a proof (the order becomes paid) or reject it with a reason for the customer
+ */
+export async function reviewPaymentProof(proofId: string, approve: boolean, note?: string): Promise<void> {
+  try {
+    const { error } = await supabase.rpc("review_payment_proof", {
+      p_proof_id: proofId,
+      p_approve: approve,
+      p_note: note?.trim() || null,
+    });
+    if (error) throw error;
+  } catch (error) {
+    console.error("Error reviewing payment proof:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,131 @@
+// src/services/productInventoryService.ts
+// Frontend service for product stock: availability shown in the shop and checked before
+// checkout, and the admin restock and bill of materials tools. Stock is reserved and
+// released by database triggers on orders.
+
+import supabase from "./supabaseClient";
+import { invalidateCatalog } from "./catalogService";
+import type { Product } from "../data/products";
+
+export interface ProductStock {
+  /** null when the product has no stock count */
+  stockOnHand: number | null;
+  /** null when there is no daily limit */
+  dailyCapacity: number | null;
+  availableQuantity: number | null;
+}
+
+/** Stems of one flower type used by one unit of a product */
+export interface ProductComponent {
+  flowerTypeId: string;
+  stems: number;
+}
+
+export function isSoldOut(product: Pick<Product, "availableQuantity">): boolean {
+  return product.availableQuantity === 0;
+}
+
+/**
+ * Fetch how many units of each product can still be ordered (null = unlimited)
+ */
+export async function fetchProductAvailability(productIds: string[]): Promise<Record<string, number | null>> {
+  if (productIds.length === 0) return {};
+  try {
+    const { data, error } = await supabase
+      .from("products")
+      .select("id, available_quantity")
+      .in("id", productIds);
+
+    if (error) throw error;
+    const availability: Record<string, number | null> = {};
+    (data || []).forEach((row: any) => {
+      availability[row.id] = row.available_quantity ?? null;
+    });
+    return availability;
+  } catch (error) {
+    console.error("Error fetching product availability:", error);
+    throw error;
+  }
+}
+
+/** jsonb returned by adjust_product_stock */
+interface ProductStockRow {
+  stock_on_hand: number | null;
+  daily_capacity: number | null;
+  available_quantity: number | null;
+}
+
+/**
+ * Restock a product (positive change) or correct its count after a stock take
+ */
+export async function adjustProductStock(
+  productId: string,
+  change: number,
+  reason: "restock" | "adjustment" = "restock",
+  note?: string
+): Promise<ProductStock> {
+  try {
+    const { data, error } = await supabase.rpc("adjust_product_stock", {
+      p_product_id: productId,
+      p_change: change,
+      p_reason: reason,
+      p_note: note ?? null,
+    });
+
+    if (error) throw error;
+    invalidateCatalog();
+    const stock = data as unknown as ProductStockRow;
+    return {
+      stockOnHand: stock.stock_on_hand ?? null,
+      dailyCapacity: stock.daily_capacity ?? null,
+      availableQuantity: stock.available_quantity ?? null,
+    };
+  } catch (error) {
+    console.error("Error adjusting product stock:", error);
+    throw error;
+  }
+}
+
+/**
+ * Fetch a product's bill of materials
+ */
+export async function fetchProductComponents(productId: string): Promise<ProductComponent[]> {
+  try {
+    const { data, error } = await supabase
+      .from("product_components")
+      .select("flower_type_id, stems")
+      .eq("product_id", productId);
+
+    if (error) throw error;
+    return (data || []).map((row: any) => ({ flowerTypeId: row.flower_type_id, stems: row.stems }));
+  } catch (error) {
+    console.error("Error fetching product components:", error);
+    throw error;
+  }
+}
+
+/**
+ * Replace a product's bill of materials
+ */
+export async function saveProductComponents(productId: string, components: ProductComponent[]): Promise<void> {
+  try {
+    const { error: deleteError } = await supabase.from("product_components").delete().eq("product_id", productId);
+    if (deleteError) throw deleteError;
+
+    // One row per flower type; the same flower listed twice is added up
+    const stemsByFlower = new Map<string, number>();
+    components
+      .filter((c) => c.stems > 0)
+      .forEach((c) => stemsByFlower.set(c.flowerTypeId, (stemsByFlower.get(c.flowerTypeId) ?? 0) + Math.round(c.stems)));
+    const rows = Array.from(stemsByFlower, ([flowerTypeId, stems]) => ({ product_id: productId, flower_type_id: flowerTypeId, stems }));
+    if (rows.length > 0) {
+      const { error } = await supabase.from("product_components").insert(rows);
+      if (error) throw error;
+    }
+    // Available quantities depend on the bill of materials
+    invalidateCatalog();
+  } catch (error) {
+    console.error("Error saving product components:", error);
+    throw error;
+  }
+}
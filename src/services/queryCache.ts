@@ -0,0 +1,37 @@
+// src/services/queryCache.ts
+// In-memory cache for read queries shared across pages. Callers asking for the same key
+// share one request, results are reused until they go stale, and writes drop the keys
+// they affect by prefix.
+
+interface CacheEntry {
+  promise: Promise<unknown>;
+  expiresAt: number;
+}
+
+export const DEFAULT_STALE_MS = 60_000;
+
+const entries = new Map<string, CacheEntry>();
+
+/**
+ * Return the cached result for a key, or run the query and cache it. Failed queries are
+ * not cached, so the next caller retries.
+ */
+export function cachedQuery<T>(key: string, query: () => Promise<T>, staleMs = DEFAULT_STALE_MS): Promise<T> {
+  const now = Date.now();
+  const entry = entries.get(key);
+  if (entry && entry.expiresAt > now) return entry.promise as Promise<T>;
+
+  const promise = query();
+  entries.set(key, { promise, expiresAt: now + staleMs });
+  promise.catch(() => {
+    if (entries.get(key)?.promise === promise) entries.delete(key);
+  });
+  return promise;
+}
+
+/** Drop every cached query whose key starts with the prefix */
+export function invalidateQueries(prefix: string): void {
+  for (const key of Array.from(entries.keys())) {
+    if (key.startsWith(prefix)) entries.delete(key);
+  }
+}
@@ -0,0 +1,210 @@
+// src/services/scheduleService.ts
+// Frontend service for scheduled delivery and pickup: time slots, blackout dates and the
+// lead-time rules. available_time_slots applies the same checks place_order does.
+
+import supabase from "./supabaseClient";
+
+export type SlotAppliesTo = "delivery" | "pickup" | "both";
+
+export interface TimeSlot {
+  id: string;
+  label: string;
+  /** "HH:MM:SS" shop time */
+  startTime: string;
+  endTime: string;
+  appliesTo: SlotAppliesTo;
+  /** Orders per day; null for no limit */
+  capacity: number | null;
+  /** 0 = Sunday */
+  weekdays: number[];
+  active: boolean;
+  sortOrder: number;
+}
+
+export interface AvailableSlot {
+  id: string;
+  label: string;
+  startTime: string;
+  endTime: string;
+  /** Null when the slot has no capacity limit */
+  remaining: number | null;
+  available: boolean;
+  reason: string | null;
+}
+
+export interface ScheduleRules {
+  minLeadMinutes: number;
+  maxDaysAhead: number;
+  /** "YYYY-MM-DD" */
+  blackoutDates: { date: string; reason: string | null }[];
+}
+
+export const DEFAULT_SCHEDULE_RULES: ScheduleRules = { minLeadMinutes: 120, maxDaysAhead: 60, blackoutDates: [] };
+
+export function mapTimeSlot(row: any): TimeSlot {
+  return {
+    id: row.id,
+    label: row.label,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    appliesTo: row.applies_to ?? "both",
+    capacity: row.capacity ?? null,
+    weekdays: row.weekdays ?? [0, 1, 2, 3, 4, 5, 6],
+    active: row.active ?? true,
+    sortOrder: row.sort_order ?? 0,
+  };
+}
+
+/** "09:00:00" as "9:00 AM" */
+export function formatSlotTime(time: string): string {
+  const [hours, minutes] = time.split(":").map(Number);
+  const suffix = hours >= 12 ? "PM" : "AM";
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, "0")} ${suffix}`;
+}
+
+/** Local calendar date as "YYYY-MM-DD", without a UTC shift */
+export function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+/** "YYYY-MM-DD" as e.g. "Sat, Feb 14, 2026" */
+export function formatScheduleDate(dateKey: string): string {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+/**
+ * Fetch every time slot, for the admin screen
+ */
+export async function fetchTimeSlots(): Promise<TimeSlot[]> {
+  try {
+    const { data, error } = await supabase.from("time_slots").select("*").order("sort_order").order("start_time");
+    if (error) throw error;
+    return (data || []).map(mapTimeSlot);
+  } catch (error) {
+    console.error("Error fetching time slots:", error);
+    throw error;
+  }
+}
+
+/**
+ * Load lead time, booking window and upcoming blackout dates
+ */
+export async function fetchScheduleRules(): Promise<ScheduleRules> {
+  try {
+    const [{ data: settings, error: settingsError }, { data: blackouts, error: blackoutError }] = await Promise.all([
+      supabase.from("shop_settings").select("min_lead_minutes, max_days_ahead").maybeSingle(),
+      supabase
+        .from("blackout_dates")
+        .select("date, reason")
+        .gte("date", toDateKey(new Date()))
+        .order("date"),
+    ]);
+
+    if (settingsError) throw settingsError;
+    if (blackoutError) throw blackoutError;
+
+    return {
+      minLeadMinutes: settings?.min_lead_minutes ?? DEFAULT_SCHEDULE_RULES.minLeadMinutes,
+      maxDaysAhead: settings?.max_days_ahead ?? DEFAULT_SCHEDULE_RULES.maxDaysAhead,
+      blackoutDates: (blackouts || []).map((row: any) => ({ date: row.date, reason: row.reason ?? null })),
+    };
+  } catch (error) {
+    console.error("Error fetching schedule rules:", error);
+    return DEFAULT_SCHEDULE_RULES;
+  }
+}
+
+/** Element of the jsonb array returned by available_time_slots */
+interface AvailableSlotRow {
+  id: string;
+  label: string;
+  start_time: string;
+  end_time: string;
+  remaining: number | null;
+  available: boolean;
+  reason: string | null;
+}
+
+/**
+ * Slots offered on a date for delivery to an address, or for pickup
+ */
+export async function fetchAvailableSlots(
+  dateKey: string,
+  deliveryOption: "delivery" | "pickup",
+  city?: string | null,
+  zipCode?: string | null
+): Promise<AvailableSlot[]> {
+  try {
+    const { data, error } = await supabase.rpc("available_time_slots", {
+      p_date: dateKey,
+      p_delivery_option: deliveryOption,
+      p_city: city || null,
+      p_zip_code: zipCode || null,
+    });
+
+    if (error) throw error;
+    const slots = (data as unknown as AvailableSlotRow[] | null) || [];
+    return slots.map((row) => ({
+      id: row.id,
+      label: row.label,
+      startTime: row.start_time,
+      endTime: row.end_time,
+      remaining: row.remaining ?? null,
+      available: row.available,
+      reason: row.reason ?? null,
+    }));
+  } catch (error) {
+    console.error("Error fetching available time slots:", error);
+    throw error;
+  }
+}
+
+/**
+ * Save the lead time and booking window (admin only)
+ */
+export async function updateScheduleSettings(minLeadMinutes: number, maxDaysAhead: number): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from("shop_settings")
+      .update({ min_lead_minutes: minLeadMinutes, max_days_ahead: maxDaysAhead, updated_at: new Date().toISOString() })
+      .eq("id", true);
+    if (error) throw error;
+  } catch (error) {
+    console.error("Error updating schedule settings:", error);
+    throw error;
+  }
+}
+
+/**
+ * Close the shop for a day (admin only)
+ */
+export async function addBlackoutDate(dateKey: string, reason?: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from("blackout_dates")
+      .upsert({ date: dateKey, reason: reason?.trim() || null }, { onConflict: "date" });
+    if (error) throw error;
+  } catch (error) {
+    console.error("Error adding blackout date:", error);
+    throw error;
+  }
+}
+
+/**
+ * Reopen a blacked-out day (admin only)
+ */
+export async function removeBlackoutDate(dateKey: string): Promise<void> {
+  try {
+    const { error } = await supabase.from("blackout_dates").delete().eq("date", dateKey);
+    if (error) throw error;
+  } catch (error) {
+    console.error("Error removing blackout date:", error);
+    throw error;
+  }
+}
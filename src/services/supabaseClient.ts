@@ -1,5 +1,6 @@
 // src/services/supabaseClient.ts
 import { createClient } from '@supabase/supabase-js';
+import type { Database } from './database.types';
 
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL as string;
 const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY as string;
@@ -9,6 +10,7 @@ if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
   console.warn('VITE_SUPABASE_URL or VITE_SUPABASE_ANON_KEY is not set. Add them to .env.local');
 }
 
-export const supabase = createClient(SUPABASE_URL ?? '', SUPABASE_ANON_KEY ?? '');
+// Typed against database.types.ts; run `npm run gen:types` after applying a migration.
+export const supabase = createClient<Database>(SUPABASE_URL ?? '', SUPABASE_ANON_KEY ?? '');
 
 export default supabase;
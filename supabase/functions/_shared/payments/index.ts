@@ -0,0 +1,52 @@
+// supabase/functions/_shared/payments/index.ts
+// Payment provider registry and the database side of payment events.
+// To add a real gateway, implement PaymentProvider in its own file, register it in
+// `providers`, and set PAYMENT_PROVIDER to its name. The mock provider is only registered
+// when ENABLE_MOCK_PAYMENTS is "true".
+
+// @ts-ignore - ESM imports from esm.sh work fine at runtime with Deno
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { MockPaymentProvider, isMockPaymentsEnabled } from "./mock.ts";
+import type { PaymentEvent, PaymentProvider } from "./types.ts";
+
+export * from "./types.ts";
+
+const providers: Record<string, () => PaymentProvider> = {
+  ...(isMockPaymentsEnabled() ? { mock: () => new MockPaymentProvider() } : {}),
+};
+
+/**
+ * The provider new intents are created with (PAYMENT_PROVIDER), or a named one for
+ * webhooks and refunds of existing payments
+ */
+export function getPaymentProvider(name?: string | null): PaymentProvider {
+  // @ts-ignore: Deno globals
+  const providerName = name || (Deno.env.get("PAYMENT_PROVIDER") as string);
+  if (!providerName) {
+    throw new Error("PAYMENT_PROVIDER is not set");
+  }
+  const create = providers[providerName];
+  if (!create) {
+    throw new Error(`Unknown payment provider: ${providerName}`);
+  }
+  return create();
+}
+
+/**
+ * Record a verified event against its payment or refund (at most once per event id)
+ */
+export async function applyPaymentEvent(
+  supabase: SupabaseClient,
+  provider: PaymentProvider,
+  event: PaymentEvent
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc("apply_payment_event", {
+    p_provider: provider.name,
+    p_event_id: event.id,
+    p_type: event.type,
+    p_reference: event.reference,
+    p_payload: { ...(event.payload as object), failure_reason: event.failureReason ?? null },
+  });
+  if (error) throw error;
+  return Boolean(data?.applied);
+}
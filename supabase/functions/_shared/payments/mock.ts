@@ -0,0 +1,110 @@
+// supabase/functions/_shared/payments/mock.ts
+// Local payment provider for development and tests. Intents never touch a real gateway:
+// the customer "pays" with a test card in the app, and the payments function turns that
+// into a signed webhook event exactly like a real gateway would send.
+// It is only available when ENABLE_MOCK_PAYMENTS is "true" and MOCK_PAYMENT_WEBHOOK_SECRET
+// is set, so a production deploy never accepts mock events by accident.
+
+import type {
+  CreateIntentInput,
+  PaymentEvent,
+  PaymentEventType,
+  PaymentIntent,
+  PaymentProvider,
+  Refund,
+  RefundInput,
+} from "./types.ts";
+
+/** Whether this deploy offers the mock provider (ENABLE_MOCK_PAYMENTS=true) */
+export function isMockPaymentsEnabled(): boolean {
+  // @ts-ignore: Deno globals
+  return Deno.env.get("ENABLE_MOCK_PAYMENTS") === "true";
+}
+
+// Fails closed: without a secret no webhook can be signed or verified
+function webhookSecret(): string {
+  // @ts-ignore: Deno globals
+  const secret = Deno.env.get("MOCK_PAYMENT_WEBHOOK_SECRET") as string | undefined;
+  if (!secret) {
+    throw new Error("MOCK_PAYMENT_WEBHOOK_SECRET is not set");
+  }
+  return secret;
+}
+
+/** Card numbers the mock accepts; anything else is declined */
+export const MOCK_SUCCESS_CARD = "4242424242424242";
+
+const encoder = new TextEncoder();
+
+async function sign(body: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(webhookSecret()),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(body));
+  return Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = "mock";
+
+  async createIntent(_input: CreateIntentInput): Promise<PaymentIntent> {
+    return {
+      reference: `mock_pi_${crypto.randomUUID()}`,
+      status: "requires_action",
+      clientSecret: null,
+      redirectUrl: null,
+    };
+  }
+
+  async cancelIntent(_reference: string): Promise<void> {
+    // Nothing to cancel: a mock intent is only paid through mock-confirm
+  }
+
+  async refund(_input: RefundInput): Promise<Refund> {
+    return { reference: `mock_re_${crypto.randomUUID()}`, status: "succeeded" };
+  }
+
+  async parseWebhook(req: Request): Promise<PaymentEvent> {
+    const body = await req.text();
+    const signature = req.headers.get("x-mock-signature") ?? "";
+    if (signature !== (await sign(body))) {
+      throw new Error("Invalid webhook signature");
+    }
+
+    const event = JSON.parse(body);
+    return {
+      id: event.id,
+      type: event.type,
+      reference: event.reference,
+      failureReason: event.failure_reason ?? null,
+      payload: event,
+    };
+  }
+
+  /**
+   * Build the signed webhook request the mock gateway would send after the customer
+   * enters a test card
+   */
+  async buildWebhook(reference: string, cardNumber: string): Promise<Request> {
+    const succeeded = cardNumber.replace(/\s/g, "") === MOCK_SUCCESS_CARD;
+    const type: PaymentEventType = succeeded ? "payment.succeeded" : "payment.failed";
+    const body = JSON.stringify({
+      id: `mock_evt_${crypto.randomUUID()}`,
+      type,
+      reference,
+      failure_reason: succeeded ? null : "Your card was declined",
+    });
+
+    return new Request("http://mock/payment-webhook", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "x-mock-signature": await sign(body) },
+      body,
+    });
+  }
+}
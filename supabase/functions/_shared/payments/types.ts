@@ -0,0 +1,67 @@
+// supabase/functions/_shared/payments/types.ts
+// The interface every payment gateway is wrapped in. The payments and payment-webhook
+// Edge Functions only talk to a PaymentProvider, never to a gateway SDK directly.
+
+export interface CreateIntentInput {
+  orderId: string;
+  orderNumber: string | null;
+  /** Whole pesos, as stored on orders.total_amount */
+  amount: number;
+  currency: string;
+  customerEmail?: string | null;
+  /** Where the gateway should send the customer back after a hosted checkout page */
+  returnUrl?: string | null;
+}
+
+export interface PaymentIntent {
+  /** The gateway's id for this intent, stored as payments.reference */
+  reference: string;
+  status: "requires_action" | "processing" | "succeeded" | "failed";
+  /** Passed to the gateway's browser SDK, if it has one */
+  clientSecret?: string | null;
+  /** Hosted checkout page to send the customer to, if the gateway uses one */
+  redirectUrl?: string | null;
+}
+
+export interface RefundInput {
+  /** payments.reference of the payment being refunded */
+  reference: string;
+  amount: number;
+  currency: string;
+  reason?: string | null;
+}
+
+export interface Refund {
+  reference: string;
+  status: "pending" | "succeeded" | "failed";
+}
+
+export type PaymentEventType =
+  | "payment.succeeded"
+  | "payment.failed"
+  | "payment.processing"
+  | "payment.cancelled"
+  | "refund.succeeded"
+  | "refund.failed";
+
+/** A webhook call, verified and translated into the shop's own terms */
+export interface PaymentEvent {
+  /** The gateway's event id; events are applied at most once */
+  id: string;
+  type: PaymentEventType;
+  /** Payment intent reference, or the refund reference for refund events */
+  reference: string;
+  failureReason?: string | null;
+  payload: unknown;
+}
+
+export interface PaymentProvider {
+  /** Stored as payments.provider and used to route webhooks (?provider=name) */
+  readonly name: string;
+  createIntent(input: CreateIntentInput): Promise<PaymentIntent>;
+  /** Cancel an intent the customer has not paid yet; throws if it can no longer be cancelled */
+  cancelIntent(reference: string): Promise<void>;
+  refund(input: RefundInput): Promise<Refund>;
+  /** Verify the webhook signature and parse it; throws if the request is not authentic */
+  parseWebhook(req: Request): Promise<PaymentEvent>;
+}
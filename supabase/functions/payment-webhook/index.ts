@@ -0,0 +1,45 @@
+// supabase/functions/payment-webhook/index.ts
+// Edge Function that receives payment gateway callbacks: POST /payment-webhook?provider=<name>.
+// The provider verifies the signature; the event is then applied once through
+// apply_payment_event. Deploy with --no-verify-jwt since gateways do not send a user token.
+// @ts-ignore - ESM imports from esm.sh work fine at runtime with Deno
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { applyPaymentEvent, getPaymentProvider } from "../_shared/payments/index.ts";
+
+// @ts-ignore: Deno globals
+const supabaseUrl = Deno.env.get("SUPABASE_URL") as string;
+// @ts-ignore: Deno globals
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") as string;
+
+export const handler = async (req: Request): Promise<Response> => {
+  if (req.method !== "POST") {
+    return new Response(JSON.stringify({ error: "Method not allowed" }), { status: 405, headers: corsHeaders });
+  }
+
+  let provider;
+  let event;
+  try {
+    provider = getPaymentProvider(new URL(req.url).searchParams.get("provider"));
+    event = await provider.parseWebhook(req);
+  } catch (error) {
+    console.error("Rejected payment webhook:", error);
+    return new Response(JSON.stringify({ error: "Invalid webhook" }), { status: 400, headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const applied = await applyPaymentEvent(supabase, provider, event);
+    return new Response(JSON.stringify({ received: true, applied }), { status: 200, headers: corsHeaders });
+  } catch (error) {
+    // A 5xx makes the gateway retry the event later
+    console.error("Failed to apply payment webhook:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : String(error) }),
+      { status: 500, headers: corsHeaders }
+    );
+  }
+};
+
+// @ts-ignore: Deno globals
+Deno.serve(handler);
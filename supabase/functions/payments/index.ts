@@ -0,0 +1,205 @@
+// supabase/functions/payments/index.ts
+// Edge Function for card payments, called from the frontend with the user's session:
+//   { action: "create-intent", orderId }          customer starts (or retries) paying a card order
+//   { action: "mock-confirm", paymentId, cardNumber }  test card entry for the mock provider
+//   { action: "refund", paymentId, amount?, reason? }  admin refunds part or all of a payment
+// @ts-ignore - ESM imports from esm.sh work fine at runtime with Deno
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { MockPaymentProvider, isMockPaymentsEnabled } from "../_shared/payments/mock.ts";
+import { applyPaymentEvent, getPaymentProvider } from "../_shared/payments/index.ts";
+
+// @ts-ignore: Deno globals
+const supabaseUrl = Deno.env.get("SUPABASE_URL") as string;
+// @ts-ignore: Deno globals
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") as string;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: corsHeaders });
+
+export const handler = async (req: Request): Promise<Response> => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const token = (req.headers.get("Authorization") ?? "").replace(/^Bearer\s+/i, "");
+    const { data: authData, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !authData?.user) {
+      return json({ error: "Please sign in to continue" }, 401);
+    }
+    const user = authData.user;
+
+    const body = await req.json();
+
+    if (body.action === "create-intent") {
+      const { data: order, error: orderError } = await supabase
+        .from("orders")
+        .select("id, user_id, order_number, total_amount, status, payment, payment_status")
+        .eq("id", body.orderId)
+        .maybeSingle();
+      if (orderError) throw orderError;
+      if (!order || order.user_id !== user.id) {
+        return json({ error: "Order not found" }, 404);
+      }
+      if (order.payment !== "Card") {
+        return json({ error: "This order is not paid by card" }, 400);
+      }
+      if (order.status === "Cancelled" || !["pending", "failed"].includes(order.payment_status)) {
+        return json({ error: "This order does not need a payment" }, 400);
+      }
+
+      // Close the customer's earlier attempts first so two intents can never both be paid
+      const { data: openPayments, error: openError } = await supabase
+        .from("payments")
+        .select("id, provider, reference, status")
+        .eq("order_id", order.id)
+        .in("status", ["requires_action", "processing"]);
+      if (openError) throw openError;
+      if ((openPayments ?? []).some((open: { status: string }) => open.status === "processing")) {
+        return json({ error: "A payment for this order is already being processed" }, 409);
+      }
+      for (const open of openPayments ?? []) {
+        await getPaymentProvider(open.provider).cancelIntent(open.reference);
+        const { error: cancelError } = await supabase
+          .from("payments")
+          .update({ status: "cancelled", updated_at: new Date().toISOString() })
+          .eq("id", open.id)
+          .eq("status", "requires_action");
+        if (cancelError) throw cancelError;
+      }
+
+      const provider = getPaymentProvider();
+      const intent = await provider.createIntent({
+        orderId: order.id,
+        orderNumber: order.order_number,
+        amount: order.total_amount,
+        currency: "PHP",
+        customerEmail: user.email,
+        returnUrl: body.returnUrl ?? null,
+      });
+
+      const { data: payment, error: paymentError } = await supabase
+        .from("payments")
+        .insert({
+          order_id: order.id,
+          provider: provider.name,
+          reference: intent.reference,
+          amount: order.total_amount,
+          status: intent.status,
+        })
+        .select()
+        .single();
+      // idx_payments_order_open: another request opened an intent for this order meanwhile
+      if (paymentError?.code === "23505") {
+        await provider.cancelIntent(intent.reference);
+        return json({ error: "A payment for this order is already in progress" }, 409);
+      }
+      if (paymentError) throw paymentError;
+
+      const { error: updateError } = await supabase
+        .from("orders")
+        .update({ payment_status: "pending", payment_provider: provider.name, payment_reference: intent.reference })
+        .eq("id", order.id);
+      if (updateError) throw updateError;
+
+      return json({
+        paymentId: payment.id,
+        provider: provider.name,
+        reference: intent.reference,
+        amount: payment.amount,
+        status: payment.status,
+        clientSecret: intent.clientSecret ?? null,
+        redirectUrl: intent.redirectUrl ?? null,
+      });
+    }
+
+    const { data: payment, error: paymentError } = await supabase
+      .from("payments")
+      .select("*, orders(user_id)")
+      .eq("id", body.paymentId)
+      .maybeSingle();
+    if (paymentError) throw paymentError;
+    if (!payment) {
+      return json({ error: "Payment not found" }, 404);
+    }
+
+    if (body.action === "mock-confirm") {
+      if (!isMockPaymentsEnabled() || payment.provider !== "mock" || payment.orders?.user_id !== user.id) {
+        return json({ error: "Payment not found" }, 404);
+      }
+      if (payment.status !== "requires_action") {
+        return json({ error: "This payment was already processed; start a new one to retry" }, 400);
+      }
+
+      // Same path as a real gateway: a signed webhook, verified and applied
+      const provider = new MockPaymentProvider();
+      const webhook = await provider.buildWebhook(payment.reference, String(body.cardNumber ?? ""));
+      await applyPaymentEvent(supabase, provider, await provider.parseWebhook(webhook));
+
+      const { data: updated, error: updatedError } = await supabase
+        .from("payments")
+        .select("id, status, failure_reason")
+        .eq("id", payment.id)
+        .single();
+      if (updatedError) throw updatedError;
+      return json({ paymentId: updated.id, status: updated.status, failureReason: updated.failure_reason });
+    }
+
+    if (body.action === "refund") {
+      const { data: profile } = await supabase.from("profiles").select("role").eq("id", user.id).maybeSingle();
+      if (profile?.role !== "admin") {
+        return json({ error: "Only admins can issue refunds" }, 403);
+      }
+      if (payment.status !== "succeeded") {
+        return json({ error: "Only completed payments can be refunded" }, 400);
+      }
+
+      // Refunds still pending with the gateway count against what is left;
+      // record_payment_refund checks the same limit again under a lock
+      const { data: pendingRefunds, error: pendingError } = await supabase
+        .from("payment_refunds")
+        .select("amount")
+        .eq("payment_id", payment.id)
+        .eq("status", "pending");
+      if (pendingError) throw pendingError;
+      const pendingAmount = (pendingRefunds ?? []).reduce((sum: number, refund: { amount: number }) => sum + refund.amount, 0);
+      const refundable = payment.amount - payment.refunded_amount - pendingAmount;
+      const amount = body.amount == null ? refundable : Math.round(Number(body.amount));
+      if (!(amount > 0) || amount > refundable) {
+        return json({ error: `Refund must be between ₱1 and ₱${refundable}` }, 400);
+      }
+
+      const provider = getPaymentProvider(payment.provider);
+      const refund = await provider.refund({
+        reference: payment.reference,
+        amount,
+        currency: payment.currency,
+        reason: body.reason ?? null,
+      });
+
+      const { data: recorded, error: refundError } = await supabase.rpc("record_payment_refund", {
+        p_payment_id: payment.id,
+        p_amount: amount,
+        p_reason: body.reason ?? null,
+        p_reference: refund.reference,
+        p_status: refund.status,
+        p_created_by: user.id,
+      });
+      if (refundError) throw refundError;
+
+      return json({ refundId: recorded.id, amount, status: recorded.status });
+    }
+
+    return json({ error: `Unknown action: ${body.action}` }, 400);
+  } catch (error) {
+    console.error("Payment error:", error);
+    return json({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+};
+
+// @ts-ignore: Deno globals
+Deno.serve(handler);